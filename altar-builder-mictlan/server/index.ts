@@ -0,0 +1,15 @@
+import { createSignalingServer } from './signaling-server';
+
+// Same variable and default the client reads into API_ENDPOINTS.COLLABORATION_SERVER
+const url = new URL(process.env.VITE_COLLABORATION_SERVER || 'ws://localhost:3001');
+const port = Number(process.env.SIGNALING_PORT || url.port || 3001);
+
+const server = await createSignalingServer({ port, host: url.hostname });
+console.log(`Signaling server listening on ws://${url.hostname}:${server.port}`);
+
+const shutdown = () => {
+  server.close().finally(() => process.exit(0));
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,247 @@
+import { randomBytes } from 'node:crypto';
+import { WebSocketServer, type WebSocket } from 'ws';
+import {
+  MAX_PEERS_PER_ROOM,
+  parseClientMessage,
+  type RelayedAction,
+  type ServerSignalingMessage,
+  type SignalingErrorCode
+} from '../src/engines/collaboration/signaling-protocol';
+
+export interface SignalingServerOptions {
+  port: number;
+  host?: string;
+  maxPeersPerRoom?: number;
+  // Relayed actions kept per room for clients resuming after a reconnect
+  relayLogSize?: number;
+}
+
+export interface SignalingServer {
+  // Actual port, useful when listening on port 0
+  port: number;
+  // Peer ids per room, for presence and diagnostics
+  rooms(): Map<string, string[]>;
+  close(): Promise<void>;
+}
+
+interface Member {
+  roomId: string;
+  peerId: string;
+}
+
+interface RelayEntry {
+  seq: number;
+  from: string;
+  except: string[];
+  action: RelayedAction;
+}
+
+interface Room {
+  // Peer that opened the room; guests take moderation only from it
+  hostId: string;
+  members: Map<string, WebSocket>;
+  // Secret per peer id, proving a resuming socket belongs to the same client.
+  // Kept after a socket drops, so the client can resume once it is back.
+  resumeTokens: Map<string, string>;
+  seq: number;
+  log: RelayEntry[];
+}
+
+const DEFAULT_RELAY_LOG_SIZE = 256;
+
+/**
+ * Start a signaling server that groups sockets into rooms, announces peers
+ * joining and leaving, and relays SDP/ICE messages between them. For peers
+ * without a working data channel it also relays collaboration actions,
+ * numbering them so reconnecting clients can catch up.
+ */
+export function createSignalingServer(options: SignalingServerOptions): Promise<SignalingServer> {
+  const maxPeers = options.maxPeersPerRoom ?? MAX_PEERS_PER_ROOM;
+  const relayLogSize = options.relayLogSize ?? DEFAULT_RELAY_LOG_SIZE;
+  const rooms = new Map<string, Room>();
+  const wss = new WebSocketServer({ port: options.port, host: options.host });
+
+  const send = (socket: WebSocket, message: ServerSignalingMessage) => {
+    if (socket.readyState === socket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  const sendError = (socket: WebSocket, code: SignalingErrorCode, message: string) => {
+    send(socket, { type: 'error', code, message });
+  };
+
+  const broadcast = (roomId: string, message: ServerSignalingMessage, except?: string) => {
+    rooms.get(roomId)?.members.forEach((socket, peerId) => {
+      if (peerId !== except) {
+        send(socket, message);
+      }
+    });
+  };
+
+  const deliver = (socket: WebSocket, peerId: string, entry: RelayEntry) => {
+    if (entry.from !== peerId && !entry.except.includes(peerId)) {
+      send(socket, { type: 'relay', seq: entry.seq, from: entry.from, action: entry.action });
+    }
+  };
+
+  // `left` is set when the client left on purpose and will not resume
+  const removeMember = (member: Member, socket: WebSocket, left = false) => {
+    const room = rooms.get(member.roomId);
+    // A reconnecting client may already have replaced this socket
+    if (!room || room.members.get(member.peerId) !== socket) return;
+
+    room.members.delete(member.peerId);
+    if (left) {
+      room.resumeTokens.delete(member.peerId);
+    }
+    if (room.members.size === 0) {
+      rooms.delete(member.roomId);
+    } else {
+      broadcast(member.roomId, { type: 'peer-left', peerId: member.peerId });
+    }
+  };
+
+  wss.on('connection', (socket) => {
+    let member: Member | null = null;
+
+    socket.on('message', (data, isBinary) => {
+      const message = isBinary ? null : parseClientMessage(data.toString());
+      if (!message) {
+        sendError(socket, 'invalid-message', 'Malformed signaling message');
+        return;
+      }
+
+      switch (message.type) {
+        case 'join': {
+          const room = rooms.get(message.roomId) ??
+            { hostId: message.peerId, members: new Map(), resumeTokens: new Map(), seq: 0, log: [] };
+          const stale = room.members.get(message.peerId);
+          const { resumeFrom } = message;
+          const canResume = resumeFrom !== undefined &&
+            message.resumeToken === room.resumeTokens.get(message.peerId);
+          // A room that does not know the client's secret is not the one it
+          // was in: it was reset after everyone left, or the server restarted.
+          // Otherwise the log may have dropped entries the client never got.
+          const replayGap = resumeFrom !== undefined &&
+            (!canResume || (room.log[0]?.seq ?? room.seq + 1) > resumeFrom + 1);
+
+          if (stale && (!canResume || stale === socket)) {
+            sendError(socket, 'peer-id-taken', `Peer ${message.peerId} is already in the room`);
+            return;
+          }
+          if (!stale && room.members.size >= maxPeers) {
+            sendError(socket, 'room-full', `Room ${message.roomId} is full`);
+            return;
+          }
+
+          if (member) removeMember(member, socket);
+          member = { roomId: message.roomId, peerId: message.peerId };
+
+          if (!stale) {
+            room.resumeTokens.set(message.peerId, randomBytes(16).toString('hex'));
+          }
+
+          send(socket, {
+            type: 'joined',
+            roomId: message.roomId,
+            peerId: message.peerId,
+            hostId: room.hostId,
+            peers: Array.from(room.members.keys()).filter(peerId => peerId !== message.peerId),
+            seq: room.seq,
+            resumeToken: room.resumeTokens.get(message.peerId)!,
+            ...(resumeFrom !== undefined ? { replayGap } : {})
+          });
+
+          if (!stale) {
+            broadcast(message.roomId, { type: 'peer-joined', peerId: message.peerId });
+          }
+
+          room.members.set(message.peerId, socket);
+          rooms.set(message.roomId, room);
+
+          // The client reconnected before its old socket timed out
+          stale?.terminate();
+
+          if (resumeFrom !== undefined) {
+            room.log
+              .filter(entry => entry.seq > resumeFrom)
+              .forEach(entry => deliver(socket, message.peerId, entry));
+          }
+          break;
+        }
+
+        case 'leave':
+          if (member) {
+            removeMember(member, socket, true);
+            member = null;
+          }
+          break;
+
+        case 'signal': {
+          if (!member) {
+            sendError(socket, 'not-in-room', 'Join a room before signaling');
+            return;
+          }
+
+          const target = rooms.get(member.roomId)?.members.get(message.to);
+          if (!target) {
+            sendError(socket, 'unknown-peer', `Peer ${message.to} is not in the room`);
+            return;
+          }
+
+          send(target, { type: 'signal', from: member.peerId, payload: message.payload });
+          break;
+        }
+
+        case 'relay': {
+          const room = member && rooms.get(member.roomId);
+          if (!member || !room) {
+            sendError(socket, 'not-in-room', 'Join a room before relaying actions');
+            return;
+          }
+
+          const entry: RelayEntry = {
+            seq: ++room.seq,
+            from: member.peerId,
+            except: message.except ?? [],
+            action: message.action
+          };
+          room.log.push(entry);
+          if (room.log.length > relayLogSize) {
+            room.log.shift();
+          }
+
+          room.members.forEach((target, peerId) => deliver(target, peerId, entry));
+          break;
+        }
+      }
+    });
+
+    socket.on('close', () => {
+      if (member) {
+        removeMember(member, socket);
+        member = null;
+      }
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    wss.once('error', reject);
+    wss.once('listening', () => {
+      wss.off('error', reject);
+
+      const address = wss.address();
+      resolve({
+        port: address && typeof address === 'object' ? address.port : options.port,
+        rooms: () => new Map(
+          Array.from(rooms, ([roomId, room]) => [roomId, Array.from(room.members.keys())])
+        ),
+        close: () => new Promise<void>((done, fail) => {
+          wss.clients.forEach(client => client.terminate());
+          wss.close(error => (error ? fail(error) : done()));
+        })
+      });
+    });
+  });
+}
@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+import type { CellReaction, CollaborationPeer } from '../../types';
+
+interface CellReactionsProps {
+  reactions: CellReaction[];
+  peers: Map<string, CollaborationPeer>;
+  // How long a reaction stays on its cell
+  duration?: number;
+}
+
+/**
+ * Floats recent reactions over the grid cells they were sent to
+ */
+export const CellReactions: React.FC<CellReactionsProps> = ({
+  reactions,
+  peers,
+  duration = 4000
+}) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  const visible = reactions.filter(reaction => now - reaction.timestamp < duration);
+  const hasVisible = visible.length > 0;
+
+  useEffect(() => {
+    setNow(Date.now());
+  }, [reactions]);
+
+  useEffect(() => {
+    if (!hasVisible) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(timer);
+  }, [hasVisible]);
+
+  return (
+    <>
+      {visible.map(reaction => {
+        const cell = document.querySelector<HTMLElement>(
+          `[data-row="${reaction.position.row}"][data-col="${reaction.position.col}"]`
+        );
+        if (!cell) return null;
+
+        const rect = cell.getBoundingClientRect();
+        const peer = peers.get(reaction.peerId);
+        return (
+          <div
+            key={reaction.id}
+            className="fixed pointer-events-none z-50 text-2xl animate-bounce"
+            style={{ left: rect.left + rect.width / 2, top: rect.top, transform: 'translate(-50%, -50%)' }}
+            title={peer?.name}
+            aria-hidden="true"
+          >
+            {reaction.emoji}
+          </div>
+        );
+      })}
+    </>
+  );
+};
@@ -0,0 +1,169 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createFocusTrap } from '../../utils/keyboard-navigation';
+import { MAX_MESSAGE_LENGTH, REACTION_EMOJIS } from '../../engines/collaboration/room-chat';
+import type { ChatMessage, CollaborationPeer, GridPosition, ReactionEmoji } from '../../types';
+
+interface CollaborationChatProps {
+  isOpen: boolean;
+  onClose: () => void;
+  messages: ChatMessage[];
+  peers: Map<string, CollaborationPeer>;
+  localPeerId?: string;
+  onSendMessage: (text: string) => void;
+  // Reactions go to the selected cell; without one the buttons are inactive
+  selectedPosition?: GridPosition;
+  onReact?: (emoji: ReactionEmoji, position: GridPosition) => void;
+}
+
+const REACTION_LABELS: Record<ReactionEmoji, string> = {
+  '🕯️': 'vela',
+  '🌼': 'flor de cempasúchil',
+  '💀': 'calavera'
+};
+
+export const CollaborationChat: React.FC<CollaborationChatProps> = ({
+  isOpen,
+  onClose,
+  messages,
+  peers,
+  localPeerId,
+  onSendMessage,
+  selectedPosition,
+  onReact
+}) => {
+  const panelRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const logRef = useRef<HTMLOListElement>(null);
+  const [draft, setDraft] = useState('');
+
+  // Keep focus inside the panel while it is open, without blocking the altar
+  useEffect(() => {
+    if (!isOpen || !panelRef.current) return;
+
+    return createFocusTrap(panelRef.current, {
+      initialFocus: inputRef.current ?? undefined,
+      returnFocus: true,
+      allowOutsideClick: true
+    });
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  useEffect(() => {
+    logRef.current?.lastElementChild?.scrollIntoView?.({ block: 'end' });
+  }, [messages]);
+
+  if (!isOpen) return null;
+
+  const nameOf = (peerId: string) =>
+    peerId === localPeerId ? 'Tú' : peers.get(peerId)?.name ?? `Usuario ${peerId.substring(0, 4)}`;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!draft.trim()) return;
+
+    onSendMessage(draft);
+    setDraft('');
+  };
+
+  return (
+    <div
+      ref={panelRef}
+      className="fixed bottom-4 right-4 w-80 bg-white rounded-lg shadow-xl border z-40 flex flex-col max-h-[28rem]"
+      role="dialog"
+      aria-labelledby="collaboration-chat-title"
+    >
+      <div className="flex items-center justify-between px-3 py-2 border-b">
+        <h2 id="collaboration-chat-title" className="font-medium text-sm">
+          Chat de la sala
+        </h2>
+        <button
+          onClick={onClose}
+          className="p-1 hover:bg-gray-100 rounded text-sm"
+          aria-label="Cerrar chat"
+        >
+          ✕
+        </button>
+      </div>
+
+      <ol
+        ref={logRef}
+        className="flex-1 overflow-y-auto px-3 py-2 space-y-2 text-sm"
+        role="log"
+        aria-live="polite"
+        aria-label="Mensajes"
+        tabIndex={0}
+      >
+        {messages.length === 0 && (
+          <li className="text-gray-500 text-center py-4">Aún no hay mensajes</li>
+        )}
+        {messages.map(message => {
+          const peer = peers.get(message.peerId);
+          return (
+            <li key={message.id}>
+              <span className="font-medium" style={{ color: peer?.color }}>
+                {nameOf(message.peerId)}
+              </span>
+              <span className="text-xs text-gray-400 ml-2">
+                {new Date(message.timestamp).toLocaleTimeString('es-MX', { hour: '2-digit', minute: '2-digit' })}
+              </span>
+              <p className="text-gray-800 break-words">{message.text}</p>
+            </li>
+          );
+        })}
+      </ol>
+
+      {onReact && (
+        <div className="flex items-center gap-1 px-3 py-2 border-t" role="group" aria-label="Reacciones">
+          {REACTION_EMOJIS.map(emoji => (
+            <button
+              key={emoji}
+              onClick={() => selectedPosition && onReact(emoji, selectedPosition)}
+              aria-disabled={!selectedPosition}
+              aria-label={selectedPosition
+                ? `Reaccionar con ${REACTION_LABELS[emoji]} en fila ${selectedPosition.row + 1}, columna ${selectedPosition.col + 1}`
+                : `Reaccionar con ${REACTION_LABELS[emoji]} (selecciona una celda primero)`}
+              className={`p-1 rounded text-lg ${selectedPosition ? 'hover:bg-gray-100' : 'opacity-50 cursor-not-allowed'}`}
+            >
+              {emoji}
+            </button>
+          ))}
+          {!selectedPosition && (
+            <span className="text-xs text-gray-500 ml-1">Selecciona una celda</span>
+          )}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex gap-2 p-3 border-t">
+        <input
+          ref={inputRef}
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={MAX_MESSAGE_LENGTH}
+          placeholder="Escribe un mensaje"
+          aria-label="Mensaje"
+          className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          aria-disabled={!draft.trim()}
+          className="bg-blue-600 text-white px-3 py-1 rounded-md text-sm hover:bg-blue-700"
+        >
+          Enviar
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -4,8 +4,9 @@ import type { RoomInfo } from '../../engines/collaboration';
 interface CollaborationModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onCreateRoom: (name: string) => Promise<void>;
-  onJoinRoom: (roomId: string) => Promise<void>;
+  // A passphrase makes the room end-to-end encrypted
+  onCreateRoom: (name: string, passphrase?: string) => Promise<void>;
+  onJoinRoom: (roomId: string, passphrase?: string) => Promise<void>;
   recentRooms: RoomInfo[];
   isLoading: boolean;
   error?: string;
@@ -23,6 +24,8 @@ export const CollaborationModal: React.FC<CollaborationModalProps> = ({
   const [activeTab, setActiveTab] = useState<'create' | 'join' | 'recent'>('create');
   const [roomName, setRoomName] = useState('');
   const [roomId, setRoomId] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [needsPassphrase, setNeedsPassphrase] = useState(false);
   const [localError, setLocalError] = useState<string>('');
 
   useEffect(() => {
@@ -30,6 +33,8 @@ export const CollaborationModal: React.FC<CollaborationModalProps> = ({
       setLocalError('');
       setRoomName('');
       setRoomId('');
+      setPassphrase('');
+      setNeedsPassphrase(false);
     }
   }, [isOpen]);
 
@@ -43,6 +48,7 @@ export const CollaborationModal: React.FC<CollaborationModalProps> = ({
       if (urlRoomId && shouldJoin) {
         setActiveTab('join');
         setRoomId(urlRoomId);
+        setNeedsPassphrase(urlParams.get('secure') === 'true');
       }
     }
   }, [isOpen]);
@@ -57,7 +63,7 @@ export const CollaborationModal: React.FC<CollaborationModalProps> = ({
 
     try {
       setLocalError('');
-      await onCreateRoom(roomName.trim());
+      await onCreateRoom(roomName.trim(), passphrase || undefined);
       onClose();
     } catch (err) {
       setLocalError(err instanceof Error ? err.message : 'Error al crear la sala');
@@ -70,9 +76,14 @@ export const CollaborationModal: React.FC<CollaborationModalProps> = ({
       return;
     }
 
+    if (needsPassphrase && !passphrase) {
+      setLocalError('Esta sala está protegida, ingresa la frase secreta');
+      return;
+    }
+
     try {
       setLocalError('');
-      await onJoinRoom(roomId.trim());
+      await onJoinRoom(roomId.trim(), passphrase || undefined);
       onClose();
     } catch (err) {
       setLocalError(err instanceof Error ? err.message : 'Error al unirse a la sala');
@@ -80,6 +91,15 @@ export const CollaborationModal: React.FC<CollaborationModalProps> = ({
   };
 
   const handleJoinRecentRoom = async (room: RoomInfo) => {
+    // The passphrase is never stored, so ask for it again
+    if (room.passphraseProtected) {
+      setActiveTab('join');
+      setRoomId(room.id);
+      setPassphrase('');
+      setNeedsPassphrase(true);
+      return;
+    }
+
     try {
       setLocalError('');
       await onJoinRoom(room.id);
@@ -168,11 +188,29 @@ export const CollaborationModal: React.FC<CollaborationModalProps> = ({
                   maxLength={50}
                 />
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Frase Secreta (opcional)
+                </label>
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder="Solo quien la conozca podrá entrar"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  disabled={isLoading}
+                  autoComplete="new-password"
+                />
+              </div>
               
               <div className="text-sm text-gray-600">
                 <p>• Hasta 4 personas pueden colaborar</p>
                 <p>• Comparte el enlace para invitar a otros</p>
                 <p>• Los cambios se sincronizan en tiempo real</p>
+                {passphrase && (
+                  <p>• Los cambios viajan cifrados; comparte la frase por otro medio</p>
+                )}
               </div>
 
               <button
@@ -201,14 +239,31 @@ export const CollaborationModal: React.FC<CollaborationModalProps> = ({
                   disabled={isLoading}
                 />
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Frase Secreta{needsPassphrase ? '' : ' (si la sala tiene una)'}
+                </label>
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  disabled={isLoading}
+                  autoComplete="off"
+                />
+              </div>
               
               <div className="text-sm text-gray-600">
                 <p>Ingresa el ID de la sala que te compartieron para unirte a la colaboración.</p>
+                {needsPassphrase && (
+                  <p className="mt-1">🔒 Esta sala está cifrada: pide la frase secreta a quien te invitó.</p>
+                )}
               </div>
 
               <button
                 onClick={handleJoinRoom}
-                disabled={isLoading || !roomId.trim()}
+                disabled={isLoading || !roomId.trim() || (needsPassphrase && !passphrase)}
                 className="w-full bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {isLoading ? 'Conectando...' : 'Unirse a la Sala'}
@@ -236,7 +291,9 @@ export const CollaborationModal: React.FC<CollaborationModalProps> = ({
                     >
                       <div className="flex items-center justify-between">
                         <div>
-                          <div className="font-medium text-sm">{room.name}</div>
+                          <div className="font-medium text-sm">
+                            {room.passphraseProtected && '🔒 '}{room.name}
+                          </div>
                           <div className="text-xs text-gray-500">
                             ID: {room.id}
                           </div>
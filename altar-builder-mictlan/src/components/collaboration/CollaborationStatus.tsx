@@ -1,22 +1,49 @@
 import React from 'react';
-import type { CollaborationState, CollaborationPeer } from '../../types';
+import { connectionQuality } from '../../engines/collaboration/peer-presence';
+import type { CollaborationState, CollaborationPeer, CollaborationRole, ConnectionQuality, RoomRoster } from '../../types';
 
 interface CollaborationStatusProps {
   state: CollaborationState;
   onLeaveRoom: () => void;
   onShareRoom: () => void;
+  roster?: RoomRoster;
+  localRole?: CollaborationRole;
+  // Host controls; shown only to the host
+  onSetPeerRole?: (peerId: string, role: CollaborationRole) => void;
+  onKickPeer?: (peerId: string) => void;
+  onSetAltarLocked?: (locked: boolean) => void;
 }
 
+const ROLE_LABELS: Record<CollaborationRole, string> = {
+  host: 'Anfitrión',
+  editor: 'Editor',
+  viewer: 'Espectador'
+};
+
+const QUALITY_STYLES: Record<ConnectionQuality, { label: string; bars: number; className: string }> = {
+  good: { label: 'Conexión buena', bars: 3, className: 'text-green-600' },
+  fair: { label: 'Conexión regular', bars: 2, className: 'text-amber-600' },
+  poor: { label: 'Conexión débil', bars: 1, className: 'text-red-600' }
+};
+
 export const CollaborationStatus: React.FC<CollaborationStatusProps> = ({
   state,
   onLeaveRoom,
-  onShareRoom
+  onShareRoom,
+  roster,
+  localRole,
+  onSetPeerRole,
+  onKickPeer,
+  onSetAltarLocked
 }) => {
   if (!state.isConnected || !state.roomId) {
     return null;
   }
 
   const connectedPeers = Array.from(state.peers.values()).filter(peer => peer.isConnected);
+  const canModerate = localRole === 'host';
+  const roleOf = (peerId: string): CollaborationRole =>
+    peerId === roster?.hostId ? 'host' : roster?.roles[peerId] ?? 'editor';
   const connectionTypeIcon = {
     webrtc: '🔗',
     websocket: '📡',
@@ -60,6 +87,21 @@ export const CollaborationStatus: React.FC<CollaborationStatusProps> = ({
         Sala: <span className="font-mono">{state.roomId}</span>
       </div>
 
+      {roster?.locked && (
+        <div className="text-xs bg-amber-100 text-amber-800 rounded px-2 py-1 mb-2">
+          🔒 El anfitrión bloqueó el altar
+        </div>
+      )}
+
+      {canModerate && onSetAltarLocked && (
+        <button
+          onClick={() => onSetAltarLocked(!roster?.locked)}
+          className="w-full text-xs border rounded px-2 py-1 mb-2 hover:bg-gray-50"
+        >
+          {roster?.locked ? 'Desbloquear altar' : 'Bloquear altar'}
+        </button>
+      )}
+
       <div className="space-y-1">
         <div className="text-xs font-medium text-gray-700">
           Participantes ({connectedPeers.length + 1})
@@ -70,7 +112,9 @@ export const CollaborationStatus: React.FC<CollaborationStatusProps> = ({
           <div 
             className="w-3 h-3 rounded-full bg-green-500"
           />
-          <span>Tú {state.isHost ? '(Anfitrión)' : ''}</span>
+          <span>
+            Tú {localRole ? `(${ROLE_LABELS[localRole]})` : state.isHost ? '(Anfitrión)' : ''}
+          </span>
         </div>
         
         {/* Connected peers */}
@@ -81,9 +125,32 @@ export const CollaborationStatus: React.FC<CollaborationStatusProps> = ({
               style={{ backgroundColor: peer.color }}
             />
             <span>{peer.name}</span>
-            <span className="text-xs text-gray-500">
-              {formatLastSeen(peer.lastSeen)}
-            </span>
+            {roster && (
+              <span className="text-xs text-gray-500">{ROLE_LABELS[roleOf(peer.id)]}</span>
+            )}
+            <PeerConnection peer={peer} />
+            {canModerate && roleOf(peer.id) !== 'host' && (
+              <span className="ml-auto flex gap-1">
+                {onSetPeerRole && (
+                  <button
+                    onClick={() => onSetPeerRole(peer.id, roleOf(peer.id) === 'viewer' ? 'editor' : 'viewer')}
+                    className="p-1 hover:bg-gray-100 rounded text-xs"
+                    title={roleOf(peer.id) === 'viewer' ? 'Permitir editar' : 'Solo ver'}
+                  >
+                    {roleOf(peer.id) === 'viewer' ? '✏️' : '👁️'}
+                  </button>
+                )}
+                {onKickPeer && (
+                  <button
+                    onClick={() => onKickPeer(peer.id)}
+                    className="p-1 hover:bg-red-100 rounded text-xs text-red-600"
+                    title="Retirar de la sala"
+                  >
+                    🚫
+                  </button>
+                )}
+              </span>
+            )}
           </div>
         ))}
       </div>
@@ -95,6 +162,33 @@ export const CollaborationStatus: React.FC<CollaborationStatusProps> = ({
   );
 };
 
+/**
+ * Signal bars for a peer's connection, with its latency or, when it has
+ * gone quiet, how long ago it was last heard from
+ */
+function PeerConnection({ peer }: { peer: CollaborationPeer }) {
+  const quality = connectionQuality(peer);
+  const style = quality && QUALITY_STYLES[quality];
+  const detail = peer.status === 'idle'
+    ? `inactivo · ${formatLastSeen(peer.lastSeen)}`
+    : peer.latency !== undefined ? `${peer.latency} ms` : formatLastSeen(peer.lastSeen);
+
+  return (
+    <span
+      className="flex items-center gap-1 text-xs text-gray-500"
+      title={style ? `${style.label} (${detail})` : detail}
+    >
+      {style && (
+        <span className={`font-mono tracking-tighter ${style.className}`} aria-label={style.label} role="img">
+          {'▮'.repeat(style.bars)}
+          <span className="text-gray-300">{'▮'.repeat(3 - style.bars)}</span>
+        </span>
+      )}
+      {detail}
+    </span>
+  );
+}
+
 function formatLastSeen(lastSeen: Date): string {
   const now = new Date();
   const diff = now.getTime() - lastSeen.getTime();
@@ -1,3 +1,5 @@
 export { CollaborativeCursor, CollaborativeCursors } from './CollaborativeCursor';
 export { CollaborationStatus } from './CollaborationStatus';
-export { CollaborationModal } from './CollaborationModal';
\ No newline at end of file
+export { CollaborationModal } from './CollaborationModal';
+export { CollaborationChat } from './CollaborationChat';
+export { CellReactions } from './CellReactions';
\ No newline at end of file
@@ -0,0 +1,307 @@
+import { useState, useEffect, useRef } from 'react';
+import { useMCPDebug } from '../../hooks/useMCPDebug';
+import type { MCPActionLogEntry, MCPPerformanceAlert } from '../../engines/mcp-debug';
+
+interface MCPDebugPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const LIVE_SESSION = 'live';
+
+/**
+ * Developer panel over the MCP action log: what was dispatched, how it
+ * changed each module and how long it took, with time travel to any point
+ */
+export function MCPDebugPanel({ isOpen, onClose }: MCPDebugPanelProps) {
+  const {
+    live,
+    sessions,
+    timeTravel,
+    error,
+    loadSessions,
+    deleteSession,
+    importSession,
+    exportSession,
+    jumpTo,
+    replayFrom,
+    stopReplay
+  } = useMCPDebug();
+  const [sessionId, setSessionId] = useState(LIVE_SESSION);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadSessions();
+    }
+  }, [isOpen, loadSessions]);
+
+  useEffect(() => setSelectedIndex(null), [sessionId]);
+
+  const session = sessions.find(saved => saved.id === sessionId) ?? live;
+  const selected = selectedIndex !== null ? session.entries[selectedIndex] : undefined;
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const imported = await importSession(file);
+    if (imported) {
+      setSessionId(imported.id);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (await deleteSession(session.id)) {
+      setSessionId(LIVE_SESSION);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="mcp-debug-title"
+        className="bg-gray-900 border-2 border-orange-500/50 rounded-xl shadow-2xl max-w-5xl w-full max-h-[90vh] overflow-hidden flex flex-col animate-scale-in"
+      >
+        {/* Header */}
+        <div className="p-6 border-b border-gray-800 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2
+              id="mcp-debug-title"
+              className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-orange-400 to-orange-600 flex items-center gap-2"
+            >
+              🐞 Depuración MCP
+            </h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-white transition-colors"
+              aria-label="Cerrar"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <label htmlFor="mcp-debug-session" className="sr-only">Sesión</label>
+            <select
+              id="mcp-debug-session"
+              value={sessionId}
+              onChange={event => setSessionId(event.target.value)}
+              className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded-lg text-sm text-gray-200 px-2 py-1.5"
+            >
+              <option value={LIVE_SESSION}>Sesión actual ({live.entries.length} acciones)</option>
+              {sessions.map(saved => (
+                <option key={saved.id} value={saved.id}>
+                  {formatDate(saved.startedAt)} ({saved.entries.length} acciones)
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm rounded-lg border border-gray-700 transition-colors"
+            >
+              📂 Importar
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              className="hidden"
+            />
+            <button
+              onClick={() => exportSession(session)}
+              disabled={session.entries.length === 0}
+              className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm rounded-lg border border-gray-700 transition-colors disabled:opacity-50"
+            >
+              ⬇ Exportar
+            </button>
+            {sessionId !== LIVE_SESSION && (
+              <button
+                onClick={handleDelete}
+                className="px-3 py-1.5 bg-gray-800 hover:bg-red-700 text-gray-200 text-sm rounded-lg border border-gray-700 transition-colors"
+                aria-label="Eliminar sesión"
+              >
+                🗑️
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {error && (
+            <p role="alert" className="text-sm text-red-400">{error}</p>
+          )}
+
+          <AlertList alerts={session.alerts} />
+
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={() => jumpTo(session, -1)}
+              disabled={session.entries.length === 0 || timeTravel.isReplaying}
+              className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm rounded-lg border border-gray-700 transition-colors disabled:opacity-50"
+            >
+              ⏮ Estado inicial
+            </button>
+            {timeTravel.isReplaying && (
+              <button
+                onClick={stopReplay}
+                className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white text-sm font-medium rounded-lg transition-colors"
+              >
+                ⏹ Detener reproducción
+              </button>
+            )}
+            <p className="text-xs text-gray-400" aria-live="polite">
+              {describePosition(timeTravel.position, timeTravel.isReplaying)}
+              {timeTravel.failures.length > 0 && ` · ${timeTravel.failures.length} acciones fallaron al reproducir`}
+            </p>
+          </div>
+
+          {session.entries.length === 0 ? (
+            <p className="text-gray-400 text-sm">Aún no se ha despachado ninguna acción.</p>
+          ) : (
+            <div className="grid md:grid-cols-2 gap-4">
+              <ol className="space-y-1 max-h-[50vh] overflow-y-auto" aria-label="Acciones despachadas">
+                {session.entries.map((entry, index) => (
+                  <li key={`${entry.action.id}-${index}`}>
+                    <button
+                      onClick={() => setSelectedIndex(index)}
+                      aria-current={index === timeTravel.position ? 'step' : undefined}
+                      className={`w-full text-left px-3 py-1.5 rounded text-xs font-mono flex items-center gap-2 border transition-colors ${
+                        index === selectedIndex
+                          ? 'bg-orange-900/40 border-orange-500'
+                          : 'bg-gray-800 border-gray-700 hover:border-gray-500'
+                      }`}
+                    >
+                      <span aria-hidden="true">{entry.success ? '✅' : '❌'}</span>
+                      <span className="text-gray-500 w-8 text-right">{index + 1}</span>
+                      <span className="flex-1 truncate text-gray-100">{entry.action.type}</span>
+                      {entry.moduleName && <span className="text-gray-400">{entry.moduleName}</span>}
+                      <span className="text-gray-400 tabular-nums w-16 text-right">{entry.duration.toFixed(1)} ms</span>
+                      {index === timeTravel.position && <span className="text-orange-400" aria-hidden="true">◀</span>}
+                    </button>
+                  </li>
+                ))}
+              </ol>
+
+              {selected && selectedIndex !== null ? (
+                <EntryDetails
+                  entry={selected}
+                  isReplaying={timeTravel.isReplaying}
+                  onJump={() => jumpTo(session, selectedIndex)}
+                  onReplay={() => replayFrom(session, selectedIndex)}
+                />
+              ) : (
+                <p className="text-gray-400 text-sm">Selecciona una acción para ver cómo cambió el estado.</p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function AlertList({ alerts }: { alerts: MCPPerformanceAlert[] }) {
+  if (alerts.length === 0) return null;
+
+  return (
+    <details className="bg-yellow-900/20 border border-yellow-700/50 rounded-lg p-3">
+      <summary className="text-sm font-medium text-yellow-300 cursor-pointer">
+        ⚠️ {alerts.length} alertas de rendimiento
+      </summary>
+      <ul className="mt-2 space-y-1 text-xs text-yellow-100">
+        {alerts.map((alert, index) => (
+          <li key={`${alert.actionType}-${index}`}>
+            <span className="text-yellow-400">[{alert.type}]</span>
+            {' '}{alert.message}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
+interface EntryDetailsProps {
+  entry: MCPActionLogEntry;
+  isReplaying: boolean;
+  onJump: () => void;
+  onReplay: () => void;
+}
+
+function EntryDetails({ entry, isReplaying, onJump, onReplay }: EntryDetailsProps) {
+  return (
+    <div className="space-y-3 min-w-0">
+      <div>
+        <h3 className="font-bold text-orange-300 font-mono">{entry.action.type}</h3>
+        <p className="text-xs text-gray-400">
+          {entry.timestamp.toLocaleTimeString('es-MX')} · {entry.duration.toFixed(1)} ms · {entry.action.source}
+        </p>
+        {entry.error && <p className="text-sm text-red-400 mt-1">{entry.error}</p>}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onJump}
+          disabled={isReplaying}
+          className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs rounded transition-colors disabled:opacity-50"
+        >
+          ⏮ Ir a este estado
+        </button>
+        <button
+          onClick={onReplay}
+          disabled={isReplaying}
+          className="px-3 py-1 bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 text-white text-xs font-medium rounded transition-all disabled:opacity-50"
+        >
+          ▶ Reproducir desde aquí
+        </button>
+      </div>
+
+      <JsonSection title="Datos de la acción" value={entry.action.payload} open />
+      {entry.stateDiff !== undefined && <JsonSection title="Diferencias" value={entry.stateDiff} open />}
+      {entry.previousState !== undefined && <JsonSection title="Estado anterior" value={entry.previousState} />}
+      {entry.newState !== undefined && <JsonSection title="Estado posterior" value={entry.newState} />}
+    </div>
+  );
+}
+
+function JsonSection({ title, value, open = false }: { title: string; value: unknown; open?: boolean }) {
+  return (
+    <details open={open} className="bg-gray-800 border border-gray-700 rounded-lg">
+      <summary className="px-3 py-1.5 text-sm text-gray-200 cursor-pointer">{title}</summary>
+      <pre className="px-3 pb-3 text-xs text-gray-300 overflow-auto max-h-64">{formatValue(value)}</pre>
+    </details>
+  );
+}
+
+// Module state holds maps and sets, which JSON.stringify would print as {}
+function formatValue(value: unknown): string {
+  return JSON.stringify(
+    value,
+    (_key, item: unknown) => {
+      if (item instanceof Map) return Object.fromEntries(item);
+      if (item instanceof Set) return Array.from(item);
+      return item;
+    },
+    2
+  ) ?? 'undefined';
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleString('es-MX', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+}
+
+function describePosition(position: number | null, isReplaying: boolean): string {
+  if (position === null) return 'La aplicación muestra el estado actual';
+  const where = position < 0 ? 'el estado inicial' : `la acción ${position + 1}`;
+  return isReplaying ? `Reproduciendo… en ${where}` : `La aplicación muestra ${where}`;
+}
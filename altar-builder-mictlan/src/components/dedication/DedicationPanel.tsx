@@ -0,0 +1,185 @@
+import { useAltarStore, useHonorees, usePlacedElements } from '../../store/useAltarStore';
+import { getElementForPlaced } from '../../data/elements';
+import type { Honoree } from '../../types';
+
+interface DedicationPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClasses =
+  'w-full px-3 py-2 bg-gray-800 border-2 border-gray-700 focus:border-orange-500 rounded-lg text-white placeholder-gray-500 transition-colors';
+
+/**
+ * Editor for the people the altar honors and the notes attached to
+ * placed elements
+ */
+export function DedicationPanel({ isOpen, onClose }: DedicationPanelProps) {
+  const honorees = useHonorees();
+  const placedElements = usePlacedElements();
+  const available = useAltarStore(state => state.elements.available);
+  const { addHonoree, updateHonoree, removeHonoree, setElementNote } = useAltarStore();
+
+  if (!isOpen) return null;
+
+  const updateField = (honoree: Honoree, field: keyof Omit<Honoree, 'id'>) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+      updateHonoree(honoree.id, { [field]: e.target.value || undefined });
+    };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div
+        className="bg-gray-900 border-2 border-orange-500/50 rounded-xl shadow-2xl max-w-2xl w-full p-6 max-h-[90vh] overflow-y-auto"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="dedication-title"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <h2
+            id="dedication-title"
+            className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-orange-400 to-orange-600"
+          >
+            🕊️ Dedicatoria
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+            aria-label="Cerrar"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          {/* Honorees Section */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold text-orange-400">
+              ¿Para quién es esta ofrenda?
+            </h3>
+
+            {honorees.length === 0 && (
+              <p className="text-sm text-gray-400">
+                Agrega a las personas que honras con este altar.
+              </p>
+            )}
+
+            {honorees.map(honoree => (
+              <fieldset key={honoree.id} className="bg-gray-800/50 rounded-lg p-4 space-y-3">
+                <legend className="sr-only">{honoree.name || 'Persona honrada'}</legend>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={honoree.name}
+                    onChange={(e) => updateHonoree(honoree.id, { name: e.target.value })}
+                    className={inputClasses}
+                    placeholder="Nombre"
+                    aria-label="Nombre"
+                    maxLength={80}
+                  />
+                  <button
+                    onClick={() => removeHonoree(honoree.id)}
+                    className="px-3 text-gray-400 hover:text-red-400 transition-colors"
+                    aria-label={`Quitar a ${honoree.name || 'esta persona'}`}
+                  >
+                    🗑️
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="text-xs text-gray-400">
+                    Nacimiento
+                    <input
+                      type="date"
+                      value={honoree.birthDate ?? ''}
+                      onChange={updateField(honoree, 'birthDate')}
+                      className={`${inputClasses} mt-1`}
+                    />
+                  </label>
+                  <label className="text-xs text-gray-400">
+                    Fallecimiento
+                    <input
+                      type="date"
+                      value={honoree.deathDate ?? ''}
+                      onChange={updateField(honoree, 'deathDate')}
+                      className={`${inputClasses} mt-1`}
+                    />
+                  </label>
+                </div>
+
+                <input
+                  type="text"
+                  value={honoree.favoriteFood ?? ''}
+                  onChange={updateField(honoree, 'favoriteFood')}
+                  className={inputClasses}
+                  placeholder="Comida favorita"
+                  aria-label="Comida favorita"
+                  maxLength={80}
+                />
+
+                <textarea
+                  value={honoree.biography ?? ''}
+                  onChange={updateField(honoree, 'biography')}
+                  className={`${inputClasses} resize-none`}
+                  placeholder="Una breve biografía"
+                  aria-label="Biografía"
+                  rows={3}
+                  maxLength={500}
+                />
+              </fieldset>
+            ))}
+
+            <button
+              onClick={() => addHonoree({ name: '' })}
+              className="w-full px-4 py-2.5 rounded-lg border-2 border-dashed border-gray-700 hover:border-orange-500/50 text-gray-300 hover:text-orange-400 text-sm font-medium transition-all duration-200"
+            >
+              ➕ Agregar persona
+            </button>
+          </div>
+
+          {/* Element Notes Section */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold text-orange-400">
+              Notas de los elementos
+            </h3>
+
+            {placedElements.length === 0 ? (
+              <p className="text-sm text-gray-400">
+                Coloca elementos en el altar para agregarles una nota.
+              </p>
+            ) : (
+              <ul className="bg-gray-800/50 rounded-lg p-4 space-y-3">
+                {placedElements.map(placed => {
+                  const element = getElementForPlaced(placed, available);
+                  const label = element?.name ?? placed.elementType;
+
+                  return (
+                    <li key={placed.id} className="flex items-center gap-3">
+                      <span className="text-2xl w-8 text-center" role="img" aria-hidden="true">
+                        {element?.icon ?? '✨'}
+                      </span>
+                      <label className="flex-1 text-xs text-gray-400">
+                        {label} ({placed.position.row + 1}, {placed.position.col + 1})
+                        <input
+                          type="text"
+                          defaultValue={placed.note ?? ''}
+                          onBlur={(e) => setElementNote(placed.id, e.target.value)}
+                          className={`${inputClasses} mt-1`}
+                          placeholder="Su mezcal favorito…"
+                          maxLength={140}
+                        />
+                      </label>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useState, useRef, useEffect } from 'react';
+import { useCustomElements } from '../../hooks/useCustomElements';
+
+interface CustomElementDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Dialog for creating a personal element from an uploaded photo
+ */
+export function CustomElementDialog({ isOpen, onClose }: CustomElementDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [dedication, setDedication] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const nameInputRef = useRef<HTMLInputElement>(null);
+
+  const { createCustomElement } = useCustomElements();
+
+  // Reset the form when opened
+  useEffect(() => {
+    if (isOpen) {
+      setFile(null);
+      setName('');
+      setDedication('');
+      setError(null);
+    }
+  }, [isOpen]);
+
+  // Keep a preview URL for the selected photo
+  useEffect(() => {
+    if (!file) {
+      setPreviewUrl(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] ?? null;
+    if (selected && !selected.type.startsWith('image/')) {
+      setError('Selecciona un archivo de imagen');
+      return;
+    }
+
+    setError(null);
+    setFile(selected);
+    nameInputRef.current?.focus();
+  };
+
+  const handleCreate = async () => {
+    if (!file) {
+      setError('Por favor selecciona una fotografía');
+      return;
+    }
+    if (!name.trim()) {
+      setError('Por favor ingresa el nombre de la persona');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const created = await createCustomElement(file, name, dedication);
+      if (created) {
+        onClose();
+      } else {
+        setError('No se pudo crear el elemento personal');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div
+        className="bg-gray-900 border-2 border-orange-500/50 rounded-xl shadow-2xl max-w-md w-full p-6 animate-scale-in"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="custom-element-title"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <h2
+            id="custom-element-title"
+            className="text-xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-orange-400 to-orange-600 flex items-center gap-2"
+          >
+            🖼️ Nuevo Elemento Personal
+          </h2>
+          <button
+            onClick={onClose}
+            disabled={saving}
+            className="text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+            aria-label="Cerrar"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="space-y-4">
+          <div className="flex items-center gap-4">
+            <div className="w-24 h-24 rounded-lg border-2 border-dashed border-gray-700 bg-gray-800 flex items-center justify-center overflow-hidden flex-shrink-0">
+              {previewUrl ? (
+                <img src={previewUrl} alt="Vista previa" className="w-full h-full object-cover" />
+              ) : (
+                <span className="text-3xl" role="img" aria-hidden="true">📷</span>
+              )}
+            </div>
+            <label className="flex-1 cursor-pointer">
+              <span className="block text-sm font-medium text-gray-300 mb-2">Fotografía</span>
+              <input
+                type="file"
+                accept="image/*"
+                onChange={handleFileChange}
+                disabled={saving}
+                className="block w-full text-sm text-gray-400 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-orange-500 file:text-white hover:file:bg-orange-600"
+              />
+            </label>
+          </div>
+
+          <div>
+            <label htmlFor="custom-element-name" className="block text-sm font-medium text-gray-300 mb-2">
+              Nombre
+            </label>
+            <input
+              ref={nameInputRef}
+              id="custom-element-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={saving}
+              className="w-full px-4 py-3 bg-gray-800 border-2 border-gray-700 focus:border-orange-500 rounded-lg text-white placeholder-gray-500 transition-colors disabled:opacity-50"
+              placeholder="Abuela Carmen"
+              maxLength={60}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="custom-element-dedication" className="block text-sm font-medium text-gray-300 mb-2">
+              Dedicatoria
+            </label>
+            <textarea
+              id="custom-element-dedication"
+              value={dedication}
+              onChange={(e) => setDedication(e.target.value)}
+              disabled={saving}
+              rows={3}
+              className="w-full px-4 py-3 bg-gray-800 border-2 border-gray-700 focus:border-orange-500 rounded-lg text-white placeholder-gray-500 transition-colors disabled:opacity-50 resize-none"
+              placeholder="Siempre en nuestro corazón"
+              maxLength={280}
+            />
+          </div>
+
+          {error && (
+            <div className="bg-red-900/20 border border-red-500/50 rounded-lg p-3 text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onClose}
+            disabled={saving}
+            className="flex-1 px-6 py-3 bg-gray-700 hover:bg-gray-600 text-white font-medium rounded-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={saving || !file || !name.trim()}
+            className="flex-1 px-6 py-3 bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 text-white font-medium rounded-lg transition-all duration-200 shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            {saving ? (
+              <>
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                Creando...
+              </>
+            ) : (
+              'Crear'
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ interface ElementCardProps {
   isAvailable: boolean;
   onDragStart: (event: React.DragEvent, element: OfrendarElement) => void;
   onDragEnd: (event: React.DragEvent) => void;
+  onDelete?: () => void;
 }
 
 /**
@@ -17,7 +18,8 @@ export const ElementCard = memo(function ElementCard({
   usageCount,
   isAvailable,
   onDragStart,
-  onDragEnd
+  onDragEnd,
+  onDelete
 }: ElementCardProps) {
   const handleDragStart = (e: React.DragEvent) => {
     if (!isAvailable) {
@@ -55,9 +57,18 @@ export const ElementCard = memo(function ElementCard({
       >
         {/* Element Icon */}
         <div className="flex flex-col items-center gap-3">
-          <span className="text-5xl" role="img" aria-label={element.name}>
-            {element.icon}
-          </span>
+          {element.custom ? (
+            <img
+              src={element.custom.imageDataUrl}
+              alt={element.name}
+              className="w-12 h-12 rounded-lg object-cover border-2 border-orange-500/40"
+              draggable={false}
+            />
+          ) : (
+            <span className="text-5xl" role="img" aria-label={element.name}>
+              {element.icon}
+            </span>
+          )}
 
           {/* Element Name */}
           <h3 className="text-base font-semibold text-center text-gray-100 leading-tight min-h-[2.5rem] flex items-center">
@@ -96,6 +107,17 @@ export const ElementCard = memo(function ElementCard({
           )}
         </div>
 
+        {/* Delete a personal element that is not on the altar */}
+        {onDelete && (
+          <button
+            onClick={onDelete}
+            className="absolute top-1 right-1 w-6 h-6 rounded-full bg-gray-900/80 text-gray-400 hover:text-red-400 text-xs opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+            aria-label={`Eliminar ${element.name}`}
+          >
+            ✕
+          </button>
+        )}
+
         {/* Unavailable overlay */}
         {!isAvailable && (
           <div className="absolute inset-0 flex items-center justify-center bg-gray-900/70 rounded-lg">
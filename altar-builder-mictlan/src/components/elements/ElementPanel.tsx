@@ -1,8 +1,10 @@
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { ElementCard } from './ElementCard';
-import type { ElementCategory } from '../../types';
+import { CustomElementDialog } from './CustomElementDialog';
+import { ElementCategory } from '../../types';
 import { useAltarStore, useAvailableElements } from '../../store/useAltarStore';
 import { useDragAndDrop } from '../../hooks/useDragAndDrop';
+import { useCustomElements } from '../../hooks/useCustomElements';
 import { getCategoryDisplayName } from '../../data/elements';
 
 /**
@@ -18,6 +20,8 @@ export function ElementPanel() {
 
   const availableElements = useAvailableElements();
   const { handleDragStart, handleDragEnd } = useDragAndDrop();
+  const { deleteCustomElement } = useCustomElements();
+  const [showCustomDialog, setShowCustomDialog] = useState(false);
 
   // Get all elements (including unavailable ones for display)
   const allElements = useAltarStore((state: { elements: { available: typeof import('../../data/elements').OFRENDA_ELEMENTS } }) => state.elements.available);
@@ -99,7 +103,7 @@ export function ElementPanel() {
         ) : (
           <div className="grid grid-cols-2 gap-8">
             {displayElements.map((element) => {
-              const usageCount = getElementUsageCount(element.type);
+              const usageCount = getElementUsageCount(element.type, element.custom?.id);
               const isAvailable = availableElements.some((el) => el.id === element.id);
 
               return (
@@ -110,13 +114,31 @@ export function ElementPanel() {
                   isAvailable={isAvailable}
                   onDragStart={handleDragStart}
                   onDragEnd={handleDragEnd}
+                  onDelete={element.custom && usageCount === 0
+                    ? () => deleteCustomElement(element.custom!.id)
+                    : undefined}
                 />
               );
             })}
           </div>
         )}
+
+        {/* Create personal element */}
+        {(!selectedCategory || selectedCategory === ElementCategory.PERSONALES) && (
+          <button
+            onClick={() => setShowCustomDialog(true)}
+            className="w-full mt-6 px-4 py-3 rounded-xl border-2 border-dashed border-gray-700 hover:border-orange-500/50 text-gray-300 hover:text-orange-400 text-sm font-medium transition-all duration-200"
+          >
+            ➕ Crear elemento personal
+          </button>
+        )}
       </div>
 
+      <CustomElementDialog
+        isOpen={showCustomDialog}
+        onClose={() => setShowCustomDialog(false)}
+      />
+
       {/* Instructions Footer */}
       <div className="p-4 border-t border-gray-800 bg-gray-900/70">
         <div className="flex items-start gap-2 text-xs text-gray-400">
@@ -1,2 +1,3 @@
 export { ElementPanel } from './ElementPanel';
 export { ElementCard } from './ElementCard';
+export { CustomElementDialog } from './CustomElementDialog';
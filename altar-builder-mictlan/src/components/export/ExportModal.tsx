@@ -16,15 +16,17 @@ interface ExportModalProps {
   gridRef?: React.RefObject<HTMLDivElement>;
   altarName: string;
   elementCount: number;
+  caption?: string[];
 }
 
 type ExportFormat = 'png' | 'jpeg' | 'webp';
 
-export function ExportModal({ isOpen, onClose, gridRef, altarName, elementCount }: ExportModalProps) {
+export function ExportModal({ isOpen, onClose, gridRef, altarName, elementCount, caption = [] }: ExportModalProps) {
   const [format, setFormat] = useState<ExportFormat>('png');
   const [quality, setQuality] = useState(95);
   const [scale, setScale] = useState(2);
   const [watermark, setWatermark] = useState(true);
+  const [includeCaption, setIncludeCaption] = useState(true);
   const [exporting, setExporting] = useState(false);
   const [sharing, setSharing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -50,7 +52,8 @@ export function ExportModal({ isOpen, onClose, gridRef, altarName, elementCount
         scale,
         watermark,
         watermarkText: 'Altar Builder Mictlán',
-        backgroundColor: '#111827'
+        backgroundColor: '#111827',
+        caption: includeCaption ? caption : undefined
       };
 
       await exportAndDownload(gridRef.current, altarName, options);
@@ -61,7 +64,7 @@ export function ExportModal({ isOpen, onClose, gridRef, altarName, elementCount
     } finally {
       setExporting(false);
     }
-  }, [gridRef, format, quality, scale, watermark, altarName]);
+  }, [gridRef, format, quality, scale, watermark, includeCaption, caption, altarName]);
 
   const handleShare = useCallback(async () => {
     if (!gridRef?.current) {
@@ -80,7 +83,8 @@ export function ExportModal({ isOpen, onClose, gridRef, altarName, elementCount
         scale: 2,
         watermark: true,
         watermarkText: 'Altar Builder Mictlán',
-        backgroundColor: '#111827'
+        backgroundColor: '#111827',
+        caption: includeCaption ? caption : undefined
       };
 
       // Generate image
@@ -119,7 +123,7 @@ export function ExportModal({ isOpen, onClose, gridRef, altarName, elementCount
     } finally {
       setSharing(false);
     }
-  }, [gridRef, altarName, elementCount]);
+  }, [gridRef, altarName, elementCount, includeCaption, caption]);
 
   if (!isOpen) return null;
 
@@ -269,6 +273,30 @@ export function ExportModal({ isOpen, onClose, gridRef, altarName, elementCount
                 />
               </button>
             </div>
+
+            {/* Dedication Caption Toggle */}
+            {caption.length > 0 && (
+              <div className="flex items-center justify-between p-4 bg-gray-800/50 rounded-lg">
+                <div>
+                  <p className="font-medium text-gray-300">Incluir dedicatoria</p>
+                  <p className="text-xs text-gray-500">Agrega los nombres y notas debajo del altar</p>
+                </div>
+                <button
+                  onClick={() => setIncludeCaption(!includeCaption)}
+                  disabled={exporting || sharing}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors disabled:opacity-50 ${
+                    includeCaption ? 'bg-orange-600' : 'bg-gray-700'
+                  }`}
+                  aria-pressed={includeCaption}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                      includeCaption ? 'translate-x-6' : 'translate-x-1'
+                    }`}
+                  />
+                </button>
+              </div>
+            )}
           </div>
 
           {/* Preview Info */}
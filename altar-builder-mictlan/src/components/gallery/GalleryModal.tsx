@@ -1,5 +1,9 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useIndexedDB } from '../../hooks/useIndexedDB';
+import { exportAltarAsJSON } from '../../utils/persistence';
+import { blobToDataUrl } from '../../utils/image-utils';
+import { RevisionHistory } from './RevisionHistory';
+import { parseAltarFile, describeAltarImportError, AltarImportError } from '../../utils/altar-schema';
 import type { SavedAltar } from '../../types';
 
 interface GalleryModalProps {
@@ -9,26 +13,41 @@ interface GalleryModalProps {
 }
 
 export function GalleryModal({ isOpen, onClose, onLoadAltar }: GalleryModalProps) {
-  const { altars, loading, error, deleteAltar, getThumbnail } = useIndexedDB();
+  const { altars, loading, error, deleteAltar, importAltar, getThumbnail } = useIndexedDB();
   const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const [historyAltar, setHistoryAltar] = useState<SavedAltar | null>(null);
+  const [importError, setImportError] = useState<{ message: string; issues: string[] } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Load thumbnails for all altars
+  // Load thumbnail Blobs as object URLs, revoking them when the list changes
   useEffect(() => {
     if (!isOpen || loading) return;
 
+    let cancelled = false;
+    const urls: string[] = [];
+
     const loadThumbnails = async () => {
       const thumbs: Record<string, string> = {};
       for (const altar of altars) {
-        const thumb = await getThumbnail(altar.id);
-        if (thumb) {
-          thumbs[altar.id] = thumb;
+        const blob = await getThumbnail(altar.id);
+        if (blob) {
+          const url = URL.createObjectURL(blob);
+          urls.push(url);
+          thumbs[altar.id] = url;
         }
       }
-      setThumbnails(thumbs);
+      if (!cancelled) {
+        setThumbnails(thumbs);
+      }
     };
 
     loadThumbnails();
+
+    return () => {
+      cancelled = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
   }, [isOpen, loading, altars, getThumbnail]);
 
   const handleDelete = async (id: string) => {
@@ -45,10 +64,34 @@ export function GalleryModal({ isOpen, onClose, onLoadAltar }: GalleryModalProps
   };
 
   const handleLoad = (altar: SavedAltar) => {
+    setHistoryAltar(null);
     onLoadAltar(altar);
     onClose();
   };
 
+  const handleExport = async (altar: SavedAltar) => {
+    const blob = await getThumbnail(altar.id);
+    exportAltarAsJSON({ ...altar, thumbnail: blob ? await blobToDataUrl(blob) : '' });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const altar = parseAltarFile(await file.text());
+      setImportError(null);
+      await importAltar(altar);
+    } catch (err) {
+      console.error('Failed to import altar file:', err);
+      setImportError({
+        message: describeAltarImportError(err),
+        issues: err instanceof AltarImportError ? err.issues : []
+      });
+    }
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -70,9 +113,47 @@ export function GalleryModal({ isOpen, onClose, onLoadAltar }: GalleryModalProps
               </svg>
             </button>
           </div>
-          <p className="text-gray-400 text-sm mt-2">
-            {altars.length} {altars.length === 1 ? 'altar guardado' : 'altares guardados'}
-          </p>
+          <div className="flex items-center justify-between mt-2">
+            <p className="text-gray-400 text-sm">
+              {altars.length} {altars.length === 1 ? 'altar guardado' : 'altares guardados'}
+            </p>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm rounded-lg border border-gray-700 hover:border-orange-500/50 transition-colors"
+            >
+              📥 Importar altar
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              className="hidden"
+              aria-label="Importar altar desde archivo"
+            />
+          </div>
+
+          {importError && (
+            <div className="mt-4 bg-red-900/20 border border-red-500/50 rounded-lg p-4 text-red-400 text-sm" role="alert">
+              <div className="flex items-start justify-between gap-4">
+                <p className="font-medium">{importError.message}</p>
+                <button
+                  onClick={() => setImportError(null)}
+                  className="text-red-400 hover:text-red-300"
+                  aria-label="Descartar error"
+                >
+                  ✕
+                </button>
+              </div>
+              {importError.issues.length > 0 && (
+                <ul className="mt-2 list-disc list-inside text-xs text-red-300/80 max-h-32 overflow-y-auto font-mono">
+                  {importError.issues.map(issue => (
+                    <li key={issue}>{issue}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Content */}
@@ -102,7 +183,15 @@ export function GalleryModal({ isOpen, onClose, onLoadAltar }: GalleryModalProps
             </div>
           )}
 
-          {!loading && !error && altars.length > 0 && (
+          {historyAltar && (
+            <RevisionHistory
+              altar={historyAltar}
+              onBack={() => setHistoryAltar(null)}
+              onOpenAltar={handleLoad}
+            />
+          )}
+
+          {!historyAltar && !loading && !error && altars.length > 0 && (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
               {altars.map(altar => (
                 <AltarCard
@@ -110,6 +199,8 @@ export function GalleryModal({ isOpen, onClose, onLoadAltar }: GalleryModalProps
                   altar={altar}
                   thumbnail={thumbnails[altar.id]}
                   onLoad={() => handleLoad(altar)}
+                  onExport={() => handleExport(altar)}
+                  onShowHistory={() => setHistoryAltar(altar)}
                   onDelete={() => setDeleteConfirmId(altar.id)}
                   isDeleting={deleteConfirmId === altar.id}
                   onCancelDelete={() => setDeleteConfirmId(null)}
@@ -138,6 +229,8 @@ interface AltarCardProps {
   altar: SavedAltar;
   thumbnail?: string;
   onLoad: () => void;
+  onExport: () => void;
+  onShowHistory: () => void;
   onDelete: () => void;
   isDeleting: boolean;
   onCancelDelete: () => void;
@@ -148,6 +241,8 @@ function AltarCard({
   altar,
   thumbnail,
   onLoad,
+  onExport,
+  onShowHistory,
   onDelete,
   isDeleting,
   onCancelDelete,
@@ -224,6 +319,26 @@ function AltarCard({
           >
             Cargar
           </button>
+          <button
+            onClick={onShowHistory}
+            className="px-4 py-2 bg-gray-700/50 hover:bg-gray-700 text-gray-200 border border-gray-600 rounded-lg transition-all duration-200"
+            aria-label="Ver historial de versiones"
+            title="Historial de versiones"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </button>
+          <button
+            onClick={onExport}
+            className="px-4 py-2 bg-gray-700/50 hover:bg-gray-700 text-gray-200 border border-gray-600 rounded-lg transition-all duration-200"
+            aria-label="Exportar como JSON"
+            title="Exportar como JSON"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+            </svg>
+          </button>
           <button
             onClick={onDelete}
             className="px-4 py-2 bg-red-600/20 hover:bg-red-600/30 text-red-400 border border-red-600/50 rounded-lg transition-all duration-200"
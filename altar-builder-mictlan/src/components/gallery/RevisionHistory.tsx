@@ -0,0 +1,221 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useIndexedDB } from '../../hooks/useIndexedDB';
+import { useAltarStore } from '../../store/useAltarStore';
+import { getElementForPlaced, createCustomOfrendaElement } from '../../data/elements';
+import { diffRevisions } from '../../utils/revisions';
+import type { AltarRevision, OfrendarElement, PlacedElement, SavedAltar } from '../../types';
+
+interface RevisionHistoryProps {
+  altar: SavedAltar;
+  onBack: () => void;
+  onOpenAltar: (altar: SavedAltar) => void;
+}
+
+/**
+ * Timeline of an altar's saved and autosaved versions with restore and fork
+ */
+export function RevisionHistory({ altar, onBack, onOpenAltar }: RevisionHistoryProps) {
+  const { getRevisions, restoreRevision, forkRevision } = useIndexedDB();
+  const [revisions, setRevisions] = useState<AltarRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getRevisions(altar.id).then(result => {
+      if (!cancelled) {
+        setRevisions(result);
+        setLoading(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [altar.id, getRevisions]);
+
+  // Object URLs for revision thumbnails, revoked when the list changes
+  const thumbnails = useMemo(() => {
+    const urls: Record<string, string> = {};
+    revisions.forEach(revision => {
+      if (revision.thumbnail) {
+        urls[revision.id] = URL.createObjectURL(revision.thumbnail);
+      }
+    });
+    return urls;
+  }, [revisions]);
+
+  useEffect(() => () => {
+    Object.values(thumbnails).forEach(url => URL.revokeObjectURL(url));
+  }, [thumbnails]);
+
+  const handleRestore = async (revision: AltarRevision) => {
+    setBusyId(revision.id);
+    const restored = await restoreRevision(revision);
+    setBusyId(null);
+    if (restored) {
+      onOpenAltar(restored);
+    }
+  };
+
+  const handleFork = async (revision: AltarRevision) => {
+    setBusyId(revision.id);
+    const fork = await forkRevision(revision, `${revision.name} (copia)`);
+    setBusyId(null);
+    if (fork) {
+      onOpenAltar(fork);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={onBack}
+          className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm rounded-lg border border-gray-700 transition-colors"
+        >
+          ← Volver
+        </button>
+        <h3 className="font-bold text-orange-300 truncate">
+          Historial de «{altar.name}»
+        </h3>
+      </div>
+
+      {loading && (
+        <p className="text-gray-400 text-sm">Cargando historial...</p>
+      )}
+
+      {!loading && revisions.length === 0 && (
+        <p className="text-gray-400 text-sm">
+          Este altar aún no tiene versiones guardadas.
+        </p>
+      )}
+
+      <ol className="space-y-3">
+        {revisions.map((revision, index) => (
+          <RevisionItem
+            key={revision.id}
+            revision={revision}
+            previous={revisions[index + 1]}
+            isCurrent={index === 0}
+            thumbnail={thumbnails[revision.id]}
+            busy={busyId !== null}
+            onRestore={() => handleRestore(revision)}
+            onFork={() => handleFork(revision)}
+          />
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+interface RevisionItemProps {
+  revision: AltarRevision;
+  previous?: AltarRevision;
+  isCurrent: boolean;
+  thumbnail?: string;
+  busy: boolean;
+  onRestore: () => void;
+  onFork: () => void;
+}
+
+function RevisionItem({
+  revision,
+  previous,
+  isCurrent,
+  thumbnail,
+  busy,
+  onRestore,
+  onFork
+}: RevisionItemProps) {
+  const available = useAltarStore(state => state.elements.available);
+
+  const elements = useMemo<OfrendarElement[]>(
+    () => [...available, ...(revision.customElements ?? []).map(createCustomOfrendaElement)],
+    [available, revision.customElements]
+  );
+
+  const diff = useMemo(
+    () => (previous ? diffRevisions(previous.elements, revision.elements) : null),
+    [previous, revision.elements]
+  );
+
+  const nameOf = (placed: PlacedElement) =>
+    getElementForPlaced(placed, elements)?.name ?? placed.elementType;
+
+  const date = revision.createdAt.toLocaleString('es-MX', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+  return (
+    <li className="bg-gray-800 border-2 border-gray-700 rounded-lg p-3 flex gap-4">
+      <div className="w-24 aspect-[4/3] flex-shrink-0 bg-gray-900 rounded overflow-hidden">
+        {thumbnail ? (
+          <img src={thumbnail} alt="" className="w-full h-full object-cover" />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center text-2xl text-gray-600">
+            {revision.kind === 'autosave' ? '⏱️' : '💾'}
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2 text-sm">
+          <span className="font-medium text-white">{date}</span>
+          <span className={`px-2 py-0.5 rounded-full text-xs ${
+            revision.kind === 'save'
+              ? 'bg-orange-600/30 text-orange-300'
+              : 'bg-gray-700 text-gray-300'
+          }`}>
+            {revision.kind === 'save' ? 'Guardado' : 'Autoguardado'}
+          </span>
+          {isCurrent && <span className="text-xs text-green-400">Actual</span>}
+        </div>
+
+        {diff ? (
+          <ul className="mt-1 text-xs space-y-0.5">
+            {diff.added.length > 0 && (
+              <li className="text-green-400">+ {diff.added.map(nameOf).join(', ')}</li>
+            )}
+            {diff.removed.length > 0 && (
+              <li className="text-red-400">− {diff.removed.map(nameOf).join(', ')}</li>
+            )}
+            {diff.moved.length > 0 && (
+              <li className="text-yellow-400">↔ {diff.moved.map(({ element }) => nameOf(element)).join(', ')}</li>
+            )}
+            {diff.added.length + diff.removed.length + diff.moved.length === 0 && (
+              <li className="text-gray-500">Sin cambios en los elementos</li>
+            )}
+          </ul>
+        ) : (
+          <p className="mt-1 text-xs text-gray-500">
+            Versión inicial · {revision.elements.length} {revision.elements.length === 1 ? 'elemento' : 'elementos'}
+          </p>
+        )}
+
+        <div className="flex gap-2 mt-2">
+          {!isCurrent && (
+            <button
+              onClick={onRestore}
+              disabled={busy}
+              className="px-3 py-1 bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 text-white text-xs font-medium rounded transition-all disabled:opacity-50"
+            >
+              Restaurar
+            </button>
+          )}
+          <button
+            onClick={onFork}
+            disabled={busy}
+            className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs rounded transition-colors disabled:opacity-50"
+          >
+            Crear altar nuevo desde aquí
+          </button>
+        </div>
+      </div>
+    </li>
+  );
+}
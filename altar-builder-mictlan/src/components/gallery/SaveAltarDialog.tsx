@@ -1,5 +1,6 @@
 import { useState, useRef, useEffect } from 'react';
 import { useIndexedDB, useThumbnailGenerator } from '../../hooks/useIndexedDB';
+import { useCurrentAltarId } from '../../store/useAltarStore';
 import type { PlacedElement } from '../../types';
 
 interface SaveAltarDialogProps {
@@ -13,15 +14,27 @@ export function SaveAltarDialog({ isOpen, onClose, elements, gridRef }: SaveAlta
   const [altarName, setAltarName] = useState('');
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [saveAsNew, setSaveAsNew] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  const { saveAltar } = useIndexedDB();
+  const { altars, saveAltar, updateAltar } = useIndexedDB();
   const { generateThumbnail } = useThumbnailGenerator();
+  const currentAltarId = useCurrentAltarId();
+  const currentAltar = altars.find(altar => altar.id === currentAltarId);
+  const currentAltarName = currentAltar?.name;
 
   // Focus input when opened
   useEffect(() => {
     if (isOpen && inputRef.current) {
       inputRef.current.focus();
+      setSaveAsNew(false);
+
+      // Keep the name of the gallery altar being edited
+      if (currentAltarName) {
+        setAltarName(currentAltarName);
+        return;
+      }
+
       // Generate default name
       const now = new Date();
       const defaultName = `Altar ${now.toLocaleDateString('es-MX', {
@@ -33,7 +46,7 @@ export function SaveAltarDialog({ isOpen, onClose, elements, gridRef }: SaveAlta
       })}`;
       setAltarName(defaultName);
     }
-  }, [isOpen]);
+  }, [isOpen, currentAltarName]);
 
   const handleSave = async () => {
     if (!altarName.trim()) {
@@ -51,7 +64,7 @@ export function SaveAltarDialog({ isOpen, onClose, elements, gridRef }: SaveAlta
 
     try {
       // Generate thumbnail if grid reference is available
-      let thumbnail: string | undefined;
+      let thumbnail: Blob | undefined;
       if (gridRef?.current) {
         try {
           // Try to convert grid to canvas for thumbnail
@@ -65,9 +78,12 @@ export function SaveAltarDialog({ isOpen, onClose, elements, gridRef }: SaveAlta
         }
       }
 
-      const altarId = await saveAltar(altarName.trim(), elements, thumbnail);
+      // Saving over the current altar adds a revision to its history
+      const saved = currentAltar && !saveAsNew
+        ? await updateAltar(currentAltar.id, altarName.trim(), elements, thumbnail)
+        : await saveAltar(altarName.trim(), elements, thumbnail);
 
-      if (altarId) {
+      if (saved) {
         onClose();
         setAltarName('');
       } else {
@@ -134,6 +150,19 @@ export function SaveAltarDialog({ isOpen, onClose, elements, gridRef }: SaveAlta
             </p>
           </div>
 
+          {currentAltar && (
+            <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={saveAsNew}
+                onChange={(e) => setSaveAsNew(e.target.checked)}
+                disabled={saving}
+                className="accent-orange-500"
+              />
+              Guardar como un altar nuevo
+            </label>
+          )}
+
           {error && (
             <div className="bg-red-900/20 border border-red-500/50 rounded-lg p-3 text-red-400 text-sm">
               {error}
@@ -143,7 +172,9 @@ export function SaveAltarDialog({ isOpen, onClose, elements, gridRef }: SaveAlta
           {/* Info */}
           <div className="bg-orange-900/20 border border-orange-500/30 rounded-lg p-3">
             <p className="text-xs text-gray-400">
-              💡 Tu altar se guardará localmente en este dispositivo. Podrás cargarlo desde la galería en cualquier momento.
+              {currentAltar && !saveAsNew
+                ? '🕰️ Se añadirá una nueva versión al historial de este altar. Podrás volver a versiones anteriores desde la galería.'
+                : '💡 Tu altar se guardará localmente en este dispositivo. Podrás cargarlo desde la galería en cualquier momento.'}
             </p>
           </div>
         </div>
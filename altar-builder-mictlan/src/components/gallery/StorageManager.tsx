@@ -1,5 +1,16 @@
 import { useState, useEffect } from 'react';
 import { useIndexedDB } from '../../hooks/useIndexedDB';
+import { getStorageInfo } from '../../utils/persistence';
+import type { StoreName, StoreUsage } from '../../utils/indexeddb';
+
+const STORE_LABELS: Record<StoreName, string> = {
+  altars: '🕯️ Altares',
+  thumbnails: '🖼️ Miniaturas',
+  customElements: '📷 Elementos personales',
+  revisions: '🕰️ Historial de versiones',
+  recordings: '🎬 Grabaciones de sesiones',
+  mcpDebugSessions: '🐞 Sesiones de depuración MCP'
+};
 
 interface StorageManagerProps {
   isOpen: boolean;
@@ -7,8 +18,10 @@ interface StorageManagerProps {
 }
 
 export function StorageManager({ isOpen, onClose }: StorageManagerProps) {
-  const { getStorageEstimate, clearAll, countAltars } = useIndexedDB();
+  const { getStorageEstimate, getStoreUsage, clearAll, countAltars } = useIndexedDB();
   const [storage, setStorage] = useState({ usage: 0, quota: 0, percentage: 0 });
+  const [storeUsage, setStoreUsage] = useState<StoreUsage[]>([]);
+  const [localStorageUsed, setLocalStorageUsed] = useState(0);
   const [altarCount, setAltarCount] = useState(0);
   const [loading, setLoading] = useState(true);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
@@ -24,6 +37,8 @@ export function StorageManager({ isOpen, onClose }: StorageManagerProps) {
         const count = await countAltars();
         setStorage(estimate);
         setAltarCount(count);
+        setStoreUsage(await getStoreUsage());
+        setLocalStorageUsed(getStorageInfo().used);
       } catch (err) {
         console.error('Failed to load storage info:', err);
       } finally {
@@ -32,7 +47,7 @@ export function StorageManager({ isOpen, onClose }: StorageManagerProps) {
     };
 
     loadStorageInfo();
-  }, [isOpen, getStorageEstimate, countAltars]);
+  }, [isOpen, getStorageEstimate, getStoreUsage, countAltars]);
 
   const handleClearAll = async () => {
     setClearing(true);
@@ -44,6 +59,7 @@ export function StorageManager({ isOpen, onClose }: StorageManagerProps) {
         // Refresh storage estimate
         const estimate = await getStorageEstimate();
         setStorage(estimate);
+        setStoreUsage(await getStoreUsage());
       }
     } catch (err) {
       console.error('Failed to clear storage:', err);
@@ -156,6 +172,36 @@ export function StorageManager({ isOpen, onClose }: StorageManagerProps) {
                 </div>
               </div>
 
+              {/* Per-store Usage */}
+              <div className="bg-gray-800 border border-gray-700 rounded-lg p-6">
+                <h3 className="text-lg font-bold text-orange-300 mb-4 flex items-center gap-2">
+                  🗂️ Detalle por almacén
+                </h3>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-gray-500 text-left">
+                      <th className="font-normal pb-2">Almacén</th>
+                      <th className="font-normal pb-2 text-right">Registros</th>
+                      <th className="font-normal pb-2 text-right">Tamaño</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-700">
+                    {storeUsage.map(entry => (
+                      <tr key={entry.store}>
+                        <td className="py-2 text-gray-300">{STORE_LABELS[entry.store]}</td>
+                        <td className="py-2 text-right text-white">{entry.count}</td>
+                        <td className="py-2 text-right text-white">{formatBytes(entry.bytes)}</td>
+                      </tr>
+                    ))}
+                    <tr>
+                      <td className="py-2 text-gray-300">💾 Autoguardado (localStorage)</td>
+                      <td className="py-2 text-right text-gray-500">—</td>
+                      <td className="py-2 text-right text-white">{formatBytes(localStorageUsed)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+
               {/* Storage Tips */}
               <div className="bg-orange-900/20 border border-orange-500/30 rounded-lg p-4">
                 <h4 className="font-medium text-orange-300 mb-2 flex items-center gap-2">
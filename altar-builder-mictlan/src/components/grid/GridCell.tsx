@@ -1,17 +1,27 @@
 import { memo } from 'react';
-import type { GridPosition, PlacedElement } from '../../types';
+import type { GridPosition, PlacedElement, CustomElement, SoftLock } from '../../types';
 import { getAnimationClasses } from '../../utils/animation-engine';
 
 interface GridCellProps {
   position: GridPosition;
   element?: PlacedElement;
+  customElement?: CustomElement;
   size: { width: number; height: number };
   isHighlighted: boolean;
   highlightType?: 'valid' | 'invalid';
+  tierIndex?: number;
+  tierLabel?: string;
   isDragOver: boolean;
+  // Another peer is dragging onto this cell or the element in it
+  lock?: SoftLock;
+  // A proximity or stacking rule of the element the altar no longer meets
+  unmetRule?: string;
   onDragOver?: (e: React.DragEvent, position: GridPosition) => void;
   onDragLeave?: (e: React.DragEvent) => void;
   onDrop?: (e: React.DragEvent, position: GridPosition) => void;
+  // Makes the placed element draggable, to move it to another cell
+  onElementDragStart?: (e: React.DragEvent, element: PlacedElement) => void;
+  onElementDragEnd?: (e: React.DragEvent) => void;
   onClick?: (position: GridPosition) => void;
 }
 
@@ -22,13 +32,20 @@ interface GridCellProps {
 export const GridCell = memo(function GridCell({
   position,
   element,
+  customElement,
   size,
   isHighlighted,
   highlightType = 'valid',
+  tierIndex,
+  tierLabel,
   isDragOver,
+  lock,
+  unmetRule,
   onDragOver,
   onDragLeave,
   onDrop,
+  onElementDragStart,
+  onElementDragEnd,
   onClick
 }: GridCellProps) {
   const handleDragOver = (e: React.DragEvent) => {
@@ -47,8 +64,19 @@ export const GridCell = memo(function GridCell({
     onClick?.(position);
   };
 
+  // Elements another peer is working on stay put
+  const isMovable = element !== undefined && onElementDragStart !== undefined && !lock;
+
+  const handleElementDragStart = (e: React.DragEvent) => {
+    e.stopPropagation();
+    if (element) {
+      onElementDragStart?.(e, element);
+    }
+  };
+
   // Build class names
-  const baseClasses = 'grid-cell relative rounded-lg transition-all duration-200';
+  const baseClasses = 'grid-cell group relative rounded-lg transition-all duration-200';
+  const noteId = element?.note ? `note-${element.id}` : undefined;
 
   const highlightClasses = isHighlighted
     ? highlightType === 'valid'
@@ -60,20 +88,26 @@ export const GridCell = memo(function GridCell({
     ? 'scale-105 shadow-xl'
     : '';
 
-  const cursorClasses = element
-    ? 'cursor-pointer hover:shadow-md'
-    : 'cursor-default';
+  const cursorClasses = isMovable
+    ? 'cursor-grab hover:shadow-md'
+    : element
+      ? 'cursor-pointer hover:shadow-md'
+      : 'cursor-default';
 
+  // Alternate tiers are tinted so the altar levels read as bands
   const backgroundClasses = element
     ? 'bg-gray-800/40'
-    : 'bg-gray-900/30 hover:bg-gray-800/20';
+    : tierIndex !== undefined && tierIndex % 2 === 1
+      ? 'bg-orange-950/30 hover:bg-gray-800/20'
+      : 'bg-gray-900/30 hover:bg-gray-800/20';
 
   return (
     <div
       className={`${baseClasses} ${highlightClasses} ${dragOverClasses} ${cursorClasses} ${backgroundClasses}`}
       style={{
         width: `${size.width}px`,
-        height: `${size.height}px`
+        height: `${size.height}px`,
+        ...(lock ? { boxShadow: `inset 0 0 0 3px ${lock.color ?? '#f97316'}` } : {})
       }}
       onDragOver={handleDragOver}
       onDragLeave={onDragLeave}
@@ -82,29 +116,87 @@ export const GridCell = memo(function GridCell({
       data-row={position.row}
       data-col={position.col}
       role="gridcell"
-      aria-label={`Grid position ${position.row}, ${position.col}${element ? ` with ${element.elementType}` : ' empty'}`}
+      aria-label={`Grid position ${position.row}, ${position.col}${element ? ` with ${customElement?.name ?? element.elementType}` : ' empty'}${lock ? `, in use by ${lock.name ?? 'another peer'}` : ''}${unmetRule ? `. ${unmetRule}` : ''}`}
+      aria-describedby={noteId}
       tabIndex={0}
     >
       {element && (
-        <div className="absolute inset-0 flex items-center justify-center p-2">
+        <div
+          className="absolute inset-0 flex items-center justify-center p-2"
+          draggable={isMovable}
+          onDragStart={isMovable ? handleElementDragStart : undefined}
+          onDragEnd={isMovable ? onElementDragEnd : undefined}
+        >
           <div className={`flex flex-col items-center justify-center gap-1 ${getAnimationClasses(element)} animate-bounce-in`}>
-            <span
-              className="text-3xl sm:text-4xl md:text-5xl select-none"
-              role="img"
-              aria-label={element.elementType}
-            >
-              {/* This will be replaced with actual element icon */}
-              {getElementIcon(element.elementType)}
-            </span>
+            {customElement ? (
+              <img
+                src={customElement.imageDataUrl}
+                alt={customElement.name}
+                title={customElement.dedication || customElement.name}
+                className="rounded-md object-cover border-2 border-orange-400/50 select-none"
+                style={{ width: size.width * 0.6, height: size.height * 0.6 }}
+                draggable={false}
+              />
+            ) : (
+              <span
+                className="text-3xl sm:text-4xl md:text-5xl select-none"
+                role="img"
+                aria-label={element.elementType}
+              >
+                {/* This will be replaced with actual element icon */}
+                {getElementIcon(element.elementType)}
+              </span>
+            )}
             {size.width > 60 && (
               <span className="text-xs text-gray-400 text-center line-clamp-1">
-                {element.elementType}
+                {customElement?.name ?? element.elementType}
               </span>
             )}
           </div>
         </div>
       )}
 
+      {lock && (
+        <span
+          className="absolute top-0.5 left-1 px-1 rounded text-[10px] font-medium text-white pointer-events-none line-clamp-1 max-w-[90%]"
+          style={{ backgroundColor: lock.color ?? '#f97316' }}
+          aria-hidden="true"
+        >
+          {lock.name ?? '…'}
+        </span>
+      )}
+
+      {/* Note marker and tooltip, shown on hover and keyboard focus */}
+      {element?.note && (
+        <>
+          <span className="absolute top-0.5 right-1 text-xs pointer-events-none" aria-hidden="true">📝</span>
+          <div
+            id={noteId}
+            role="tooltip"
+            className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 px-3 py-2 max-w-[12rem] w-max bg-black/90 text-white text-xs rounded-lg opacity-0 group-hover:opacity-100 group-focus:opacity-100 transition-opacity duration-200 pointer-events-none z-20"
+          >
+            {element.note}
+          </div>
+        </>
+      )}
+
+      {unmetRule && (
+        <span
+          className="absolute bottom-0.5 right-1 text-xs"
+          title={unmetRule}
+          aria-hidden="true"
+        >
+          ⚠️
+        </span>
+      )}
+
+      {/* Tier name on the first cell of each altar level */}
+      {tierLabel && (
+        <div className="absolute top-0.5 left-1 text-[9px] uppercase tracking-wide text-orange-300/60 pointer-events-none select-none">
+          {tierLabel}
+        </div>
+      )}
+
       {/* Position indicator for debugging (only show on hover in dev) */}
       {!element && process.env.NODE_ENV === 'development' && (
         <div className="absolute top-1 left-1 text-[8px] text-gray-600 opacity-0 hover:opacity-100 transition-opacity">
@@ -5,22 +5,38 @@ import type {
   GridPosition,
   PlacedElement,
   OfrendarElement,
-  ValidationResult
+  ValidationResult,
+  CustomElement,
+  DragTarget,
+  SoftLock
 } from '../../types';
 import {
   getResponsiveGridDimensions,
   calculateCellSize,
-  getPositionKey
+  getPositionKey,
+  getTierBands,
+  getCellLock
 } from '../../utils/grid-utils';
+import { DRAG_DATA } from '../../utils/constants';
+import { findUnmetPlacementRules } from '../../utils/placement-rules';
 
 interface GridWorkspaceProps {
   dimensions?: GridDimensions;
   elements: PlacedElement[];
+  customElements?: CustomElement[];
   onElementPlace?: (element: OfrendarElement, position: GridPosition) => void;
   onElementRemove?: (elementId: string) => void;
+  // Placed elements can be dragged to another cell when these are given
+  onElementMove?: (element: OfrendarElement, elementId: string, position: GridPosition) => void;
+  onElementDragStart?: (e: React.DragEvent, element: PlacedElement) => void;
+  onElementDragEnd?: (e: React.DragEvent) => void;
   onCellClick?: (position: GridPosition) => void;
   onDragOver?: (position: GridPosition | null, validation: ValidationResult | null) => void;
-  validateDrop?: (element: OfrendarElement, position: GridPosition) => ValidationResult;
+  validateDrop?: (element: OfrendarElement, position: GridPosition, movingElementId?: string) => ValidationResult;
+  // Locks other collaborators hold, drawn in their color
+  softLocks?: SoftLock[];
+  // Reports the cell a drag points at, or undefined once it is dropped
+  onDragTargetChange?: (target?: DragTarget) => void;
   className?: string;
   gap?: number;
 }
@@ -32,11 +48,17 @@ interface GridWorkspaceProps {
 export function GridWorkspace({
   dimensions,
   elements,
+  customElements = [],
   onElementPlace,
   onElementRemove,
+  onElementMove,
+  onElementDragStart,
+  onElementDragEnd,
   onCellClick,
   onDragOver,
   validateDrop,
+  softLocks = [],
+  onDragTargetChange,
   className = '',
   gap = 8
 }: GridWorkspaceProps) {
@@ -90,8 +112,11 @@ export function GridWorkspace({
     e.preventDefault();
     setHoveredPosition(position);
 
+    const movingElementId = e.dataTransfer.getData(DRAG_DATA.PLACED_ELEMENT_ID) || undefined;
+    onDragTargetChange?.(movingElementId ? { cell: position, elementId: movingElementId } : { cell: position });
+
     // Get dragged element data
-    const elementData = e.dataTransfer.getData('application/json');
+    const elementData = e.dataTransfer.getData(DRAG_DATA.ELEMENT);
     if (!elementData) return;
 
     try {
@@ -100,14 +125,14 @@ export function GridWorkspace({
 
       // Validate drop
       if (validateDrop) {
-        const result = validateDrop(element, position);
+        const result = validateDrop(element, position, movingElementId);
         setValidationResult(result);
         onDragOver?.(position, result);
       }
     } catch (error) {
       console.error('Error parsing dragged element:', error);
     }
-  }, [validateDrop, onDragOver]);
+  }, [validateDrop, onDragOver, onDragTargetChange]);
 
   // Handle drag leave
   const handleDragLeave = useCallback(() => {
@@ -121,22 +146,27 @@ export function GridWorkspace({
   const handleDrop = useCallback((e: React.DragEvent, position: GridPosition) => {
     e.preventDefault();
 
-    const elementData = e.dataTransfer.getData('application/json');
+    const elementData = e.dataTransfer.getData(DRAG_DATA.ELEMENT);
     if (!elementData) return;
+    const movingElementId = e.dataTransfer.getData(DRAG_DATA.PLACED_ELEMENT_ID) || undefined;
 
     try {
       const element: OfrendarElement = JSON.parse(elementData);
 
       // Validate before placing
       if (validateDrop) {
-        const result = validateDrop(element, position);
+        const result = validateDrop(element, position, movingElementId);
         if (!result.isValid) {
           console.warn('Invalid drop:', result.reason);
           return;
         }
       }
 
-      onElementPlace?.(element, position);
+      if (movingElementId) {
+        onElementMove?.(element, movingElementId, position);
+      } else {
+        onElementPlace?.(element, position);
+      }
     } catch (error) {
       console.error('Error dropping element:', error);
     } finally {
@@ -144,8 +174,9 @@ export function GridWorkspace({
       setDraggedElement(null);
       setValidationResult(null);
       onDragOver?.(null, null);
+      onDragTargetChange?.(undefined);
     }
-  }, [validateDrop, onElementPlace, onDragOver]);
+  }, [validateDrop, onElementPlace, onElementMove, onDragOver, onDragTargetChange]);
 
   // Handle cell click
   const handleCellClick = useCallback((position: GridPosition) => {
@@ -159,9 +190,30 @@ export function GridWorkspace({
     elementMap.set(key, element);
   });
 
+  const customElementMap = new Map(customElements.map(custom => [custom.id, custom]));
+
+  // Elements left away from what they accompany, e.g. after it was removed
+  const unmetRules = new Map<string, string>();
+  findUnmetPlacementRules(elements).forEach(({ element, rule }) => {
+    if (!unmetRules.has(element.id)) {
+      unmetRules.set(element.id, rule.message);
+    }
+  });
+
+  // Cells suggested by the last failed validation while dragging
+  const suggestedKeys = new Set(
+    draggedElement && validationResult && !validationResult.isValid
+      ? (validationResult.suggestions ?? []).map(getPositionKey)
+      : []
+  );
+
+  const tierBands = getTierBands(gridDimensions);
+
   // Generate grid cells
   const gridCells: React.ReactNode[] = [];
   for (let row = 0; row < gridDimensions.rows; row++) {
+    const tierBand = tierBands.find(band => row >= band.startRow && row <= band.endRow);
+
     for (let col = 0; col < gridDimensions.cols; col++) {
       const position: GridPosition = { row, col };
       const key = getPositionKey(position);
@@ -170,21 +222,29 @@ export function GridWorkspace({
         ? hoveredPosition.row === row && hoveredPosition.col === col
         : false;
 
-      const isHighlighted = isHovered && draggedElement !== null;
-      const highlightType = validationResult?.isValid ? 'valid' : 'invalid';
+      const isSuggested = suggestedKeys.has(key);
+      const isHighlighted = (isHovered && draggedElement !== null) || isSuggested;
+      const highlightType = validationResult?.isValid || (isSuggested && !isHovered) ? 'valid' : 'invalid';
 
       gridCells.push(
         <GridCell
           key={key}
           position={position}
           element={element}
+          customElement={element?.customElementId ? customElementMap.get(element.customElementId) : undefined}
           size={cellSize}
           isHighlighted={isHighlighted}
           highlightType={highlightType}
+          tierIndex={tierBand?.index}
+          tierLabel={col === 0 && row === tierBand?.startRow ? tierBand.tier.name.es : undefined}
           isDragOver={isHovered}
+          lock={getCellLock(softLocks, position, element)}
+          unmetRule={element ? unmetRules.get(element.id) : undefined}
           onDragOver={handleDragOver}
           onDragLeave={handleDragLeave}
           onDrop={handleDrop}
+          onElementDragStart={onElementMove ? onElementDragStart : undefined}
+          onElementDragEnd={onElementDragEnd}
           onClick={handleCellClick}
         />
       );
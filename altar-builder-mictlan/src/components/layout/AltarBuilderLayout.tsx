@@ -1,4 +1,4 @@
-import { useCallback, useState, useRef } from 'react';
+import { useCallback, useState, useRef, useMemo } from 'react';
 import { GridWorkspace } from '../grid/GridWorkspace';
 import { ElementPanel } from '../elements/ElementPanel';
 import { SettingsModal } from '../settings/SettingsModal';
@@ -8,16 +8,25 @@ import { GalleryModal } from '../gallery/GalleryModal';
 import { SaveAltarDialog } from '../gallery/SaveAltarDialog';
 import { StorageManager } from '../gallery/StorageManager';
 import { ExportModal } from '../export/ExportModal';
+import { SessionReplayModal } from '../recording/SessionReplayModal';
+import { MCPDebugPanel } from '../debug/MCPDebugPanel';
+import { DedicationPanel } from '../dedication/DedicationPanel';
 import { MariposasCanvas } from '../mariposas/MariposasCanvas';
 import { KeyboardHelpModal, useKeyboardHelpModal } from '../accessibility/KeyboardHelpModal';
-import { useAltarStore, usePlacedElements, useGridDimensions } from '../../store/useAltarStore';
+import { useAltarStore, usePlacedElements, useGridDimensions, useHonorees } from '../../store/useAltarStore';
+import { useMCPActions } from '../../engines/mcp-zustand-bridge';
+import { buildDedicationCaption } from '../../utils/dedication';
+import { useCustomElements } from '../../hooks/useCustomElements';
 import { useDragAndDrop } from '../../hooks/useDragAndDrop';
 import { usePersistence, useStorageWarnings } from '../../hooks/usePersistence';
 import { usePWA, usePWAInstall, usePWAUpdate } from '../../hooks/usePWA';
 import { useAnimations } from '../../hooks/useAnimations';
+import { useSessionRecording } from '../../hooks/useSessionRecording';
 import { useAchievementNotifications } from '../../hooks/useAchievementNotifications';
 import { useAltarKeyboardShortcuts, useKeyboardFocusIndicator, useScreenReaderAnnouncement } from '../../hooks/useKeyboardNavigation';
-import type { OfrendarElement, GridPosition, SavedAltar } from '../../types';
+import { ALTAR_TEMPLATES, DEFAULT_ALTAR_TEMPLATE } from '../../data/altar-templates';
+import { FEATURES } from '../../utils/constants';
+import type { OfrendarElement, GridPosition, SavedAltar, AltarTemplateId } from '../../types';
 
 /**
  * Main Layout Component for Altar Builder
@@ -28,17 +37,25 @@ import type { OfrendarElement, GridPosition, SavedAltar } from '../../types';
 export function AltarBuilderLayout() {
   const placedElements = usePlacedElements();
   const gridDimensions = useGridDimensions();
+  const honorees = useHonorees();
   const {
     placeElement,
     clearAltar,
     removeElement,
-    restoreAltar,
-    ui: { isOffline }
+    setAltarTemplate,
+    setHonorees,
+    setCurrentAltar,
+    setDragTarget,
+    elements: { available },
+    ui: { isOffline, softLocks }
   } = useAltarStore();
 
-  const { validateDrop } = useDragAndDrop();
+  const { validateDrop, handleMove, handlePlacedDragStart, handleDragEnd } = useDragAndDrop();
+  const { customElements, importCustomElements } = useCustomElements();
   const { clearCurrentAltar } = usePersistence();
+  const mcpActions = useMCPActions();
   useStorageWarnings();
+  const { isRecording } = useSessionRecording();
 
   // PWA functionality
   usePWA(); // Monitors online/offline status
@@ -63,6 +80,9 @@ export function AltarBuilderLayout() {
   const [showExport, setShowExport] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [showAchievements, setShowAchievements] = useState(false);
+  const [showDedication, setShowDedication] = useState(false);
+  const [showRecordings, setShowRecordings] = useState(false);
+  const [showMCPDebug, setShowMCPDebug] = useState(false);
   const gridRef = useRef<HTMLDivElement>(null);
 
   // Handle element placement
@@ -79,7 +99,7 @@ export function AltarBuilderLayout() {
   const handleClearAltar = useCallback(() => {
     if (placedElements.length === 0) return;
 
-    if (window.confirm('¿Estás seguro de que quieres limpiar el altar? Esta acción no se puede deshacer.')) {
+    if (window.confirm('¿Estás seguro de que quieres limpiar el altar? Puedes deshacerlo con Ctrl+Z.')) {
       clearAltar();
       clearCurrentAltar();
     }
@@ -95,15 +115,26 @@ export function AltarBuilderLayout() {
   }, [placedElements.length]);
 
   // Handle load altar from gallery
-  const handleLoadAltar = useCallback((altar: SavedAltar) => {
+  const handleLoadAltar = useCallback(async (altar: SavedAltar) => {
     if (placedElements.length > 0) {
       if (!window.confirm('¿Cargar este altar? Se perderán los elementos actuales no guardados.')) {
         return;
       }
     }
-    clearAltar();
-    restoreAltar(altar.elements);
-  }, [placedElements.length, clearAltar, restoreAltar]);
+    if (altar.customElements) {
+      importCustomElements(altar.customElements);
+    }
+    setHonorees(altar.honorees ?? []);
+    if (await mcpActions.restoreAltar(altar.elements, altar.template)) {
+      setCurrentAltar(altar.id);
+    }
+  }, [placedElements.length, mcpActions, importCustomElements, setHonorees, setCurrentAltar]);
+
+  // Dedication lines for exported images
+  const exportCaption = useMemo(
+    () => buildDedicationCaption(honorees, placedElements, available),
+    [honorees, placedElements, available]
+  );
 
   // Handle settings
   const handleOpenSettings = useCallback(() => {
@@ -175,6 +206,16 @@ export function AltarBuilderLayout() {
                 </button>
               )}
 
+              {/* Dedication Button */}
+              <button
+                onClick={() => setShowDedication(true)}
+                className="p-2 text-gray-300 hover:text-orange-400 hover:bg-gray-800/50 rounded-lg transition-all duration-200"
+                aria-label="Dedicatoria"
+                title="Dedicatoria y notas"
+              >
+                <span className="text-xl leading-6" role="img" aria-hidden="true">🕊️</span>
+              </button>
+
               {/* Gallery Button */}
               <button
                 onClick={() => setShowGallery(true)}
@@ -199,6 +240,31 @@ export function AltarBuilderLayout() {
                 </svg>
               </button>
 
+              {/* Session Recordings Button */}
+              <button
+                onClick={() => setShowRecordings(true)}
+                className="relative p-2 text-gray-300 hover:text-orange-400 hover:bg-gray-800/50 rounded-lg transition-all duration-200"
+                aria-label={isRecording ? 'Grabaciones (grabando)' : 'Grabaciones'}
+                title="Grabar y reproducir sesiones"
+              >
+                <span className="text-xl leading-6" role="img" aria-hidden="true">🎬</span>
+                {isRecording && (
+                  <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-red-500 animate-pulse" aria-hidden="true" />
+                )}
+              </button>
+
+              {/* MCP Debug Panel Button (development only) */}
+              {FEATURES.DEBUG_MODE && (
+                <button
+                  onClick={() => setShowMCPDebug(true)}
+                  className="p-2 text-gray-300 hover:text-orange-400 hover:bg-gray-800/50 rounded-lg transition-all duration-200"
+                  aria-label="Depuración MCP"
+                  title="Registro de acciones MCP y viaje en el tiempo"
+                >
+                  <span className="text-xl leading-6" role="img" aria-hidden="true">🐞</span>
+                </button>
+              )}
+
               {/* Keyboard Help Button */}
               <button
                 onClick={keyboardHelp.open}
@@ -238,13 +304,30 @@ export function AltarBuilderLayout() {
         <main className="flex-1 flex flex-col overflow-hidden">
           {/* Workspace Header */}
           <div className="p-4 border-b border-orange-900/20 bg-gray-900/30">
-            <div className="max-w-screen-xl mx-auto">
-              <h2 className="text-xl font-bold text-orange-400 mb-1">
-                Tu Altar
-              </h2>
-              <p className="text-sm text-gray-400">
-                Arrastra elementos desde el panel lateral para construir tu altar
-              </p>
+            <div className="max-w-screen-xl mx-auto flex flex-wrap items-end justify-between gap-3">
+              <div>
+                <h2 className="text-xl font-bold text-orange-400 mb-1">
+                  Tu Altar
+                </h2>
+                <p className="text-sm text-gray-400">
+                  Arrastra elementos desde el panel lateral para construir tu altar
+                </p>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <span>Niveles:</span>
+                <select
+                  value={gridDimensions.template ?? DEFAULT_ALTAR_TEMPLATE}
+                  onChange={(e) => setAltarTemplate(e.target.value as AltarTemplateId)}
+                  className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-1.5 text-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+                  aria-label="Plantilla del altar"
+                >
+                  {ALTAR_TEMPLATES.map(template => (
+                    <option key={template.id} value={template.id}>
+                      {template.name.es}
+                    </option>
+                  ))}
+                </select>
+              </label>
             </div>
           </div>
 
@@ -255,9 +338,15 @@ export function AltarBuilderLayout() {
                 <GridWorkspace
                   dimensions={gridDimensions}
                   elements={placedElements}
+                  customElements={customElements}
                   onElementPlace={handleElementPlace}
                   onElementRemove={handleElementRemove}
+                  onElementMove={handleMove}
+                  onElementDragStart={handlePlacedDragStart}
+                  onElementDragEnd={handleDragEnd}
                   validateDrop={validateDrop}
+                  softLocks={softLocks}
+                  onDragTargetChange={setDragTarget}
                   className="h-full"
                 />
                 {/* Mariposas overlay */}
@@ -352,6 +441,20 @@ export function AltarBuilderLayout() {
         onClose={() => setShowStorage(false)}
       />
 
+      {/* Session Recordings */}
+      <SessionReplayModal
+        isOpen={showRecordings}
+        onClose={() => setShowRecordings(false)}
+      />
+
+      {/* MCP Debug Panel */}
+      {FEATURES.DEBUG_MODE && (
+        <MCPDebugPanel
+          isOpen={showMCPDebug}
+          onClose={() => setShowMCPDebug(false)}
+        />
+      )}
+
       {/* Export Modal */}
       <ExportModal
         isOpen={showExport}
@@ -359,6 +462,13 @@ export function AltarBuilderLayout() {
         gridRef={gridRef}
         altarName="Mi Altar"
         elementCount={placedElements.length}
+        caption={exportCaption}
+      />
+
+      {/* Dedication Panel */}
+      <DedicationPanel
+        isOpen={showDedication}
+        onClose={() => setShowDedication(false)}
       />
 
       {/* Settings Modal */}
@@ -0,0 +1,330 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { GridWorkspace } from '../grid/GridWorkspace';
+import { useSessionRecording } from '../../hooks/useSessionRecording';
+import { useCustomElements } from '../../store/useAltarStore';
+import { SessionPlayer, PLAYBACK_SPEEDS, type PlaybackState } from '../../engines/recording';
+import type { RecordedEvent, SessionRecording } from '../../types';
+
+interface SessionReplayModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Records building sessions and replays saved ones step by step
+ */
+export function SessionReplayModal({ isOpen, onClose }: SessionReplayModalProps) {
+  const {
+    current,
+    isRecording,
+    recordings,
+    error,
+    loadRecordings,
+    startRecording,
+    stopRecording,
+    deleteRecording,
+    importRecording,
+    exportRecording
+  } = useSessionRecording();
+  const [name, setName] = useState('');
+  const [selected, setSelected] = useState<SessionRecording | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadRecordings();
+    } else {
+      setSelected(null);
+    }
+  }, [isOpen, loadRecordings]);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const recording = await importRecording(file);
+    if (recording) {
+      setSelected(recording);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="session-replay-title"
+        className="bg-gray-900 border-2 border-orange-500/50 rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col animate-scale-in"
+      >
+        {/* Header */}
+        <div className="p-6 border-b border-gray-800">
+          <div className="flex items-center justify-between">
+            <h2
+              id="session-replay-title"
+              className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-orange-400 to-orange-600 flex items-center gap-2"
+            >
+              🎬 Grabaciones de sesiones
+            </h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-white transition-colors"
+              aria-label="Cerrar"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {error && (
+            <p role="alert" className="text-sm text-red-400">{error}</p>
+          )}
+
+          {selected ? (
+            <RecordingPlayer
+              key={selected.id}
+              recording={selected}
+              onBack={() => setSelected(null)}
+              onExport={() => exportRecording(selected)}
+            />
+          ) : (
+            <>
+              {/* Recorder */}
+              <div className="bg-gray-800 border border-gray-700 rounded-lg p-4">
+                {isRecording && current ? (
+                  <div className="flex items-center justify-between gap-4">
+                    <p className="text-sm text-gray-200 flex items-center gap-2">
+                      <span className="w-2.5 h-2.5 rounded-full bg-red-500 animate-pulse" aria-hidden="true" />
+                      Grabando «{current.name}» desde las {current.startedAt.toLocaleTimeString('es-MX', { hour: '2-digit', minute: '2-digit' })}
+                    </p>
+                    <button
+                      onClick={() => stopRecording()}
+                      className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white text-sm font-medium rounded-lg transition-colors"
+                    >
+                      ⏹ Detener y guardar
+                    </button>
+                  </div>
+                ) : (
+                  <form
+                    className="flex gap-3"
+                    onSubmit={event => {
+                      event.preventDefault();
+                      startRecording(name);
+                      setName('');
+                    }}
+                  >
+                    <label htmlFor="recording-name" className="sr-only">Nombre de la grabación</label>
+                    <input
+                      id="recording-name"
+                      value={name}
+                      onChange={event => setName(event.target.value)}
+                      placeholder="Cómo armamos la ofrenda de la abuela"
+                      maxLength={80}
+                      className="flex-1 px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white text-sm placeholder-gray-500 focus:outline-none focus:border-orange-500"
+                    />
+                    <button
+                      type="submit"
+                      className="px-4 py-2 bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 text-white text-sm font-medium rounded-lg transition-all"
+                    >
+                      ⏺ Grabar sesión
+                    </button>
+                  </form>
+                )}
+              </div>
+
+              {/* Saved recordings */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-bold text-orange-300">Grabaciones guardadas</h3>
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm rounded-lg border border-gray-700 transition-colors"
+                  >
+                    📂 Importar
+                  </button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={handleImport}
+                    className="hidden"
+                  />
+                </div>
+
+                {recordings.length === 0 && (
+                  <p className="text-gray-400 text-sm">Aún no hay grabaciones guardadas.</p>
+                )}
+
+                <ul className="space-y-2">
+                  {recordings.map(recording => (
+                    <li
+                      key={recording.id}
+                      className="bg-gray-800 border-2 border-gray-700 rounded-lg p-3 flex items-center gap-4"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-white truncate">{recording.name}</p>
+                        <p className="text-xs text-gray-400">
+                          {recording.startedAt.toLocaleString('es-MX', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                          {' · '}{formatTime(recording.duration)}
+                          {' · '}{countAltarEvents(recording.events)} cambios
+                          {recording.roomId && ' · 👥 colaborativa'}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => setSelected(recording)}
+                        disabled={recording.id === current?.id}
+                        className="px-3 py-1 bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 text-white text-xs font-medium rounded transition-all disabled:opacity-50"
+                      >
+                        ▶ Reproducir
+                      </button>
+                      <button
+                        onClick={() => exportRecording(recording)}
+                        className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs rounded transition-colors"
+                      >
+                        Exportar
+                      </button>
+                      <button
+                        onClick={() => deleteRecording(recording.id)}
+                        disabled={recording.id === current?.id}
+                        className="px-3 py-1 bg-gray-700 hover:bg-red-700 text-gray-200 text-xs rounded transition-colors disabled:opacity-50"
+                        aria-label={`Eliminar ${recording.name}`}
+                      >
+                        🗑️
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface RecordingPlayerProps {
+  recording: SessionRecording;
+  onBack: () => void;
+  onExport: () => void;
+}
+
+function RecordingPlayer({ recording, onBack, onExport }: RecordingPlayerProps) {
+  const customElements = useCustomElements();
+  const player = useMemo(() => new SessionPlayer(recording), [recording]);
+  const [playback, setPlayback] = useState<PlaybackState>(() => player.getState());
+
+  useEffect(() => {
+    player.onChange(setPlayback);
+    return () => player.destroy();
+  }, [player]);
+
+  // Latest actions around the current point, for following a sync bug
+  const recentActions = useMemo(
+    () => player.eventsUntil(playback.time).filter(event => event.kind !== 'altar').slice(-6).reverse(),
+    [player, playback.time]
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={onBack}
+          className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm rounded-lg border border-gray-700 transition-colors"
+        >
+          ← Volver
+        </button>
+        <h3 className="flex-1 font-bold text-orange-300 truncate">«{recording.name}»</h3>
+        <button
+          onClick={onExport}
+          className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm rounded-lg border border-gray-700 transition-colors"
+        >
+          ⬇ Exportar
+        </button>
+      </div>
+
+      <div className="h-72 bg-gray-950 rounded-lg overflow-hidden pointer-events-none" aria-hidden="true">
+        <GridWorkspace
+          dimensions={recording.dimensions}
+          elements={playback.elements}
+          customElements={customElements}
+          gap={4}
+        />
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => (playback.isPlaying ? player.pause() : player.play())}
+          className="w-10 h-10 flex items-center justify-center bg-orange-600 hover:bg-orange-700 text-white rounded-full transition-colors"
+          aria-label={playback.isPlaying ? 'Pausar' : 'Reproducir'}
+        >
+          {playback.isPlaying ? '⏸' : '▶'}
+        </button>
+
+        <input
+          type="range"
+          min={0}
+          max={playback.duration}
+          step={100}
+          value={playback.time}
+          onChange={event => player.seek(Number(event.target.value))}
+          className="flex-1 accent-orange-500"
+          aria-label="Posición de la reproducción"
+          aria-valuetext={`${formatTime(playback.time)} de ${formatTime(playback.duration)}`}
+        />
+
+        <span className="text-xs text-gray-400 tabular-nums w-24 text-right">
+          {formatTime(playback.time)} / {formatTime(playback.duration)}
+        </span>
+
+        <label htmlFor="playback-speed" className="sr-only">Velocidad</label>
+        <select
+          id="playback-speed"
+          value={playback.speed}
+          onChange={event => player.setSpeed(Number(event.target.value))}
+          className="bg-gray-800 border border-gray-700 rounded-lg text-sm text-gray-200 px-2 py-1"
+        >
+          {PLAYBACK_SPEEDS.map(speed => (
+            <option key={speed} value={speed}>{speed}×</option>
+          ))}
+        </select>
+      </div>
+
+      {recentActions.length > 0 && (
+        <ol className="text-xs font-mono text-gray-400 space-y-0.5" aria-label="Acciones recientes">
+          {recentActions.map((event, index) => (
+            <li key={`${event.at}-${index}`}>
+              {formatTime(event.at)} {describeEvent(event)}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+function formatTime(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+function countAltarEvents(events: RecordedEvent[]): number {
+  return events.filter(event => event.kind === 'altar').length;
+}
+
+function describeEvent(event: RecordedEvent): string {
+  switch (event.kind) {
+    case 'mcp':
+      return `MCP ${event.data.type}`;
+    case 'collaboration':
+      return `${event.direction === 'out' ? '→' : '←'} ${event.data.type} (${event.data.peerId})`;
+    default:
+      return `+${event.data.added.length} −${event.data.removed.length}`;
+  }
+}
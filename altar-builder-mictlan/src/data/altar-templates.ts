@@ -0,0 +1,121 @@
+import type { AltarTemplate, AltarTemplateId } from '../types';
+
+export const DEFAULT_ALTAR_TEMPLATE: AltarTemplateId = 'three-level';
+
+/**
+ * Traditional ofrenda layouts. Tiers are ordered from the top of the
+ * altar (row 0) to the floor; spans are relative to a 12-row grid and are
+ * scaled to the actual number of rows.
+ */
+export const ALTAR_TEMPLATES: AltarTemplate[] = [
+  {
+    id: 'two-level',
+    name: { es: 'Altar de dos niveles', en: 'Two-level altar' },
+    description: {
+      es: 'Representa la división entre el cielo y la tierra',
+      en: 'Represents the division between heaven and earth'
+    },
+    tiers: [
+      {
+        id: 'cielo',
+        name: { es: 'Cielo', en: 'Heaven' },
+        meaning: { es: 'El mundo de los difuntos', en: 'The world of the departed' },
+        span: 6
+      },
+      {
+        id: 'tierra',
+        name: { es: 'Tierra', en: 'Earth' },
+        meaning: { es: 'El mundo de los vivos', en: 'The world of the living' },
+        span: 6
+      }
+    ]
+  },
+  {
+    id: 'three-level',
+    name: { es: 'Altar de tres niveles', en: 'Three-level altar' },
+    description: {
+      es: 'Cielo, purgatorio y tierra',
+      en: 'Heaven, purgatory and earth'
+    },
+    tiers: [
+      {
+        id: 'cielo',
+        name: { es: 'Cielo', en: 'Heaven' },
+        meaning: { es: 'Lugar de los santos y del retrato principal', en: 'Place of the saints and the main portrait' },
+        span: 4
+      },
+      {
+        id: 'purgatorio',
+        name: { es: 'Purgatorio', en: 'Purgatory' },
+        meaning: { es: 'Las almas en su camino de regreso', en: 'The souls on their journey back' },
+        span: 4
+      },
+      {
+        id: 'tierra',
+        name: { es: 'Tierra', en: 'Earth' },
+        meaning: { es: 'Las ofrendas de los vivos', en: 'The offerings of the living' },
+        span: 4
+      }
+    ]
+  },
+  {
+    id: 'seven-level',
+    name: { es: 'Altar de siete niveles', en: 'Seven-level altar' },
+    description: {
+      es: 'Los siete pasos que el alma recorre para llegar al descanso',
+      en: 'The seven steps the soul takes to reach its rest'
+    },
+    tiers: [
+      {
+        id: 'santos',
+        name: { es: 'Santos', en: 'Saints' },
+        meaning: { es: 'La imagen del santo de devoción', en: 'The image of the patron saint' },
+        span: 2
+      },
+      {
+        id: 'animas',
+        name: { es: 'Ánimas', en: 'Souls' },
+        meaning: { es: 'Las ánimas del purgatorio', en: 'The souls in purgatory' },
+        span: 2
+      },
+      {
+        id: 'sal',
+        name: { es: 'Sal', en: 'Salt' },
+        meaning: { es: 'La purificación de los niños', en: 'The purification of the children' },
+        span: 2
+      },
+      {
+        id: 'pan',
+        name: { es: 'Pan', en: 'Bread' },
+        meaning: { es: 'El pan de muerto como alimento', en: 'Pan de muerto as nourishment' },
+        span: 2
+      },
+      {
+        id: 'comida',
+        name: { es: 'Comida', en: 'Food' },
+        meaning: { es: 'Los platillos favoritos del difunto', en: 'The favorite dishes of the departed' },
+        span: 2
+      },
+      {
+        id: 'retratos',
+        name: { es: 'Retratos', en: 'Portraits' },
+        meaning: { es: 'Las fotografías de quienes honramos', en: 'Photographs of those being honored' },
+        span: 1
+      },
+      {
+        id: 'cruz',
+        name: { es: 'Cruz', en: 'Cross' },
+        meaning: { es: 'La cruz de semillas o cal', en: 'The cross of seeds or lime' },
+        span: 1
+      }
+    ]
+  }
+];
+
+/**
+ * Get an altar template by id, falling back to the default template
+ */
+export function getAltarTemplate(templateId: AltarTemplateId = DEFAULT_ALTAR_TEMPLATE): AltarTemplate {
+  return ALTAR_TEMPLATES.find(template => template.id === templateId)
+    ?? ALTAR_TEMPLATES.find(template => template.id === DEFAULT_ALTAR_TEMPLATE)!;
+}
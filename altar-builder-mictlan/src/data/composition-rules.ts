@@ -1,39 +1,100 @@
-import type { PlacedElement } from '../types';
+import type { PlacedElement, LocalizedText, GridDimensions } from '../types';
 import { ElementType } from '../types';
+import { getTierBands, getTierBandForRow } from '../utils/grid-utils';
+import { findUnmetPlacementRules } from '../utils/placement-rules';
 
 export interface CompositionRule {
+  id: string;
   name: string;
-  description: string;
-  validator: (altar: PlacedElement[], gridDimensions: { rows: number; cols: number }) => boolean;
-  scoreMultiplier: number;
-  culturalSignificance: string;
+  description: LocalizedText;
+  suggestion: LocalizedText;
+  validator: (altar: PlacedElement[], gridDimensions: GridDimensions) => boolean;
+  points: number;
+  essential: boolean;
+  culturalSignificance: LocalizedText;
 }
 
+const OFFERING_TYPES: string[] = [
+  ElementType.PAN_DE_MUERTO,
+  ElementType.COMIDA,
+  ElementType.BEBIDA
+];
+
 /**
- * Traditional altar composition rules based on Day of the Dead cultural practices
+ * Traditional altar composition rules based on Day of the Dead cultural practices.
+ * Essential rules decide whether an altar is complete; every rule adds points.
  */
 export const COMPOSITION_RULES: CompositionRule[] = [
   {
-    name: 'Elementos Esenciales',
-    description: 'Must have at least 1 candle, 1 photo, and 1 offering',
-    validator: (altar) => {
-      const hasCandle = altar.some(el => el.elementType === ElementType.VELA);
-      const hasPhoto = altar.some(el =>
-        el.elementType === ElementType.FOTO || el.elementType === ElementType.RETRATO_PRINCIPAL
-      );
-      const hasOffering = altar.some(el =>
-        el.elementType === ElementType.PAN_DE_MUERTO ||
-        el.elementType === ElementType.COMIDA ||
-        el.elementType === ElementType.BEBIDA
-      );
-      return hasCandle && hasPhoto && hasOffering;
+    id: 'velas',
+    name: 'Luz para el Camino',
+    description: {
+      es: 'El altar tiene al menos una vela',
+      en: 'The altar has at least one candle'
+    },
+    suggestion: {
+      es: 'Agrega al menos una vela para guiar a las almas',
+      en: 'Add at least one candle to guide the spirits'
+    },
+    validator: (altar) => altar.some(el => el.elementType === ElementType.VELA),
+    points: 7,
+    essential: true,
+    culturalSignificance: {
+      es: 'Las velas iluminan el camino de regreso de las almas',
+      en: 'Candles light the way for the souls returning home'
+    }
+  },
+  {
+    id: 'fotos',
+    name: 'Memoria de los Difuntos',
+    description: {
+      es: 'El altar tiene una fotografía o retrato',
+      en: 'The altar has a photograph or portrait'
+    },
+    suggestion: {
+      es: 'Agrega fotografías de tus seres queridos',
+      en: 'Add photographs of loved ones'
     },
-    scoreMultiplier: 2.0,
-    culturalSignificance: 'The three essential elements represent light, memory, and sustenance'
+    validator: (altar) => altar.some(el =>
+      el.elementType === ElementType.FOTO || el.elementType === ElementType.RETRATO_PRINCIPAL
+    ),
+    points: 7,
+    essential: true,
+    culturalSignificance: {
+      es: 'Las fotografías representan a quienes honramos',
+      en: 'Photos represent those being honored'
+    }
+  },
+  {
+    id: 'ofrendas',
+    name: 'Sustento para las Almas',
+    description: {
+      es: 'El altar tiene al menos una ofrenda de comida o bebida',
+      en: 'The altar has at least one food or drink offering'
+    },
+    suggestion: {
+      es: 'Agrega ofrendas de comida o bebida',
+      en: 'Add food or drink offerings'
+    },
+    validator: (altar) => altar.some(el => OFFERING_TYPES.includes(el.elementType)),
+    points: 6,
+    essential: true,
+    culturalSignificance: {
+      es: 'Las ofrendas dan sustento a las almas que regresan',
+      en: 'Offerings are sustenance for the returning souls'
+    }
   },
   {
+    id: 'cuatro-elementos',
     name: 'Los Cuatro Elementos',
-    description: 'Includes representations of earth, water, fire, and air',
+    description: {
+      es: 'Incluye tierra, agua, fuego y aire',
+      en: 'Includes representations of earth, water, fire, and air'
+    },
+    suggestion: {
+      es: 'Representa la tierra, el agua, el fuego y el aire (comida o flores, agua, velas o incienso, papel picado)',
+      en: 'Represent earth, water, fire and air (food or flowers, water, candles or incense, papel picado)'
+    },
     validator: (altar) => {
       const hasFire = altar.some(el =>
         el.elementType === ElementType.VELA || el.elementType === ElementType.INCIENSO
@@ -47,12 +108,43 @@ export const COMPOSITION_RULES: CompositionRule[] = [
       const hasAir = altar.some(el => el.elementType === ElementType.PAPEL_PICADO);
       return hasFire && hasWater && hasEarth && hasAir;
     },
-    scoreMultiplier: 1.5,
-    culturalSignificance: 'The four elements help souls navigate between worlds'
+    points: 15,
+    essential: false,
+    culturalSignificance: {
+      es: 'Los cuatro elementos ayudan a las almas a transitar entre los mundos',
+      en: 'The four elements help souls navigate between worlds'
+    }
   },
   {
+    id: 'agua',
+    name: 'Agua para el Viaje',
+    description: {
+      es: 'El altar ofrece agua',
+      en: 'The altar offers water'
+    },
+    suggestion: {
+      es: 'Agrega agua para calmar la sed de las almas viajeras',
+      en: 'Add water to quench the thirst of traveling souls'
+    },
+    validator: (altar) => altar.some(el => el.elementType === ElementType.AGUA),
+    points: 10,
+    essential: false,
+    culturalSignificance: {
+      es: 'El agua calma la sed de las almas tras su largo viaje',
+      en: 'Water quenches the thirst of souls after their long journey'
+    }
+  },
+  {
+    id: 'simetria',
     name: 'Simetría Tradicional',
-    description: 'Candles placed symmetrically on opposite sides',
+    description: {
+      es: 'Velas colocadas simétricamente a ambos lados',
+      en: 'Candles placed symmetrically on opposite sides'
+    },
+    suggestion: {
+      es: 'Coloca velas a ambos lados del altar',
+      en: 'Place candles on both sides of the altar'
+    },
     validator: (altar, gridDimensions) => {
       const candles = altar.filter(el => el.elementType === ElementType.VELA);
       if (candles.length < 2) return false;
@@ -64,35 +156,72 @@ export const COMPOSITION_RULES: CompositionRule[] = [
 
       return leftCandles.length > 0 && rightCandles.length > 0;
     },
-    scoreMultiplier: 1.3,
-    culturalSignificance: 'Symmetry represents balance and harmony'
+    points: 13,
+    essential: false,
+    culturalSignificance: {
+      es: 'La simetría representa el equilibrio y la armonía',
+      en: 'Symmetry represents balance and harmony'
+    }
   },
   {
+    id: 'retrato-centrado',
     name: 'Retrato Centrado',
-    description: 'Main portrait placed in the center top of the altar',
+    description: {
+      es: 'Retrato principal al centro del nivel superior',
+      en: 'Main portrait placed in the center of the top level'
+    },
+    suggestion: {
+      es: 'Coloca el retrato principal al centro del nivel superior',
+      en: 'Place the main portrait in the center of the top level'
+    },
     validator: (altar, gridDimensions) => {
       const mainPortrait = altar.find(el => el.elementType === ElementType.RETRATO_PRINCIPAL);
       if (!mainPortrait) return false;
 
       const centerCol = Math.floor(gridDimensions.cols / 2);
-      return mainPortrait.position.row === 0 && mainPortrait.position.col === centerCol;
+      const tier = getTierBandForRow(mainPortrait.position.row, gridDimensions);
+      return tier?.index === 0 && mainPortrait.position.col === centerCol;
     },
-    scoreMultiplier: 1.4,
-    culturalSignificance: 'The honored soul is placed at the highest point'
+    points: 14,
+    essential: false,
+    culturalSignificance: {
+      es: 'El alma honrada ocupa el lugar más alto',
+      en: 'The honored soul is placed at the highest point'
+    }
   },
   {
+    id: 'flores',
     name: 'Flores en Abundancia',
-    description: 'At least 3 marigold flowers decorating the altar',
+    description: {
+      es: 'Al menos 3 flores de cempasúchil decoran el altar',
+      en: 'At least 3 marigold flowers decorating the altar'
+    },
+    suggestion: {
+      es: 'Agrega al menos 3 flores de cempasúchil',
+      en: 'Add at least 3 marigolds to guide the spirits'
+    },
     validator: (altar) => {
       const flowers = altar.filter(el => el.elementType === ElementType.FLOR);
       return flowers.length >= 3;
     },
-    scoreMultiplier: 1.2,
-    culturalSignificance: 'Marigolds guide spirits home with their bright color and scent'
+    points: 12,
+    essential: false,
+    culturalSignificance: {
+      es: 'El color y aroma del cempasúchil guían a los espíritus a casa',
+      en: 'Marigolds guide spirits home with their bright color and scent'
+    }
   },
   {
+    id: 'camino-petalos',
     name: 'Camino de Pétalos',
-    description: 'Flowers create a visual path (horizontal or vertical line)',
+    description: {
+      es: 'Las flores forman un camino (línea horizontal o vertical)',
+      en: 'Flowers create a visual path (horizontal or vertical line)'
+    },
+    suggestion: {
+      es: 'Alinea 3 o más flores en una fila o columna',
+      en: 'Line up 3 or more flowers in a row or column'
+    },
     validator: (altar) => {
       const flowers = altar.filter(el => el.elementType === ElementType.FLOR);
       if (flowers.length < 3) return false;
@@ -107,148 +236,139 @@ export const COMPOSITION_RULES: CompositionRule[] = [
 
       return false;
     },
-    scoreMultiplier: 1.3,
-    culturalSignificance: 'A path of petals guides souls to the altar'
+    points: 13,
+    essential: false,
+    culturalSignificance: {
+      es: 'Un camino de pétalos guía a las almas hacia el altar',
+      en: 'A path of petals guides souls to the altar'
+    }
   },
   {
+    id: 'ofrendas-generosas',
     name: 'Ofrendas Generosas',
-    description: 'At least 5 different offerings (food, drinks, pan de muerto)',
+    description: {
+      es: 'Al menos 5 ofrendas (comida, bebida, pan de muerto)',
+      en: 'At least 5 different offerings (food, drinks, pan de muerto)'
+    },
+    suggestion: {
+      es: 'Agrega al menos 5 ofrendas de comida o bebida',
+      en: 'Add at least 5 food or drink offerings'
+    },
     validator: (altar) => {
-      const offerings = altar.filter(el =>
-        el.elementType === ElementType.PAN_DE_MUERTO ||
-        el.elementType === ElementType.COMIDA ||
-        el.elementType === ElementType.BEBIDA
-      );
+      const offerings = altar.filter(el => OFFERING_TYPES.includes(el.elementType));
       return offerings.length >= 5;
     },
-    scoreMultiplier: 1.3,
-    culturalSignificance: 'Abundant offerings honor and welcome returning souls'
+    points: 13,
+    essential: false,
+    culturalSignificance: {
+      es: 'Las ofrendas abundantes honran y dan la bienvenida a las almas',
+      en: 'Abundant offerings honor and welcome returning souls'
+    }
   },
   {
+    id: 'niveles',
     name: 'Niveles del Altar',
-    description: 'Elements distributed across different rows (representing levels)',
+    description: {
+      es: 'Cada nivel del altar tiene al menos un elemento',
+      en: 'Every level of the altar holds at least one element'
+    },
+    suggestion: {
+      es: 'Coloca al menos un elemento en cada nivel del altar',
+      en: 'Place at least one element on every level of the altar'
+    },
     validator: (altar, gridDimensions) => {
-      const rows = new Set(altar.map(el => el.position.row));
-      // Should have elements in at least 3 different rows
-      return rows.size >= 3;
+      const tiers = new Set(
+        altar.map(el => getTierBandForRow(el.position.row, gridDimensions)?.index)
+      );
+      return getTierBands(gridDimensions).every(band => tiers.has(band.index));
     },
-    scoreMultiplier: 1.25,
-    culturalSignificance: 'Traditional altars have multiple levels representing the journey'
+    points: 12,
+    essential: false,
+    culturalSignificance: {
+      es: 'Los altares tradicionales tienen varios niveles que representan el viaje',
+      en: 'Traditional altars have multiple levels representing the journey'
+    }
   },
   {
+    id: 'pan-de-muerto',
     name: 'Pan de Muerto Presente',
-    description: 'Includes traditional bread of the dead',
+    description: {
+      es: 'Incluye el tradicional pan de muerto',
+      en: 'Includes traditional bread of the dead'
+    },
+    suggestion: {
+      es: 'Agrega pan de muerto',
+      en: 'Add pan de muerto'
+    },
     validator: (altar) => {
       return altar.some(el => el.elementType === ElementType.PAN_DE_MUERTO);
     },
-    scoreMultiplier: 1.2,
-    culturalSignificance: 'Pan de muerto is a traditional offering essential to Day of the Dead'
+    points: 12,
+    essential: false,
+    culturalSignificance: {
+      es: 'El pan de muerto es una ofrenda esencial del Día de Muertos',
+      en: 'Pan de muerto is a traditional offering essential to Day of the Dead'
+    }
   },
   {
+    id: 'purificacion',
     name: 'Purificación Completa',
-    description: 'Includes both salt and incense for purification',
+    description: {
+      es: 'Incluye sal e incienso para purificar',
+      en: 'Includes both salt and incense for purification'
+    },
+    suggestion: {
+      es: 'Agrega sal e incienso para purificar el espacio',
+      en: 'Add salt and incense to purify the space'
+    },
     validator: (altar) => {
       const hasSalt = altar.some(el => el.elementType === ElementType.SAL);
       const hasIncense = altar.some(el => el.elementType === ElementType.INCIENSO);
       return hasSalt && hasIncense;
     },
-    scoreMultiplier: 1.3,
-    culturalSignificance: 'Salt and incense purify the space for the returning souls'
-  }
-];
-
-/**
- * Calculate altar score based on composition rules
- */
-export function calculateAltarScore(
-  altar: PlacedElement[],
-  gridDimensions: { rows: number; cols: number }
-): {
-  score: number;
-  maxScore: number;
-  percentage: number;
-  satisfiedRules: CompositionRule[];
-  unsatisfiedRules: CompositionRule[];
-} {
-  const satisfiedRules: CompositionRule[] = [];
-  const unsatisfiedRules: CompositionRule[] = [];
-
-  let score = 0;
-  const baseScore = 10; // Base points for having elements
-  const maxPossibleScore = COMPOSITION_RULES.reduce((sum, rule) => sum + (rule.scoreMultiplier * 10), baseScore);
-
-  // Add base score if altar has any elements
-  if (altar.length > 0) {
-    score += baseScore;
-  }
-
-  // Check each composition rule
-  for (const rule of COMPOSITION_RULES) {
-    if (rule.validator(altar, gridDimensions)) {
-      satisfiedRules.push(rule);
-      score += rule.scoreMultiplier * 10;
-    } else {
-      unsatisfiedRules.push(rule);
+    points: 13,
+    essential: false,
+    culturalSignificance: {
+      es: 'La sal y el incienso purifican el espacio para las almas',
+      en: 'Salt and incense purify the space for the returning souls'
     }
-  }
-
-  const percentage = maxPossibleScore > 0 ? (score / maxPossibleScore) * 100 : 0;
-
-  return {
-    score,
-    maxScore: maxPossibleScore,
-    percentage: Math.round(percentage),
-    satisfiedRules,
-    unsatisfiedRules
-  };
-}
-
-/**
- * Check if altar meets minimum requirements for completion
- */
-export function isAltarComplete(altar: PlacedElement[]): boolean {
-  const essentialsRule = COMPOSITION_RULES.find(r => r.name === 'Elementos Esenciales');
-  if (!essentialsRule) return false;
-
-  return essentialsRule.validator(altar, { rows: 12, cols: 9 });
-}
-
-/**
- * Get suggestions for improving altar composition
- */
-export function getCompositionSuggestions(
-  altar: PlacedElement[],
-  gridDimensions: { rows: number; cols: number }
-): string[] {
-  const suggestions: string[] = [];
-
-  for (const rule of COMPOSITION_RULES) {
-    if (!rule.validator(altar, gridDimensions)) {
-      suggestions.push(`${rule.description} - ${rule.culturalSignificance}`);
+  },
+  {
+    id: 'elementos-en-su-lugar',
+    name: 'Cada Cosa en su Lugar',
+    description: {
+      es: 'Cada elemento está junto a lo que acompaña',
+      en: 'Every element sits by what it accompanies'
+    },
+    suggestion: {
+      es: 'Algunos elementos quedaron lejos de lo que acompañan, como la sal junto al agua',
+      en: 'Some elements are away from what they accompany, such as salt beside the water'
+    },
+    validator: (altar) => altar.length > 0 && findUnmetPlacementRules(altar).length === 0,
+    points: 5,
+    essential: false,
+    culturalSignificance: {
+      es: 'Los elementos de la ofrenda se acompañan: la sal purifica el agua que calma la sed de las almas',
+      en: 'Offering elements go together: salt purifies the water that quenches the souls\' thirst'
+    }
+  },
+  {
+    id: 'altar-completo',
+    name: 'Altar Abundante',
+    description: {
+      es: 'El altar tiene al menos 5 elementos',
+      en: 'The altar has at least 5 elements'
+    },
+    suggestion: {
+      es: 'Agrega más elementos a tu altar',
+      en: 'Add more elements to your altar'
+    },
+    validator: (altar) => altar.length >= 5,
+    points: 10,
+    essential: false,
+    culturalSignificance: {
+      es: 'Un altar lleno expresa el cariño por quienes regresan',
+      en: 'A full altar expresses love for those who return'
     }
   }
-
-  return suggestions;
-}
-
-/**
- * Calculate cultural authenticity score (0-100)
- */
-export function calculateCulturalAuthenticity(
-  altar: PlacedElement[],
-  gridDimensions: { rows: number; cols: number }
-): number {
-  const result = calculateAltarScore(altar, gridDimensions);
-
-  // Weight essential rules more heavily
-  const essentialRulesSatisfied = result.satisfiedRules.filter(r =>
-    r.name === 'Elementos Esenciales' ||
-    r.name === 'Los Cuatro Elementos' ||
-    r.name === 'Pan de Muerto Presente'
-  ).length;
-
-  const essentialWeight = (essentialRulesSatisfied / 3) * 50; // Up to 50 points
-  const otherWeight = result.percentage * 0.5; // Up to 50 points
-
-  return Math.min(100, Math.round(essentialWeight + otherWeight));
-}
+];
@@ -1,5 +1,7 @@
 import type {
-  OfrendarElement
+  OfrendarElement,
+  PlacedElement,
+  CustomElement
 } from '../types';
 import {
   ElementType,
@@ -29,7 +31,7 @@ export const OFRENDA_ELEMENTS: OfrendarElement[] = [
       {
         type: 'rowRestriction',
         value: 'top-bottom-only',
-        message: 'Candles should be placed in the top or bottom rows'
+        message: 'Candles should be placed on the top or bottom level of the altar'
       }
     ],
     animations: [
@@ -76,7 +78,7 @@ export const OFRENDA_ELEMENTS: OfrendarElement[] = [
       {
         type: 'rowRestriction',
         value: 'top-only',
-        message: 'Main portrait should be centered in the top row'
+        message: 'Main portrait should be centered on the top level of the altar'
       },
       {
         type: 'columnRestriction',
@@ -107,6 +109,15 @@ export const OFRENDA_ELEMENTS: OfrendarElement[] = [
         type: 'maxQuantity',
         value: 2,
         message: 'Maximum 2 glasses of water per altar'
+      },
+      {
+        type: 'proximity',
+        value: {
+          relation: 'within',
+          elementTypes: [ElementType.FOTO, ElementType.RETRATO_PRINCIPAL],
+          distance: 2
+        },
+        message: 'Water should be offered within 2 cells of a photograph of the honored soul'
       }
     ],
     soundEffect: 'water-place',
@@ -124,6 +135,15 @@ export const OFRENDA_ELEMENTS: OfrendarElement[] = [
         type: 'maxQuantity',
         value: 1,
         message: 'One bowl of salt per altar'
+      },
+      {
+        type: 'proximity',
+        value: {
+          relation: 'within',
+          elementTypes: [ElementType.AGUA],
+          distance: 1
+        },
+        message: 'Salt is placed next to the water'
       }
     ],
     soundEffect: 'salt-place',
@@ -172,7 +192,7 @@ export const OFRENDA_ELEMENTS: OfrendarElement[] = [
       {
         type: 'rowRestriction',
         value: 'top-only',
-        message: 'Papel picado typically hangs at the top'
+        message: 'Papel picado typically hangs from the top level'
       }
     ],
     animations: [
@@ -215,6 +235,14 @@ export const OFRENDA_ELEMENTS: OfrendarElement[] = [
         type: 'maxQuantity',
         value: 2,
         message: 'Maximum 2 incense burners per altar'
+      },
+      {
+        type: 'proximity',
+        value: {
+          relation: 'notAdjacent',
+          elementTypes: [ElementType.PAPEL_PICADO]
+        },
+        message: 'Incense burners must not touch the papel picado'
       }
     ],
     animations: [
@@ -442,6 +470,71 @@ export function getElementsByType(type: ElementType): OfrendarElement[] {
   return OFRENDA_ELEMENTS.filter(el => el.type === type);
 }
 
+/**
+ * Get the element definition a placed element was created from.
+ * Custom elements are matched by their custom id; other placed element ids
+ * are prefixed with their definition id. Falls back to the first
+ * definition of the same type.
+ */
+export function getElementForPlaced(
+  placed: PlacedElement,
+  elements: OfrendarElement[] = OFRENDA_ELEMENTS
+): OfrendarElement | undefined {
+  if (placed.customElementId) {
+    const custom = elements.find(el => el.custom?.id === placed.customElementId);
+    if (custom) return custom;
+  }
+
+  return (
+    elements.find(el => !el.custom && placed.id.startsWith(`${el.id}-`)) ??
+    elements.find(el => !el.custom && el.type === placed.elementType)
+  );
+}
+
+/**
+ * Build the panel element for a user-created photo.
+ * Custom photos count as photographs for composition, live under
+ * PERSONALES and can each be placed once.
+ */
+export function createCustomOfrendaElement(custom: CustomElement): OfrendarElement {
+  return {
+    id: custom.id,
+    name: custom.name,
+    type: ElementType.FOTO,
+    category: ElementCategory.PERSONALES,
+    icon: '🖼️',
+    maxQuantity: 1,
+    placementRules: [
+      {
+        type: 'maxQuantity',
+        value: 1,
+        message: 'Each personal photo can be placed once'
+      }
+    ],
+    animations: [
+      {
+        type: AnimationType.GLOW,
+        duration: 3000,
+        easing: 'ease-in-out',
+        loop: true
+      }
+    ],
+    description: custom.dedication || custom.name,
+    custom
+  };
+}
+
+/**
+ * Get the custom element definitions used by a set of placed elements
+ */
+export function getReferencedCustomElements(
+  placedElements: PlacedElement[],
+  customElements: CustomElement[]
+): CustomElement[] {
+  const usedIds = new Set(placedElements.map(el => el.customElementId).filter(Boolean));
+  return customElements.filter(custom => usedIds.has(custom.id));
+}
+
 /**
  * Get all available categories
  */
@@ -129,6 +129,34 @@ describe('MCP Debug System', () => {
       debugLogger.clearHistory();
       expect(debugLogger.getActionDebugInfo('clear-test')).toBeUndefined();
     });
+
+    it('should join logged actions with their state transitions', () => {
+      const action: MCPAction = {
+        type: 'placeElement',
+        payload: { element: { id: 'vela-1' }, position: { row: 0, col: 0 } },
+        timestamp: new Date(),
+        id: 'log-action',
+        source: 'local'
+      };
+      const listener = vi.fn();
+      const stop = debugLogger.onChange(listener);
+
+      debugLogger.logStateTransition('log-action', 'altar', { elements: [] }, { elements: ['vela-1'] });
+      debugLogger.logActionExecution(action, 12, true);
+      stop();
+      debugLogger.logActionExecution({ ...action, id: 'unheard' }, 5, true);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(debugLogger.getActionLog()[0]).toMatchObject({
+        action: { id: 'log-action', type: 'placeElement' },
+        duration: 12,
+        success: true,
+        moduleName: 'altar',
+        previousState: { elements: [] },
+        newState: { elements: ['vela-1'] }
+      });
+      expect(debugLogger.getActionLog()[1].moduleName).toBeUndefined();
+    });
   });
 
   describe('MCPErrorRecovery', () => {
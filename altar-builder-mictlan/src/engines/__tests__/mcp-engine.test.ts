@@ -0,0 +1,228 @@
+// Tests for the MCP engine action queue, transactions and action registry
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { KiroMCPEngine } from '../mcp-engine';
+import { altarModule } from '../mcp-modules/altar-module';
+import { getElementById } from '../../data/elements';
+import { ElementType } from '../../types';
+import type { OfrendarElement } from '../../types';
+import type {
+  AltarState,
+  MCPAction,
+  MCPActionOf,
+  MCPActionPayloads,
+  MCPActionType,
+  MCPError,
+  MCPModule
+} from '../../types/mcp';
+
+interface TestAltarState {
+  dimensions: { rows: number; cols: number };
+  placedElements: string[];
+}
+
+function createAction<K extends MCPActionType>(type: K, payload: MCPActionPayloads[K]): MCPActionOf<K> {
+  return {
+    type,
+    payload,
+    timestamp: new Date(),
+    id: `${type}-${Math.random().toString(36).substr(2, 9)}`,
+    source: 'local'
+  };
+}
+
+const place = (id: string) => createAction('placeElement', {
+  element: { id, type: ElementType.VELA } as OfrendarElement,
+  position: { row: 0, col: 0 }
+});
+
+const remove = (elementId: string) => createAction('removeElement', { elementId });
+
+const placedIds = (actions: MCPAction[]) => actions.map(action => action.payload.element.id);
+
+describe('KiroMCPEngine', () => {
+  let engine: KiroMCPEngine;
+  let altar: MCPModule<TestAltarState>;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    engine = new KiroMCPEngine({ enableLogging: false, enablePerformanceMonitoring: false });
+    altar = {
+      name: 'altar',
+      state: { dimensions: { rows: 4, cols: 4 }, placedElements: [] },
+      actions: {},
+      // Real action declarations around a reducer that is easy to follow
+      actionDefinitions: altarModule.actionDefinitions,
+      middleware: [],
+      reducer: (state, action) => {
+        switch (action.type) {
+          case 'placeElement':
+            return { ...state, placedElements: [...state.placedElements, action.payload.element.id] };
+          case 'removeElement':
+            throw new Error(`Cannot remove ${action.payload.elementId}`);
+          default:
+            return state;
+        }
+      }
+    };
+    engine.registerModule(altar);
+  });
+
+  describe('dispatch', () => {
+    it('applies queued actions in order and resolves once each is applied', async () => {
+      // Slow the first action down so the others queue up behind it
+      engine.addMiddleware({
+        name: 'slow',
+        execute: async (action, next) => {
+          if (placedIds([action]).includes('a')) {
+            await new Promise(resolve => setTimeout(resolve, 20));
+          }
+          await next(action);
+        }
+      });
+
+      const seen: string[][] = [];
+      const dispatches = ['a', 'b', 'c'].map(id =>
+        engine.dispatch(place(id)).then(() => {
+          seen.push([...engine.getState<TestAltarState>('altar').placedElements]);
+        })
+      );
+      expect(engine.getQueueLength()).toBe(2);
+
+      await Promise.all(dispatches);
+
+      expect(seen).toEqual([['a'], ['a', 'b'], ['a', 'b', 'c']]);
+      expect(placedIds(engine.getActionHistory())).toEqual(['a', 'b', 'c']);
+    });
+
+    it('rejects a failed action and keeps processing the queue', async () => {
+      const failed = engine.dispatch(remove('a'));
+      const next = engine.dispatch(place('b'));
+
+      await expect(failed).rejects.toMatchObject({ type: 'action_failed', message: 'Cannot remove a' });
+      await next;
+
+      expect(engine.getState<TestAltarState>('altar').placedElements).toEqual(['b']);
+    });
+  });
+
+  describe('action registry', () => {
+    it('resolves a dispatch with the new state of the owning module', async () => {
+      const state = await engine.dispatch(place('a'));
+
+      expect(state.placedElements).toEqual(['a']);
+    });
+
+    it('rejects unknown actions before the middleware and reducer run', async () => {
+      const middleware = vi.fn(async (action: MCPAction, next: (action: MCPAction) => Promise<void>) => next(action));
+      engine.addMiddleware({ name: 'spy', execute: middleware });
+
+      const unknown = { ...place('a'), type: 'levitateElement' } as unknown as MCPActionOf<'placeElement'>;
+      await expect(engine.dispatch(unknown)).rejects.toMatchObject({
+        type: 'validation_error',
+        message: 'Unknown action type: levitateElement'
+      });
+      expect(middleware).not.toHaveBeenCalled();
+    });
+
+    it('rejects malformed payloads with every mismatch', async () => {
+      const malformed = createAction('placeElement', {
+        element: { id: 7 } as unknown as OfrendarElement,
+        position: { row: 'top' } as unknown as { row: number; col: number }
+      });
+
+      await expect(engine.dispatch(malformed)).rejects.toMatchObject({
+        type: 'validation_error',
+        message: 'Invalid placeElement action: payload.element.id: expected string, got number; ' +
+          'payload.element.type: expected string, got undefined; ' +
+          'payload.position.row: expected number, got string; ' +
+          'payload.position.col: expected number, got undefined'
+      });
+      expect(engine.getState<TestAltarState>('altar').placedElements).toEqual([]);
+    });
+
+    it('refuses a module that declares actions owned by another module', () => {
+      const impostor: MCPModule = {
+        name: 'user',
+        state: {},
+        actions: {},
+        actionDefinitions: altarModule.actionDefinitions,
+        reducer: state => state
+      };
+
+      expect(() => engine.registerModule(impostor)).toThrow('Module user declares action placeElement owned by altar');
+    });
+  });
+
+  describe('transaction', () => {
+    it('applies every action and notifies subscribers once on commit', async () => {
+      const subscriber = vi.fn();
+      engine.subscribe(['altar'], subscriber);
+
+      await engine.transaction([place('a'), place('b'), place('c')]);
+
+      expect(engine.getState<TestAltarState>('altar').placedElements).toEqual(['a', 'b', 'c']);
+      expect(subscriber).toHaveBeenCalledTimes(1);
+      expect(subscriber).toHaveBeenCalledWith(expect.objectContaining({ placedElements: ['a', 'b', 'c'] }));
+      expect(engine.getActionHistory()).toHaveLength(3);
+    });
+
+    it('rolls the whole batch back when an action fails', async () => {
+      await engine.dispatch(place('before'));
+      const subscriber = vi.fn();
+      engine.subscribe(['altar'], subscriber);
+
+      const failing = remove('b');
+      const error: MCPError = await engine
+        .transaction([place('a'), failing, place('c')])
+        .then(() => { throw new Error('transaction should have failed'); }, (reason: MCPError) => reason);
+
+      expect(error.message).toBe('Transaction rolled back: Cannot remove b');
+      expect(error.action).toBe(failing);
+      expect(engine.getState<TestAltarState>('altar').placedElements).toEqual(['before']);
+      expect(subscriber).not.toHaveBeenCalled();
+      expect(engine.getActionHistory()).toHaveLength(1);
+    });
+  });
+
+  describe('with the altar module', () => {
+    const vela = getElementById('vela-1') as OfrendarElement;
+    const placeVela = (row: number, col: number) =>
+      altarModule.actions.placeElement({ element: vela, position: { row, col } });
+
+    beforeEach(() => {
+      engine = new KiroMCPEngine({ enableLogging: false, enablePerformanceMonitoring: false });
+      engine.registerModule({
+        ...altarModule,
+        state: { ...altarModule.state, dimensions: { rows: 12, cols: 9 }, placedElements: [] }
+      });
+    });
+
+    it('rejects a placement the altar rules forbid', async () => {
+      await engine.dispatch(placeVela(0, 0));
+      const invalid = placeVela(0, 0);
+
+      await expect(engine.dispatch(invalid)).rejects.toMatchObject({
+        type: 'validation_error',
+        message: 'This position is already occupied',
+        action: invalid
+      });
+      expect(engine.getState<AltarState>('altar').placedElements).toHaveLength(1);
+    });
+
+    it('rolls a transaction back when one of its placements is invalid', async () => {
+      const subscriber = vi.fn();
+      engine.subscribe(['altar'], subscriber);
+
+      await expect(engine.transaction([placeVela(0, 0), placeVela(0, 1), placeVela(0, 1)])).rejects.toMatchObject({
+        message: 'Transaction rolled back: This position is already occupied'
+      });
+
+      expect(engine.getState<AltarState>('altar').placedElements).toEqual([]);
+      expect(subscriber).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,258 @@
+// Tests for the two ways the MCP bridge keeps the store and MCP in step
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { mcpEngine } from '../mcp-engine';
+import { mcpZustandBridge } from '../mcp-zustand-bridge';
+import { altarModule } from '../mcp-modules/altar-module';
+import { userModule } from '../mcp-modules/user-module';
+import { useAltarStore } from '../../store/useAltarStore';
+import { getElementById } from '../../data/elements';
+import { ElementCategory } from '../../types';
+import type { OfrendarElement, PlacedElement } from '../../types';
+import type { AltarState, UserState } from '../../types/mcp';
+
+const vela = getElementById('vela-1') as OfrendarElement;
+const flor = getElementById('flor-cempasuchil-1') as OfrendarElement;
+
+const saved: PlacedElement[] = [
+  { id: 'vela-saved', elementType: vela.type, position: { row: 0, col: 0 }, placedAt: new Date() }
+];
+
+const placed = () => useAltarStore.getState().grid.placedElements;
+const mcpPlaced = () => mcpEngine.getState<AltarState>('altar').placedElements;
+
+describe('mcpZustandBridge', () => {
+  let dispatchSpy: ReturnType<typeof vi.spyOn>;
+
+  // Wait until every dispatch made so far has been committed
+  const settled = () => Promise.all(dispatchSpy.mock.results.map(result => result.value));
+
+  beforeAll(() => {
+    [altarModule, userModule].forEach(module => {
+      if (!mcpEngine.modules.has(module.name)) {
+        mcpEngine.registerModule(module);
+      }
+    });
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    useAltarStore.setState(state => ({
+      grid: { ...state.grid, dimensions: { rows: 12, cols: 9 }, placedElements: [] }
+    }));
+    useAltarStore.getState().clearHistory();
+    dispatchSpy = vi.spyOn(mcpEngine, 'dispatch');
+  });
+
+  afterEach(() => {
+    mcpZustandBridge.disconnect();
+    vi.restoreAllMocks();
+  });
+
+  describe('source-of-truth mode', () => {
+    beforeEach(() => {
+      mcpZustandBridge.initialize('source-of-truth');
+    });
+
+    it('turns a store edit into one MCP action and writes the result back once', async () => {
+      const version = mcpEngine.getStateVersion('altar');
+      const gridWrites = vi.fn();
+      const unsubscribe = useAltarStore.subscribe((state, previous) => {
+        if (state.grid !== previous.grid) gridWrites();
+      });
+
+      const placing = useAltarStore.getState().placeElement(vela, { row: 0, col: 0 });
+      // Nothing is written or made undoable until MCP has committed the edit
+      expect(placed()).toEqual([]);
+      expect(useAltarStore.getState().canUndo).toBe(false);
+
+      expect(await placing).toBe(true);
+      unsubscribe();
+
+      expect(dispatchSpy).toHaveBeenCalledTimes(1);
+      expect(dispatchSpy).toHaveBeenCalledWith(expect.objectContaining({ type: 'placeElement', source: 'local' }));
+      expect(placed()).toEqual(mcpPlaced());
+      expect(placed()[0]).toMatchObject({ elementType: vela.type, position: { row: 0, col: 0 } });
+      // The id kept in the undo history is the one MCP placed
+      expect(useAltarStore.getState().history.past[0].added[0].id).toBe(placed()[0].id);
+      expect(mcpEngine.getStateVersion('altar')).toBe(version + 1);
+      expect(gridWrites).toHaveBeenCalledTimes(1);
+    });
+
+    it('applies MCP actions to the store without echoing them back', async () => {
+      const replaceState = vi.spyOn(mcpEngine, 'replaceState');
+
+      await mcpEngine.dispatch(altarModule.actions.placeElement({ element: flor, position: { row: 2, col: 3 } }));
+      await settled();
+
+      expect(placed()).toEqual(mcpPlaced());
+      expect(placed()).toHaveLength(1);
+      expect(dispatchSpy).toHaveBeenCalledTimes(1);
+      expect(replaceState).not.toHaveBeenCalled();
+    });
+
+    it('routes undo and redo through MCP with strictly growing versions', async () => {
+      const versions: number[] = [];
+      const record = async () => {
+        await settled();
+        versions.push(mcpEngine.getStateVersion('altar'));
+      };
+      const store = useAltarStore.getState();
+
+      await store.placeElement(vela, { row: 0, col: 0 });
+      await record();
+      const [element] = placed();
+
+      expect(await store.undo()).toBe(true);
+      await record();
+      expect(placed()).toEqual([]);
+      expect(mcpPlaced()).toEqual([]);
+
+      expect(await store.redo()).toBe(true);
+      await record();
+      expect(placed()).toEqual([element]);
+
+      expect(versions).toEqual([versions[0], versions[0] + 1, versions[0] + 2]);
+      expect(dispatchSpy).toHaveBeenCalledTimes(3);
+    });
+
+    it('reports and records only the edit MCP commits when two race for a cell', async () => {
+      const store = useAltarStore.getState();
+
+      // Both pass the store's checks, as neither is on the grid yet
+      const first = store.placeElement(vela, { row: 0, col: 0 });
+      const second = store.placeElement(vela, { row: 0, col: 0 });
+
+      expect(await Promise.all([first, second])).toEqual([true, false]);
+      expect(placed()).toHaveLength(1);
+      expect(useAltarStore.getState().history.past).toHaveLength(1);
+      expect(useAltarStore.getState().history.past[0].added[0].id).toBe(placed()[0].id);
+      expect(console.warn).toHaveBeenCalledWith('Edit rejected by MCP:', 'This position is already occupied');
+    });
+
+    it('steps through history only once MCP commits, after pending edits', async () => {
+      const store = useAltarStore.getState();
+      const history = () => useAltarStore.getState().history;
+
+      // The undo waits for the placement to commit, then undoes it
+      const placing = store.placeElement(vela, { row: 0, col: 0 });
+      const undoing = store.undo();
+      expect(await placing).toBe(true);
+      expect(await undoing).toBe(true);
+      expect(placed()).toEqual([]);
+      expect(history().past).toHaveLength(0);
+      expect(history().future).toHaveLength(1);
+
+      dispatchSpy.mockRejectedValueOnce({ type: 'action_failed', message: 'Busy' });
+      expect(await store.redo()).toBe(false);
+      expect(placed()).toEqual([]);
+      expect(history().future).toHaveLength(1);
+      expect(useAltarStore.getState().canRedo).toBe(true);
+    });
+
+    it('routes settings through MCP', async () => {
+      const audioEnabled = !useAltarStore.getState().settings.audioEnabled;
+      useAltarStore.getState().updateSettings({ audioEnabled });
+      await settled();
+
+      expect(useAltarStore.getState().settings.audioEnabled).toBe(audioEnabled);
+      expect(mcpEngine.getState<UserState>('user').settings.audioEnabled).toBe(audioEnabled);
+    });
+
+    it('loads an altar and its template as one MCP transaction', async () => {
+      const transaction = vi.spyOn(mcpEngine, 'transaction');
+
+      const restored = await mcpZustandBridge.createMCPEnhancedActions().restoreAltar(saved, 'three-level');
+
+      expect(restored).toBe(true);
+      expect(transaction).toHaveBeenCalledTimes(1);
+      expect(transaction.mock.calls[0][0].map(action => action.type)).toEqual(['updateDimensions', 'restoreAltar']);
+      expect(dispatchSpy).not.toHaveBeenCalled();
+      expect(placed()).toEqual(saved);
+      expect(useAltarStore.getState().grid.dimensions.template).toBe('three-level');
+    });
+
+    it('lets the store write directly again once disconnected', () => {
+      mcpZustandBridge.disconnect();
+
+      useAltarStore.getState().placeElement(vela, { row: 0, col: 0 });
+
+      expect(placed()).toHaveLength(1);
+      expect(dispatchSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('mirror mode', () => {
+    beforeEach(() => {
+      mcpZustandBridge.initialize('mirror');
+    });
+
+    it('mirrors each grid change into MCP as one new version', () => {
+      const before = mcpEngine.getState<AltarState>('altar').version;
+      const engineVersion = mcpEngine.getStateVersion('altar');
+
+      useAltarStore.getState().placeElement(vela, { row: 0, col: 0 });
+      useAltarStore.getState().placeElement(flor, { row: 2, col: 2 });
+
+      expect(mcpPlaced()).toEqual(placed());
+      expect(mcpEngine.getState<AltarState>('altar').version).toBe(before + 2);
+      expect(mcpEngine.getStateVersion('altar')).toBe(engineVersion + 2);
+      expect(dispatchSpy).not.toHaveBeenCalled();
+    });
+
+    it('logs mirrored store edits in the action log with the state around them', () => {
+      const log = () => mcpEngine.getDebugLogger().getActionLog();
+      const logged = log().length;
+      const audioEnabled = !useAltarStore.getState().settings.audioEnabled;
+
+      useAltarStore.getState().placeElement(vela, { row: 0, col: 0 });
+      useAltarStore.getState().updateSettings({ audioEnabled });
+
+      const [placement, settings, ...rest] = log().slice(logged);
+      expect(rest).toEqual([]);
+      expect(placement).toMatchObject({ action: { type: 'restoreAltar' }, success: true, moduleName: 'altar' });
+      expect((placement.previousState as AltarState).placedElements).toEqual([]);
+      expect((placement.newState as AltarState).placedElements).toEqual(placed());
+      expect(settings).toMatchObject({ action: { type: 'updateSettings' }, moduleName: 'user' });
+      expect((settings.newState as UserState).settings.audioEnabled).toBe(audioEnabled);
+    });
+
+    it('commits a loaded altar to MCP before showing it in the store', async () => {
+      const transaction = vi.spyOn(mcpEngine, 'transaction');
+
+      const restored = await mcpZustandBridge.createMCPEnhancedActions().restoreAltar(saved, 'three-level');
+
+      expect(restored).toBe(true);
+      expect(transaction.mock.calls[0][0].map(action => action.type))
+        .toEqual(['updateDimensions', 'clearAltar', 'restoreAltar']);
+      expect(placed()).toEqual(saved);
+      expect(mcpPlaced()).toEqual(saved);
+      expect(mcpEngine.getState<AltarState>('altar').dimensions.template).toBe('three-level');
+    });
+
+    it('leaves the MCP altar alone when unrelated store state changes', () => {
+      const altar = mcpEngine.getState<AltarState>('altar');
+
+      useAltarStore.getState().selectCategory(ElementCategory.DECORATIVOS);
+
+      expect(mcpEngine.getState<AltarState>('altar')).toBe(altar);
+    });
+
+    it('restores a recorded altar into MCP and the store without mirroring it back', () => {
+      useAltarStore.getState().placeElement(vela, { row: 0, col: 0 });
+      const recorded = mcpEngine.getState<AltarState>('altar');
+      useAltarStore.getState().placeElement(flor, { row: 2, col: 2 });
+      const engineVersion = mcpEngine.getStateVersion('altar');
+
+      mcpZustandBridge.restoreSnapshot({ altar: recorded });
+
+      expect(mcpEngine.getState<AltarState>('altar')).toBe(recorded);
+      expect(mcpEngine.getStateVersion('altar')).toBe(engineVersion + 1);
+      expect(placed()).toEqual(recorded.placedElements);
+      expect(dispatchSpy).not.toHaveBeenCalled();
+    });
+  });
+});
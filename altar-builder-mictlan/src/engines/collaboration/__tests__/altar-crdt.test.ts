@@ -0,0 +1,310 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+  AltarDocument,
+  actionToOperation,
+  compareStamps,
+  diffResolvedAltars,
+  operationToAction,
+  type AltarOperation
+} from '../altar-crdt';
+
+const grid = { rows: 3, cols: 4 };
+
+describe('AltarDocument', () => {
+  describe('Operations', () => {
+    it('should place, move and remove elements', () => {
+      const doc = new AltarDocument('a');
+
+      doc.place('vela-1', 'vela', { row: 0, col: 0 });
+      doc.move('vela-1', { row: 2, col: 3 });
+
+      expect(doc.resolve(grid).elements).toEqual([
+        expect.objectContaining({ elementId: 'vela-1', elementType: 'vela', position: { row: 2, col: 3 } })
+      ]);
+
+      doc.remove('vela-1');
+      expect(doc.resolve(grid).elements).toEqual([]);
+    });
+
+    it('should ignore duplicate and superseded operations', () => {
+      const doc = new AltarDocument('a');
+      const place = doc.place('vela-1', 'vela', { row: 0, col: 0 });
+      const move = doc.move('vela-1', { row: 1, col: 1 });
+
+      expect(doc.apply(place)).toBe(false);
+      expect(doc.apply(move)).toBe(false);
+      expect(doc.resolve(grid).elements[0].position).toEqual({ row: 1, col: 1 });
+    });
+
+    it('should advance the Lamport clock past remote operations', () => {
+      const a = new AltarDocument('a');
+      const b = new AltarDocument('b');
+
+      a.place('vela-1', 'vela', { row: 0, col: 0 });
+      const move = a.move('vela-1', { row: 1, col: 0 });
+      b.apply(move);
+
+      // b saw counter 2, so its next move is ordered after a's
+      expect(b.lamportClock).toBe(2);
+      const later = b.move('vela-1', { row: 2, col: 0 });
+      expect(compareStamps(later.stamp, move.stamp)).toBeGreaterThan(0);
+    });
+
+    it('should keep removals when a concurrent move arrives later', () => {
+      const a = new AltarDocument('a');
+      const b = new AltarDocument('b');
+      const place = a.place('vela-1', 'vela', { row: 0, col: 0 });
+      b.apply(place);
+
+      const remove = a.remove('vela-1');
+      const move = b.move('vela-1', { row: 1, col: 1 });
+      a.apply(move);
+      b.apply(remove);
+
+      expect(a.resolve(grid).elements).toEqual([]);
+      expect(b.resolve(grid).elements).toEqual([]);
+    });
+
+    it('should bring back an element whose removal was undone', () => {
+      const a = new AltarDocument('a');
+      const b = new AltarDocument('b');
+      b.apply(a.place('vela-1', 'vela', { row: 0, col: 0 }));
+      b.apply(a.remove('vela-1'));
+      expect(b.resolve(grid).elements).toEqual([]);
+
+      // Undo puts the same element back under the same id
+      b.apply(a.place('vela-1', 'vela', { row: 0, col: 0 }));
+
+      expect(a.resolve(grid).elements.map(element => element.elementId)).toEqual(['vela-1']);
+      expect(b.resolve(grid)).toEqual(a.resolve(grid));
+      expect(b.checksum()).toBe(a.checksum());
+    });
+
+    it('should let a place win over a concurrent removal', () => {
+      const a = new AltarDocument('a');
+      const b = new AltarDocument('b');
+      const place = a.place('vela-1', 'vela', { row: 0, col: 0 });
+      b.apply(place);
+      const removeOnA = a.remove('vela-1');
+      b.apply(b.remove('vela-1'));
+
+      // b undoes its removal before a's removal reaches it
+      const restore = b.place('vela-1', 'vela', { row: 0, col: 0 });
+      a.apply(restore);
+      b.apply(removeOnA);
+
+      expect(a.resolve(grid).elements).toHaveLength(1);
+      expect(b.resolve(grid)).toEqual(a.resolve(grid));
+    });
+
+    it('should order equal counters by replica id', () => {
+      expect(compareStamps({ counter: 1, replicaId: 'a' }, { counter: 1, replicaId: 'b' })).toBeLessThan(0);
+      expect(compareStamps({ counter: 2, replicaId: 'a' }, { counter: 1, replicaId: 'b' })).toBeGreaterThan(0);
+      expect(compareStamps({ counter: 1, replicaId: 'a' }, { counter: 1, replicaId: 'a' })).toBe(0);
+    });
+  });
+
+  describe('Cell conflicts', () => {
+    it('should give the cell to the earliest claim and displace the other', () => {
+      const a = new AltarDocument('a');
+      const b = new AltarDocument('b');
+
+      const first = a.place('vela-1', 'vela', { row: 1, col: 1 });
+      const second = b.place('flor-1', 'flor', { row: 1, col: 1 });
+      a.apply(second);
+      b.apply(first);
+
+      const resolved = a.resolve(grid);
+      expect(resolved).toEqual(b.resolve(grid));
+      expect(resolved.elements).toEqual([
+        expect.objectContaining({ elementId: 'vela-1', position: { row: 1, col: 1 } }),
+        expect.objectContaining({
+          elementId: 'flor-1',
+          position: { row: 0, col: 0 },
+          requestedPosition: { row: 1, col: 1 }
+        })
+      ]);
+    });
+
+    it('should clamp positions into the grid and report elements that do not fit', () => {
+      const doc = new AltarDocument('a');
+      doc.place('vela-1', 'vela', { row: 9, col: 11 });
+      doc.place('vela-2', 'vela', { row: 0, col: 0 });
+
+      const resolved = doc.resolve({ rows: 1, cols: 1 });
+      expect(resolved.elements).toEqual([
+        expect.objectContaining({ elementId: 'vela-1', position: { row: 0, col: 0 } })
+      ]);
+      expect(resolved.unplaced).toEqual(['vela-2']);
+    });
+
+    it('should diff resolved layouts', () => {
+      const doc = new AltarDocument('a');
+      doc.place('vela-1', 'vela', { row: 0, col: 0 });
+      doc.place('flor-1', 'flor', { row: 1, col: 0 });
+      const before = doc.resolve(grid);
+
+      doc.remove('vela-1');
+      doc.move('flor-1', { row: 2, col: 2 });
+      doc.place('pan-1', 'pan', { row: 0, col: 3 });
+      const diff = diffResolvedAltars(before, doc.resolve(grid));
+
+      expect(diff.added.map(element => element.elementId)).toEqual(['pan-1']);
+      expect(diff.removed.map(element => element.elementId)).toEqual(['vela-1']);
+      expect(diff.moved.map(element => element.elementId)).toEqual(['flor-1']);
+    });
+  });
+
+  describe('Actions', () => {
+    it('should round-trip operations through collaboration actions', () => {
+      const doc = new AltarDocument('a');
+      const operations = [
+        doc.place('foto-1', 'foto', { row: 0, col: 1 }, {
+          id: 'custom-1',
+          name: 'Abuela',
+          dedication: 'Siempre en nuestro corazón',
+          imageDataUrl: 'data:image/png;base64,AAAA',
+          createdAt: new Date(0)
+        }),
+        doc.move('foto-1', { row: 1, col: 1 }),
+        doc.remove('foto-1')
+      ];
+
+      for (const operation of operations) {
+        const action = { ...operationToAction(operation), peerId: 'peer-a', timestamp: Date.now() };
+        expect(actionToOperation(action)).toEqual(operation);
+      }
+    });
+
+    it('should reject actions without a Lamport stamp', () => {
+      expect(actionToOperation({
+        type: 'element_place',
+        data: { elementId: 'vela-1', elementType: 'vela', position: { row: 0, col: 0 } }
+      })).toBeNull();
+      expect(actionToOperation({
+        type: 'element_remove',
+        data: { elementId: 'vela-1', observed: { counter: 'x' }, stamp: { counter: 2, replicaId: 'a' } }
+      })).toBeNull();
+      expect(actionToOperation({
+        type: 'element_move',
+        data: { elementId: 'vela-1', position: { row: 0, col: 0 }, stamp: { counter: Infinity, replicaId: 'a' } }
+      })).toBeNull();
+      expect(actionToOperation({
+        type: 'cursor_move',
+        data: { elementId: 'vela-1', stamp: { counter: 1, replicaId: 'a' } }
+      })).toBeNull();
+    });
+  });
+
+  describe('Convergence', () => {
+    const replicaIds = ['a', 'b', 'c'];
+    const elementIds = ['e1', 'e2', 'e3', 'e4'];
+
+    type Intent =
+      | { kind: 'place'; replica: number; element: number; row: number; col: number; deliver: number }
+      | { kind: 'move'; replica: number; element: number; row: number; col: number; deliver: number }
+      | { kind: 'remove'; replica: number; element: number; deliver: number };
+
+    const position = { row: fc.integer({ min: -1, max: 4 }), col: fc.integer({ min: -1, max: 5 }) };
+    const target = {
+      replica: fc.nat(replicaIds.length - 1),
+      element: fc.nat(elementIds.length - 1),
+      // How many pending remote operations the replica receives before acting
+      deliver: fc.nat(4)
+    };
+    const intent: fc.Arbitrary<Intent> = fc.oneof(
+      fc.record({ kind: fc.constant('place' as const), ...target, ...position }),
+      fc.record({ kind: fc.constant('move' as const), ...target, ...position }),
+      fc.record({ kind: fc.constant('remove' as const), ...target })
+    );
+
+    /**
+     * Replays the intents on three replicas that only see each other's
+     * operations partially and late, like peers on a lossy network, and
+     * returns every operation generated
+     */
+    const simulate = (intents: Intent[]): AltarOperation[] => {
+      const replicas = replicaIds.map(id => new AltarDocument(id));
+      const inboxes: AltarOperation[][] = replicaIds.map(() => []);
+      const log: AltarOperation[] = [];
+
+      for (const step of intents) {
+        const replica = replicas[step.replica];
+        inboxes[step.replica].splice(0, step.deliver).forEach(operation => replica.apply(operation));
+
+        const elementId = elementIds[step.element];
+        const operation = step.kind === 'place'
+          ? replica.place(elementId, `type-${step.replica}`, { row: step.row, col: step.col })
+          : step.kind === 'move'
+            ? replica.move(elementId, { row: step.row, col: step.col })
+            : replica.remove(elementId);
+
+        log.push(operation);
+        inboxes.forEach((inbox, index) => {
+          if (index !== step.replica) inbox.push(operation);
+        });
+      }
+
+      return log;
+    };
+
+    const replay = (replicaId: string, operations: AltarOperation[]) => {
+      const doc = new AltarDocument(replicaId);
+      operations.forEach(operation => doc.apply(operation));
+      return doc;
+    };
+
+    it('should converge regardless of delivery order and duplicates', () => {
+      fc.assert(
+        fc.property(
+          fc.array(intent, { minLength: 1, maxLength: 30 }),
+          fc.infiniteStream(fc.nat()),
+          (intents, seeds) => {
+            const log = simulate(intents);
+            const reference = replay('x', log);
+
+            // Deliver the same operations shuffled and partly duplicated
+            const shuffled = [...log, ...log.filter((_, index) => index % 3 === 0)];
+            for (let i = shuffled.length - 1; i > 0; i--) {
+              const j = seeds.next().value % (i + 1);
+              [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+            }
+            const other = replay('y', shuffled);
+
+            expect(other.getState().entries).toEqual(reference.getState().entries);
+            expect(other.resolve(grid)).toEqual(reference.resolve(grid));
+          }
+        ),
+        { numRuns: 200 }
+      );
+    });
+
+    it('should converge when merging states in any order', () => {
+      fc.assert(
+        fc.property(
+          fc.array(intent, { minLength: 1, maxLength: 30 }),
+          fc.array(fc.nat(2), { minLength: 3, maxLength: 6 }),
+          fc.array(fc.nat(2), { minLength: 3, maxLength: 6 }),
+          (intents, firstOrder, secondOrder) => {
+            const log = simulate(intents);
+            // Each partial replica holds a different slice of the operations
+            const partials = [0, 1, 2].map(part =>
+              replay(`p${part}`, log.filter((_, index) => index % 3 !== part)).getState()
+            );
+
+            const first = new AltarDocument('m1');
+            const second = new AltarDocument('m2');
+            [...firstOrder, 0, 1, 2].forEach(part => first.merge(partials[part]));
+            [...secondOrder, 2, 1, 0].forEach(part => second.merge(partials[part]));
+
+            expect(first.getState()).toEqual(second.getState());
+            expect(first.getState().entries).toEqual(replay('z', log).getState().entries);
+            expect(first.resolve(grid)).toEqual(second.resolve(grid));
+          }
+        ),
+        { numRuns: 200 }
+      );
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AltarSync, type SyncResponseData } from '../altar-sync';
+import type { CollaborationAction } from '../../../types';
+
+const grid = { rows: 4, cols: 4 };
+
+/**
+ * Broadcast bus between in-memory peers. Messages queue up until flushed,
+ * and peers marked offline miss everything sent meanwhile.
+ */
+class Room {
+  peers = new Map<string, AltarSync>();
+  offline = new Set<string>();
+  queue: CollaborationAction[] = [];
+  sent: CollaborationAction[] = [];
+
+  join(peerId: string, logSize?: number) {
+    const sync = new AltarSync({
+      peerId,
+      logSize,
+      checkInterval: 0,
+      send: action => {
+        const full = { ...action, peerId, timestamp: Date.now() };
+        this.queue.push(full);
+        this.sent.push(full);
+      }
+    });
+    this.peers.set(peerId, sync);
+    return sync;
+  }
+
+  // Both sides of a new connection ask each other for what they miss
+  connect(a: string, b: string) {
+    this.peers.get(a)!.peerConnected(b);
+    this.peers.get(b)!.peerConnected(a);
+  }
+
+  flush() {
+    while (this.queue.length > 0) {
+      // JSON round trip, as on the wire
+      const action: CollaborationAction = JSON.parse(JSON.stringify(this.queue.shift()));
+      if (this.offline.has(action.peerId)) continue;
+
+      this.peers.forEach((sync, peerId) => {
+        if (peerId !== action.peerId && !this.offline.has(peerId)) {
+          sync.handleAction(action);
+        }
+      });
+    }
+  }
+
+  responses(to: string) {
+    return this.sent
+      .filter(action => action.type === 'sync_response' && action.data.to === to)
+      .map(action => action.data as SyncResponseData);
+  }
+}
+
+describe('AltarSync', () => {
+  let room: Room;
+
+  beforeEach(() => {
+    room = new Room();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should send the current altar to a peer joining mid-session', () => {
+    const host = room.join('host');
+    const guest = room.join('guest');
+    host.place('vela-1', 'vela', { row: 0, col: 0 });
+    guest.place('flor-1', 'flor', { row: 1, col: 1 });
+    host.move('flor-1', { row: 2, col: 2 });
+    room.flush();
+
+    const late = room.join('late');
+    room.connect('host', 'late');
+    room.flush();
+
+    expect(late.document.checksum()).toBe(host.document.checksum());
+    expect(late.document.resolve(grid)).toEqual(host.document.resolve(grid));
+    expect(room.responses('late')[0].operations).toHaveLength(3);
+  });
+
+  it('should send a snapshot when the log no longer covers the request', () => {
+    const host = room.join('host', 2);
+    ['a', 'b', 'c', 'd'].forEach((id, col) => host.place(id, 'vela', { row: 0, col }));
+    host.remove('a');
+    room.flush();
+
+    const late = room.join('late', 2);
+    room.connect('host', 'late');
+    room.flush();
+
+    const [response] = room.responses('late');
+    expect(response.snapshot).toBeDefined();
+    expect(response.operations).toHaveLength(2);
+    expect(late.document.resolve(grid)).toEqual(host.document.resolve(grid));
+
+    // The late peer can now serve the same altar to someone else
+    const later = room.join('later', 2);
+    room.connect('late', 'later');
+    room.flush();
+    expect(later.document.checksum()).toBe(host.document.checksum());
+  });
+
+  it('should replay only the operations a reconnecting peer missed', () => {
+    const host = room.join('host');
+    const guest = room.join('guest');
+    host.place('vela-1', 'vela', { row: 0, col: 0 });
+    room.flush();
+
+    room.offline.add('guest');
+    host.place('vela-2', 'vela', { row: 0, col: 1 });
+    host.move('vela-1', { row: 3, col: 3 });
+    room.flush();
+    expect(guest.document.checksum()).not.toBe(host.document.checksum());
+
+    room.offline.delete('guest');
+    room.connect('host', 'guest');
+    room.flush();
+
+    const [response] = room.responses('guest');
+    expect(response.snapshot).toBeUndefined();
+    expect(response.operations.map(action => action.type)).toEqual(['element_place', 'element_move']);
+    expect(guest.document.resolve(grid)).toEqual(host.document.resolve(grid));
+  });
+
+  it('should request a full resync when checksums differ at the same version', () => {
+    const host = room.join('host');
+    const guest = room.join('guest');
+    host.place('vela-1', 'vela', { row: 0, col: 0 });
+    host.place('vela-2', 'vela', { row: 0, col: 1 });
+
+    // The guest only got the second operation, so its version vector looks current
+    room.queue.shift();
+    room.flush();
+    expect(guest.document.getVersions()).toEqual(host.document.getVersions());
+
+    host.broadcastCheck();
+    room.flush();
+
+    const request = room.sent.find(action => action.type === 'sync_request');
+    expect(request).toMatchObject({ peerId: 'guest', data: { to: 'host', full: true } });
+    expect(room.responses('guest')[0].snapshot).toBeDefined();
+    expect(guest.document.checksum()).toBe(host.document.checksum());
+  });
+
+  it('should catch up from checks that show newer operations', () => {
+    const host = room.join('host');
+    const guest = room.join('guest');
+    room.offline.add('guest');
+    host.place('vela-1', 'vela', { row: 0, col: 0 });
+    room.flush();
+    room.offline.delete('guest');
+
+    host.broadcastCheck();
+    room.flush();
+
+    expect(guest.document.checksum()).toBe(host.document.checksum());
+  });
+
+  it('should undo a removal on every peer', () => {
+    const host = room.join('host');
+    const guest = room.join('guest');
+    host.place('vela-1', 'vela', { row: 0, col: 0 });
+    host.remove('vela-1');
+    room.flush();
+    expect(guest.document.resolve(grid).elements).toEqual([]);
+
+    host.place('vela-1', 'vela', { row: 0, col: 0 });
+    room.flush();
+
+    expect(guest.document.resolve(grid).elements).toHaveLength(1);
+    expect(guest.document.checksum()).toBe(host.document.checksum());
+  });
+
+  it('should drop operations stamped by another replica', () => {
+    const host = room.join('host');
+    room.join('guest');
+
+    const forged: CollaborationAction = {
+      type: 'element_place',
+      peerId: 'guest',
+      timestamp: Date.now(),
+      data: {
+        elementId: 'vela-1',
+        elementType: 'vela',
+        position: { row: 0, col: 0 },
+        stamp: { counter: 1000000, replicaId: 'host' }
+      }
+    };
+
+    expect(host.handleAction(forged)).toBe(false);
+    expect(host.document.resolve(grid).elements).toEqual([]);
+    expect(host.document.lamportClock).toBe(0);
+  });
+
+  it('should not reuse its stamps after moving to another room', () => {
+    const sync = room.join('guest');
+    const first = sync.place('vela-1', 'vela', { row: 0, col: 0 });
+
+    sync.reset();
+    const second = sync.place('vela-1', 'vela', { row: 0, col: 0 });
+
+    expect(second.stamp.replicaId).toBe('guest');
+    expect(second.stamp.counter).toBeGreaterThan(first.stamp.counter);
+  });
+
+  it('should ignore requests addressed to other peers', () => {
+    const host = room.join('host');
+    room.join('guest');
+    const other = room.join('other');
+    host.place('vela-1', 'vela', { row: 0, col: 0 });
+    room.flush();
+
+    other.requestSync('guest');
+    room.flush();
+
+    expect(room.sent.filter(action => action.type === 'sync_response')).toHaveLength(1);
+    expect(room.sent.find(action => action.type === 'sync_response')?.peerId).toBe('guest');
+  });
+
+  it('should not repeat a request until the previous one times out', () => {
+    const sync = room.join('guest');
+    sync.requestSync('host');
+    sync.requestSync('host');
+    expect(room.sent).toHaveLength(1);
+
+    sync.peerDisconnected('host');
+    sync.requestSync('host');
+    expect(room.sent).toHaveLength(2);
+  });
+});
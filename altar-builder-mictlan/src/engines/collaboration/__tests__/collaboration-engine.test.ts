@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MainCollaborationEngine } from '../collaboration-engine';
+import type { CollaborationAction, CollaborationPeer } from '../../../types';
+
+/**
+ * Stand-in transport: every engine created in a test shares one broadcast
+ * bus, and `connect` reports two of them to each other as connected peers.
+ */
+const transports: FakeTransport[] = [];
+
+class FakeTransport {
+  peerId = `peer-${transports.length + 1}`;
+  connectionType = 'webrtc' as const;
+  wire: CollaborationAction[] = [];
+  private actionCallbacks: ((action: CollaborationAction) => void)[] = [];
+  private connectCallbacks: ((peer: CollaborationPeer) => void)[] = [];
+  private disconnectCallbacks: ((peerId: string) => void)[] = [];
+
+  constructor() {
+    transports.push(this);
+  }
+
+  async createRoom(roomId?: string) { return roomId ?? 'room'; }
+  async joinRoom() {}
+  leaveRoom() {}
+  onAction(callback: (action: CollaborationAction) => void) { this.actionCallbacks.push(callback); }
+  onPeerConnect(callback: (peer: CollaborationPeer) => void) { this.connectCallbacks.push(callback); }
+  onPeerDisconnect(callback: (peerId: string) => void) { this.disconnectCallbacks.push(callback); }
+  onRelayGap() {}
+
+  disconnectPeer(peerId: string) {
+    this.disconnectCallbacks.forEach(callback => callback(peerId));
+  }
+
+  sendAction(action: CollaborationAction) {
+    const onWire = JSON.parse(JSON.stringify(action));
+    this.wire.push(onWire);
+    transports.filter(transport => transport !== this).forEach(transport => {
+      transport.actionCallbacks.forEach(callback => callback(onWire));
+    });
+  }
+
+  connectTo(other: FakeTransport) {
+    const peer = { id: other.peerId, name: other.peerId, color: '#000', isConnected: true, lastSeen: new Date() };
+    this.connectCallbacks.forEach(callback => callback(peer));
+  }
+}
+
+vi.mock('../webrtc-engine', () => ({
+  WebRTCCollaborationEngine: vi.fn(() => new FakeTransport())
+}));
+
+// Encryption runs on promise chains; wait for every hop to settle
+const settle = () => new Promise(resolve => setTimeout(resolve, 50));
+
+const connect = async (a: number, b: number) => {
+  transports[a].connectTo(transports[b]);
+  transports[b].connectTo(transports[a]);
+  await settle();
+};
+
+// A browser's own localStorage, so engines do not see each other's rooms
+class MemoryStorage {
+  private items = new Map<string, string>();
+  get length() { return this.items.size; }
+  key(index: number) { return Array.from(this.items.keys())[index] ?? null; }
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, String(value)); }
+  removeItem(key: string) { this.items.delete(key); }
+  clear() { this.items.clear(); }
+}
+
+describe('MainCollaborationEngine rooms', () => {
+  let engines: MainCollaborationEngine[];
+
+  beforeEach(() => {
+    transports.length = 0;
+    engines = [];
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    engines.forEach(engine => engine.destroy());
+    vi.unstubAllGlobals();
+  });
+
+  it('should join a room created in another browser', async () => {
+    vi.stubGlobal('localStorage', new MemoryStorage());
+    engines = [new MainCollaborationEngine()];
+    const roomId = await engines[0].createRoom('Sala');
+
+    vi.stubGlobal('localStorage', new MemoryStorage());
+    engines.push(new MainCollaborationEngine());
+    await engines[1].joinRoom(roomId);
+
+    expect(localStorage.getItem(`room_${roomId}`)).toBeNull();
+    expect(engines[1].getState()).toMatchObject({ roomId, isHost: false, isConnected: true });
+  });
+
+  it('should leave it to the signaling server to turn joins away', async () => {
+    vi.stubGlobal('localStorage', new MemoryStorage());
+    const guest = new MainCollaborationEngine();
+    engines = [guest];
+    vi.spyOn(transports[0], 'joinRoom').mockRejectedValue(new Error('Room sala-llena is full'));
+
+    await expect(guest.joinRoom('sala-llena')).rejects.toThrow('Room sala-llena is full');
+    expect(guest.getState().isConnected).toBe(false);
+  });
+});
+
+describe('MainCollaborationEngine passphrase rooms', () => {
+  let engines: MainCollaborationEngine[];
+
+  const createEngine = () => {
+    const engine = new MainCollaborationEngine();
+    engines.push(engine);
+    return engine;
+  };
+
+  beforeEach(() => {
+    transports.length = 0;
+    engines = [];
+    localStorage.clear();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    engines.forEach(engine => engine.destroy());
+  });
+
+  it('should admit peers that know the passphrase and exchange encrypted actions', async () => {
+    const host = createEngine();
+    const guest = createEngine();
+    const roomId = await host.createRoom('Secreto', { passphrase: 'cempasúchil' });
+    await guest.joinRoom(roomId, 'cempasúchil');
+
+    const hostConnects = vi.fn();
+    const received = vi.fn();
+    host.onPeerConnect(hostConnects);
+    host.onAction(received);
+
+    await connect(0, 1);
+    expect(hostConnects).toHaveBeenCalledWith(expect.objectContaining({ id: 'peer-2' }));
+
+    guest.sendAction({ type: 'element_place', data: { elementId: 'vela-1', elementType: 'vela' } });
+    await settle();
+
+    expect(received).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'element_place',
+      peerId: 'peer-2',
+      data: { elementId: 'vela-1', elementType: 'vela' }
+    }));
+    expect(transports[1].wire.map(action => action.type)).not.toContain('element_place');
+    expect(roomId).toMatch(/^[A-Za-z0-9_-]{22}$/);
+    expect(host.generateShareableLink()).toContain('secure=true');
+  });
+
+  it('should keep out peers with the wrong passphrase', async () => {
+    const host = createEngine();
+    const intruder = createEngine();
+    const roomId = await host.createRoom('Secreto', { passphrase: 'cempasúchil' });
+    await intruder.joinRoom(roomId, 'copal');
+
+    const hostConnects = vi.fn();
+    const hostErrors = vi.fn();
+    const received = vi.fn();
+    host.onPeerConnect(hostConnects);
+    host.onError(hostErrors);
+    host.onAction(received);
+
+    await connect(0, 1);
+    intruder.sendAction({ type: 'element_place', data: { elementId: 'vela-1', elementType: 'vela' } });
+    await settle();
+
+    expect(hostConnects).not.toHaveBeenCalled();
+    expect(hostErrors).toHaveBeenCalledWith(new Error('Peer peer-2 does not know the room passphrase'));
+    expect(received).not.toHaveBeenCalled();
+  });
+
+  it('should drop plaintext actions in protected rooms', async () => {
+    const host = createEngine();
+    const roomId = await host.createRoom('Secreto', { passphrase: 'cempasúchil' });
+    const outsider = createEngine();
+    await outsider.joinRoom(roomId);
+
+    const received = vi.fn();
+    host.onAction(received);
+    outsider.sendAction({ type: 'element_remove', data: { elementId: 'vela-1' } });
+    await settle();
+
+    expect(received).not.toHaveBeenCalled();
+  });
+});
+
+describe('MainCollaborationEngine presence', () => {
+  let engines: MainCollaborationEngine[];
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'Date'] });
+    transports.length = 0;
+    engines = [];
+    localStorage.clear();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    engines.forEach(engine => engine.destroy());
+    vi.useRealTimers();
+  });
+
+  it('should track peers with ping and pong and disconnect those that go silent', async () => {
+    engines = [new MainCollaborationEngine(), new MainCollaborationEngine()];
+    const [host, guest] = engines;
+    const roomId = await host.createRoom('Sala');
+    await guest.joinRoom(roomId);
+    transports[0].connectTo(transports[1]);
+    transports[1].connectTo(transports[0]);
+
+    const received = vi.fn();
+    host.onAction(received);
+    vi.advanceTimersByTime(5000);
+
+    expect(host.getState().peers.get('peer-2')).toMatchObject({ status: 'active', latency: 0 });
+    expect(received).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'presence_ping' }));
+    expect(transports[0].wire.filter(action => action.type === 'peer_join')).toHaveLength(1);
+
+    guest.leaveRoom();
+    vi.advanceTimersByTime(15000);
+    expect(host.getState().peers.get('peer-2')?.status).toBe('idle');
+
+    vi.advanceTimersByTime(15000);
+    expect(host.getState().peers.has('peer-2')).toBe(false);
+  });
+});
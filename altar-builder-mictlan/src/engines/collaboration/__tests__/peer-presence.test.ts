@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PeerPresence, connectionQuality } from '../peer-presence';
+import type { CollaborationAction } from '../../../types';
+
+describe('PeerPresence', () => {
+  let sent: CollaborationAction[];
+
+  const createPresence = (peerId: string) => {
+    const presence = new PeerPresence({
+      peerId,
+      interval: 1000,
+      idleAfter: 3000,
+      timeout: 6000,
+      send: action => sent.push({ ...action, peerId, timestamp: Date.now() })
+    });
+    presence.start();
+    return presence;
+  };
+
+  const deliver = (to: PeerPresence) => {
+    sent.splice(0).forEach(action => to.handleAction(action));
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sent = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should measure the round trip of a ping on the sender clock', () => {
+    const host = createPresence('host');
+    const guest = createPresence('guest');
+    host.peerConnected('guest');
+    guest.peerConnected('host');
+    sent.splice(0);
+
+    vi.advanceTimersByTime(1000);
+    const [ping] = sent.filter(action => action.peerId === 'host');
+    sent.splice(0);
+    expect(ping).toMatchObject({ type: 'presence_ping', data: { sentAt: Date.now() } });
+
+    // The pong takes 120ms to come back
+    expect(guest.handleAction(ping)).toBe(true);
+    vi.advanceTimersByTime(120);
+    deliver(host);
+    expect(host.getPeers().guest.latency).toBe(120);
+
+    // Later samples are smoothed
+    host.handleAction({ type: 'presence_pong', peerId: 'guest', timestamp: Date.now(), data: { to: 'host', sentAt: Date.now() - 20 } });
+    expect(host.getPeers().guest.latency).toBe(90);
+  });
+
+  it('should mark silent peers idle and then time them out', () => {
+    const presence = createPresence('host');
+    const timedOut = vi.fn();
+    presence.onTimeout(timedOut);
+    presence.peerConnected('guest');
+
+    vi.advanceTimersByTime(3000);
+    expect(presence.getPeers().guest.status).toBe('idle');
+
+    // Any action is a sign of life
+    presence.handleAction({ type: 'cursor_move', peerId: 'guest', timestamp: Date.now(), data: {} });
+    expect(presence.getPeers().guest.status).toBe('active');
+
+    vi.advanceTimersByTime(6000);
+    expect(timedOut).toHaveBeenCalledWith('guest');
+    expect(presence.getPeers()).toEqual({});
+  });
+
+  it('should ignore pongs meant for others and leave other actions alone', () => {
+    const presence = createPresence('host');
+    presence.peerConnected('guest');
+
+    const stray = { type: 'presence_pong', peerId: 'guest', timestamp: Date.now(), data: { to: 'other', sentAt: Date.now() } } as const;
+    expect(presence.handleAction(stray)).toBe(true);
+    expect(presence.getPeers().guest.latency).toBeUndefined();
+    expect(presence.handleAction({ type: 'chat_message', peerId: 'guest', timestamp: Date.now(), data: {} })).toBe(false);
+  });
+
+  it('should rate connections by latency and presence', () => {
+    expect(connectionQuality({ latency: 40 })).toBe('good');
+    expect(connectionQuality({ latency: 250 })).toBe('fair');
+    expect(connectionQuality({ latency: 900 })).toBe('poor');
+    expect(connectionQuality({ latency: 40, status: 'idle' })).toBe('poor');
+    expect(connectionQuality({})).toBeUndefined();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RoomChat } from '../room-chat';
+import type { CollaborationAction } from '../../../types';
+
+describe('RoomChat', () => {
+  let sent: CollaborationAction[];
+
+  const createChat = (peerId: string, options: Partial<ConstructorParameters<typeof RoomChat>[0]> = {}) => new RoomChat({
+    peerId,
+    send: action => sent.push({ ...action, peerId, timestamp: Date.now() }),
+    ...options
+  });
+
+  const deliver = (to: RoomChat) => sent.splice(0).map(action => to.handleAction(action));
+
+  beforeEach(() => {
+    sent = [];
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should send messages and keep them in the history of both peers', () => {
+    const ana = createChat('ana');
+    const luis = createChat('luis');
+
+    const message = ana.sendMessage('  ¿Ponemos el pan de muerto arriba?  ');
+    expect(message.text).toBe('¿Ponemos el pan de muerto arriba?');
+    expect(sent[0]).toMatchObject({ type: 'chat_message', data: { id: message.id, text: message.text } });
+
+    deliver(luis);
+    expect(luis.getMessages()).toEqual([expect.objectContaining({ id: message.id, peerId: 'ana', text: message.text })]);
+    expect(ana.getMessages()).toHaveLength(1);
+  });
+
+  it('should anchor reactions to a grid cell', () => {
+    const ana = createChat('ana');
+    const luis = createChat('luis');
+
+    ana.react('🌼', { row: 2, col: 3 });
+    deliver(luis);
+
+    expect(luis.getReactions()).toEqual([
+      expect.objectContaining({ peerId: 'ana', emoji: '🌼', position: { row: 2, col: 3 } })
+    ]);
+    expect(() => ana.react('🎃' as never, { row: 0, col: 0 })).toThrow('Unsupported reaction');
+  });
+
+  it('should rate-limit sending and recover after the interval', () => {
+    const ana = createChat('ana', { messageRate: { limit: 2, interval: 1000 } });
+
+    ana.sendMessage('uno');
+    ana.sendMessage('dos');
+    expect(ana.canSend('chat_message')).toBe(false);
+    expect(() => ana.sendMessage('tres')).toThrow('Too many messages');
+    expect(sent).toHaveLength(2);
+
+    vi.advanceTimersByTime(1000);
+    expect(() => ana.sendMessage('tres')).not.toThrow();
+  });
+
+  it('should drop messages from peers that exceed the limit', () => {
+    const luis = createChat('luis', { messageRate: { limit: 2, interval: 1000 } });
+    const flood = (id: string): CollaborationAction => ({
+      type: 'chat_message',
+      peerId: 'spammer',
+      timestamp: Date.now(),
+      data: { id, text: 'hola' }
+    });
+
+    expect(['a', 'b', 'c'].map(id => luis.handleAction(flood(id)))).toEqual([true, true, false]);
+    expect(luis.getMessages()).toHaveLength(2);
+  });
+
+  it('should ignore duplicates and malformed chat actions', () => {
+    const ana = createChat('ana');
+    const luis = createChat('luis');
+    ana.sendMessage('hola');
+    const [action] = sent;
+
+    expect(deliver(luis)).toEqual([true]);
+    expect(luis.handleAction(action)).toBe(false);
+    expect(luis.handleAction({ ...action, data: { id: 'x', text: '   ' } })).toBe(false);
+    expect(luis.handleAction({ ...action, type: 'reaction', data: { id: 'y', emoji: '🕯️', position: { row: -1, col: 0 } } })).toBe(false);
+    expect(luis.getMessages()).toHaveLength(1);
+  });
+
+  it('should keep only the most recent history', () => {
+    const ana = createChat('ana', { historySize: 3, messageRate: { limit: 10, interval: 1000 } });
+    ['a', 'b', 'c', 'd'].forEach(text => ana.sendMessage(text));
+
+    expect(ana.getMessages().map(message => message.text)).toEqual(['b', 'c', 'd']);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { RoomKey, createNonce } from '../room-crypto';
+import type { CollaborationAction } from '../../../types';
+
+const action: CollaborationAction = {
+  type: 'element_place',
+  peerId: 'peer-a',
+  timestamp: 1700000000000,
+  data: { elementId: 'vela-1', elementType: 'vela', position: { row: 1, col: 2 } }
+};
+
+describe('RoomKey', () => {
+  it('should round-trip actions between peers sharing the passphrase', async () => {
+    const [sender, receiver] = await Promise.all([
+      RoomKey.derive('sala-1', 'cempasúchil'),
+      RoomKey.derive('sala-1', 'cempasúchil')
+    ]);
+
+    const envelope = await sender.encrypt(action);
+    expect(envelope.type).toBe('encrypted');
+    expect(JSON.stringify(envelope)).not.toContain('vela-1');
+
+    expect(await receiver.decrypt(envelope)).toEqual(action);
+  });
+
+  it('should not open envelopes sealed with another passphrase or room', async () => {
+    const [sender, wrongPassphrase, wrongRoom] = await Promise.all([
+      RoomKey.derive('sala-1', 'cempasúchil'),
+      RoomKey.derive('sala-1', 'copal'),
+      RoomKey.derive('sala-2', 'cempasúchil')
+    ]);
+
+    const envelope = await sender.encrypt(action);
+    expect(await wrongPassphrase.decrypt(envelope)).toBeNull();
+    expect(await wrongRoom.decrypt(envelope)).toBeNull();
+  });
+
+  it('should reject envelopes whose sender was rewritten', async () => {
+    const key = await RoomKey.derive('sala-1', 'cempasúchil');
+    const envelope = await key.encrypt(action);
+
+    expect(await key.decrypt({ ...envelope, peerId: 'peer-b' })).toBeNull();
+    expect(await key.decrypt({ ...envelope, data: { iv: 'AAAA', ciphertext: 'not base64!' } })).toBeNull();
+  });
+
+  it('should verify proofs only for the same nonce, peer and passphrase', async () => {
+    const [host, guest, impostor] = await Promise.all([
+      RoomKey.derive('sala-1', 'cempasúchil'),
+      RoomKey.derive('sala-1', 'cempasúchil'),
+      RoomKey.derive('sala-1', 'copal')
+    ]);
+    const nonce = createNonce();
+
+    const proof = await guest.prove(nonce, 'guest');
+    expect(await host.verify(nonce, 'guest', proof)).toBe(true);
+    expect(await host.verify(nonce, 'other', proof)).toBe(false);
+    expect(await host.verify(createNonce(), 'guest', proof)).toBe(false);
+    expect(await host.verify(nonce, 'guest', await impostor.prove(nonce, 'guest'))).toBe(false);
+  });
+});
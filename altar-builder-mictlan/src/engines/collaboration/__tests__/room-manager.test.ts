@@ -67,6 +67,14 @@ describe('CollaborationRoomManager', () => {
       expect(parsedRoom.id).toBe(room.id);
       expect(parsedRoom.name).toBe(room.name);
     });
+
+    it('should generate token ids for passphrase-protected rooms', async () => {
+      const room = await roomManager.createRoom('Secreto', false, { idFormat: 'token', passphraseProtected: true });
+
+      expect(room.id).toMatch(/^[A-Za-z0-9_-]{22}$/);
+      expect(room.passphraseProtected).toBe(true);
+      expect(roomManager.isValidRoomId(room.id)).toBe(true);
+    });
   });
 
   describe('Room Joining', () => {
@@ -169,6 +177,15 @@ describe('CollaborationRoomManager', () => {
       expect(parsed).toBe(roomId);
     });
 
+    it('should mark links to protected rooms without including the passphrase', () => {
+      const link = roomManager.generateShareableLink('AbCdEfGhIjKlMnOpQrStUv', true);
+
+      expect(link).toContain('secure=true');
+      expect(roomManager.isProtectedLink(link)).toBe(true);
+      expect(roomManager.isProtectedLink(roomManager.generateShareableLink('test-room-123'))).toBe(false);
+      expect(roomManager.parseShareableLink(link)).toBe('AbCdEfGhIjKlMnOpQrStUv');
+    });
+
     it('should return null for invalid link', () => {
       const parsed = roomManager.parseShareableLink('https://example.com');
       expect(parsed).toBeNull();
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RoomRoles } from '../room-roles';
+import type { CollaborationAction } from '../../../types';
+
+describe('RoomRoles', () => {
+  let sent: CollaborationAction[];
+
+  const createRoles = (peerId: string) => new RoomRoles({
+    peerId,
+    send: action => sent.push({ ...action, peerId, timestamp: Date.now() })
+  });
+
+  // Host and guest wired together: the guest sees everything the host sends
+  const createRoom = () => {
+    const host = createRoles('host');
+    const guest = createRoles('guest');
+    host.becomeHost();
+    guest.followHost('host');
+    host.peerConnected('guest');
+    sent.splice(0).forEach(action => guest.handleAction(action));
+    return { host, guest };
+  };
+
+  const deliver = (to: RoomRoles) => {
+    sent.splice(0).forEach(action => to.handleAction(action));
+  };
+
+  beforeEach(() => {
+    sent = [];
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should make the room creator host and everyone else an editor', () => {
+    const { host, guest } = createRoom();
+
+    expect(host.localRole).toBe('host');
+    expect(guest.localRole).toBe('editor');
+    expect(guest.roleOf('host')).toBe('host');
+    expect(guest.canEdit('guest')).toBe(true);
+  });
+
+  it('should send role changes and apply them on receipt', () => {
+    const { host, guest } = createRoom();
+
+    host.setRole('guest', 'viewer');
+    expect(sent[0]).toMatchObject({ type: 'role_change', data: { peerId: 'guest', role: 'viewer' } });
+    deliver(guest);
+
+    expect(guest.localRole).toBe('viewer');
+    expect(guest.canEditLocally).toBe(false);
+    expect(host.canEdit('guest')).toBe(false);
+
+    host.setRole('guest', 'editor');
+    deliver(guest);
+    expect(guest.canEditLocally).toBe(true);
+  });
+
+  it('should let only the host edit while the altar is locked', () => {
+    const { host, guest } = createRoom();
+
+    host.setLocked(true);
+    deliver(guest);
+
+    expect(guest.isLocked).toBe(true);
+    expect(guest.canEdit('guest')).toBe(false);
+    expect(guest.canEdit('host')).toBe(true);
+  });
+
+  it('should kick peers and turn them away when they reconnect', () => {
+    const { host, guest } = createRoom();
+    const kicked = vi.fn();
+    guest.onKicked(kicked);
+
+    host.kick('guest');
+    deliver(guest);
+
+    expect(kicked).toHaveBeenCalledTimes(1);
+    expect(host.isKicked('guest')).toBe(true);
+
+    host.peerConnected('guest');
+    expect(sent).toEqual([expect.objectContaining({ type: 'peer_kick', data: { peerId: 'guest' } })]);
+  });
+
+  it('should ignore moderation from peers other than the host', () => {
+    const { guest } = createRoom();
+    const impostor = createRoles('impostor');
+    impostor.becomeHost();
+
+    expect(() => guest.setRole('host', 'viewer')).toThrow('Only the host can change roles');
+
+    impostor.setRole('guest', 'viewer');
+    impostor.setLocked(true);
+    impostor.peerConnected('guest');
+    sent.splice(0).forEach(action => expect(guest.handleAction(action)).toBe(false));
+
+    expect(guest.localRole).toBe('editor');
+    expect(guest.isLocked).toBe(false);
+    expect(guest.roleOf('host')).toBe('host');
+  });
+
+  it('should not let a peer claim to be host before the real host is heard from', () => {
+    const guest = createRoles('guest');
+    guest.followHost('host');
+    const impostor = createRoles('impostor');
+    impostor.becomeHost();
+
+    impostor.peerConnected('guest');
+    impostor.setLocked(true);
+    sent.splice(0).forEach(action => expect(guest.handleAction(action)).toBe(false));
+
+    expect(guest.getRoster().hostId).toBe('host');
+    expect(guest.isLocked).toBe(false);
+  });
+
+  it('should send the current roster to peers that connect later', () => {
+    const { host } = createRoom();
+    host.setRole('guest', 'viewer');
+    host.setLocked(true);
+    sent.splice(0);
+
+    const late = createRoles('late');
+    late.followHost('host');
+    host.peerConnected('late');
+    deliver(late);
+
+    expect(late.roleOf('guest')).toBe('viewer');
+    expect(late.isLocked).toBe(true);
+    expect(late.localRole).toBe('editor');
+    expect(late.canEditLocally).toBe(false);
+  });
+
+  it('should not let the host change its own role or kick itself', () => {
+    const { host } = createRoom();
+
+    expect(() => host.setRole('host', 'viewer')).toThrow();
+    expect(() => host.kick('host')).toThrow();
+    expect(() => host.setRole('guest', 'host')).toThrow();
+  });
+});
@@ -0,0 +1,500 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WebSocket as NodeWebSocket, WebSocketServer } from 'ws';
+import { createSignalingServer, type SignalingServer } from '../../../../server/signaling-server';
+import { WebRTCCollaborationEngine } from '../webrtc-engine';
+import { SignalingClient } from '../signaling-client';
+import type { CollaborationAction } from '../../../types';
+
+/**
+ * In-memory stand-in for RTCPeerConnection. Two instances pair up once the
+ * offer/answer exchange has gone through the signaling server, and only then
+ * open their data channels.
+ */
+class FakeDataChannel {
+  label: string;
+  readyState = 'connecting';
+  remote?: FakeDataChannel;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+
+  constructor(label: string) {
+    this.label = label;
+  }
+
+  open() {
+    this.readyState = 'open';
+    this.onopen?.();
+  }
+
+  send(data: string) {
+    setTimeout(() => this.remote?.onmessage?.({ data }), 0);
+  }
+
+  close() {
+    this.readyState = 'closed';
+    this.onclose?.();
+  }
+}
+
+class FakePeerConnection {
+  static bySdp = new Map<string, FakePeerConnection>();
+  static count = 0;
+  // How ICE goes once the answer is in: connects, fails, or never settles
+  static ice: 'connect' | 'fail' | 'stall' = 'connect';
+
+  id = `pc${++FakePeerConnection.count}`;
+  connectionState = 'new';
+  localDescription: RTCSessionDescriptionInit | null = null;
+  remoteDescription: RTCSessionDescriptionInit | null = null;
+  receivedCandidates: RTCIceCandidateInit[] = [];
+  channels: FakeDataChannel[] = [];
+  ondatachannel: ((event: { channel: FakeDataChannel }) => void) | null = null;
+  onicecandidate: ((event: { candidate: unknown }) => void) | null = null;
+  onconnectionstatechange: (() => void) | null = null;
+
+  createDataChannel(label: string) {
+    const channel = new FakeDataChannel(label);
+    this.channels.push(channel);
+    return channel;
+  }
+
+  async createOffer() {
+    return { type: 'offer' as const, sdp: `offer-${this.id}` };
+  }
+
+  async createAnswer() {
+    return { type: 'answer' as const, sdp: `answer-${this.id}` };
+  }
+
+  async setLocalDescription(description: RTCSessionDescriptionInit) {
+    this.localDescription = description;
+    FakePeerConnection.bySdp.set(description.sdp!, this);
+
+    const candidate = { candidate: `candidate:${this.id}`, sdpMid: '0', sdpMLineIndex: 0 };
+    setTimeout(() => this.onicecandidate?.({ candidate: { ...candidate, toJSON: () => candidate } }), 0);
+  }
+
+  async setRemoteDescription(description: RTCSessionDescriptionInit) {
+    this.remoteDescription = description;
+    if (description.type !== 'answer') return;
+
+    const answerer = FakePeerConnection.bySdp.get(description.sdp!)!;
+    if (FakePeerConnection.ice === 'connect') {
+      this.connect(answerer);
+    } else if (FakePeerConnection.ice === 'fail') {
+      for (const pc of [this, answerer]) {
+        pc.connectionState = 'failed';
+        pc.onconnectionstatechange?.();
+      }
+    }
+  }
+
+  async addIceCandidate(candidate: RTCIceCandidateInit) {
+    if (!this.remoteDescription) {
+      throw new Error('InvalidStateError: remote description is not set');
+    }
+    this.receivedCandidates.push(candidate);
+  }
+
+  close() {
+    this.connectionState = 'closed';
+  }
+
+  private connect(answerer: FakePeerConnection) {
+    for (const channel of this.channels) {
+      const remote = new FakeDataChannel(channel.label);
+      channel.remote = remote;
+      remote.remote = channel;
+      answerer.ondatachannel?.({ channel: remote });
+      remote.open();
+      channel.open();
+    }
+
+    for (const pc of [this, answerer]) {
+      pc.connectionState = 'connected';
+      pc.onconnectionstatechange?.();
+    }
+  }
+}
+
+const waitFor = async (condition: () => boolean, timeout = 2000) => {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+const rawClient = async (port: number) => {
+  const socket = new NodeWebSocket(`ws://127.0.0.1:${port}`);
+  const messages: Record<string, unknown>[] = [];
+  socket.on('message', data => messages.push(JSON.parse(data.toString())));
+  await new Promise(resolve => socket.once('open', resolve));
+  return { socket, messages };
+};
+
+describe('signaling', () => {
+  let server: SignalingServer;
+  const engines: WebRTCCollaborationEngine[] = [];
+
+  const createEngine = (connectionTimeout = 2000) => {
+    const engine = new WebRTCCollaborationEngine({
+      signalingUrl: `ws://127.0.0.1:${server.port}`,
+      connectionTimeout,
+      WebSocketImpl: NodeWebSocket as unknown as typeof WebSocket
+    });
+    engines.push(engine);
+    return engine;
+  };
+
+  beforeEach(async () => {
+    FakePeerConnection.bySdp.clear();
+    FakePeerConnection.ice = 'connect';
+    vi.stubGlobal('RTCPeerConnection', FakePeerConnection);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    server = await createSignalingServer({ port: 0, host: '127.0.0.1' });
+  });
+
+  afterEach(async () => {
+    engines.splice(0).forEach(engine => engine.leaveRoom());
+    await server.close();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should connect two peers through offer/answer and ICE exchange', async () => {
+    const host = createEngine();
+    const guest = createEngine();
+    const received = vi.fn();
+    const connected = vi.fn();
+    host.onAction(received);
+    host.onPeerConnect(connected);
+
+    const roomId = await host.createRoom();
+    await guest.joinRoom(roomId);
+
+    await waitFor(() => host.connectedPeers.length === 1 && guest.connectedPeers.length === 1);
+    expect(connected).toHaveBeenCalledTimes(1);
+    expect(host.connectionType).toBe('webrtc');
+
+    // Each side applied the other's ICE candidate after its remote description
+    const [offerer, answerer] = Array.from(FakePeerConnection.bySdp.values());
+    await waitFor(() => offerer.receivedCandidates.length > 0 && answerer.receivedCandidates.length > 0);
+    expect(answerer.receivedCandidates[0].candidate).toBe(`candidate:${offerer.id}`);
+
+    const action: CollaborationAction = {
+      type: 'element_place',
+      peerId: guest.peerId,
+      timestamp: Date.now(),
+      data: { elementType: 'vela', position: { row: 1, col: 2 } }
+    };
+    guest.sendAction(action);
+
+    await waitFor(() => received.mock.calls.length > 0);
+    expect(received).toHaveBeenCalledWith(action);
+  });
+
+  it('should reach a peer through the relay when ICE to it fails', async () => {
+    const host = createEngine();
+    const guest = createEngine();
+    const hostConnects = vi.fn();
+    const guestConnects = vi.fn();
+    const received = vi.fn();
+    host.onPeerConnect(hostConnects);
+    guest.onPeerConnect(guestConnects);
+    host.onAction(received);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    FakePeerConnection.ice = 'fail';
+
+    const roomId = await host.createRoom();
+    await guest.joinRoom(roomId);
+
+    await waitFor(() => hostConnects.mock.calls.length === 1 && guestConnects.mock.calls.length === 1);
+    expect(hostConnects).toHaveBeenCalledWith(expect.objectContaining({ id: guest.peerId }));
+    expect(guestConnects).toHaveBeenCalledWith(expect.objectContaining({ id: host.peerId }));
+    expect(host.connectedPeers).toEqual([guest.peerId]);
+    expect(host.connectionType).toBe('websocket');
+
+    const action: CollaborationAction = {
+      type: 'peer_join', peerId: guest.peerId, timestamp: Date.now(), data: {}
+    };
+    guest.sendAction(action);
+    await waitFor(() => received.mock.calls.length > 0);
+    expect(received).toHaveBeenCalledWith(action);
+  });
+
+  it('should fall back to the relay on both ends when WebRTC never connects', async () => {
+    const host = createEngine(200);
+    const guest = createEngine(200);
+    const hostConnects = vi.fn();
+    const guestConnects = vi.fn();
+    host.onPeerConnect(hostConnects);
+    guest.onPeerConnect(guestConnects);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    FakePeerConnection.ice = 'stall';
+
+    const roomId = await host.createRoom();
+    await guest.joinRoom(roomId);
+    expect(hostConnects).not.toHaveBeenCalled();
+
+    await waitFor(() => hostConnects.mock.calls.length === 1 && guestConnects.mock.calls.length === 1);
+    expect(host.connectedPeers).toEqual([guest.peerId]);
+    expect(guest.connectedPeers).toEqual([host.peerId]);
+  });
+
+  it('should drop actions a peer sends under another peer id', async () => {
+    const host = createEngine();
+    const guest = createEngine();
+    const impostor = createEngine();
+    const received = vi.fn();
+    guest.onAction(received);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const roomId = await host.createRoom();
+    await guest.joinRoom(roomId);
+    await impostor.joinRoom(roomId);
+    await waitFor(() => guest.connectedPeers.length === 2 && impostor.connectedPeers.length === 2);
+    expect(guest.hostPeerId).toBe(host.peerId);
+
+    const lock = (peerId: string): CollaborationAction => ({
+      type: 'altar_lock', peerId, timestamp: Date.now(), data: { locked: true }
+    });
+
+    // Over the data channel, then through the relay
+    impostor.sendAction(lock(host.peerId));
+    const relay = await rawClient(server.port);
+    relay.socket.send(JSON.stringify({ type: 'join', roomId, peerId: 'relayed' }));
+    await waitFor(() => relay.messages.length === 1);
+    relay.socket.send(JSON.stringify({ type: 'relay', action: lock(host.peerId) }));
+    relay.socket.send(JSON.stringify({ type: 'relay', action: lock('relayed') }));
+    impostor.sendAction(lock(impostor.peerId));
+
+    await waitFor(() => received.mock.calls.length === 2);
+    expect(received.mock.calls.map(([action]) => action.peerId).sort())
+      .toEqual([impostor.peerId, 'relayed'].sort());
+
+    relay.socket.close();
+  });
+
+  it('should not make a peer host of a room someone else opened', async () => {
+    const host = createEngine();
+    const other = createEngine();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const roomId = await host.createRoom();
+
+    await expect(other.createRoom(roomId)).rejects.toThrow(`Room ${roomId} is already open`);
+    expect(other.currentRoomId).toBeUndefined();
+    await waitFor(() => server.rooms().get(roomId)?.length === 1);
+    expect(server.rooms().get(roomId)).toEqual([host.peerId]);
+  });
+
+  it('should tell remaining peers when someone leaves', async () => {
+    const host = createEngine();
+    const guest = createEngine();
+    const disconnected = vi.fn();
+    host.onPeerDisconnect(disconnected);
+
+    const roomId = await host.createRoom();
+    await guest.joinRoom(roomId);
+    await waitFor(() => host.connectedPeers.length === 1);
+
+    guest.leaveRoom();
+
+    await waitFor(() => disconnected.mock.calls.length > 0);
+    expect(server.rooms().get(roomId)).toHaveLength(1);
+  });
+
+  it('should reject joins when the signaling server is unreachable', async () => {
+    const port = server.port;
+    await server.close();
+    server = await createSignalingServer({ port: 0, host: '127.0.0.1' });
+
+    const engine = new WebRTCCollaborationEngine({
+      signalingUrl: `ws://127.0.0.1:${port}`,
+      connectionTimeout: 1000,
+      WebSocketImpl: NodeWebSocket as unknown as typeof WebSocket
+    });
+
+    await expect(engine.joinRoom('room-1')).rejects.toThrow(/Signaling server/);
+  });
+
+  describe('server', () => {
+    it('should announce presence and relay signals only within a room', async () => {
+      const a = await rawClient(server.port);
+      const b = await rawClient(server.port);
+
+      a.socket.send(JSON.stringify({ type: 'join', roomId: 'room-1', peerId: 'a' }));
+      await waitFor(() => a.messages.length === 1);
+      b.socket.send(JSON.stringify({ type: 'join', roomId: 'room-1', peerId: 'b' }));
+      await waitFor(() => b.messages.length === 1 && a.messages.length === 2);
+
+      expect(a.messages[0]).toEqual({
+        type: 'joined', roomId: 'room-1', peerId: 'a', hostId: 'a', peers: [], seq: 0, resumeToken: expect.any(String)
+      });
+      expect(b.messages[0]).toMatchObject({ type: 'joined', hostId: 'a', peers: ['a'] });
+      expect(a.messages[1]).toEqual({ type: 'peer-joined', peerId: 'b' });
+
+      const payload = { kind: 'description', description: { type: 'offer', sdp: 'v=0' } };
+      b.socket.send(JSON.stringify({ type: 'signal', to: 'a', payload }));
+      b.socket.send(JSON.stringify({ type: 'signal', to: 'c', payload }));
+      await waitFor(() => a.messages.length === 3 && b.messages.length === 2);
+
+      expect(a.messages[2]).toEqual({ type: 'signal', from: 'b', payload });
+      expect(b.messages[1]).toMatchObject({ type: 'error', code: 'unknown-peer' });
+
+      b.socket.close();
+      await waitFor(() => a.messages.length === 4);
+      expect(a.messages[3]).toEqual({ type: 'peer-left', peerId: 'b' });
+
+      a.socket.close();
+    });
+
+    it('should number relayed actions and replay them to resuming peers', async () => {
+      const a = await rawClient(server.port);
+      const b = await rawClient(server.port);
+      const c = await rawClient(server.port);
+      for (const [client, peerId] of [[a, 'a'], [b, 'b'], [c, 'c']] as const) {
+        client.socket.send(JSON.stringify({ type: 'join', roomId: 'room-1', peerId }));
+        await waitFor(() => client.messages.length > 0);
+      }
+
+      a.socket.send(JSON.stringify({ type: 'relay', action: { n: 1 }, except: ['c'] }));
+      await waitFor(() => b.messages.some(m => m.type === 'relay'));
+
+      expect(b.messages.find(m => m.type === 'relay')).toEqual({ type: 'relay', seq: 1, from: 'a', action: { n: 1 } });
+      expect(c.messages.some(m => m.type === 'relay')).toBe(false);
+
+      // b reconnects on a new socket before the server noticed the old one died
+      const resumed = await rawClient(server.port);
+      a.socket.send(JSON.stringify({ type: 'relay', action: { n: 2 } }));
+      await waitFor(() => c.messages.some(m => m.type === 'relay'));
+      const { resumeToken } = b.messages[0];
+      resumed.socket.send(JSON.stringify({ type: 'join', roomId: 'room-1', peerId: 'b', resumeFrom: 1, resumeToken }));
+      await waitFor(() => resumed.messages.length === 2);
+
+      expect(resumed.messages[0]).toMatchObject({ type: 'joined', peers: ['a', 'c'], seq: 2, resumeToken });
+      expect(resumed.messages[1]).toEqual({ type: 'relay', seq: 2, from: 'a', action: { n: 2 } });
+      expect(a.messages.some(m => m.type === 'peer-left')).toBe(false);
+
+      [a, b, c, resumed].forEach(client => client.socket.close());
+    });
+
+    it('should report resumes it cannot replay in full', async () => {
+      const short = await createSignalingServer({ port: 0, host: '127.0.0.1', relayLogSize: 1 });
+      const a = await rawClient(short.port);
+      const b = await rawClient(short.port);
+      for (const [client, peerId] of [[a, 'a'], [b, 'b']] as const) {
+        client.socket.send(JSON.stringify({ type: 'join', roomId: 'room-1', peerId }));
+        await waitFor(() => client.messages.length > 0);
+      }
+      [1, 2, 3].forEach(n => a.socket.send(JSON.stringify({ type: 'relay', action: { n } })));
+      await waitFor(() => b.messages.filter(m => m.type === 'relay').length === 3);
+
+      // The log only reaches back to seq 3
+      const { resumeToken } = b.messages[0];
+      const truncated = await rawClient(short.port);
+      truncated.socket.send(JSON.stringify({ type: 'join', roomId: 'room-1', peerId: 'b', resumeFrom: 1, resumeToken }));
+      // A room that was emptied and opened again
+      const reset = await rawClient(short.port);
+      reset.socket.send(JSON.stringify({ type: 'join', roomId: 'room-2', peerId: 'c', resumeFrom: 5, resumeToken }));
+      await waitFor(() => truncated.messages.length === 2 && reset.messages.length === 1);
+
+      expect(truncated.messages[0]).toMatchObject({ type: 'joined', seq: 3, replayGap: true });
+      expect(truncated.messages[1]).toMatchObject({ type: 'relay', seq: 3 });
+      expect(reset.messages[0]).toMatchObject({ type: 'joined', seq: 0, replayGap: true });
+
+      [a, b, truncated, reset].forEach(client => client.socket.close());
+      await short.close();
+    });
+
+    it('should not let a resume without the peer secret take over its socket', async () => {
+      const a = await rawClient(server.port);
+      const b = await rawClient(server.port);
+      a.socket.send(JSON.stringify({ type: 'join', roomId: 'room-1', peerId: 'a' }));
+      await waitFor(() => a.messages.length === 1);
+
+      b.socket.send(JSON.stringify({ type: 'join', roomId: 'room-1', peerId: 'a', resumeFrom: 0 }));
+      b.socket.send(JSON.stringify({ type: 'join', roomId: 'room-1', peerId: 'a', resumeFrom: 0, resumeToken: 'guessed' }));
+      await waitFor(() => b.messages.length === 2);
+
+      expect(b.messages.map(m => m.code)).toEqual(['peer-id-taken', 'peer-id-taken']);
+      expect(a.socket.readyState).toBe(NodeWebSocket.OPEN);
+      expect(server.rooms().get('room-1')).toEqual(['a']);
+
+      a.socket.close();
+      b.socket.close();
+    });
+
+    it('should reject malformed messages, duplicate ids and full rooms', async () => {
+      const small = await createSignalingServer({ port: 0, host: '127.0.0.1', maxPeersPerRoom: 1 });
+      const a = await rawClient(small.port);
+      const b = await rawClient(small.port);
+
+      a.socket.send('not json');
+      a.socket.send(JSON.stringify({ type: 'signal', to: 'b', payload: { kind: 'ice', candidate: { candidate: '' } } }));
+      a.socket.send(JSON.stringify({ type: 'join', roomId: 'room-1', peerId: 'a' }));
+      await waitFor(() => a.messages.length === 3);
+      b.socket.send(JSON.stringify({ type: 'join', roomId: 'room-1', peerId: 'a' }));
+      b.socket.send(JSON.stringify({ type: 'join', roomId: 'room-1', peerId: 'b' }));
+      await waitFor(() => b.messages.length === 2);
+
+      expect(a.messages.map(m => m.code ?? m.type)).toEqual(['invalid-message', 'not-in-room', 'joined']);
+      expect(b.messages.map(m => m.code)).toEqual(['peer-id-taken', 'room-full']);
+
+      a.socket.close();
+      b.socket.close();
+      await small.close();
+    });
+  });
+
+  describe('client', () => {
+    it('should catch up from the start of a room reset while it was away', async () => {
+      const { port } = server;
+      const client = new SignalingClient({
+        url: `ws://127.0.0.1:${port}`,
+        timeout: 2000,
+        maxRetries: 5,
+        retryDelay: 50,
+        WebSocketImpl: NodeWebSocket as unknown as typeof WebSocket
+      });
+      const relayed = vi.fn();
+      const gaps = vi.fn();
+      client.onRelay(relayed);
+      client.onReplayGap(gaps);
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const a = await rawClient(port);
+      a.socket.send(JSON.stringify({ type: 'join', roomId: 'room-1', peerId: 'a' }));
+      await waitFor(() => a.messages.length === 1);
+      await client.join('room-1', 'b');
+      [1, 2].forEach(n => a.socket.send(JSON.stringify({ type: 'relay', action: { n } })));
+      await waitFor(() => relayed.mock.calls.length === 2);
+
+      // The server restarts and forgets the room, which starts again at seq 0
+      await server.close();
+      server = await createSignalingServer({ port, host: '127.0.0.1' });
+      await waitFor(() => gaps.mock.calls.length === 1);
+      const c = await rawClient(port);
+      c.socket.send(JSON.stringify({ type: 'join', roomId: 'room-1', peerId: 'c' }));
+      await waitFor(() => c.messages.length === 1);
+      c.socket.send(JSON.stringify({ type: 'relay', action: { n: 3 } }));
+      await waitFor(() => relayed.mock.calls.length === 3);
+
+      // The next resume asks for what the new room relayed after seq 1
+      await server.close();
+      const joins: Record<string, unknown>[] = [];
+      const wss = new WebSocketServer({ port, host: '127.0.0.1' });
+      wss.on('connection', socket => socket.on('message', data => joins.push(JSON.parse(data.toString()))));
+      await waitFor(() => joins.length === 1);
+
+      expect(joins[0]).toMatchObject({ type: 'join', roomId: 'room-1', peerId: 'b', resumeFrom: 1 });
+
+      client.close();
+      await new Promise(resolve => wss.close(resolve));
+      server = await createSignalingServer({ port: 0, host: '127.0.0.1' });
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SoftLocks } from '../soft-locks';
+import type { CollaborationAction } from '../../../types';
+
+describe('SoftLocks', () => {
+  let sent: CollaborationAction[];
+
+  const createLocks = (peerId: string) => new SoftLocks({
+    peerId,
+    ttl: 1000,
+    send: action => sent.push({ ...action, peerId, timestamp: Date.now() })
+  });
+
+  const deliver = (to: SoftLocks) => {
+    sent.splice(0).forEach(action => to.handleAction(action));
+  };
+
+  beforeEach(() => {
+    sent = [];
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should share the target of a drag until it is released', () => {
+    const ana = createLocks('ana');
+    const luis = createLocks('luis');
+
+    ana.acquire({ cell: { row: 2, col: 3 }, elementId: 'vela-1' });
+    deliver(luis);
+    expect(luis.getLocks()).toEqual([
+      expect.objectContaining({ peerId: 'ana', cell: { row: 2, col: 3 }, elementId: 'vela-1' })
+    ]);
+
+    ana.release();
+    deliver(luis);
+    expect(luis.getLocks()).toEqual([]);
+  });
+
+  it('should only announce a new target once and keep it fresh while held', () => {
+    const ana = createLocks('ana');
+    const luis = createLocks('luis');
+
+    ana.acquire({ cell: { row: 0, col: 0 } });
+    ana.acquire({ cell: { row: 0, col: 0 } });
+    expect(sent).toHaveLength(1);
+
+    deliver(luis);
+    vi.advanceTimersByTime(1500);
+    deliver(luis);
+    expect(luis.getLocks()).toHaveLength(1);
+
+    ana.acquire({ cell: { row: 0, col: 1 } });
+    expect(sent.at(-1)).toMatchObject({ type: 'drag_lock', data: { cell: { row: 0, col: 1 } } });
+  });
+
+  it('should expire locks that stop being refreshed', () => {
+    const luis = createLocks('luis');
+    const onChange = vi.fn();
+    luis.onChange(onChange);
+
+    luis.handleAction({ type: 'drag_lock', peerId: 'ana', timestamp: Date.now(), data: { cell: { row: 1, col: 1 }, ttl: 1000 } });
+    expect(luis.getLocks()).toHaveLength(1);
+
+    vi.advanceTimersByTime(1000);
+    expect(luis.getLocks()).toEqual([]);
+    expect(onChange).toHaveBeenLastCalledWith([]);
+  });
+
+  it('should drop the locks of peers that disconnect', () => {
+    const luis = createLocks('luis');
+    luis.handleAction({ type: 'drag_lock', peerId: 'ana', timestamp: Date.now(), data: { elementId: 'flor-1' } });
+
+    luis.peerDisconnected('ana');
+    expect(luis.getLocks()).toEqual([]);
+  });
+
+  it('should reject malformed locks and cap the requested ttl', () => {
+    const luis = createLocks('luis');
+    const lock = (data: unknown): CollaborationAction => ({ type: 'drag_lock', peerId: 'ana', timestamp: Date.now(), data });
+
+    expect(luis.handleAction(lock({}))).toBe(false);
+    expect(luis.handleAction(lock({ cell: { row: 'x', col: 1 } }))).toBe(false);
+    expect(luis.handleAction(lock({ cell: { row: 0, col: 0 }, ttl: 3_600_000 }))).toBe(true);
+
+    vi.advanceTimersByTime(30000);
+    expect(luis.getLocks()).toEqual([]);
+  });
+});
@@ -1,4 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WebSocket as NodeWebSocket } from 'ws';
+import { createSignalingServer, type SignalingServer } from '../../../../server/signaling-server';
 import { WebRTCCollaborationEngine } from '../webrtc-engine';
 import type { CollaborationAction } from '../../../types';
 
@@ -16,20 +18,52 @@ const mockRTCPeerConnection = vi.fn(() => ({
   onicecandidate: null,
   onconnectionstatechange: null,
   connectionState: 'connected',
+  remoteDescription: null,
   createOffer: vi.fn(() => Promise.resolve({ type: 'offer', sdp: 'mock-sdp' })),
+  createAnswer: vi.fn(() => Promise.resolve({ type: 'answer', sdp: 'mock-answer-sdp' })),
   setLocalDescription: vi.fn(() => Promise.resolve()),
+  setRemoteDescription: vi.fn(() => Promise.resolve()),
+  addIceCandidate: vi.fn(() => Promise.resolve()),
   close: vi.fn()
 }));
 
-const mockWebSocket = vi.fn(() => ({
-  readyState: WebSocket.OPEN,
-  send: vi.fn(),
-  close: vi.fn(),
-  onopen: null,
-  onmessage: null,
-  onclose: null,
-  onerror: null
-}));
+// Peers the mock signaling server reports as already being in the room
+let roomPeers: string[] = [];
+// First peer to join each room, which the mock server reports as its host
+const roomHosts = new Map<string, string>();
+
+// Mock signaling socket: opens right away and answers every join
+const mockWebSocket = vi.fn(() => {
+  const socket = {
+    readyState: 1,
+    send: vi.fn((data: string) => {
+      const message = JSON.parse(data);
+      if (message.type === 'join') {
+        if (!roomHosts.has(message.roomId)) {
+          roomHosts.set(message.roomId, message.peerId);
+        }
+        setTimeout(() => socket.onmessage?.({
+          data: JSON.stringify({
+            type: 'joined',
+            roomId: message.roomId,
+            peerId: message.peerId,
+            hostId: roomHosts.get(message.roomId),
+            peers: roomPeers,
+            seq: 0,
+            resumeToken: 'token'
+          })
+        }), 0);
+      }
+    }),
+    close: vi.fn(),
+    onopen: null as (() => void) | null,
+    onmessage: null as ((event: { data: string }) => void) | null,
+    onclose: null,
+    onerror: null
+  };
+  setTimeout(() => socket.onopen?.(), 0);
+  return socket;
+});
 
 // Mock crypto.getRandomValues
 Object.defineProperty(global, 'crypto', {
@@ -54,6 +88,8 @@ describe('WebRTCCollaborationEngine', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    roomPeers = ['host-peer'];
+    roomHosts.clear();
     engine = new WebRTCCollaborationEngine();
     actionCallback = vi.fn();
     peerConnectCallback = vi.fn();
@@ -119,7 +155,7 @@ describe('WebRTCCollaborationEngine', () => {
 
   describe('WebRTC Connection', () => {
     it('should establish peer connection', async () => {
-      await engine.createRoom();
+      await engine.joinRoom('test-room');
       
       expect(mockRTCPeerConnection).toHaveBeenCalledWith({
         iceServers: expect.arrayContaining([
@@ -129,8 +165,8 @@ describe('WebRTCCollaborationEngine', () => {
     });
 
     it('should create data channel for communication', async () => {
-      const mockConnection = mockRTCPeerConnection();
-      await engine.createRoom();
+      await engine.joinRoom('test-room');
+      const mockConnection = mockRTCPeerConnection.mock.results[0].value;
       
       expect(mockConnection.createDataChannel).toHaveBeenCalledWith(
         'collaboration',
@@ -138,12 +174,47 @@ describe('WebRTCCollaborationEngine', () => {
       );
     });
 
+    it('should send offers to peers already in the room', async () => {
+      await engine.joinRoom('test-room');
+      const socket = mockWebSocket.mock.results[0].value;
+
+      expect(socket.send).toHaveBeenCalledWith(JSON.stringify({
+        type: 'signal',
+        to: 'host-peer',
+        payload: { kind: 'description', description: { type: 'offer', sdp: 'mock-sdp' } }
+      }));
+    });
+
+    it('should answer offers relayed by the signaling server', async () => {
+      roomPeers = [];
+      await engine.createRoom();
+      const socket = mockWebSocket.mock.results[0].value;
+
+      socket.onmessage({
+        data: JSON.stringify({
+          type: 'signal',
+          from: 'guest-peer',
+          payload: { kind: 'description', description: { type: 'offer', sdp: 'guest-sdp' } }
+        })
+      });
+
+      await vi.waitFor(() => {
+        expect(socket.send).toHaveBeenCalledWith(JSON.stringify({
+          type: 'signal',
+          to: 'guest-peer',
+          payload: { kind: 'description', description: { type: 'answer', sdp: 'mock-answer-sdp' } }
+        }));
+      });
+      const mockConnection = mockRTCPeerConnection.mock.results[0].value;
+      expect(mockConnection.setRemoteDescription).toHaveBeenCalledWith({ type: 'offer', sdp: 'guest-sdp' });
+      expect(mockConnection.createDataChannel).not.toHaveBeenCalled();
+    });
+
     it('should handle connection state changes', async () => {
-      const mockConnection = mockRTCPeerConnection();
+      await engine.joinRoom('test-room');
+      const mockConnection = mockRTCPeerConnection.mock.results[0].value;
       mockConnection.connectionState = 'connected';
       
-      await engine.createRoom();
-      
       // Simulate connection state change
       if (mockConnection.onconnectionstatechange) {
         mockConnection.onconnectionstatechange();
@@ -153,11 +224,10 @@ describe('WebRTCCollaborationEngine', () => {
     });
 
     it('should handle peer disconnection', async () => {
-      const mockConnection = mockRTCPeerConnection();
+      await engine.joinRoom('test-room');
+      const mockConnection = mockRTCPeerConnection.mock.results[0].value;
       mockConnection.connectionState = 'disconnected';
       
-      await engine.createRoom();
-      
       // Simulate disconnection
       if (mockConnection.onconnectionstatechange) {
         mockConnection.onconnectionstatechange();
@@ -167,32 +237,125 @@ describe('WebRTCCollaborationEngine', () => {
     });
   });
 
-  describe('WebSocket Fallback', () => {
-    it('should fallback to WebSocket when WebRTC fails', async () => {
-      // Mock WebRTC failure
-      mockRTCPeerConnection.mockImplementation(() => {
+  describe('WebSocket Relay', () => {
+    let relay: SignalingServer;
+    let engines: WebRTCCollaborationEngine[];
+
+    const action = (peerId: string, row: number): CollaborationAction => ({
+      type: 'element_place',
+      peerId,
+      timestamp: Date.now(),
+      data: { elementType: 'vela', position: { row, col: 0 } }
+    });
+
+    // Engines talking to the in-process relay over real sockets
+    const relayEngine = () => {
+      const relayed = new WebRTCCollaborationEngine({
+        signalingUrl: `ws://127.0.0.1:${relay.port}`,
+        connectionTimeout: 2000,
+        WebSocketImpl: NodeWebSocket as unknown as typeof WebSocket
+      });
+      engines.push(relayed);
+      return relayed;
+    };
+
+    const joinWithoutWebRTC = async (guest: WebRTCCollaborationEngine, roomId: string) => {
+      mockRTCPeerConnection.mockImplementationOnce(() => {
         throw new Error('WebRTC not supported');
       });
+      await guest.joinRoom(roomId);
+    };
 
-      await engine.joinRoom('test-room');
+    beforeEach(async () => {
+      engines = [];
+      relay = await createSignalingServer({ port: 0, host: '127.0.0.1' });
+    });
+
+    afterEach(async () => {
+      engines.forEach(relayed => relayed.leaveRoom());
+      await relay.close();
+    });
+
+    it('should fallback to WebSocket when WebRTC fails', async () => {
+      const host = relayEngine();
+      const guest = relayEngine();
+      const connected = vi.fn();
+      guest.onPeerConnect(connected);
+
+      const roomId = await host.createRoom();
+      await joinWithoutWebRTC(guest, roomId);
       
-      expect(engine.connectionType).toBe('websocket');
+      expect(guest.connectionType).toBe('websocket');
+      expect(guest.isConnected).toBe(true);
+      expect(guest.connectedPeers).toEqual([host['localPeerId']]);
+      expect(connected).toHaveBeenCalledWith(expect.objectContaining({ id: host['localPeerId'] }));
+      await vi.waitFor(() => expect(host.connectionType).toBe('websocket'));
     });
 
     it('should send messages via WebSocket fallback', async () => {
-      // Force WebSocket fallback
-      await engine['initializeWebSocketFallback']();
-      
-      const action: CollaborationAction = {
-        type: 'element_place',
-        peerId: 'test-peer',
-        timestamp: Date.now(),
-        data: { elementType: 'vela', position: { row: 0, col: 0 } }
-      };
+      const host = relayEngine();
+      const guest = relayEngine();
+      const hostReceived = vi.fn();
+      const guestReceived = vi.fn();
+      host.onAction(hostReceived);
+      guest.onAction(guestReceived);
+
+      const roomId = await host.createRoom();
+      await joinWithoutWebRTC(guest, roomId);
+      await vi.waitFor(() => expect(host.connectionType).toBe('websocket'));
+
+      guest.sendAction(action(guest.peerId, 1));
+      host.sendAction(action(host.peerId, 2));
+
+      await vi.waitFor(() => {
+        expect(hostReceived).toHaveBeenCalledWith(expect.objectContaining({ peerId: guest.peerId }));
+        expect(guestReceived).toHaveBeenCalledWith(expect.objectContaining({ peerId: host.peerId }));
+      });
+      // Nobody gets their own actions back
+      expect(hostReceived).toHaveBeenCalledTimes(1);
+      expect(guestReceived).toHaveBeenCalledTimes(1);
+    });
 
-      engine.sendAction(action);
-      
-      expect(engine.connectionType).toBe('websocket');
+    it('should resume relayed actions missed while reconnecting', async () => {
+      const host = relayEngine();
+      const guest = relayEngine();
+      const guestReceived = vi.fn();
+      guest.onAction(guestReceived);
+
+      const roomId = await host.createRoom();
+      await joinWithoutWebRTC(guest, roomId);
+      await vi.waitFor(() => expect(host.connectionType).toBe('websocket'));
+
+      // Drop the guest's socket and keep working while it is gone
+      (guest['signaling']['socket'] as unknown as NodeWebSocket).terminate();
+      await vi.waitFor(() => expect(guest.connectionType).toBe('offline'));
+      host.sendAction(action(host.peerId, 1));
+      host.sendAction(action(host.peerId, 2));
+
+      await vi.waitFor(() => expect(guestReceived).toHaveBeenCalledTimes(2), { timeout: 3000 });
+      expect(guestReceived.mock.calls.map(([received]) => received.data.position.row)).toEqual([1, 2]);
+      expect(guest.connectionType).toBe('websocket');
+      expect(relay.rooms().get(roomId)).toHaveLength(2);
+    });
+
+    it('should not relay actions to peers reachable over WebRTC', async () => {
+      const host = relayEngine();
+      const guest = relayEngine();
+      const hostReceived = vi.fn();
+      host.onAction(hostReceived);
+
+      const roomId = await host.createRoom();
+      await joinWithoutWebRTC(guest, roomId);
+      await vi.waitFor(() => expect(host.connectionType).toBe('websocket'));
+
+      // Pretend the host already has a data channel to the guest
+      const channel = { readyState: 'open', send: vi.fn(), close: vi.fn() };
+      host['dataChannels'].set(guest['localPeerId'], channel as unknown as RTCDataChannel);
+      guest.sendAction(action(guest.peerId, 1));
+      host.sendAction(action(host.peerId, 1));
+
+      await vi.waitFor(() => expect(hostReceived).toHaveBeenCalledTimes(1));
+      expect(channel.send).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -242,6 +405,25 @@ describe('WebRTCCollaborationEngine', () => {
       expect(actionCallback).toHaveBeenCalledWith(action);
     });
 
+    it('should drop data channel messages sent under another peer id', async () => {
+      const mockDataChannel: Partial<RTCDataChannel> = {};
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      engine['setupDataChannel'](mockDataChannel as RTCDataChannel, 'guest-peer');
+
+      // A guest locking the altar in the host's name
+      const action: CollaborationAction = {
+        type: 'altar_lock',
+        peerId: 'host-peer',
+        timestamp: Date.now(),
+        data: { locked: true }
+      };
+
+      mockDataChannel.onmessage?.call(mockDataChannel as RTCDataChannel, { data: JSON.stringify(action) } as MessageEvent);
+
+      expect(actionCallback).not.toHaveBeenCalled();
+    });
+
     it('should handle malformed messages gracefully', async () => {
       const mockDataChannel = {
         onopen: null,
@@ -0,0 +1,482 @@
+import type { CollaborationAction, CustomElement, GridDimensions, GridPosition } from '../../types';
+import { getPositionKey } from '../../utils/grid-utils';
+
+/**
+ * Shared altar modeled as a state-based CRDT: a map from element id to a
+ * replicated entry. Every field of an entry merges with a commutative,
+ * associative and idempotent rule, so replicas that have seen the same set
+ * of operations hold the same state no matter the delivery order:
+ *
+ * - element type: taken from the place operation with the lowest stamp
+ * - position: last-writer-wins register ordered by Lamport stamp
+ * - removal: a tombstone stamped with the latest place its author had seen.
+ *   A place the removal did not see, concurrent or later, brings the element
+ *   back (add wins), so undoing a removal reaches every peer.
+ *
+ * Two elements may end up claiming the same cell. That is settled when the
+ * state is resolved against a grid, which is a pure function of the state:
+ * the earliest claim keeps the cell and later ones move to the nearest free
+ * cell. Peers with the same grid dimensions therefore see the same altar.
+ */
+
+/**
+ * Lamport timestamp; the replica id breaks ties so stamps are totally ordered
+ */
+export interface LamportStamp {
+  counter: number;
+  replicaId: string;
+}
+
+export type AltarOperation =
+  | {
+      kind: 'place';
+      elementId: string;
+      elementType: string;
+      customElement?: CustomElement;
+      position: GridPosition;
+      stamp: LamportStamp;
+    }
+  | { kind: 'move'; elementId: string; position: GridPosition; stamp: LamportStamp }
+  | {
+      kind: 'remove';
+      elementId: string;
+      // Latest place of the element the remover had seen, if any
+      observed?: LamportStamp;
+      stamp: LamportStamp;
+    };
+
+export interface AltarEntry {
+  elementType?: string;
+  customElement?: CustomElement;
+  placeStamp?: LamportStamp;
+  // Latest place seen, which decides whether the element is live
+  addStamp?: LamportStamp;
+  position?: GridPosition;
+  positionStamp?: LamportStamp;
+  // Latest place any removal had seen; places up to it are removed
+  removedStamp?: LamportStamp;
+}
+
+/**
+ * Serializable replica state, used to merge whole documents
+ */
+export interface AltarDocumentState {
+  entries: Record<string, AltarEntry>;
+  // Highest Lamport counter seen from each replica
+  versions: Record<string, number>;
+}
+
+export interface ResolvedAltarElement {
+  elementId: string;
+  elementType: string;
+  customElement?: CustomElement;
+  position: GridPosition;
+  // Where the element was put; differs from `position` when it was displaced
+  requestedPosition: GridPosition;
+}
+
+export interface ResolvedAltar {
+  elements: ResolvedAltarElement[];
+  // Live elements that found no free cell in the grid
+  unplaced: string[];
+}
+
+export interface AltarViewDiff {
+  added: ResolvedAltarElement[];
+  removed: ResolvedAltarElement[];
+  moved: ResolvedAltarElement[];
+}
+
+/**
+ * Total order on stamps: counter first, then replica id
+ */
+export function compareStamps(a: LamportStamp, b: LamportStamp): number {
+  if (a.counter !== b.counter) return a.counter - b.counter;
+  if (a.replicaId === b.replicaId) return 0;
+  return a.replicaId < b.replicaId ? -1 : 1;
+}
+
+/**
+ * Generate unique ID for document replicas
+ */
+export function generateReplicaId(): string {
+  return `replica-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export class AltarDocument {
+  readonly replicaId: string;
+  private clock = 0;
+  private entries = new Map<string, AltarEntry>();
+  private versions = new Map<string, number>();
+
+  constructor(replicaId: string = generateReplicaId(), state?: AltarDocumentState) {
+    this.replicaId = replicaId;
+    if (state) {
+      this.merge(state);
+    }
+  }
+
+  /**
+   * Place a new element locally; returns the operation to broadcast
+   */
+  place(
+    elementId: string,
+    elementType: string,
+    position: GridPosition,
+    customElement?: CustomElement
+  ): AltarOperation {
+    return this.local({
+      kind: 'place',
+      elementId,
+      elementType,
+      ...(customElement ? { customElement } : {}),
+      position,
+      stamp: this.tick()
+    });
+  }
+
+  /**
+   * Move an element locally; returns the operation to broadcast
+   */
+  move(elementId: string, position: GridPosition): AltarOperation {
+    return this.local({ kind: 'move', elementId, position, stamp: this.tick() });
+  }
+
+  /**
+   * Remove an element locally; returns the operation to broadcast
+   */
+  remove(elementId: string): AltarOperation {
+    const observed = this.entries.get(elementId)?.addStamp;
+    return this.local({ kind: 'remove', elementId, ...(observed ? { observed } : {}), stamp: this.tick() });
+  }
+
+  /**
+   * Apply a local or remote operation. Returns whether the state changed;
+   * duplicates and operations superseded by newer ones change nothing.
+   */
+  apply(operation: AltarOperation): boolean {
+    this.observe(operation.stamp);
+
+    const entry = this.entries.get(operation.elementId) ?? {};
+    this.entries.set(operation.elementId, entry);
+
+    switch (operation.kind) {
+      case 'place': {
+        let changed = false;
+        if (!entry.placeStamp || compareStamps(operation.stamp, entry.placeStamp) < 0) {
+          entry.elementType = operation.elementType;
+          entry.customElement = operation.customElement;
+          entry.placeStamp = operation.stamp;
+          changed = true;
+        }
+        if (!entry.addStamp || compareStamps(operation.stamp, entry.addStamp) > 0) {
+          entry.addStamp = operation.stamp;
+          changed = true;
+        }
+        return this.writePosition(entry, operation.position, operation.stamp) || changed;
+      }
+
+      case 'move':
+        return this.writePosition(entry, operation.position, operation.stamp);
+
+      case 'remove':
+        return operation.observed ? this.writeRemoval(entry, operation.observed) : false;
+    }
+  }
+
+  /**
+   * Merge another replica's full state into this one
+   */
+  merge(state: AltarDocumentState): boolean {
+    let changed = false;
+
+    Object.entries(state.versions).forEach(([replicaId, counter]) => {
+      this.observe({ counter, replicaId });
+    });
+
+    Object.entries(state.entries).forEach(([elementId, remote]) => {
+      const entry = this.entries.get(elementId) ?? {};
+      this.entries.set(elementId, entry);
+
+      if (remote.placeStamp && (!entry.placeStamp || compareStamps(remote.placeStamp, entry.placeStamp) < 0)) {
+        entry.elementType = remote.elementType;
+        entry.customElement = remote.customElement;
+        entry.placeStamp = remote.placeStamp;
+        changed = true;
+      }
+      if (remote.addStamp && (!entry.addStamp || compareStamps(remote.addStamp, entry.addStamp) > 0)) {
+        entry.addStamp = remote.addStamp;
+        changed = true;
+      }
+      if (remote.position && remote.positionStamp) {
+        changed = this.writePosition(entry, remote.position, remote.positionStamp) || changed;
+      }
+      if (remote.removedStamp) {
+        changed = this.writeRemoval(entry, remote.removedStamp) || changed;
+      }
+    });
+
+    return changed;
+  }
+
+  /**
+   * Snapshot of the replica state, safe to serialize and send
+   */
+  getState(): AltarDocumentState {
+    const entries: Record<string, AltarEntry> = {};
+    Array.from(this.entries.keys()).sort().forEach(elementId => {
+      entries[elementId] = { ...this.entries.get(elementId)! };
+    });
+
+    return {
+      entries,
+      versions: Object.fromEntries(Array.from(this.versions).sort(([a], [b]) => (a < b ? -1 : 1)))
+    };
+  }
+
+  /**
+   * Highest Lamport counter seen from each replica
+   */
+  getVersions(): Record<string, number> {
+    return Object.fromEntries(this.versions);
+  }
+
+  /**
+   * Fingerprint of the document content. Replicas that applied the same
+   * operations have the same checksum, whatever order they applied them in.
+   */
+  checksum(): string {
+    let hash = 0x811c9dc5;
+    for (const elementId of Array.from(this.entries.keys()).sort()) {
+      const entry = this.entries.get(elementId)!;
+      const line = [
+        elementId,
+        stampKey(entry.removedStamp),
+        entry.elementType ?? '',
+        entry.customElement?.id ?? '',
+        stampKey(entry.placeStamp),
+        stampKey(entry.addStamp),
+        entry.position ? `${entry.position.row},${entry.position.col}` : '',
+        stampKey(entry.positionStamp)
+      ].join('|');
+
+      // FNV-1a over the canonical form of each entry
+      for (let i = 0; i < line.length; i++) {
+        hash = Math.imul(hash ^ line.charCodeAt(i), 0x01000193) >>> 0;
+      }
+      hash = Math.imul(hash ^ 0x0a, 0x01000193) >>> 0;
+    }
+    return hash.toString(16).padStart(8, '0');
+  }
+
+  /**
+   * Lay the live elements out on a grid, settling cell conflicts
+   */
+  resolve(grid: GridDimensions): ResolvedAltar {
+    const live = Array.from(this.entries)
+      .filter(([, entry]) => !isRemoved(entry) && entry.elementType && entry.position && entry.positionStamp)
+      .sort(([, a], [, b]) => compareStamps(a.positionStamp!, b.positionStamp!));
+
+    const occupied = new Set<string>();
+    const resolved: ResolvedAltar = { elements: [], unplaced: [] };
+
+    for (const [elementId, entry] of live) {
+      const position = findFreeCell(entry.position!, grid, occupied);
+      if (!position) {
+        resolved.unplaced.push(elementId);
+        continue;
+      }
+
+      occupied.add(getPositionKey(position));
+      resolved.elements.push({
+        elementId,
+        elementType: entry.elementType!,
+        ...(entry.customElement ? { customElement: entry.customElement } : {}),
+        position,
+        requestedPosition: entry.position!
+      });
+    }
+
+    return resolved;
+  }
+
+  get lamportClock(): number {
+    return this.clock;
+  }
+
+  /**
+   * Move the clock forward without recording anything, so a replica id that
+   * starts over with an empty document never reuses its earlier stamps
+   */
+  advanceClock(counter: number): void {
+    this.clock = Math.max(this.clock, counter);
+  }
+
+  private local(operation: AltarOperation): AltarOperation {
+    this.apply(operation);
+    return operation;
+  }
+
+  private tick(): LamportStamp {
+    this.clock++;
+    return { counter: this.clock, replicaId: this.replicaId };
+  }
+
+  private observe(stamp: LamportStamp): void {
+    this.clock = Math.max(this.clock, stamp.counter);
+    this.versions.set(stamp.replicaId, Math.max(this.versions.get(stamp.replicaId) ?? 0, stamp.counter));
+  }
+
+  private writePosition(entry: AltarEntry, position: GridPosition, stamp: LamportStamp): boolean {
+    if (entry.positionStamp && compareStamps(stamp, entry.positionStamp) <= 0) {
+      return false;
+    }
+    entry.position = { row: position.row, col: position.col };
+    entry.positionStamp = stamp;
+    return true;
+  }
+
+  private writeRemoval(entry: AltarEntry, observed: LamportStamp): boolean {
+    if (entry.removedStamp && compareStamps(observed, entry.removedStamp) <= 0) {
+      return false;
+    }
+    entry.removedStamp = observed;
+    return true;
+  }
+}
+
+/**
+ * Whether a removal saw the latest place of the element
+ */
+function isRemoved(entry: AltarEntry): boolean {
+  return !!entry.removedStamp && (!entry.addStamp || compareStamps(entry.removedStamp, entry.addStamp) >= 0);
+}
+
+function stampKey(stamp?: LamportStamp): string {
+  return stamp ? `${stamp.counter}@${stamp.replicaId}` : '';
+}
+
+/**
+ * The requested cell if free, otherwise the closest free cell searching
+ * outwards ring by ring in row-major order
+ */
+function findFreeCell(
+  requested: GridPosition,
+  grid: GridDimensions,
+  occupied: Set<string>
+): GridPosition | null {
+  const origin = {
+    row: Math.min(Math.max(requested.row, 0), grid.rows - 1),
+    col: Math.min(Math.max(requested.col, 0), grid.cols - 1)
+  };
+  const maxDistance = Math.max(grid.rows, grid.cols);
+
+  for (let distance = 0; distance < maxDistance; distance++) {
+    for (let row = origin.row - distance; row <= origin.row + distance; row++) {
+      for (let col = origin.col - distance; col <= origin.col + distance; col++) {
+        const onRing = Math.max(Math.abs(row - origin.row), Math.abs(col - origin.col)) === distance;
+        const inBounds = row >= 0 && row < grid.rows && col >= 0 && col < grid.cols;
+        if (onRing && inBounds && !occupied.has(getPositionKey({ row, col }))) {
+          return { row, col };
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Elements added, removed and moved between two resolved layouts
+ */
+export function diffResolvedAltars(before: ResolvedAltar, after: ResolvedAltar): AltarViewDiff {
+  const previous = new Map(before.elements.map(element => [element.elementId, element]));
+  const current = new Set(after.elements.map(element => element.elementId));
+  const diff: AltarViewDiff = { added: [], removed: [], moved: [] };
+
+  for (const element of after.elements) {
+    const old = previous.get(element.elementId);
+    if (!old) {
+      diff.added.push(element);
+    } else if (old.position.row !== element.position.row || old.position.col !== element.position.col) {
+      diff.moved.push(element);
+    }
+  }
+
+  diff.removed = before.elements.filter(element => !current.has(element.elementId));
+  return diff;
+}
+
+/**
+ * Encode an operation as a collaboration action
+ */
+export function operationToAction(
+  operation: AltarOperation
+): Omit<CollaborationAction, 'peerId' | 'timestamp'> {
+  switch (operation.kind) {
+    case 'place':
+      return {
+        type: 'element_place',
+        data: {
+          elementId: operation.elementId,
+          elementType: operation.elementType,
+          ...(operation.customElement ? { customElement: operation.customElement } : {}),
+          position: operation.position,
+          stamp: operation.stamp
+        }
+      };
+    case 'move':
+      return {
+        type: 'element_move',
+        data: { elementId: operation.elementId, position: operation.position, stamp: operation.stamp }
+      };
+    case 'remove':
+      return {
+        type: 'element_remove',
+        data: {
+          elementId: operation.elementId,
+          ...(operation.observed ? { observed: operation.observed } : {}),
+          stamp: operation.stamp
+        }
+      };
+  }
+}
+
+/**
+ * Decode an element action; returns null for other actions or malformed data
+ */
+export function actionToOperation(action: Pick<CollaborationAction, 'type' | 'data'>): AltarOperation | null {
+  const { elementId, elementType, customElement, position, observed, stamp } = action.data ?? {};
+  if (typeof elementId !== 'string' || !isStamp(stamp)) return null;
+
+  switch (action.type) {
+    case 'element_place':
+      return typeof elementType === 'string' && isPosition(position)
+        ? {
+            kind: 'place',
+            elementId,
+            elementType,
+            ...(customElement ? { customElement } : {}),
+            position,
+            stamp
+          }
+        : null;
+    case 'element_move':
+      return isPosition(position) ? { kind: 'move', elementId, position, stamp } : null;
+    case 'element_remove':
+      if (observed === undefined) return { kind: 'remove', elementId, stamp };
+      return isStamp(observed) ? { kind: 'remove', elementId, observed, stamp } : null;
+    default:
+      return null;
+  }
+}
+
+function isStamp(value: unknown): value is LamportStamp {
+  const stamp = value as LamportStamp | undefined;
+  return !!stamp && Number.isSafeInteger(stamp.counter) && stamp.counter > 0 && typeof stamp.replicaId === 'string';
+}
+
+function isPosition(value: unknown): value is GridPosition {
+  const position = value as GridPosition | undefined;
+  return !!position && Number.isInteger(position.row) && Number.isInteger(position.col);
+}
@@ -0,0 +1,348 @@
+import type { CollaborationAction } from '../../types';
+import {
+  AltarDocument,
+  actionToOperation,
+  operationToAction,
+  type AltarDocumentState,
+  type AltarOperation,
+  type LamportStamp
+} from './altar-crdt';
+
+/**
+ * Keeps a room's replicas of the altar in step beyond live operations.
+ *
+ * Whenever a peer connects, each side sends a `sync_request` with its version
+ * vector and checksum. The other side answers with the operations from its
+ * log the requester has not seen or, when the log no longer reaches back far
+ * enough, a full snapshot plus the log tail. A late joiner thus receives the
+ * whole altar and a reconnecting peer only what it missed.
+ *
+ * Peers also broadcast a `sync_check` now and then. Equal version vectors
+ * with different checksums mean a replica lost an operation along the way,
+ * and the peer that notices asks for a full snapshot.
+ *
+ * A peer's replica id is its peer id, so live operations are only taken
+ * from the replica that sent them.
+ */
+
+type OutgoingAction = Omit<CollaborationAction, 'peerId' | 'timestamp'>;
+
+export type VersionVector = Record<string, number>;
+
+export interface SyncRequestData {
+  to: string;
+  versions: VersionVector;
+  checksum: string;
+  // Ask for a snapshot even if the log would cover the request
+  full?: boolean;
+}
+
+export interface SyncResponseData {
+  to: string;
+  versions: VersionVector;
+  checksum: string;
+  snapshot?: AltarDocumentState;
+  // Sent with snapshots: per replica, the counter below which the log is incomplete
+  floor?: VersionVector;
+  operations: OutgoingAction[];
+}
+
+export interface SyncCheckData {
+  versions: VersionVector;
+  checksum: string;
+}
+
+export interface AltarSyncOptions {
+  // Id other peers address this one with
+  peerId: string;
+  send: (action: OutgoingAction) => void;
+  // Operations kept to answer catch-up requests without a snapshot
+  logSize?: number;
+  // How often to broadcast a checksum; 0 disables it
+  checkInterval?: number;
+  // Unanswered requests to a peer are repeated after this long
+  requestTimeout?: number;
+}
+
+export class AltarSync {
+  private options: Required<AltarSyncOptions>;
+  private altar: AltarDocument;
+  private log: AltarOperation[] = [];
+  private logged = new Set<string>();
+  private floor = new Map<string, number>();
+  private pendingRequests = new Map<string, number>();
+  private checkTimer?: ReturnType<typeof setInterval>;
+
+  constructor(options: AltarSyncOptions) {
+    this.options = {
+      logSize: 500,
+      checkInterval: 15000,
+      requestTimeout: 10000,
+      ...options
+    };
+    this.altar = new AltarDocument(this.options.peerId);
+  }
+
+  get document(): AltarDocument {
+    return this.altar;
+  }
+
+  place(...args: Parameters<AltarDocument['place']>): AltarOperation {
+    return this.broadcast(this.altar.place(...args));
+  }
+
+  move(...args: Parameters<AltarDocument['move']>): AltarOperation {
+    return this.broadcast(this.altar.move(...args));
+  }
+
+  remove(...args: Parameters<AltarDocument['remove']>): AltarOperation {
+    return this.broadcast(this.altar.remove(...args));
+  }
+
+  /**
+   * Handle an incoming element or sync action; returns whether the document
+   * changed
+   */
+  handleAction(action: CollaborationAction): boolean {
+    switch (action.type) {
+      case 'element_place':
+      case 'element_move':
+      case 'element_remove': {
+        const operation = actionToOperation(action);
+        if (!operation) return false;
+        // Otherwise a peer could pose as another replica or push the
+        // Lamport clocks forward under someone else's name
+        if (operation.stamp.replicaId !== action.peerId) {
+          console.warn(`Dropping ${action.type} from peer ${action.peerId} stamped by ${operation.stamp.replicaId}`);
+          return false;
+        }
+        return this.receive(operation);
+      }
+
+      case 'sync_request':
+        if (isSyncRequest(action.data) && action.data.to === this.options.peerId) {
+          this.respond(action.peerId, action.data);
+        }
+        return false;
+
+      case 'sync_response':
+        if (isSyncResponse(action.data) && action.data.to === this.options.peerId) {
+          return this.applyResponse(action.peerId, action.data);
+        }
+        return false;
+
+      case 'sync_check':
+        if (isSyncCheck(action.data)) {
+          this.handleCheck(action.peerId, action.data);
+        }
+        return false;
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Catch up with a peer that just connected
+   */
+  peerConnected(peerId: string): void {
+    this.requestSync(peerId);
+  }
+
+  peerDisconnected(peerId: string): void {
+    this.pendingRequests.delete(peerId);
+  }
+
+  /**
+   * Ask a peer for what this replica is missing
+   */
+  requestSync(peerId: string, full = false): void {
+    const requestedAt = this.pendingRequests.get(peerId);
+    if (requestedAt !== undefined && Date.now() - requestedAt < this.options.requestTimeout) {
+      return;
+    }
+
+    this.pendingRequests.set(peerId, Date.now());
+    const data: SyncRequestData = {
+      to: peerId,
+      versions: this.altar.getVersions(),
+      checksum: this.altar.checksum(),
+      ...(full ? { full } : {})
+    };
+    this.options.send({ type: 'sync_request', data });
+  }
+
+  /**
+   * Start broadcasting checksums
+   */
+  start(): void {
+    this.stop();
+    if (this.options.checkInterval > 0) {
+      this.checkTimer = setInterval(() => this.broadcastCheck(), this.options.checkInterval);
+    }
+  }
+
+  stop(): void {
+    clearInterval(this.checkTimer);
+    this.checkTimer = undefined;
+  }
+
+  broadcastCheck(): void {
+    const data: SyncCheckData = {
+      versions: this.altar.getVersions(),
+      checksum: this.altar.checksum()
+    };
+    this.options.send({ type: 'sync_check', data });
+  }
+
+  /**
+   * Drop the document, e.g. when moving to another room
+   */
+  reset(): void {
+    const clock = this.altar.lamportClock;
+    this.altar = new AltarDocument(this.options.peerId);
+    // Peers of a room this one rejoins still hold its earlier stamps
+    this.altar.advanceClock(clock);
+    this.log = [];
+    this.logged.clear();
+    this.floor.clear();
+    this.pendingRequests.clear();
+  }
+
+  private broadcast(operation: AltarOperation): AltarOperation {
+    this.record(operation);
+    this.options.send(operationToAction(operation));
+    return operation;
+  }
+
+  private receive(operation: AltarOperation): boolean {
+    const changed = this.altar.apply(operation);
+    // Superseded operations are logged too, so peers catching up from this
+    // log end with the same version vector
+    if (!this.logged.has(stampKey(operation.stamp))) {
+      this.record(operation);
+    }
+    return changed;
+  }
+
+  private record(operation: AltarOperation): void {
+    this.log.push(operation);
+    this.logged.add(stampKey(operation.stamp));
+
+    while (this.log.length > this.options.logSize) {
+      const { stamp } = this.log.shift()!;
+      this.logged.delete(stampKey(stamp));
+      this.raiseFloor(stamp.replicaId, stamp.counter);
+    }
+  }
+
+  private raiseFloor(replicaId: string, counter: number): void {
+    this.floor.set(replicaId, Math.max(this.floor.get(replicaId) ?? 0, counter));
+  }
+
+  private respond(peerId: string, request: SyncRequestData): void {
+    const needsSnapshot = request.full ||
+      Array.from(this.floor).some(([replicaId, counter]) => (request.versions[replicaId] ?? 0) < counter);
+
+    const operations = needsSnapshot
+      ? this.log
+      : this.log.filter(({ stamp }) => stamp.counter > (request.versions[stamp.replicaId] ?? 0));
+
+    const data: SyncResponseData = {
+      to: peerId,
+      versions: this.altar.getVersions(),
+      checksum: this.altar.checksum(),
+      ...(needsSnapshot
+        ? { snapshot: this.altar.getState(), floor: Object.fromEntries(this.floor) }
+        : {}),
+      operations: operations.map(operationToAction)
+    };
+    this.options.send({ type: 'sync_response', data });
+  }
+
+  private applyResponse(peerId: string, response: SyncResponseData): boolean {
+    this.pendingRequests.delete(peerId);
+    let changed = false;
+
+    if (response.snapshot) {
+      changed = this.altar.merge(response.snapshot);
+      // The tail below holds every operation above the sender's floor; the
+      // ones under it only arrived folded into the snapshot
+      Object.entries(response.floor ?? response.snapshot.versions).forEach(([replicaId, counter]) => {
+        this.raiseFloor(replicaId, counter);
+      });
+    }
+
+    response.operations.forEach(action => {
+      const operation = actionToOperation(action);
+      if (operation) {
+        changed = this.receive(operation) || changed;
+      }
+    });
+
+    if (
+      !response.snapshot &&
+      sameVersions(this.altar.getVersions(), response.versions) &&
+      this.altar.checksum() !== response.checksum
+    ) {
+      console.warn(`Altar diverged from peer ${peerId}, requesting a full resync`);
+      this.requestSync(peerId, true);
+    }
+
+    return changed;
+  }
+
+  private handleCheck(peerId: string, check: SyncCheckData): void {
+    const versions = this.altar.getVersions();
+    const behind = Object.entries(check.versions)
+      .some(([replicaId, counter]) => counter > (versions[replicaId] ?? 0));
+
+    if (behind) {
+      this.requestSync(peerId);
+    } else if (sameVersions(versions, check.versions) && this.altar.checksum() !== check.checksum) {
+      console.warn(`Altar checksum differs from peer ${peerId}, requesting a full resync`);
+      this.requestSync(peerId, true);
+    }
+  }
+}
+
+function stampKey(stamp: LamportStamp): string {
+  return `${stamp.counter}@${stamp.replicaId}`;
+}
+
+function sameVersions(a: VersionVector, b: VersionVector): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(keys).every(replicaId => (a[replicaId] ?? 0) === (b[replicaId] ?? 0));
+}
+
+function isVersionVector(value: unknown): value is VersionVector {
+  return typeof value === 'object' && value !== null &&
+    Object.values(value).every(counter => Number.isInteger(counter));
+}
+
+function isSyncRequest(value: unknown): value is SyncRequestData {
+  const data = value as SyncRequestData | undefined;
+  return !!data && typeof data.to === 'string' && isVersionVector(data.versions) &&
+    typeof data.checksum === 'string';
+}
+
+function isSyncResponse(value: unknown): value is SyncResponseData {
+  const data = value as SyncResponseData | undefined;
+  if (!data || typeof data.to !== 'string' || !isVersionVector(data.versions) ||
+    typeof data.checksum !== 'string' || !Array.isArray(data.operations)) {
+    return false;
+  }
+  if (data.floor !== undefined && !isVersionVector(data.floor)) {
+    return false;
+  }
+  return data.snapshot === undefined || (
+    typeof data.snapshot === 'object' && data.snapshot !== null &&
+    typeof data.snapshot.entries === 'object' && data.snapshot.entries !== null &&
+    isVersionVector(data.snapshot.versions)
+  );
+}
+
+function isSyncCheck(value: unknown): value is SyncCheckData {
+  const data = value as SyncCheckData | undefined;
+  return !!data && isVersionVector(data.versions) && typeof data.checksum === 'string';
+}
@@ -1,5 +1,7 @@
 import { WebRTCCollaborationEngine } from './webrtc-engine';
-import { CollaborationRoomManager, type RoomInfo } from './room-manager';
+import { CollaborationRoomManager, type RoomIdFormat, type RoomInfo } from './room-manager';
+import { RoomKey, createNonce } from './room-crypto';
+import { PeerPresence, type PeerPresenceInfo } from './peer-presence';
 import type { 
   CollaborationEngine, 
   CollaborationAction, 
@@ -12,7 +14,19 @@ export interface CollaborationEngineConfig {
   webrtc?: Partial<WebRTCConfig>;
   maxPeers?: number;
   reconnectAttempts?: number;
+  // Time between presence pings
   heartbeatInterval?: number;
+  // Silence after which a peer is shown as idle
+  peerIdleAfter?: number;
+  // Silence after which a peer is disconnected
+  peerTimeout?: number;
+}
+
+export interface CreateCollaborationRoomOptions {
+  // Encrypts every action end to end; peers must know it to take part
+  passphrase?: string;
+  // Passphrase-protected rooms always get token ids
+  idFormat?: RoomIdFormat;
 }
 
 export class MainCollaborationEngine {
@@ -20,19 +34,37 @@ export class MainCollaborationEngine {
   private roomManager: CollaborationRoomManager;
   private config: Required<CollaborationEngineConfig>;
   private state: CollaborationState;
-  private heartbeatTimer?: number;
+  private presence: PeerPresence;
   private reconnectAttempts = 0;
 
+  // Passphrase-protected rooms: peers are admitted once they answer a
+  // challenge with the room key. Until then nothing they send is accepted
+  // and the rest of the app does not learn about them.
+  private roomKey?: { roomId: string; key: RoomKey };
+  private pendingPeers = new Map<string, CollaborationPeer>();
+  private challenges = new Map<string, string>();
+  private verifiedPeers = new Set<string>();
+  // Encryption is async; these chains keep actions in order
+  private outgoing: Promise<void> = Promise.resolve();
+  private incoming: Promise<void> = Promise.resolve();
+
   // Event callbacks
   private actionCallbacks: ((action: CollaborationAction) => void)[] = [];
+  private actionSentCallbacks: ((action: CollaborationAction) => void)[] = [];
   private stateChangeCallbacks: ((state: CollaborationState) => void)[] = [];
   private errorCallbacks: ((error: Error) => void)[] = [];
+  private peerConnectCallbacks: ((peer: CollaborationPeer) => void)[] = [];
+  private peerDisconnectCallbacks: ((peerId: string) => void)[] = [];
+  private relayGapCallbacks: ((peerIds: string[]) => void)[] = [];
 
   constructor(config?: CollaborationEngineConfig) {
+    const heartbeatInterval = config?.heartbeatInterval ?? 5000;
     this.config = {
       maxPeers: 4,
       reconnectAttempts: 3,
-      heartbeatInterval: 30000, // 30 seconds
+      heartbeatInterval,
+      peerIdleAfter: heartbeatInterval * 3,
+      peerTimeout: heartbeatInterval * 6,
       webrtc: {},
       ...config
     };
@@ -49,15 +81,31 @@ export class MainCollaborationEngine {
       connectionType: 'offline'
     };
 
+    this.presence = new PeerPresence({
+      peerId: this.localPeerId,
+      send: action => {
+        if (this.state.isConnected) this.sendAction(action);
+      },
+      interval: this.config.heartbeatInterval,
+      idleAfter: this.config.peerIdleAfter,
+      timeout: this.config.peerTimeout
+    });
+
     this.setupWebRTCCallbacks();
-    this.startHeartbeat();
+    this.setupPresence();
   }
 
   // Room Management
-  async createRoom(name?: string): Promise<string> {
+  async createRoom(name?: string, options: CreateCollaborationRoomOptions = {}): Promise<string> {
     try {
-      const room = await this.roomManager.createRoom(name);
-      const roomId = await this.webrtcEngine.createRoom();
+      const { passphrase } = options;
+      const room = await this.roomManager.createRoom(name, false, {
+        idFormat: passphrase ? 'token' : options.idFormat,
+        passphraseProtected: !!passphrase
+      });
+      await this.useRoomKey(room.id, passphrase);
+      await this.webrtcEngine.createRoom(room.id);
+      this.presence.start();
       
       this.updateState({
         roomId: room.id,
@@ -73,15 +121,19 @@ export class MainCollaborationEngine {
     }
   }
 
-  async joinRoom(roomId: string): Promise<void> {
+  /**
+   * Join a room; pass the passphrase for protected rooms. Reconnecting to the
+   * same room keeps the key already derived. Rooms live on the signaling
+   * server, which decides whether the room exists and has space; the guest
+   * usually opens the link in a browser that never saw the room.
+   */
+  async joinRoom(roomId: string, passphrase?: string): Promise<void> {
     try {
-      const room = await this.roomManager.getRoomInfo(roomId);
-      if (!room) {
-        throw new Error(`Room ${roomId} not found`);
+      if (passphrase !== undefined || this.roomKey?.roomId !== roomId) {
+        await this.useRoomKey(roomId, passphrase);
       }
-
-      await this.roomManager.joinRoom(roomId);
       await this.webrtcEngine.joinRoom(roomId);
+      this.presence.start();
 
       this.updateState({
         roomId,
@@ -101,6 +153,9 @@ export class MainCollaborationEngine {
     try {
       this.webrtcEngine.leaveRoom();
       this.roomManager.leaveRoom();
+      this.roomKey = undefined;
+      this.clearPeerVerification();
+      this.presence.reset();
 
       this.updateState({
         roomId: undefined,
@@ -124,15 +179,28 @@ export class MainCollaborationEngine {
 
     const fullAction: CollaborationAction = {
       ...action,
-      peerId: this.getLocalPeerId(),
+      peerId: this.localPeerId,
       timestamp: Date.now()
     };
 
-    try {
-      this.webrtcEngine.sendAction(fullAction);
-    } catch (error) {
-      this.handleError(new Error(`Failed to send action: ${error}`));
+    this.actionSentCallbacks.forEach(callback => {
+      try {
+        callback(fullAction);
+      } catch (error) {
+        console.error('Error in action sent callback:', error);
+      }
+    });
+
+    const roomKey = this.roomKey?.key;
+    if (!roomKey) {
+      this.transmit(fullAction);
+      return;
     }
+
+    this.outgoing = this.outgoing
+      .then(() => roomKey.encrypt(fullAction))
+      .then(envelope => this.transmit(envelope))
+      .catch(error => this.handleError(new Error(`Failed to encrypt action: ${error}`)));
   }
 
   // Cursor Management
@@ -150,6 +218,13 @@ export class MainCollaborationEngine {
     this.actionCallbacks.push(callback);
   }
 
+  /**
+   * Called with every action this peer sends, before any encryption
+   */
+  onActionSent(callback: (action: CollaborationAction) => void): void {
+    this.actionSentCallbacks.push(callback);
+  }
+
   onStateChange(callback: (state: CollaborationState) => void): void {
     this.stateChangeCallbacks.push(callback);
   }
@@ -158,18 +233,47 @@ export class MainCollaborationEngine {
     this.errorCallbacks.push(callback);
   }
 
+  onPeerConnect(callback: (peer: CollaborationPeer) => void): void {
+    this.peerConnectCallbacks.push(callback);
+  }
+
+  onPeerDisconnect(callback: (peerId: string) => void): void {
+    this.peerDisconnectCallbacks.push(callback);
+  }
+
+  /**
+   * Called with the connected peers when relayed actions from them were
+   * lost during a reconnect, so the caller can resync with them
+   */
+  onRelayGap(callback: (peerIds: string[]) => void): void {
+    this.relayGapCallbacks.push(callback);
+  }
+
   // Getters
   getState(): CollaborationState {
     return { ...this.state };
   }
 
+  get isPassphraseProtected(): boolean {
+    return !!this.roomKey;
+  }
+
+  // Same id the other peers see in connect events and action senders
+  get localPeerId(): string {
+    return this.webrtcEngine.peerId;
+  }
+
+  get hostPeerId(): string | undefined {
+    return this.webrtcEngine.hostPeerId;
+  }
+
   getCurrentRoom(): RoomInfo | null {
     return this.roomManager.getCurrentRoom();
   }
 
   generateShareableLink(): string | null {
     if (!this.state.roomId) return null;
-    return this.roomManager.generateShareableLink(this.state.roomId);
+    return this.roomManager.generateShareableLink(this.state.roomId, !!this.roomKey);
   }
 
   parseShareableLink(url: string): string | null {
@@ -211,9 +315,85 @@ export class MainCollaborationEngine {
     this.webrtcEngine.onPeerDisconnect((peerId) => {
       this.handlePeerDisconnect(peerId);
     });
+
+    this.webrtcEngine.onRelayGap(() => {
+      const peerIds = Array.from(this.state.peers.keys());
+      this.relayGapCallbacks.forEach(callback => {
+        try {
+          callback(peerIds);
+        } catch (error) {
+          console.error('Error in relay gap callback:', error);
+        }
+      });
+    });
   }
 
   private handleIncomingAction(action: CollaborationAction): void {
+    const roomKey = this.roomKey?.key;
+    if (!roomKey) {
+      this.deliverAction(action);
+      return;
+    }
+
+    this.incoming = this.incoming
+      .then(() => this.handleProtectedAction(action, roomKey))
+      .catch(error => console.error('Failed to handle protected action:', error));
+  }
+
+  private async handleProtectedAction(action: CollaborationAction, roomKey: RoomKey): Promise<void> {
+    const { type, peerId: from, data } = action;
+
+    switch (type) {
+      case 'key_challenge':
+        if (data?.to === this.localPeerId && typeof data.nonce === 'string') {
+          const proof = await roomKey.prove(data.nonce, this.localPeerId);
+          this.sendPlain({ type: 'key_proof', data: { to: from, nonce: data.nonce, proof } });
+          // Over the relay only one side may see the connection; make sure
+          // the challenge goes both ways
+          if (!this.verifiedPeers.has(from) && !this.challenges.has(from)) {
+            this.challenge(from);
+          }
+        }
+        return;
+
+      case 'key_proof': {
+        const nonce = this.challenges.get(from);
+        if (data?.to !== this.localPeerId || !nonce || data.nonce !== nonce) return;
+
+        this.challenges.delete(from);
+        if (typeof data.proof === 'string' && await roomKey.verify(nonce, from, data.proof)) {
+          this.verifiedPeers.add(from);
+          const peer = this.pendingPeers.get(from);
+          this.pendingPeers.delete(from);
+          if (peer) {
+            this.admitPeer(peer);
+          }
+        } else {
+          this.handleError(new Error(`Peer ${from} does not know the room passphrase`));
+        }
+        return;
+      }
+
+      case 'encrypted': {
+        if (!this.verifiedPeers.has(from)) return;
+
+        const decrypted = await roomKey.decrypt(action);
+        if (decrypted) {
+          this.deliverAction(decrypted);
+        } else {
+          console.warn(`Dropping action from peer ${from} that does not decrypt with the room key`);
+        }
+        return;
+      }
+
+      default:
+        console.warn(`Dropping unencrypted ${type} from peer ${from} in a protected room`);
+    }
+  }
+
+  private deliverAction(action: CollaborationAction): void {
+    if (this.presence.handleAction(action)) return;
+
     // Update cursor positions
     if (action.type === 'cursor_move') {
       this.state.cursors.set(action.peerId, action.data);
@@ -230,7 +410,18 @@ export class MainCollaborationEngine {
   }
 
   private handlePeerConnect(peer: CollaborationPeer): void {
-    this.state.peers.set(peer.id, peer);
+    if (this.roomKey && !this.verifiedPeers.has(peer.id)) {
+      this.pendingPeers.set(peer.id, peer);
+      this.challenge(peer.id);
+      return;
+    }
+
+    this.admitPeer(peer);
+  }
+
+  private admitPeer(peer: CollaborationPeer): void {
+    this.state.peers.set(peer.id, { ...peer, status: 'active' });
+    this.presence.peerConnected(peer.id);
     
     this.updateState({
       connectionType: this.webrtcEngine.connectionType
@@ -241,9 +432,21 @@ export class MainCollaborationEngine {
       type: 'peer_join',
       data: { peer }
     });
+
+    this.peerConnectCallbacks.forEach(callback => {
+      try {
+        callback(peer);
+      } catch (error) {
+        console.error('Error in peer connect callback:', error);
+      }
+    });
   }
 
   private handlePeerDisconnect(peerId: string): void {
+    this.pendingPeers.delete(peerId);
+    this.challenges.delete(peerId);
+    this.verifiedPeers.delete(peerId);
+    this.presence.peerDisconnected(peerId);
     this.state.peers.delete(peerId);
     this.state.cursors.delete(peerId);
     
@@ -256,6 +459,44 @@ export class MainCollaborationEngine {
       type: 'peer_leave',
       data: { peerId }
     });
+
+    this.peerDisconnectCallbacks.forEach(callback => {
+      try {
+        callback(peerId);
+      } catch (error) {
+        console.error('Error in peer disconnect callback:', error);
+      }
+    });
+  }
+
+  private challenge(peerId: string): void {
+    const nonce = createNonce();
+    this.challenges.set(peerId, nonce);
+    this.sendPlain({ type: 'key_challenge', data: { to: peerId, nonce } });
+  }
+
+  private async useRoomKey(roomId: string, passphrase?: string): Promise<void> {
+    this.clearPeerVerification();
+    this.roomKey = passphrase ? { roomId, key: await RoomKey.derive(roomId, passphrase) } : undefined;
+  }
+
+  private clearPeerVerification(): void {
+    this.pendingPeers.clear();
+    this.challenges.clear();
+    this.verifiedPeers.clear();
+  }
+
+  // Handshake messages travel in the clear; they carry no altar state
+  private sendPlain(action: Omit<CollaborationAction, 'peerId' | 'timestamp'>): void {
+    this.transmit({ ...action, peerId: this.localPeerId, timestamp: Date.now() });
+  }
+
+  private transmit(action: CollaborationAction): void {
+    try {
+      this.webrtcEngine.sendAction(action);
+    } catch (error) {
+      this.handleError(new Error(`Failed to send action: ${error}`));
+    }
   }
 
   private updateState(updates: Partial<CollaborationState>): void {
@@ -282,39 +523,40 @@ export class MainCollaborationEngine {
     });
   }
 
-  private getLocalPeerId(): string {
-    // Generate a consistent local peer ID
-    let peerId = localStorage.getItem('local_peer_id');
-    if (!peerId) {
-      peerId = Array.from(crypto.getRandomValues(new Uint8Array(8)))
-        .map(b => b.toString(16).padStart(2, '0'))
-        .join('');
-      localStorage.setItem('local_peer_id', peerId);
-    }
-    return peerId;
+  private setupPresence(): void {
+    this.presence.onChange(presence => this.applyPresence(presence));
+
+    this.presence.onTimeout(peerId => {
+      console.warn(`Peer ${peerId} stopped responding, disconnecting`);
+      this.webrtcEngine.disconnectPeer(peerId);
+    });
   }
 
-  private startHeartbeat(): void {
-    this.heartbeatTimer = window.setInterval(() => {
-      if (this.state.isConnected) {
-        // Send heartbeat to maintain connection
-        this.sendAction({
-          type: 'peer_join', // Reuse peer_join as heartbeat
-          data: { heartbeat: true }
-        });
-      }
-    }, this.config.heartbeatInterval);
+  private applyPresence(presence: Record<string, PeerPresenceInfo>): void {
+    const peers = new Map(this.state.peers);
+    let changed = false;
+
+    peers.forEach((peer, peerId) => {
+      const info = presence[peerId];
+      if (!info) return;
+
+      peers.set(peerId, { ...peer, lastSeen: new Date(info.lastSeen), status: info.status, latency: info.latency });
+      changed = true;
+    });
+
+    if (changed) {
+      this.updateState({ peers });
+    }
   }
 
   // Cleanup
   destroy(): void {
-    if (this.heartbeatTimer) {
-      clearInterval(this.heartbeatTimer);
-    }
-    
+    this.presence.stop();
     this.leaveRoom();
     this.actionCallbacks.length = 0;
     this.stateChangeCallbacks.length = 0;
     this.errorCallbacks.length = 0;
+    this.peerConnectCallbacks.length = 0;
+    this.peerDisconnectCallbacks.length = 0;
   }
 }
\ No newline at end of file
@@ -1,14 +1,36 @@
 export { WebRTCCollaborationEngine } from './webrtc-engine';
-export { CollaborationRoomManager, type RoomInfo, type RoomManager } from './room-manager';
-export { MainCollaborationEngine, type CollaborationEngineConfig } from './collaboration-engine';
-export { OperationalTransform, type Operation, type TransformResult } from './operational-transform';
+export {
+  CollaborationRoomManager,
+  type CreateRoomOptions,
+  type RoomIdFormat,
+  type RoomInfo,
+  type RoomManager
+} from './room-manager';
+export {
+  MainCollaborationEngine,
+  type CollaborationEngineConfig,
+  type CreateCollaborationRoomOptions
+} from './collaboration-engine';
+export {
+  AltarDocument,
+  compareStamps,
+  type AltarDocumentState,
+  type AltarOperation,
+  type LamportStamp,
+  type ResolvedAltar
+} from './altar-crdt';
+export { AltarSync, type AltarSyncOptions, type VersionVector } from './altar-sync';
+export { RoomRoles, type RoomRolesOptions } from './room-roles';
+export { RoomKey, createNonce, type EncryptedPayload } from './room-crypto';
 
 // Re-export types for convenience
 export type {
   CollaborationEngine,
   CollaborationAction,
   CollaborationPeer,
+  CollaborationRole,
   CollaborationState,
   CursorPosition,
+  RoomRoster,
   WebRTCConfig
 } from '../../types';
\ No newline at end of file
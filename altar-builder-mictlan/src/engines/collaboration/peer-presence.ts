@@ -0,0 +1,215 @@
+import type { CollaborationAction, CollaborationPeer, ConnectionQuality, PeerPresenceStatus } from '../../types';
+
+/**
+ * Presence heartbeat between the peers of a room.
+ *
+ * Every `interval` a peer broadcasts a `presence_ping` stamped with its own
+ * clock, and every peer answers with a `presence_pong` addressed back to the
+ * sender, echoing the stamp. The sender measures the round trip on its own
+ * clock, so clock skew between peers does not matter, and keeps a smoothed
+ * latency per peer.
+ *
+ * Any action from a peer counts as a sign of life. A peer silent for
+ * `idleAfter` is marked idle, and one silent for `timeout` is reported as
+ * timed out so the connection can be dropped.
+ */
+
+type OutgoingAction = Omit<CollaborationAction, 'peerId' | 'timestamp'>;
+
+export interface PeerPresenceInfo {
+  lastSeen: number;
+  status: PeerPresenceStatus;
+  // Smoothed round-trip time in milliseconds, once measured
+  latency?: number;
+}
+
+export interface PeerPresenceOptions {
+  peerId: string;
+  send: (action: OutgoingAction) => void;
+  // Time between pings
+  interval?: number;
+  // Silence after which a peer is idle
+  idleAfter?: number;
+  // Silence after which a peer is given up on
+  timeout?: number;
+}
+
+// Weight of a new round-trip sample in the smoothed latency
+const LATENCY_SMOOTHING = 0.3;
+
+export class PeerPresence {
+  private options: Required<PeerPresenceOptions>;
+  private peers = new Map<string, PeerPresenceInfo>();
+  private timer?: ReturnType<typeof setInterval>;
+  private changeCallbacks: ((peers: Record<string, PeerPresenceInfo>) => void)[] = [];
+  private timeoutCallbacks: ((peerId: string) => void)[] = [];
+
+  constructor(options: PeerPresenceOptions) {
+    this.options = {
+      interval: 5000,
+      idleAfter: 15000,
+      timeout: 30000,
+      ...options
+    };
+  }
+
+  /**
+   * Start pinging the room
+   */
+  start(): void {
+    this.stop();
+    this.timer = setInterval(() => this.tick(), this.options.interval);
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Forget every peer, e.g. when leaving the room
+   */
+  reset(): void {
+    this.stop();
+    if (this.peers.size === 0) return;
+
+    this.peers.clear();
+    this.changed();
+  }
+
+  getPeers(): Record<string, PeerPresenceInfo> {
+    return Object.fromEntries(Array.from(this.peers, ([peerId, info]) => [peerId, { ...info }]));
+  }
+
+  peerConnected(peerId: string): void {
+    this.peers.set(peerId, { lastSeen: Date.now(), status: 'active' });
+    this.changed();
+    this.ping();
+  }
+
+  peerDisconnected(peerId: string): void {
+    if (this.peers.delete(peerId)) {
+      this.changed();
+    }
+  }
+
+  /**
+   * Note a sign of life from a peer and answer pings; returns whether the
+   * action was a presence message, which needs no further handling
+   */
+  handleAction(action: CollaborationAction): boolean {
+    const { type, peerId: from, data } = action;
+    this.seen(from);
+
+    switch (type) {
+      case 'presence_ping':
+        if (typeof data?.sentAt === 'number') {
+          this.options.send({ type: 'presence_pong', data: { to: from, sentAt: data.sentAt } });
+        }
+        return true;
+
+      case 'presence_pong':
+        if (data?.to === this.options.peerId && typeof data.sentAt === 'number') {
+          this.sample(from, Date.now() - data.sentAt);
+        }
+        return true;
+
+      default:
+        return false;
+    }
+  }
+
+  onChange(callback: (peers: Record<string, PeerPresenceInfo>) => void): void {
+    this.changeCallbacks.push(callback);
+  }
+
+  /**
+   * Called when a peer has been silent for longer than `timeout`
+   */
+  onTimeout(callback: (peerId: string) => void): void {
+    this.timeoutCallbacks.push(callback);
+  }
+
+  private ping(): void {
+    if (this.peers.size > 0) {
+      this.options.send({ type: 'presence_ping', data: { sentAt: Date.now() } });
+    }
+  }
+
+  private seen(peerId: string): void {
+    const info = this.peers.get(peerId);
+    if (!info) return;
+
+    info.lastSeen = Date.now();
+    if (info.status === 'idle') {
+      info.status = 'active';
+      this.changed();
+    }
+  }
+
+  private sample(peerId: string, roundTrip: number): void {
+    const info = this.peers.get(peerId);
+    // Pongs to pings from before a reconnect can come back very late
+    if (!info || roundTrip < 0 || roundTrip > this.options.timeout) return;
+
+    info.latency = info.latency === undefined
+      ? roundTrip
+      : Math.round(info.latency * (1 - LATENCY_SMOOTHING) + roundTrip * LATENCY_SMOOTHING);
+    this.changed();
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    const timedOut: string[] = [];
+    let changed = false;
+
+    this.peers.forEach((info, peerId) => {
+      const silence = now - info.lastSeen;
+      if (silence >= this.options.timeout) {
+        timedOut.push(peerId);
+      } else if (silence >= this.options.idleAfter && info.status === 'active') {
+        info.status = 'idle';
+        changed = true;
+      }
+    });
+
+    timedOut.forEach(peerId => this.peers.delete(peerId));
+    if (changed || timedOut.length > 0) {
+      this.changed();
+    }
+
+    timedOut.forEach(peerId => {
+      this.timeoutCallbacks.forEach(callback => {
+        try {
+          callback(peerId);
+        } catch (error) {
+          console.error('Error in presence timeout callback:', error);
+        }
+      });
+    });
+
+    this.ping();
+  }
+
+  private changed(): void {
+    const peers = this.getPeers();
+    this.changeCallbacks.forEach(callback => {
+      try {
+        callback(peers);
+      } catch (error) {
+        console.error('Error in presence change callback:', error);
+      }
+    });
+  }
+}
+
+/**
+ * Rough connection quality of a peer, from its presence and latency
+ */
+export function connectionQuality(peer: Pick<CollaborationPeer, 'status' | 'latency'>): ConnectionQuality | undefined {
+  if (peer.status === 'idle') return 'poor';
+  if (peer.latency === undefined) return undefined;
+  if (peer.latency < 150) return 'good';
+  if (peer.latency < 400) return 'fair';
+  return 'poor';
+}
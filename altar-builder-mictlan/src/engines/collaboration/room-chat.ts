@@ -0,0 +1,212 @@
+import type { CellReaction, ChatMessage, CollaborationAction, GridPosition, ReactionEmoji } from '../../types';
+
+/**
+ * Chat and emoji reactions for a collaboration room.
+ *
+ * Messages and reactions travel as `chat_message` and `reaction` actions and
+ * are kept for the rest of the session. Each peer may only send so many of
+ * either per interval; the limit is checked before sending and again on
+ * receipt, so a peer that ignores it locally is still cut off by everyone
+ * else.
+ */
+
+type OutgoingAction = Omit<CollaborationAction, 'peerId' | 'timestamp'>;
+
+export interface RateLimit {
+  limit: number;
+  interval: number;
+}
+
+export interface RoomChatOptions {
+  peerId: string;
+  send: (action: OutgoingAction) => void;
+  // Messages and reactions kept per session
+  historySize?: number;
+  messageRate?: RateLimit;
+  reactionRate?: RateLimit;
+}
+
+export const REACTION_EMOJIS: ReactionEmoji[] = ['🕯️', '🌼', '💀'];
+
+export const MAX_MESSAGE_LENGTH = 500;
+
+export class RoomChat {
+  private options: Required<RoomChatOptions>;
+  private messages: ChatMessage[] = [];
+  private reactions: CellReaction[] = [];
+  private seen = new Set<string>();
+  // Send times per peer and kind, for the rate limits
+  private sent = new Map<string, number[]>();
+  private changeCallbacks: (() => void)[] = [];
+
+  constructor(options: RoomChatOptions) {
+    this.options = {
+      historySize: 200,
+      messageRate: { limit: 5, interval: 10000 },
+      reactionRate: { limit: 10, interval: 10000 },
+      ...options
+    };
+  }
+
+  getMessages(): ChatMessage[] {
+    return [...this.messages];
+  }
+
+  getReactions(): CellReaction[] {
+    return [...this.reactions];
+  }
+
+  sendMessage(text: string): ChatMessage {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      throw new Error('Cannot send an empty message');
+    }
+    if (trimmed.length > MAX_MESSAGE_LENGTH) {
+      throw new Error(`Messages are limited to ${MAX_MESSAGE_LENGTH} characters`);
+    }
+    this.assertWithinRate('chat_message');
+
+    const message: ChatMessage = {
+      id: generateId('msg'),
+      peerId: this.options.peerId,
+      text: trimmed,
+      timestamp: Date.now()
+    };
+    this.addMessage(message);
+    this.options.send({ type: 'chat_message', data: { id: message.id, text: message.text } });
+    return message;
+  }
+
+  react(emoji: ReactionEmoji, position: GridPosition): CellReaction {
+    if (!REACTION_EMOJIS.includes(emoji)) {
+      throw new Error(`Unsupported reaction ${emoji}`);
+    }
+    this.assertWithinRate('reaction');
+
+    const reaction: CellReaction = {
+      id: generateId('reaction'),
+      peerId: this.options.peerId,
+      emoji,
+      position: { row: position.row, col: position.col },
+      timestamp: Date.now()
+    };
+    this.addReaction(reaction);
+    this.options.send({ type: 'reaction', data: { id: reaction.id, emoji, position: reaction.position } });
+    return reaction;
+  }
+
+  /**
+   * Whether this peer can send another message or reaction right now
+   */
+  canSend(type: 'chat_message' | 'reaction'): boolean {
+    return this.withinRate(this.options.peerId, type, Date.now());
+  }
+
+  /**
+   * Record a chat action from another peer; returns whether it was accepted.
+   * Actions of other types are ignored.
+   */
+  handleAction(action: CollaborationAction): boolean {
+    const { type, peerId: from, data } = action;
+    if (type !== 'chat_message' && type !== 'reaction') {
+      return false;
+    }
+    if (typeof data?.id !== 'string' || this.seen.has(data.id)) {
+      return false;
+    }
+    if (!this.withinRate(from, type, Date.now())) {
+      console.warn(`Dropping ${type} from peer ${from} over the rate limit`);
+      return false;
+    }
+
+    if (type === 'chat_message') {
+      if (typeof data.text !== 'string' || !data.text.trim() || data.text.length > MAX_MESSAGE_LENGTH) {
+        return false;
+      }
+      this.record(from, type);
+      this.addMessage({ id: data.id, peerId: from, text: data.text, timestamp: action.timestamp });
+    } else {
+      if (!REACTION_EMOJIS.includes(data.emoji) || !isGridPosition(data.position)) {
+        return false;
+      }
+      this.record(from, type);
+      this.addReaction({
+        id: data.id,
+        peerId: from,
+        emoji: data.emoji,
+        position: { row: data.position.row, col: data.position.col },
+        timestamp: action.timestamp
+      });
+    }
+    return true;
+  }
+
+  onChange(callback: () => void): void {
+    this.changeCallbacks.push(callback);
+  }
+
+  /**
+   * Forget the history, e.g. when joining another room
+   */
+  reset(): void {
+    this.messages = [];
+    this.reactions = [];
+    this.seen.clear();
+    this.sent.clear();
+    this.notifyChange();
+  }
+
+  private assertWithinRate(type: 'chat_message' | 'reaction'): void {
+    if (!this.canSend(type)) {
+      throw new Error(type === 'chat_message'
+        ? 'Too many messages, wait a moment before sending more'
+        : 'Too many reactions, wait a moment before sending more');
+    }
+    this.record(this.options.peerId, type);
+  }
+
+  private withinRate(peerId: string, type: 'chat_message' | 'reaction', now: number): boolean {
+    const { limit, interval } = type === 'chat_message' ? this.options.messageRate : this.options.reactionRate;
+    const key = `${type}:${peerId}`;
+    const recent = (this.sent.get(key) ?? []).filter(time => now - time < interval);
+    this.sent.set(key, recent);
+    return recent.length < limit;
+  }
+
+  private record(peerId: string, type: 'chat_message' | 'reaction'): void {
+    const key = `${type}:${peerId}`;
+    this.sent.set(key, [...(this.sent.get(key) ?? []), Date.now()]);
+  }
+
+  private addMessage(message: ChatMessage): void {
+    this.seen.add(message.id);
+    this.messages = [...this.messages, message].slice(-this.options.historySize);
+    this.notifyChange();
+  }
+
+  private addReaction(reaction: CellReaction): void {
+    this.seen.add(reaction.id);
+    this.reactions = [...this.reactions, reaction].slice(-this.options.historySize);
+    this.notifyChange();
+  }
+
+  private notifyChange(): void {
+    this.changeCallbacks.forEach(callback => {
+      try {
+        callback();
+      } catch (error) {
+        console.error('Error in chat change callback:', error);
+      }
+    });
+  }
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function isGridPosition(value: unknown): value is GridPosition {
+  const position = value as GridPosition | undefined;
+  return !!position && Number.isInteger(position.row) && Number.isInteger(position.col) &&
+    position.row >= 0 && position.col >= 0;
+}
@@ -0,0 +1,128 @@
+import type { CollaborationAction } from '../../types';
+
+/**
+ * End-to-end encryption for passphrase-protected rooms, built on WebCrypto.
+ *
+ * Every peer derives the same key material from the passphrase with PBKDF2,
+ * salted with the room id: an AES-GCM key that seals action payloads and an
+ * HMAC key used to prove knowledge of the passphrase. The signaling server
+ * and relay only ever see the envelope.
+ */
+
+const PBKDF2_ITERATIONS = 250000;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export interface EncryptedPayload {
+  iv: string;
+  ciphertext: string;
+}
+
+export class RoomKey {
+  private encryptionKey: CryptoKey;
+  private proofKey: CryptoKey;
+
+  private constructor(encryptionKey: CryptoKey, proofKey: CryptoKey) {
+    this.encryptionKey = encryptionKey;
+    this.proofKey = proofKey;
+  }
+
+  static async derive(roomId: string, passphrase: string): Promise<RoomKey> {
+    const material = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(passphrase.normalize('NFC')),
+      'PBKDF2',
+      false,
+      ['deriveBits']
+    );
+
+    const bits = new Uint8Array(await crypto.subtle.deriveBits(
+      { name: 'PBKDF2', hash: 'SHA-256', salt: encoder.encode(`altar-mictlan:${roomId}`), iterations: PBKDF2_ITERATIONS },
+      material,
+      512
+    ));
+
+    const [encryptionKey, proofKey] = await Promise.all([
+      crypto.subtle.importKey('raw', bits.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']),
+      crypto.subtle.importKey('raw', bits.slice(32), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify'])
+    ]);
+
+    return new RoomKey(encryptionKey, proofKey);
+  }
+
+  /**
+   * Seal an action into an `encrypted` envelope. The sender and timestamp
+   * stay readable for routing but are authenticated with the payload.
+   */
+  async encrypt(action: CollaborationAction): Promise<CollaborationAction> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: envelopeHeader(action) },
+      this.encryptionKey,
+      encoder.encode(JSON.stringify({ type: action.type, data: action.data }))
+    );
+
+    const data: EncryptedPayload = { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+    return { type: 'encrypted', peerId: action.peerId, timestamp: action.timestamp, data };
+  }
+
+  /**
+   * Open an envelope; returns null when it was sealed with another key or
+   * tampered with
+   */
+  async decrypt(envelope: CollaborationAction): Promise<CollaborationAction | null> {
+    const { iv, ciphertext } = (envelope.data ?? {}) as Partial<EncryptedPayload>;
+    if (envelope.type !== 'encrypted' || typeof iv !== 'string' || typeof ciphertext !== 'string') {
+      return null;
+    }
+
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(iv), additionalData: envelopeHeader(envelope) },
+        this.encryptionKey,
+        fromBase64(ciphertext)
+      );
+      const { type, data } = JSON.parse(decoder.decode(plaintext));
+      return { type, data, peerId: envelope.peerId, timestamp: envelope.timestamp };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Answer a peer's challenge, binding the answer to this peer's id so it
+   * cannot be replayed by someone else
+   */
+  async prove(nonce: string, peerId: string): Promise<string> {
+    const signature = await crypto.subtle.sign('HMAC', this.proofKey, encoder.encode(`${nonce}:${peerId}`));
+    return toBase64(new Uint8Array(signature));
+  }
+
+  async verify(nonce: string, peerId: string, proof: string): Promise<boolean> {
+    try {
+      return await crypto.subtle.verify('HMAC', this.proofKey, fromBase64(proof), encoder.encode(`${nonce}:${peerId}`));
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Random challenge for the passphrase handshake
+ */
+export function createNonce(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+function envelopeHeader(action: CollaborationAction): Uint8Array<ArrayBuffer> {
+  return encoder.encode(`${action.peerId}|${action.timestamp}`);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
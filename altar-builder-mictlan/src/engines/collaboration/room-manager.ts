@@ -8,15 +8,28 @@ export interface RoomInfo {
   participants: number;
   maxParticipants: number;
   isPublic: boolean;
+  // Actions in the room are end-to-end encrypted with a passphrase
+  passphraseProtected?: boolean;
+}
+
+/**
+ * `readable` ids are easy to dictate but guessable; `token` ids carry 128
+ * random bits for rooms where the link itself must not be guessable
+ */
+export type RoomIdFormat = 'readable' | 'token';
+
+export interface CreateRoomOptions {
+  idFormat?: RoomIdFormat;
+  passphraseProtected?: boolean;
 }
 
 export interface RoomManager {
-  createRoom(name?: string, isPublic?: boolean): Promise<RoomInfo>;
+  createRoom(name?: string, isPublic?: boolean, options?: CreateRoomOptions): Promise<RoomInfo>;
   joinRoom(roomId: string): Promise<RoomInfo>;
   leaveRoom(): void;
   getRoomInfo(roomId: string): Promise<RoomInfo | null>;
   getCurrentRoom(): RoomInfo | null;
-  generateShareableLink(roomId: string): string;
+  generateShareableLink(roomId: string, passphraseProtected?: boolean): string;
   parseShareableLink(url: string): string | null;
 }
 
@@ -28,8 +41,8 @@ export class CollaborationRoomManager implements RoomManager {
     this.baseUrl = baseUrl || window.location.origin;
   }
 
-  async createRoom(name?: string, isPublic = false): Promise<RoomInfo> {
-    const roomId = this.generateRoomId();
+  async createRoom(name?: string, isPublic = false, options: CreateRoomOptions = {}): Promise<RoomInfo> {
+    const roomId = options.idFormat === 'token' ? this.generateRoomToken() : this.generateRoomId();
     const hostId = this.generateUserId();
     
     const room: RoomInfo = {
@@ -39,7 +52,8 @@ export class CollaborationRoomManager implements RoomManager {
       hostId,
       participants: 1,
       maxParticipants: 4, // Limit to 4 users for performance
-      isPublic
+      isPublic,
+      ...(options.passphraseProtected ? { passphraseProtected: true } : {})
     };
 
     // Store room info locally (in a real app, this would be on a server)
@@ -105,13 +119,28 @@ export class CollaborationRoomManager implements RoomManager {
     return this.currentRoom;
   }
 
-  generateShareableLink(roomId: string): string {
+  generateShareableLink(roomId: string, passphraseProtected = false): string {
     const url = new URL(this.baseUrl);
     url.searchParams.set('room', roomId);
     url.searchParams.set('join', 'true');
+    // Only a hint to ask for the passphrase; the passphrase never goes in the link
+    if (passphraseProtected) {
+      url.searchParams.set('secure', 'true');
+    }
     return url.toString();
   }
 
+  /**
+   * Whether an invite link points to a passphrase-protected room
+   */
+  isProtectedLink(url: string): boolean {
+    try {
+      return new URL(url).searchParams.get('secure') === 'true';
+    } catch {
+      return false;
+    }
+  }
+
   parseShareableLink(url: string): string | null {
     try {
       const urlObj = new URL(url);
@@ -144,6 +173,14 @@ export class CollaborationRoomManager implements RoomManager {
     return `${adjective}-${noun}-${number}`;
   }
 
+  private generateRoomToken(): string {
+    // 16 random bytes as base64url, accepted as-is by the signaling server
+    return btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(16))))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+  }
+
   private generateUserId(): string {
     return Array.from(crypto.getRandomValues(new Uint8Array(8)))
       .map(b => b.toString(16).padStart(2, '0'))
@@ -223,8 +260,9 @@ export class CollaborationRoomManager implements RoomManager {
   }
 
   isValidRoomId(roomId: string): boolean {
-    // Check if room ID matches our format: adjective-noun-number
-    const pattern = /^[a-z]+-[a-z]+-\d{3}$/;
-    return pattern.test(roomId);
+    // Either adjective-noun-number or a 22 character base64url token
+    const readable = /^[a-z]+-[a-z]+-\d{3}$/;
+    const token = /^[A-Za-z0-9_-]{22}$/;
+    return readable.test(roomId) || token.test(roomId);
   }
 }
\ No newline at end of file
@@ -0,0 +1,227 @@
+import type { CollaborationAction, CollaborationRole, RoomRoster } from '../../types';
+
+/**
+ * Roles and moderation for a collaboration room.
+ *
+ * The peer that created the room is its host and the only one allowed to
+ * change roles, lock the altar or kick peers. Each change goes out as its own
+ * action, and the host also sends the whole roster (`room_roles`) to every
+ * peer that connects. Guests learn who the host is from the signaling
+ * server, which saw the room being opened, and ignore moderation actions
+ * from anyone else.
+ */
+
+type OutgoingAction = Omit<CollaborationAction, 'peerId' | 'timestamp'>;
+
+export interface RoomRolesOptions {
+  peerId: string;
+  send: (action: OutgoingAction) => void;
+}
+
+const ASSIGNABLE_ROLES: CollaborationRole[] = ['editor', 'viewer'];
+
+export class RoomRoles {
+  private options: RoomRolesOptions;
+  private roster: RoomRoster = { roles: {}, locked: false, kicked: [] };
+  private changeCallbacks: ((roster: RoomRoster) => void)[] = [];
+  private kickedCallbacks: (() => void)[] = [];
+
+  constructor(options: RoomRolesOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Take over a room this peer just created
+   */
+  becomeHost(): void {
+    this.update({
+      hostId: this.options.peerId,
+      roles: { [this.options.peerId]: 'host' },
+      locked: false,
+      kicked: []
+    });
+  }
+
+  /**
+   * Follow the host of a room this peer joined, as reported by the signaling
+   * server. Keeps the roster when the host is already known.
+   */
+  followHost(hostId: string): void {
+    if (this.roster.hostId === hostId) return;
+
+    this.update({ hostId, roles: { [hostId]: 'host' }, locked: false, kicked: [] });
+  }
+
+  /**
+   * Forget the roster, e.g. when joining another room
+   */
+  reset(): void {
+    this.update({ roles: {}, locked: false, kicked: [] });
+  }
+
+  getRoster(): RoomRoster {
+    return { ...this.roster, roles: { ...this.roster.roles }, kicked: [...this.roster.kicked] };
+  }
+
+  roleOf(peerId: string): CollaborationRole {
+    if (peerId === this.roster.hostId) return 'host';
+    return this.roster.roles[peerId] ?? 'editor';
+  }
+
+  get localRole(): CollaborationRole {
+    return this.roleOf(this.options.peerId);
+  }
+
+  get isHost(): boolean {
+    return this.roster.hostId === this.options.peerId;
+  }
+
+  get isLocked(): boolean {
+    return this.roster.locked;
+  }
+
+  get canEditLocally(): boolean {
+    return this.canEdit(this.options.peerId);
+  }
+
+  isKicked(peerId: string): boolean {
+    return this.roster.kicked.includes(peerId);
+  }
+
+  /**
+   * Whether a peer may place, move or remove elements right now
+   */
+  canEdit(peerId: string): boolean {
+    const role = this.roleOf(peerId);
+    if (this.isKicked(peerId) || role === 'viewer') return false;
+    return !this.roster.locked || role === 'host';
+  }
+
+  setRole(peerId: string, role: CollaborationRole): void {
+    this.assertHost('change roles');
+    if (!ASSIGNABLE_ROLES.includes(role) || peerId === this.options.peerId) {
+      throw new Error(`Cannot make peer ${peerId} ${role}`);
+    }
+
+    this.update({ ...this.roster, roles: { ...this.roster.roles, [peerId]: role } });
+    this.options.send({ type: 'role_change', data: { peerId, role } });
+  }
+
+  setLocked(locked: boolean): void {
+    this.assertHost('lock the altar');
+
+    this.update({ ...this.roster, locked });
+    this.options.send({ type: 'altar_lock', data: { locked } });
+  }
+
+  kick(peerId: string): void {
+    this.assertHost('kick peers');
+    if (peerId === this.options.peerId) {
+      throw new Error('The host cannot kick itself');
+    }
+
+    if (!this.isKicked(peerId)) {
+      this.update({ ...this.roster, kicked: [...this.roster.kicked, peerId] });
+    }
+    this.options.send({ type: 'peer_kick', data: { peerId } });
+  }
+
+  /**
+   * Bring a newly connected peer up to date, or turn it away again
+   */
+  peerConnected(peerId: string): void {
+    if (!this.isHost) return;
+
+    if (this.isKicked(peerId)) {
+      this.options.send({ type: 'peer_kick', data: { peerId } });
+    } else {
+      this.options.send({ type: 'room_roles', data: this.getRoster() });
+    }
+  }
+
+  /**
+   * Apply a moderation action from another peer; returns whether it was
+   * accepted. Actions of other types are ignored.
+   */
+  handleAction(action: CollaborationAction): boolean {
+    const { type, peerId: from, data } = action;
+    if (!['room_roles', 'role_change', 'altar_lock', 'peer_kick'].includes(type)) {
+      return false;
+    }
+    const wasKicked = this.isKicked(this.options.peerId);
+
+    if (from !== this.roster.hostId) {
+      console.warn(`Ignoring ${type} from peer ${from}, who is not the host`);
+      return false;
+    }
+
+    switch (type) {
+      case 'room_roles': {
+        if (!isRoster(data) || data.hostId !== from) return false;
+        this.update(data);
+        break;
+      }
+
+      case 'role_change':
+        if (typeof data?.peerId !== 'string' || !ASSIGNABLE_ROLES.includes(data.role)) return false;
+        this.update({ ...this.roster, roles: { ...this.roster.roles, [data.peerId]: data.role } });
+        break;
+
+      case 'altar_lock':
+        if (typeof data?.locked !== 'boolean') return false;
+        this.update({ ...this.roster, locked: data.locked });
+        break;
+
+      case 'peer_kick':
+        if (typeof data?.peerId !== 'string') return false;
+        if (!this.isKicked(data.peerId)) {
+          this.update({ ...this.roster, kicked: [...this.roster.kicked, data.peerId] });
+        }
+        break;
+    }
+
+    if (!wasKicked && this.isKicked(this.options.peerId)) {
+      this.kickedCallbacks.forEach(callback => callback());
+    }
+    return true;
+  }
+
+  onChange(callback: (roster: RoomRoster) => void): void {
+    this.changeCallbacks.push(callback);
+  }
+
+  /**
+   * Called when the host kicks this peer out of the room
+   */
+  onKicked(callback: () => void): void {
+    this.kickedCallbacks.push(callback);
+  }
+
+  private assertHost(what: string): void {
+    if (!this.isHost) {
+      throw new Error(`Only the host can ${what}`);
+    }
+  }
+
+  private update(roster: RoomRoster): void {
+    this.roster = roster;
+    const snapshot = this.getRoster();
+    this.changeCallbacks.forEach(callback => {
+      try {
+        callback(snapshot);
+      } catch (error) {
+        console.error('Error in roster change callback:', error);
+      }
+    });
+  }
+}
+
+function isRoster(value: unknown): value is RoomRoster {
+  const roster = value as RoomRoster | undefined;
+  return !!roster &&
+    typeof roster.hostId === 'string' &&
+    typeof roster.locked === 'boolean' &&
+    Array.isArray(roster.kicked) && roster.kicked.every(peerId => typeof peerId === 'string') &&
+    typeof roster.roles === 'object' && roster.roles !== null &&
+    Object.values(roster.roles).every(role => role === 'host' || ASSIGNABLE_ROLES.includes(role));
+}
@@ -0,0 +1,302 @@
+import {
+  parseServerMessage,
+  type ClientSignalingMessage,
+  type RelayedAction,
+  type SignalPayload
+} from './signaling-protocol';
+
+// WebSocket.OPEN, spelled out so injected socket implementations work too
+const SOCKET_OPEN = 1;
+
+// Relayed actions buffered while reconnecting; older ones are dropped
+const MAX_QUEUED_RELAYS = 100;
+
+export interface SignalingClientOptions {
+  url: string;
+  timeout: number;
+  // Reconnection attempts after the connection drops; 0 disables them
+  maxRetries?: number;
+  // Delay before the first reconnection attempt, doubled after each failure
+  retryDelay?: number;
+  WebSocketImpl?: typeof WebSocket;
+}
+
+/**
+ * Connection to the signaling server used to exchange SDP offers/answers and
+ * ICE candidates with the other peers of a room, and to relay actions for
+ * peers that cannot be reached over WebRTC. Reconnects on its own when the
+ * connection drops, resuming relayed actions from the last sequence number.
+ */
+export class SignalingClient {
+  private socket?: WebSocket;
+  private options: SignalingClientOptions;
+  private roomId?: string;
+  private peerId?: string;
+  private resumeToken?: string;
+  private host?: string;
+  private lastSeq = 0;
+  private retries = 0;
+  private retryTimer?: ReturnType<typeof setTimeout>;
+  private queuedRelays: ClientSignalingMessage[] = [];
+  private signalCallbacks: ((from: string, payload: SignalPayload) => void)[] = [];
+  private relayCallbacks: ((action: RelayedAction, from: string) => void)[] = [];
+  private peerJoinedCallbacks: ((peerId: string) => void)[] = [];
+  private peerLeftCallbacks: ((peerId: string) => void)[] = [];
+  private reconnectCallbacks: ((peers: string[]) => void)[] = [];
+  private replayGapCallbacks: (() => void)[] = [];
+  private closeCallbacks: (() => void)[] = [];
+
+  constructor(options: SignalingClientOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Open the socket and join a room; resolves with the peers already in it
+   */
+  async join(roomId: string, peerId: string): Promise<string[]> {
+    this.close();
+    this.roomId = roomId;
+    this.peerId = peerId;
+    this.resumeToken = undefined;
+    this.host = undefined;
+    this.lastSeq = 0;
+    this.queuedRelays = [];
+
+    return this.connect();
+  }
+
+  /**
+   * Relay an SDP description or ICE candidate to another peer of the room
+   */
+  signal(to: string, payload: SignalPayload): void {
+    if (!this.send({ type: 'signal', to, payload })) {
+      console.warn(`Signaling connection closed, dropping ${payload.kind} for peer ${to}`);
+    }
+  }
+
+  /**
+   * Broadcast an action through the server to every other peer of the room
+   * except the listed ones. Queued while reconnecting.
+   */
+  relay(action: RelayedAction, except?: string[]): void {
+    const message: ClientSignalingMessage = except?.length
+      ? { type: 'relay', action, except }
+      : { type: 'relay', action };
+
+    if (this.send(message)) return;
+
+    if (this.isReconnecting) {
+      this.queuedRelays.push(message);
+      if (this.queuedRelays.length > MAX_QUEUED_RELAYS) {
+        this.queuedRelays.shift();
+      }
+    } else {
+      console.warn('Signaling connection closed, dropping relayed action');
+    }
+  }
+
+  /**
+   * Leave the room and close the socket
+   */
+  close(): void {
+    clearTimeout(this.retryTimer);
+    this.retryTimer = undefined;
+    this.retries = 0;
+    this.roomId = undefined;
+    this.queuedRelays = [];
+    this.dropSocket();
+  }
+
+  onSignal(callback: (from: string, payload: SignalPayload) => void): void {
+    this.signalCallbacks.push(callback);
+  }
+
+  onRelay(callback: (action: RelayedAction, from: string) => void): void {
+    this.relayCallbacks.push(callback);
+  }
+
+  onPeerJoined(callback: (peerId: string) => void): void {
+    this.peerJoinedCallbacks.push(callback);
+  }
+
+  onPeerLeft(callback: (peerId: string) => void): void {
+    this.peerLeftCallbacks.push(callback);
+  }
+
+  onReconnect(callback: (peers: string[]) => void): void {
+    this.reconnectCallbacks.push(callback);
+  }
+
+  /**
+   * Called after a reconnect when the server could not replay every action
+   * relayed while this client was away
+   */
+  onReplayGap(callback: () => void): void {
+    this.replayGapCallbacks.push(callback);
+  }
+
+  /**
+   * Called once the connection is lost for good
+   */
+  onClose(callback: () => void): void {
+    this.closeCallbacks.push(callback);
+  }
+
+  /**
+   * Peer that opened the joined room, according to the server
+   */
+  get hostId(): string | undefined {
+    return this.host;
+  }
+
+  get isOpen(): boolean {
+    return this.socket?.readyState === SOCKET_OPEN;
+  }
+
+  get isReconnecting(): boolean {
+    return this.retries > 0;
+  }
+
+  private connect(resumeFrom?: number): Promise<string[]> {
+    const roomId = this.roomId!;
+    const peerId = this.peerId!;
+
+    return new Promise((resolve, reject) => {
+      const SocketImpl = this.options.WebSocketImpl ?? WebSocket;
+      const socket = new SocketImpl(this.options.url);
+      this.socket = socket;
+      let settled = false;
+
+      const fail = (error: Error) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        if (this.socket === socket) {
+          this.dropSocket();
+        }
+        reject(error);
+      };
+
+      const timer = setTimeout(() => {
+        fail(new Error(`Signaling server did not answer within ${this.options.timeout}ms`));
+      }, this.options.timeout);
+
+      socket.onopen = () => {
+        this.send(resumeFrom === undefined
+          ? { type: 'join', roomId, peerId }
+          : { type: 'join', roomId, peerId, resumeFrom, resumeToken: this.resumeToken });
+      };
+
+      socket.onerror = () => {
+        fail(new Error(`Signaling server connection failed: ${this.options.url}`));
+      };
+
+      socket.onclose = () => {
+        if (!settled) {
+          fail(new Error('Signaling server closed the connection'));
+          return;
+        }
+        if (this.socket === socket) {
+          this.socket = undefined;
+          this.scheduleReconnect();
+        }
+      };
+
+      socket.onmessage = (event) => {
+        const message = parseServerMessage(String(event.data));
+        if (!message) {
+          console.warn('Ignoring malformed signaling message:', event.data);
+          return;
+        }
+
+        switch (message.type) {
+          case 'joined':
+            if (!settled) {
+              settled = true;
+              clearTimeout(timer);
+              this.resumeToken = message.resumeToken;
+              this.host = message.hostId;
+              // On a fresh join only actions relayed from now on matter, and
+              // a reset room numbers its actions from the start again
+              if (resumeFrom === undefined || message.seq < resumeFrom) {
+                this.lastSeq = message.seq;
+              }
+              resolve(message.peers);
+              if (message.replayGap) {
+                this.replayGapCallbacks.forEach(callback => callback());
+              }
+            }
+            break;
+          case 'peer-joined':
+            this.peerJoinedCallbacks.forEach(callback => callback(message.peerId));
+            break;
+          case 'peer-left':
+            this.peerLeftCallbacks.forEach(callback => callback(message.peerId));
+            break;
+          case 'signal':
+            this.signalCallbacks.forEach(callback => callback(message.from, message.payload));
+            break;
+          case 'relay':
+            this.lastSeq = Math.max(this.lastSeq, message.seq);
+            this.relayCallbacks.forEach(callback => callback(message.action, message.from));
+            break;
+          case 'error':
+            if (!settled) {
+              fail(new Error(`Signaling server rejected join: ${message.message}`));
+            } else {
+              console.warn(`Signaling error (${message.code}):`, message.message);
+            }
+            break;
+        }
+      };
+    });
+  }
+
+  private scheduleReconnect(): void {
+    // Closed on purpose while a reconnection was in flight
+    if (!this.roomId) return;
+
+    if (this.retries >= (this.options.maxRetries ?? 0)) {
+      this.retries = 0;
+      this.queuedRelays = [];
+      this.closeCallbacks.forEach(callback => callback());
+      return;
+    }
+
+    const delay = (this.options.retryDelay ?? 500) * 2 ** this.retries;
+    this.retries++;
+
+    this.retryTimer = setTimeout(async () => {
+      this.retryTimer = undefined;
+      try {
+        const peers = await this.connect(this.lastSeq);
+        this.retries = 0;
+
+        const queued = this.queuedRelays;
+        this.queuedRelays = [];
+        queued.forEach(message => this.send(message));
+
+        this.reconnectCallbacks.forEach(callback => callback(peers));
+      } catch (error) {
+        console.warn('Signaling reconnection failed:', error);
+        this.scheduleReconnect();
+      }
+    }, delay);
+  }
+
+  private dropSocket(): void {
+    const socket = this.socket;
+    if (!socket) return;
+
+    this.send({ type: 'leave' });
+    this.socket = undefined;
+    socket.onclose = null;
+    socket.close();
+  }
+
+  private send(message: ClientSignalingMessage): boolean {
+    if (!this.isOpen) return false;
+    this.socket!.send(JSON.stringify(message));
+    return true;
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Wire protocol spoken between collaboration clients and the signaling
+ * server. Shared by the browser engine and the Node server, so it must not
+ * depend on DOM types.
+ *
+ * Besides WebRTC signaling, the server relays collaboration actions for peers
+ * that cannot open a data channel. Relayed actions get a per-room sequence
+ * number so a client that reconnects can resume from the last one it saw.
+ * Resuming takes over the peer id from a socket the server still considers
+ * live, so it needs the secret the server handed out on the first join.
+ * When the server cannot replay everything since then, because the room was
+ * reset or its log no longer reaches back that far, it says so and the
+ * client has to catch up some other way.
+ */
+
+export interface SessionDescription {
+  type: 'offer' | 'answer';
+  sdp: string;
+}
+
+export interface IceCandidate {
+  candidate: string;
+  sdpMid?: string | null;
+  sdpMLineIndex?: number | null;
+  usernameFragment?: string | null;
+}
+
+export type SignalPayload =
+  | { kind: 'description'; description: SessionDescription }
+  | { kind: 'ice'; candidate: IceCandidate };
+
+/**
+ * Messages sent by clients
+ */
+export type ClientSignalingMessage =
+  | { type: 'join'; roomId: string; peerId: string; resumeFrom?: number; resumeToken?: string }
+  | { type: 'leave' }
+  | { type: 'signal'; to: string; payload: SignalPayload }
+  // `except` lists peers that already got the action over WebRTC
+  | { type: 'relay'; action: RelayedAction; except?: string[] };
+
+/**
+ * Messages sent by the server
+ */
+export type ServerSignalingMessage =
+  // `hostId` is the peer that opened the room, for as long as it stays open.
+  // `replayGap` answers resuming joins: set when actions were lost.
+  | {
+      type: 'joined';
+      roomId: string;
+      peerId: string;
+      hostId: string;
+      peers: string[];
+      seq: number;
+      resumeToken: string;
+      replayGap?: boolean;
+    }
+  | { type: 'peer-joined'; peerId: string }
+  | { type: 'peer-left'; peerId: string }
+  | { type: 'signal'; from: string; payload: SignalPayload }
+  | { type: 'relay'; seq: number; from: string; action: RelayedAction }
+  | { type: 'error'; code: SignalingErrorCode; message: string };
+
+// Collaboration actions are opaque to the server
+export type RelayedAction = Record<string, unknown>;
+
+export type SignalingErrorCode =
+  | 'invalid-message'
+  | 'not-in-room'
+  | 'room-full'
+  | 'peer-id-taken'
+  | 'unknown-peer';
+
+// Same participant limit the room manager advertises for a room
+export const MAX_PEERS_PER_ROOM = 4;
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Whether a room or peer id is safe to use as a routing key
+ */
+export function isValidSignalingId(id: unknown): id is string {
+  return typeof id === 'string' && ID_PATTERN.test(id);
+}
+
+/**
+ * Parse and validate a message sent by a client; returns null when malformed
+ */
+export function parseClientMessage(raw: string): ClientSignalingMessage | null {
+  const message = parseObject(raw);
+  if (!message) return null;
+
+  switch (message.type) {
+    case 'join': {
+      const { roomId, peerId, resumeFrom, resumeToken } = message;
+      if (!isValidSignalingId(roomId) || !isValidSignalingId(peerId)) return null;
+      if (resumeFrom === undefined) return { type: 'join', roomId, peerId };
+      if (!isSequence(resumeFrom)) return null;
+      if (resumeToken === undefined) return { type: 'join', roomId, peerId, resumeFrom };
+      return isValidSignalingId(resumeToken)
+        ? { type: 'join', roomId, peerId, resumeFrom, resumeToken }
+        : null;
+    }
+    case 'leave':
+      return { type: 'leave' };
+    case 'signal':
+      return isValidSignalingId(message.to) && isSignalPayload(message.payload)
+        ? { type: 'signal', to: message.to, payload: message.payload }
+        : null;
+    case 'relay': {
+      const { action, except } = message;
+      if (!isRelayedAction(action)) return null;
+      if (except === undefined) return { type: 'relay', action };
+      return Array.isArray(except) && except.every(isValidSignalingId)
+        ? { type: 'relay', action, except }
+        : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse a message sent by the server; returns null when malformed
+ */
+export function parseServerMessage(raw: string): ServerSignalingMessage | null {
+  const message = parseObject(raw);
+  if (!message) return null;
+
+  switch (message.type) {
+    case 'joined':
+      return Array.isArray(message.peers) &&
+        isSequence(message.seq) &&
+        isValidSignalingId(message.hostId) &&
+        isValidSignalingId(message.resumeToken) &&
+        (message.replayGap === undefined || typeof message.replayGap === 'boolean')
+        ? (message as unknown as ServerSignalingMessage)
+        : null;
+    case 'peer-joined':
+    case 'peer-left':
+      return isValidSignalingId(message.peerId) ? (message as unknown as ServerSignalingMessage) : null;
+    case 'signal':
+      return isValidSignalingId(message.from) && isSignalPayload(message.payload)
+        ? (message as unknown as ServerSignalingMessage)
+        : null;
+    case 'relay':
+      return isValidSignalingId(message.from) && isSequence(message.seq) && isRelayedAction(message.action)
+        ? (message as unknown as ServerSignalingMessage)
+        : null;
+    case 'error':
+      return typeof message.message === 'string' ? (message as unknown as ServerSignalingMessage) : null;
+    default:
+      return null;
+  }
+}
+
+function isSignalPayload(payload: unknown): payload is SignalPayload {
+  if (!payload || typeof payload !== 'object') return false;
+  const { kind, description, candidate } = payload as Record<string, unknown>;
+
+  if (kind === 'description') {
+    const desc = description as Record<string, unknown> | undefined;
+    return !!desc &&
+      (desc.type === 'offer' || desc.type === 'answer') &&
+      typeof desc.sdp === 'string';
+  }
+  if (kind === 'ice') {
+    return !!candidate && typeof (candidate as Record<string, unknown>).candidate === 'string';
+  }
+  return false;
+}
+
+function isRelayedAction(action: unknown): action is RelayedAction {
+  return !!action && typeof action === 'object' && !Array.isArray(action);
+}
+
+function isSequence(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function parseObject(raw: string): Record<string, unknown> | null {
+  try {
+    const value: unknown = JSON.parse(raw);
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? value as Record<string, unknown>
+      : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,184 @@
+import type { CollaborationAction, DragTarget, GridPosition, SoftLock } from '../../types';
+
+/**
+ * Soft locks on the cell and element a peer is dragging.
+ *
+ * While a drag is in progress the peer announces its target with
+ * `drag_lock` and repeats it every half `ttl`; `drag_release` ends it. Other
+ * peers keep each lock until it is released, its peer disconnects or `ttl`
+ * passes without a refresh, measured on their own clock. Locks only warn
+ * other peers off; the altar document still resolves drops that race.
+ */
+
+type OutgoingAction = Omit<CollaborationAction, 'peerId' | 'timestamp'>;
+
+export interface SoftLocksOptions {
+  peerId: string;
+  send: (action: OutgoingAction) => void;
+  // How long a lock lasts without a refresh
+  ttl?: number;
+}
+
+// Upper bound on the ttl other peers may ask for
+const MAX_LOCK_TTL = 30000;
+
+export class SoftLocks {
+  private options: Required<SoftLocksOptions>;
+  private held?: DragTarget;
+  private refreshTimer?: ReturnType<typeof setInterval>;
+  private remote = new Map<string, SoftLock>();
+  private expiryTimer?: ReturnType<typeof setTimeout>;
+  private changeCallbacks: ((locks: SoftLock[]) => void)[] = [];
+
+  constructor(options: SoftLocksOptions) {
+    this.options = {
+      ttl: 5000,
+      ...options
+    };
+  }
+
+  get heldTarget(): DragTarget | undefined {
+    return this.held && { ...this.held };
+  }
+
+  /**
+   * Announce or move this peer's lock; it is kept fresh until released
+   */
+  acquire(target: DragTarget): void {
+    if (!target.cell && !target.elementId) {
+      this.release();
+      return;
+    }
+    if (this.held && sameTarget(this.held, target)) return;
+
+    this.held = {
+      ...(target.cell ? { cell: { row: target.cell.row, col: target.cell.col } } : {}),
+      ...(target.elementId ? { elementId: target.elementId } : {})
+    };
+    this.announce();
+
+    clearInterval(this.refreshTimer);
+    this.refreshTimer = setInterval(() => this.announce(), this.options.ttl / 2);
+  }
+
+  release(): void {
+    clearInterval(this.refreshTimer);
+    this.refreshTimer = undefined;
+    if (!this.held) return;
+
+    this.held = undefined;
+    this.options.send({ type: 'drag_release', data: {} });
+  }
+
+  /**
+   * Unexpired locks held by other peers
+   */
+  getLocks(): SoftLock[] {
+    const now = Date.now();
+    return Array.from(this.remote.values())
+      .filter(lock => lock.expiresAt > now)
+      .map(lock => ({ ...lock }));
+  }
+
+  /**
+   * Record a lock or release from another peer; returns whether it was
+   * accepted. Actions of other types are ignored.
+   */
+  handleAction(action: CollaborationAction): boolean {
+    const { type, peerId: from, data } = action;
+
+    switch (type) {
+      case 'drag_lock': {
+        const cell = data?.cell;
+        const elementId = data?.elementId;
+        if ((cell !== undefined && !isGridPosition(cell)) || (elementId !== undefined && typeof elementId !== 'string')) {
+          return false;
+        }
+        if (!cell && !elementId) return false;
+
+        const ttl = typeof data.ttl === 'number' && data.ttl > 0
+          ? Math.min(data.ttl, MAX_LOCK_TTL)
+          : this.options.ttl;
+        this.remote.set(from, {
+          peerId: from,
+          ...(cell ? { cell: { row: cell.row, col: cell.col } } : {}),
+          ...(elementId ? { elementId } : {}),
+          expiresAt: Date.now() + ttl
+        });
+        this.changed();
+        return true;
+      }
+
+      case 'drag_release':
+        if (this.remote.delete(from)) {
+          this.changed();
+        }
+        return true;
+
+      default:
+        return false;
+    }
+  }
+
+  peerDisconnected(peerId: string): void {
+    if (this.remote.delete(peerId)) {
+      this.changed();
+    }
+  }
+
+  onChange(callback: (locks: SoftLock[]) => void): void {
+    this.changeCallbacks.push(callback);
+  }
+
+  /**
+   * Drop every lock and stop refreshing, e.g. when leaving the room
+   */
+  reset(): void {
+    clearInterval(this.refreshTimer);
+    this.refreshTimer = undefined;
+    this.held = undefined;
+    this.remote.clear();
+    this.changed();
+  }
+
+  private announce(): void {
+    if (!this.held) return;
+    this.options.send({ type: 'drag_lock', data: { ...this.held, ttl: this.options.ttl } });
+  }
+
+  // Notify listeners and wake up again when the next lock expires
+  private changed(): void {
+    clearTimeout(this.expiryTimer);
+    this.expiryTimer = undefined;
+
+    const now = Date.now();
+    this.remote.forEach((lock, peerId) => {
+      if (lock.expiresAt <= now) this.remote.delete(peerId);
+    });
+
+    if (this.remote.size > 0) {
+      const nextExpiry = Math.min(...Array.from(this.remote.values()).map(lock => lock.expiresAt));
+      this.expiryTimer = setTimeout(() => this.changed(), nextExpiry - now);
+    }
+
+    const locks = this.getLocks();
+    this.changeCallbacks.forEach(callback => {
+      try {
+        callback(locks);
+      } catch (error) {
+        console.error('Error in soft lock callback:', error);
+      }
+    });
+  }
+}
+
+function sameTarget(a: DragTarget, b: DragTarget): boolean {
+  return a.elementId === b.elementId &&
+    a.cell?.row === b.cell?.row &&
+    a.cell?.col === b.cell?.col;
+}
+
+function isGridPosition(value: unknown): value is GridPosition {
+  const position = value as GridPosition | undefined;
+  return !!position && Number.isInteger(position.row) && Number.isInteger(position.col);
+}
@@ -4,6 +4,9 @@ import type {
   CollaborationPeer, 
   WebRTCConfig 
 } from '../../types';
+import { API_ENDPOINTS } from '../../utils/constants';
+import { SignalingClient } from './signaling-client';
+import type { IceCandidate, RelayedAction, SessionDescription, SignalPayload } from './signaling-protocol';
 
 export class WebRTCCollaborationEngine implements CollaborationEngine {
   private roomId?: string;
@@ -12,10 +15,24 @@ export class WebRTCCollaborationEngine implements CollaborationEngine {
   private dataChannels = new Map<string, RTCDataChannel>();
   private localPeerId: string;
   private config: WebRTCConfig;
-  private websocketFallback?: WebSocket;
+  private signaling?: SignalingClient;
+  // Other peers in the room, as announced by the signaling server
+  private roomMembers = new Set<string>();
+  // Set when WebRTC is unavailable and every action goes through the server relay
+  private relayOnly = false;
+  // Peers WebRTC could not reach, e.g. behind a firewall; their actions go
+  // through the server relay while the rest of the room stays peer to peer
+  private relayPeers = new Set<string>();
+  // Peers not yet connected, and when to give up waiting on WebRTC for them
+  private connectTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  // Peers the app has been told are connected, so none is announced twice
+  private announcedPeers = new Set<string>();
+  // ICE candidates that arrived before the remote description was applied
+  private pendingCandidates = new Map<string, RTCIceCandidateInit[]>();
   private actionCallbacks: ((action: CollaborationAction) => void)[] = [];
   private peerConnectCallbacks: ((peer: CollaborationPeer) => void)[] = [];
   private peerDisconnectCallbacks: ((peerId: string) => void)[] = [];
+  private relayGapCallbacks: (() => void)[] = [];
 
   constructor(config?: Partial<WebRTCConfig>) {
     this.localPeerId = this.generatePeerId();
@@ -26,16 +43,24 @@ export class WebRTCCollaborationEngine implements CollaborationEngine {
       ],
       maxRetries: 3,
       connectionTimeout: 10000,
+      signalingUrl: API_ENDPOINTS.COLLABORATION_SERVER,
       ...config
     };
   }
 
-  async createRoom(): Promise<string> {
-    this.roomId = this.generateRoomId();
+  async createRoom(roomId?: string): Promise<string> {
+    this.roomId = roomId ?? this.generateRoomId();
     this.isHost = true;
     
-    // Initialize signaling server connection for room creation
+    // Register the room on the signaling server; guests will send us offers
     await this.initializeSignalingConnection();
+
+    // Someone else opened a room with this id first and is its host
+    if (this.signaling?.hostId !== this.localPeerId) {
+      const { roomId } = this;
+      this.leaveRoom();
+      throw new Error(`Room ${roomId} is already open`);
+    }
     
     return this.roomId;
   }
@@ -44,9 +69,11 @@ export class WebRTCCollaborationEngine implements CollaborationEngine {
     this.roomId = roomId;
     this.isHost = false;
     
+    // Without signaling there is no way to reach the other peers
+    await this.initializeSignalingConnection();
+
     try {
       // Try WebRTC connection first
-      await this.initializeSignalingConnection();
       await this.connectToRoom();
     } catch (error) {
       console.warn('WebRTC connection failed, falling back to WebSocket:', error);
@@ -60,6 +87,13 @@ export class WebRTCCollaborationEngine implements CollaborationEngine {
       connection.close();
       this.notifyPeerDisconnect(peerId);
     });
+
+    // Relay-only peers never had a connection to close
+    if (this.relayOnly) {
+      this.roomMembers.forEach(peerId => this.notifyPeerDisconnect(peerId));
+    }
+    this.relayPeers.forEach(peerId => this.notifyPeerDisconnect(peerId));
+    this.connectTimers.forEach(timer => clearTimeout(timer));
     
     // Close data channels
     this.dataChannels.forEach(channel => {
@@ -68,14 +102,19 @@ export class WebRTCCollaborationEngine implements CollaborationEngine {
       }
     });
     
-    // Close WebSocket fallback if active
-    if (this.websocketFallback) {
-      this.websocketFallback.close();
-    }
+    // Leave the signaling room and stop relaying
+    this.signaling?.close();
+    this.signaling = undefined;
     
     // Clear state
     this.peers.clear();
     this.dataChannels.clear();
+    this.pendingCandidates.clear();
+    this.roomMembers.clear();
+    this.relayPeers.clear();
+    this.connectTimers.clear();
+    this.announcedPeers.clear();
+    this.relayOnly = false;
     this.roomId = undefined;
     this.isHost = false;
   }
@@ -94,12 +133,17 @@ export class WebRTCCollaborationEngine implements CollaborationEngine {
       }
     });
     
-    // Send via WebSocket fallback if active
-    if (this.websocketFallback && this.websocketFallback.readyState === WebSocket.OPEN) {
-      try {
-        this.websocketFallback.send(message);
-      } catch (error) {
-        console.error('Failed to send action via WebSocket:', error);
+    // Relay through the server to peers without an open data channel. With
+    // nobody else around the relay still logs the action for peers that are
+    // reconnecting.
+    if (this.signaling) {
+      const reachable = this.relayOnly ? [] : Array.from(this.dataChannels.keys());
+      const needsRelay = this.relayOnly ||
+        this.roomMembers.size === 0 ||
+        Array.from(this.roomMembers).some(peerId => !reachable.includes(peerId));
+
+      if (needsRelay) {
+        this.signaling.relay({ ...action }, reachable);
       }
     }
   }
@@ -116,6 +160,14 @@ export class WebRTCCollaborationEngine implements CollaborationEngine {
     this.peerDisconnectCallbacks.push(callback);
   }
 
+  /**
+   * Called when relayed actions were lost while the signaling connection
+   * was down, so this peer has to catch up with the others some other way
+   */
+  onRelayGap(callback: () => void): void {
+    this.relayGapCallbacks.push(callback);
+  }
+
   private generateRoomId(): string {
     return Array.from(crypto.getRandomValues(new Uint8Array(16)))
       .map(b => b.toString(16).padStart(2, '0'))
@@ -130,18 +182,63 @@ export class WebRTCCollaborationEngine implements CollaborationEngine {
   }
 
   private async initializeSignalingConnection(): Promise<void> {
-    // In a real implementation, this would connect to a signaling server
-    // For this demo, we'll simulate the signaling process
-    return new Promise((resolve, reject) => {
-      // Simulate signaling server connection
-      setTimeout(() => {
-        if (Math.random() > 0.1) { // 90% success rate
-          resolve();
-        } else {
-          reject(new Error('Signaling server connection failed'));
-        }
-      }, 1000);
+    if (!this.roomId) {
+      throw new Error('No room ID specified');
+    }
+
+    this.signaling?.close();
+
+    const signaling = new SignalingClient({
+      url: this.config.signalingUrl,
+      timeout: this.config.connectionTimeout,
+      maxRetries: this.config.maxRetries,
+      WebSocketImpl: this.config.WebSocketImpl
     });
+
+    signaling.onSignal((from, payload) => {
+      this.handleSignal(from, payload);
+    });
+
+    signaling.onRelay((action, from) => {
+      this.handleRelayedAction(action, from);
+    });
+
+    signaling.onPeerJoined(peerId => {
+      console.log(`Peer ${peerId} joined room ${this.roomId}`);
+      this.roomMembers.add(peerId);
+      if (this.relayOnly) {
+        this.notifyPeerConnect(peerId);
+      } else {
+        // The newcomer sends the offer; if none works out, use the relay
+        this.watchConnection(peerId);
+      }
+    });
+
+    signaling.onPeerLeft(peerId => {
+      this.roomMembers.delete(peerId);
+      if (this.peers.has(peerId) || this.relayOnly || this.relayPeers.has(peerId)) {
+        this.handlePeerDisconnection(peerId);
+      } else {
+        this.stopWatchingConnection(peerId);
+      }
+    });
+
+    signaling.onReconnect(peers => {
+      console.log('Signaling connection restored');
+      this.roomMembers = new Set(peers);
+    });
+
+    signaling.onReplayGap(() => {
+      console.warn('Relayed actions were lost while reconnecting');
+      this.relayGapCallbacks.forEach(callback => callback());
+    });
+
+    signaling.onClose(() => {
+      console.warn('Signaling connection lost; relayed actions and new peers are unavailable');
+    });
+
+    this.signaling = signaling;
+    this.roomMembers = new Set(await signaling.join(this.roomId, this.localPeerId));
   }
 
   private async connectToRoom(): Promise<void> {
@@ -149,22 +246,26 @@ export class WebRTCCollaborationEngine implements CollaborationEngine {
       throw new Error('No room ID specified');
     }
 
-    // Create peer connection for the host (if joining) or first peer (if hosting)
-    const hostPeerId = this.isHost ? this.localPeerId : 'host';
-    await this.createPeerConnection(hostPeerId);
+    // Newcomers offer to everyone already in the room, so two peers never
+    // send offers to each other at the same time
+    for (const peerId of this.roomMembers) {
+      await this.createPeerConnection(peerId, true);
+    }
   }
 
-  private async createPeerConnection(peerId: string): Promise<void> {
+  private async createPeerConnection(peerId: string, initiator: boolean): Promise<RTCPeerConnection> {
     const peerConnection = new RTCPeerConnection({
       iceServers: this.config.iceServers
     });
 
-    // Set up data channel
-    const dataChannel = peerConnection.createDataChannel('collaboration', {
-      ordered: true
-    });
+    if (initiator) {
+      // The offer carries the data channel; the answerer receives it below
+      const dataChannel = peerConnection.createDataChannel('collaboration', {
+        ordered: true
+      });
 
-    this.setupDataChannel(dataChannel, peerId);
+      this.setupDataChannel(dataChannel, peerId);
+    }
 
     // Handle incoming data channels
     peerConnection.ondatachannel = (event) => {
@@ -174,7 +275,6 @@ export class WebRTCCollaborationEngine implements CollaborationEngine {
     // Handle ICE candidates
     peerConnection.onicecandidate = (event) => {
       if (event.candidate) {
-        // In a real implementation, send this to the signaling server
         this.handleIceCandidate(event.candidate, peerId);
       }
     };
@@ -185,22 +285,82 @@ export class WebRTCCollaborationEngine implements CollaborationEngine {
       console.log(`Peer ${peerId} connection state:`, state);
       
       if (state === 'connected') {
+        this.stopWatchingConnection(peerId);
         this.notifyPeerConnect(peerId);
-      } else if (state === 'disconnected' || state === 'failed') {
+      } else if (state === 'failed') {
+        this.fallBackToRelay(peerId);
+      } else if (state === 'disconnected') {
         this.handlePeerDisconnection(peerId);
       }
     };
 
     this.peers.set(peerId, peerConnection);
+    this.watchConnection(peerId);
 
     // Create offer if we're the initiator
-    if (this.isHost || peerId !== 'host') {
+    if (initiator) {
       const offer = await peerConnection.createOffer();
       await peerConnection.setLocalDescription(offer);
       
-      // In a real implementation, send offer to signaling server
       this.handleOffer(offer, peerId);
     }
+
+    return peerConnection;
+  }
+
+  private async handleSignal(from: string, payload: SignalPayload): Promise<void> {
+    // Offers are pointless once this peer has given up on WebRTC
+    if (this.relayOnly || this.relayPeers.has(from)) return;
+
+    try {
+      if (payload.kind === 'ice') {
+        await this.addIceCandidate(from, payload.candidate);
+        return;
+      }
+
+      const { description } = payload;
+      if (description.type === 'offer') {
+        const peerConnection = this.peers.get(from) ?? await this.createPeerConnection(from, false);
+        await peerConnection.setRemoteDescription(description);
+        await this.flushPendingCandidates(from, peerConnection);
+
+        const answer = await peerConnection.createAnswer();
+        await peerConnection.setLocalDescription(answer);
+        this.sendDescription(answer, from);
+      } else {
+        const peerConnection = this.peers.get(from);
+        if (!peerConnection) {
+          console.warn(`Ignoring answer from unknown peer ${from}`);
+          return;
+        }
+        await peerConnection.setRemoteDescription(description);
+        await this.flushPendingCandidates(from, peerConnection);
+      }
+    } catch (error) {
+      console.error(`Failed to handle ${payload.kind} from peer ${from}:`, error);
+    }
+  }
+
+  private async addIceCandidate(peerId: string, candidate: IceCandidate): Promise<void> {
+    const peerConnection = this.peers.get(peerId);
+
+    if (!peerConnection?.remoteDescription) {
+      const pending = this.pendingCandidates.get(peerId) ?? [];
+      pending.push(candidate);
+      this.pendingCandidates.set(peerId, pending);
+      return;
+    }
+
+    await peerConnection.addIceCandidate(candidate);
+  }
+
+  private async flushPendingCandidates(peerId: string, peerConnection: RTCPeerConnection): Promise<void> {
+    const pending = this.pendingCandidates.get(peerId) ?? [];
+    this.pendingCandidates.delete(peerId);
+
+    for (const candidate of pending) {
+      await peerConnection.addIceCandidate(candidate);
+    }
   }
 
   private setupDataChannel(channel: RTCDataChannel, peerId: string): void {
@@ -212,6 +372,11 @@ export class WebRTCCollaborationEngine implements CollaborationEngine {
     channel.onmessage = (event) => {
       try {
         const action: CollaborationAction = JSON.parse(event.data);
+        // Moderation hinges on the sender, so peers cannot speak for others
+        if (action.peerId !== peerId) {
+          console.warn(`Dropping ${action.type} from peer ${peerId} sent as peer ${action.peerId}`);
+          return;
+        }
         this.notifyAction(action);
       } catch (error) {
         console.error('Failed to parse collaboration action:', error);
@@ -229,47 +394,108 @@ export class WebRTCCollaborationEngine implements CollaborationEngine {
   }
 
   private async initializeWebSocketFallback(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      // In a real implementation, this would connect to a WebSocket relay server
-      // For this demo, we'll simulate a WebSocket connection
-      const mockWebSocket = {
-        readyState: WebSocket.OPEN,
-        send: (data: string) => {
-          // Simulate echo for testing
-          setTimeout(() => {
-            try {
-              const action: CollaborationAction = JSON.parse(data);
-              // Don't echo back our own actions
-              if (action.peerId !== this.localPeerId) {
-                this.notifyAction(action);
-              }
-            } catch (error) {
-              console.error('WebSocket fallback parse error:', error);
-            }
-          }, 100);
-        },
-        close: () => {
-          console.log('WebSocket fallback closed');
-        }
-      } as WebSocket;
+    if (!this.signaling?.isOpen) {
+      throw new Error('WebSocket relay needs an open signaling connection');
+    }
 
-      this.websocketFallback = mockWebSocket;
-      
-      setTimeout(() => {
-        console.log('WebSocket fallback connected');
-        resolve();
-      }, 500);
-    });
+    // Drop half-open peer connections; everything goes through the relay now
+    this.peers.forEach(connection => connection.close());
+    this.peers.clear();
+    this.dataChannels.clear();
+    this.pendingCandidates.clear();
+    this.relayOnly = true;
+
+    console.log('Using WebSocket relay for collaboration');
+    this.connectTimers.forEach(timer => clearTimeout(timer));
+    this.connectTimers.clear();
+    this.roomMembers.forEach(peerId => this.notifyPeerConnect(peerId));
+  }
+
+  // Give WebRTC until the connection timeout to reach a peer
+  private watchConnection(peerId: string): void {
+    if (this.connectTimers.has(peerId)) return;
+
+    this.connectTimers.set(peerId, setTimeout(() => {
+      this.connectTimers.delete(peerId);
+      if (this.peers.get(peerId)?.connectionState !== 'connected') {
+        this.fallBackToRelay(peerId);
+      }
+    }, this.config.connectionTimeout));
+  }
+
+  private stopWatchingConnection(peerId: string): void {
+    clearTimeout(this.connectTimers.get(peerId));
+    this.connectTimers.delete(peerId);
+  }
+
+  /**
+   * Reach one peer through the server relay after WebRTC to it failed or
+   * timed out. Both ends of the connection do this on their own, so each
+   * announces the other and the usual handshakes run over the relay.
+   */
+  private fallBackToRelay(peerId: string): void {
+    this.stopWatchingConnection(peerId);
+    this.peers.get(peerId)?.close();
+    this.peers.delete(peerId);
+    this.dataChannels.delete(peerId);
+    this.pendingCandidates.delete(peerId);
+
+    if (!this.roomMembers.has(peerId) || !this.signaling?.isOpen) {
+      this.notifyPeerDisconnect(peerId);
+      return;
+    }
+
+    console.warn(`WebRTC to peer ${peerId} failed, using the WebSocket relay`);
+    this.relayPeers.add(peerId);
+    this.notifyPeerConnect(peerId);
+  }
+
+  private handleRelayedAction(action: RelayedAction, from: string): void {
+    if (
+      typeof action.type !== 'string' ||
+      typeof action.peerId !== 'string' ||
+      typeof action.timestamp !== 'number'
+    ) {
+      console.error(`Ignoring malformed relayed action from peer ${from}`);
+      return;
+    }
+    if (action.peerId !== from) {
+      console.warn(`Dropping ${action.type} relayed from peer ${from} as peer ${action.peerId}`);
+      return;
+    }
+
+    this.notifyAction(action as unknown as CollaborationAction);
   }
 
   private handleIceCandidate(candidate: RTCIceCandidate, peerId: string): void {
-    // In a real implementation, send to signaling server
-    console.log(`ICE candidate for peer ${peerId}:`, candidate);
+    const { candidate: line, sdpMid, sdpMLineIndex, usernameFragment } = candidate.toJSON();
+    this.signaling?.signal(peerId, {
+      kind: 'ice',
+      candidate: { candidate: line ?? '', sdpMid, sdpMLineIndex, usernameFragment }
+    });
   }
 
   private handleOffer(offer: RTCSessionDescriptionInit, peerId: string): void {
-    // In a real implementation, send to signaling server
-    console.log(`Offer created for peer ${peerId}:`, offer);
+    this.sendDescription(offer, peerId);
+  }
+
+  private sendDescription(description: RTCSessionDescriptionInit, peerId: string): void {
+    if (!this.signaling) {
+      console.warn(`No signaling connection, cannot send ${description.type} to peer ${peerId}`);
+      return;
+    }
+
+    this.signaling.signal(peerId, {
+      kind: 'description',
+      description: { type: description.type, sdp: description.sdp ?? '' } as SessionDescription
+    });
+  }
+
+  /**
+   * Close the connection to a peer, e.g. one that stopped responding
+   */
+  disconnectPeer(peerId: string): void {
+    this.handlePeerDisconnection(peerId);
   }
 
   private handlePeerDisconnection(peerId: string): void {
@@ -280,6 +506,9 @@ export class WebRTCCollaborationEngine implements CollaborationEngine {
     }
     
     this.dataChannels.delete(peerId);
+    this.pendingCandidates.delete(peerId);
+    this.relayPeers.delete(peerId);
+    this.stopWatchingConnection(peerId);
     this.notifyPeerDisconnect(peerId);
   }
 
@@ -294,6 +523,9 @@ export class WebRTCCollaborationEngine implements CollaborationEngine {
   }
 
   private notifyPeerConnect(peerId: string): void {
+    if (this.announcedPeers.has(peerId)) return;
+    this.announcedPeers.add(peerId);
+
     const peer: CollaborationPeer = {
       id: peerId,
       name: `User ${peerId.substring(0, 4)}`,
@@ -312,6 +544,7 @@ export class WebRTCCollaborationEngine implements CollaborationEngine {
   }
 
   private notifyPeerDisconnect(peerId: string): void {
+    this.announcedPeers.delete(peerId);
     this.peerDisconnectCallbacks.forEach(callback => {
       try {
         callback(peerId);
@@ -339,18 +572,34 @@ export class WebRTCCollaborationEngine implements CollaborationEngine {
     return this.roomId;
   }
 
+  // Id this peer joins rooms with; other peers address it by this id
+  get peerId(): string {
+    return this.localPeerId;
+  }
+
+  // Peer that opened the current room, as the signaling server saw it
+  get hostPeerId(): string | undefined {
+    return this.signaling?.hostId;
+  }
+
   get isConnected(): boolean {
-    return this.dataChannels.size > 0 || 
-           (this.websocketFallback?.readyState === WebSocket.OPEN);
+    return this.dataChannels.size > 0 || this.isRelaying;
   }
 
   get connectionType(): 'webrtc' | 'websocket' | 'offline' {
     if (this.dataChannels.size > 0) return 'webrtc';
-    if (this.websocketFallback?.readyState === WebSocket.OPEN) return 'websocket';
+    if (this.isRelaying) return 'websocket';
     return 'offline';
   }
 
   get connectedPeers(): string[] {
-    return Array.from(this.dataChannels.keys());
+    return this.relayOnly
+      ? Array.from(this.roomMembers)
+      : [...this.dataChannels.keys(), ...this.relayPeers];
+  }
+
+  // Actions reach at least part of the room through the server relay
+  private get isRelaying(): boolean {
+    return !!this.signaling?.isOpen && (this.relayOnly || this.roomMembers.size > 0);
   }
 }
\ No newline at end of file
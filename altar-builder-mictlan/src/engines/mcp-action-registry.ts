@@ -0,0 +1,77 @@
+// MCP Action Registry for Altar Builder Mictlán
+//
+// Every module declares the actions it handles together with a payload
+// schema. The engine routes actions to their owning module through the
+// registry and rejects unknown or malformed actions before any reducer runs.
+
+import type {
+  MCPAction,
+  MCPActionDefinition,
+  MCPModuleActionDefinitions,
+  MCPModuleName
+} from '../types/mcp';
+
+/**
+ * Turn a module's action declarations into registry definitions. Typed so
+ * a module has to declare every action it owns.
+ */
+export function defineModuleActions<M extends MCPModuleName>(
+  module: M,
+  definitions: MCPModuleActionDefinitions<M>
+): MCPActionDefinition[] {
+  return Object.entries(definitions).map(([type, definition]) => ({
+    ...(definition as Omit<MCPActionDefinition, 'type' | 'module'>),
+    type,
+    module
+  }) as MCPActionDefinition);
+}
+
+export class MCPActionRegistry {
+  private definitions = new Map<string, MCPActionDefinition>();
+
+  register(definition: MCPActionDefinition): void {
+    const existing = this.definitions.get(definition.type);
+    if (existing && existing.module !== definition.module) {
+      throw new Error(`Action ${definition.type} is already registered by module ${existing.module}`);
+    }
+
+    this.definitions.set(definition.type, definition);
+  }
+
+  // Remove every action owned by a module
+  unregisterModule(moduleName: string): void {
+    this.definitions.forEach((definition, type) => {
+      if (definition.module === moduleName) {
+        this.definitions.delete(type);
+      }
+    });
+  }
+
+  get(type: string): MCPActionDefinition | undefined {
+    return this.definitions.get(type);
+  }
+
+  getAll(): MCPActionDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  /**
+   * Describe what is wrong with an action, or return null when it is a
+   * registered action with a valid payload
+   */
+  validate(action: MCPAction): string | null {
+    if (!action || typeof action.type !== 'string') {
+      return 'Action has no type';
+    }
+
+    const definition = this.definitions.get(action.type);
+    if (!definition) {
+      return `Unknown action type: ${action.type}`;
+    }
+
+    const issues = definition.payload.check(action.payload, 'payload');
+    return issues.length > 0
+      ? `Invalid ${action.type} action: ${issues.join('; ')}`
+      : null;
+  }
+}
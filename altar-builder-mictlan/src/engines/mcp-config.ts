@@ -6,7 +6,11 @@ import { altarModule } from './mcp-modules/altar-module';
 import { userModule } from './mcp-modules/user-module';
 import { collaborationModule } from './mcp-modules/collaboration-module';
 import { steeringModule } from './mcp-modules/steering-module';
-import type { MCPConfig, MCPMiddleware, MCPAction } from '../types/mcp';
+import { sessionRecorder } from './recording';
+import { debugSessionAutosave, startDebugSessionAutosave } from './time-travel';
+import { createValidationMiddleware } from './mcp-validation-middleware';
+import { FEATURES } from '../utils/constants';
+import type { MCPConfig, MCPMiddleware, MCPAction, MCPBridgeMode } from '../types/mcp';
 
 // MCP Configuration
 const mcpConfig: MCPConfig = {
@@ -126,43 +130,7 @@ const performanceMiddleware: MCPMiddleware = {
 };
 
 // State Validation Middleware
-const validationMiddleware: MCPMiddleware = {
-  name: 'validation',
-  execute: async <T>(action: MCPAction<T>, next: (action: MCPAction<T>) => Promise<void>) => {
-    if (!mcpConfig.stateValidation) {
-      await next(action);
-      return;
-    }
-
-    // Pre-action validation
-    if (!action.type || !action.id || !action.timestamp) {
-      throw new Error(`Invalid action structure: ${JSON.stringify(action)}`);
-    }
-
-    // Validate payload based on action type
-    switch (action.type) {
-      case 'placeElement':
-        if (!action.payload.element || !action.payload.position) {
-          throw new Error('placeElement action requires element and position');
-        }
-        break;
-      
-      case 'removeElement':
-        if (!action.payload.elementId) {
-          throw new Error('removeElement action requires elementId');
-        }
-        break;
-      
-      case 'updateSettings':
-        if (!action.payload.settings) {
-          throw new Error('updateSettings action requires settings');
-        }
-        break;
-    }
-
-    await next(action);
-  }
-};
+const validationMiddleware = createValidationMiddleware(mcpConfig);
 
 // Enhanced Error Recovery Middleware
 const errorRecoveryMiddleware: MCPMiddleware = {
@@ -261,12 +229,18 @@ const debugStateMiddleware: MCPMiddleware = {
   }
 };
 
+export interface MCPInitOptions {
+  // How the store and MCP stay in step; mirror keeps the store in charge
+  bridgeMode?: MCPBridgeMode;
+}
+
 // Initialize MCP System
-export const initializeMCP = async (): Promise<void> => {
+export const initializeMCP = async (options: MCPInitOptions = {}): Promise<void> => {
   try {
     console.log('[MCP Config] Initializing Kiro MCP system...');
 
     // Add middleware to engine in order of execution
+    mcpEngine.addMiddleware(sessionRecorder.middleware);
     mcpEngine.addMiddleware(loggingMiddleware);
     mcpEngine.addMiddleware(debugStateMiddleware);
     mcpEngine.addMiddleware(performanceMiddleware);
@@ -280,7 +254,12 @@ export const initializeMCP = async (): Promise<void> => {
     mcpEngine.registerModule(steeringModule);
 
     // Initialize bridge
-    mcpZustandBridge.initialize();
+    mcpZustandBridge.initialize(options.bridgeMode);
+
+    // Keep the action log across reloads for the debug panel
+    if (FEATURES.DEBUG_MODE) {
+      startDebugSessionAutosave();
+    }
 
     console.log('[MCP Config] ✅ Kiro MCP system initialized successfully');
 
@@ -305,6 +284,7 @@ export const cleanupMCP = (): void => {
     
     // Disconnect bridge
     mcpZustandBridge.disconnect();
+    debugSessionAutosave.stop();
     
     // Unregister modules
     mcpEngine.unregisterModule('altar');
@@ -313,6 +293,7 @@ export const cleanupMCP = (): void => {
     mcpEngine.unregisterModule('steering');
     
     // Remove middleware
+    mcpEngine.removeMiddleware(sessionRecorder.middleware.name);
     mcpEngine.removeMiddleware('logging');
     mcpEngine.removeMiddleware('debugState');
     mcpEngine.removeMiddleware('performance');
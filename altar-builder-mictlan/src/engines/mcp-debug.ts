@@ -19,6 +19,8 @@ export interface MCPDebugInfo {
   stateSnapshot?: any;
   memoryUsage?: number;
   stackTrace?: string;
+  // The dispatched action itself, so it can be replayed
+  action?: MCPAction;
 }
 
 export interface MCPStateTransition {
@@ -40,12 +42,41 @@ export interface MCPPerformanceAlert {
   moduleName?: string;
 }
 
+/**
+ * One dispatched action as the debug panel lists it: how it went and, when
+ * it changed a module, that module's state before and after
+ */
+export interface MCPActionLogEntry {
+  action: MCPAction;
+  timestamp: Date;
+  duration: number;
+  success: boolean;
+  error?: string;
+  moduleName?: string;
+  previousState?: unknown;
+  newState?: unknown;
+  stateDiff?: unknown;
+}
+
+/**
+ * An action log with the alerts raised while it was written, as kept
+ * between page loads and exported for bug reports
+ */
+export interface MCPDebugSession {
+  id: string;
+  startedAt: Date;
+  updatedAt: Date;
+  entries: MCPActionLogEntry[];
+  alerts: MCPPerformanceAlert[];
+}
+
 // MCP Debug Logger Class
 export class MCPDebugLogger {
   private debugHistory: MCPDebugInfo[] = [];
   private stateTransitions: MCPStateTransition[] = [];
   private performanceAlerts: MCPPerformanceAlert[] = [];
   private errorCount = new Map<string, number>();
+  private changeListeners = new Set<() => void>();
   private config: MCPConfig;
   private maxHistorySize = 1000;
   private maxTransitionSize = 500;
@@ -73,7 +104,8 @@ export class MCPDebugLogger {
       error,
       stateSnapshot: this.config.stateValidation ? this.deepClone(stateSnapshot) : undefined,
       memoryUsage: this.getMemoryUsage(),
-      stackTrace: error ? new Error().stack : undefined
+      stackTrace: error ? new Error().stack : undefined,
+      action: this.deepClone(action)
     };
 
     this.debugHistory.push(debugInfo);
@@ -89,6 +121,8 @@ export class MCPDebugLogger {
 
     // Check for performance issues
     this.checkPerformanceThresholds(debugInfo);
+
+    this.notifyChange();
   }
 
   // Log state transitions with diff analysis
@@ -135,6 +169,36 @@ export class MCPDebugLogger {
     return [...this.performanceAlerts];
   }
 
+  // Get dispatched actions joined with their state transitions, oldest first
+  getActionLog(): MCPActionLogEntry[] {
+    const transitions = new Map(this.stateTransitions.map(transition => [transition.actionId, transition]));
+
+    return this.debugHistory.flatMap(info => {
+      if (!info.action) return [];
+
+      const transition = transitions.get(info.actionId);
+      return [{
+        action: info.action,
+        timestamp: info.timestamp,
+        duration: info.duration,
+        success: info.success,
+        error: info.error?.message,
+        moduleName: transition?.moduleName,
+        previousState: transition?.previousState,
+        newState: transition?.newState,
+        stateDiff: transition?.stateDiff
+      }];
+    });
+  }
+
+  // Listen for new log entries; returns a function that stops listening
+  onChange(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
   // Get error statistics
   getErrorStatistics(): { actionType: string; count: number; lastOccurrence: Date }[] {
     const stats: { actionType: string; count: number; lastOccurrence: Date }[] = [];
@@ -161,6 +225,7 @@ export class MCPDebugLogger {
     this.performanceAlerts = [];
     this.errorCount.clear();
     console.log('[MCP Debug] History cleared');
+    this.notifyChange();
   }
 
   // Export debug data for analysis
@@ -204,6 +269,16 @@ export class MCPDebugLogger {
     }
   }
 
+  private notifyChange(): void {
+    this.changeListeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('[MCP Debug] Error in change listener:', error);
+      }
+    });
+  }
+
   private trackError(actionType: string, error: MCPError): void {
     const currentCount = this.errorCount.get(actionType) || 0;
     this.errorCount.set(actionType, currentCount + 1);
@@ -327,6 +402,7 @@ export class MCPDebugLogger {
 // MCP Error Recovery System
 export class MCPErrorRecovery {
   private stateSnapshots = new Map<string, any>();
+  private transactionSnapshots = new Map<string, Map<string, unknown>>();
   private recoveryStrategies = new Map<string, (error: MCPError) => Promise<boolean>>();
   private config: MCPConfig;
 
@@ -352,6 +428,30 @@ export class MCPErrorRecovery {
     return null;
   }
 
+  // Snapshot every module a transaction may touch. Unlike per-action
+  // snapshots these are always taken, since a transaction promises to be
+  // all-or-nothing whatever rollbackOnError says.
+  createTransactionSnapshot(transactionId: string, states: [string, unknown][]): void {
+    this.transactionSnapshots.set(
+      transactionId,
+      new Map(states.map(([moduleName, state]) => [moduleName, this.deepClone(state)]))
+    );
+  }
+
+  // Module states from before a transaction, keyed by module name
+  rollbackTransaction(transactionId: string): Map<string, unknown> | null {
+    const snapshot = this.transactionSnapshots.get(transactionId);
+    if (snapshot) {
+      console.warn(`[MCP Recovery] Rolling back transaction ${transactionId} for modules: ${Array.from(snapshot.keys()).join(', ')}`);
+      return this.deepClone(snapshot);
+    }
+    return null;
+  }
+
+  clearTransactionSnapshot(transactionId: string): void {
+    this.transactionSnapshots.delete(transactionId);
+  }
+
   // Register a custom recovery strategy
   registerRecoveryStrategy(
     errorType: string,
@@ -4,12 +4,32 @@ import type {
   MCPEngine,
   MCPModule,
   MCPAction,
+  MCPActionOf,
+  MCPActionResult,
+  MCPActionType,
+  TypedMCPAction,
   MCPMiddleware,
   MCPError,
   MCPConfig,
   MCPPerformanceMetrics
 } from '../types/mcp';
 import { MCPDebugLogger, MCPErrorRecovery, MCPPerformanceOptimizer } from './mcp-debug';
+import { MCPActionRegistry } from './mcp-action-registry';
+
+interface QueuedBatch {
+  actions: MCPAction[];
+  // Whether the actions form a transaction
+  atomic: boolean;
+  // Called with the new module state of a single action
+  resolve: (result?: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+// Bookkeeping for the transaction an action runs in
+interface TransactionContext {
+  touched: Set<string>;
+  applied: MCPAction[];
+}
 
 export class KiroMCPEngine implements MCPEngine {
   public modules = new Map<string, MCPModule>();
@@ -19,6 +39,10 @@ export class KiroMCPEngine implements MCPEngine {
   private performanceMetrics: MCPPerformanceMetrics;
   private actionHistory: MCPAction[] = [];
   private isProcessing = false;
+  private queue: QueuedBatch[] = [];
+  private actionRegistry = new MCPActionRegistry();
+  // Bumped on every commit to a module, never reset while it is registered
+  private stateVersions = new Map<string, number>();
   
   // Enhanced debugging and error handling
   private debugLogger: MCPDebugLogger;
@@ -59,8 +83,16 @@ export class KiroMCPEngine implements MCPEngine {
       throw new Error(`Module ${module.name} is already registered`);
     }
 
+    module.actionDefinitions?.forEach(definition => {
+      if (definition.module !== module.name) {
+        throw new Error(`Module ${module.name} declares action ${definition.type} owned by ${definition.module}`);
+      }
+    });
+    module.actionDefinitions?.forEach(definition => this.actionRegistry.register(definition));
+
     this.modules.set(module.name, module);
     this.subscribers.set(module.name, new Set());
+    this.stateVersions.set(module.name, 0);
 
     if (this.config.enableLogging) {
       console.log(`[MCP Engine] Registered module: ${module.name}`);
@@ -75,20 +107,134 @@ export class KiroMCPEngine implements MCPEngine {
 
     this.modules.delete(moduleName);
     this.subscribers.delete(moduleName);
+    this.stateVersions.delete(moduleName);
+    this.actionRegistry.unregisterModule(moduleName);
 
     if (this.config.enableLogging) {
       console.log(`[MCP Engine] Unregistered module: ${moduleName}`);
     }
   }
 
-  async dispatch<T>(action: MCPAction<T>): Promise<void> {
-    if (this.isProcessing) {
-      // Queue the action if engine is busy
-      setTimeout(() => this.dispatch(action), 10);
-      return;
-    }
+  /**
+   * Queue an action; resolves with the new state of its module once it
+   * has been applied, rejects with an MCPError if it fails
+   */
+  dispatch<K extends MCPActionType>(action: MCPActionOf<K>): Promise<MCPActionResult<K>> {
+    return this.enqueue([action], false) as Promise<MCPActionResult<K>>;
+  }
+
+  /**
+   * Queue a batch of actions that is applied all together or not at all.
+   * Subscribers only hear about the batch once it commits; if any action
+   * fails, every module it touched is rolled back to where it was before
+   * the batch and the promise rejects with the failure.
+   */
+  transaction(actions: TypedMCPAction[]): Promise<void> {
+    return this.enqueue(actions, true) as Promise<void>;
+  }
+
+  // Actions the registered modules handle, with their payload schemas
+  getActionRegistry(): MCPActionRegistry {
+    return this.actionRegistry;
+  }
+
+  // Number of queued batches still waiting to run
+  getQueueLength(): number {
+    return this.queue.length;
+  }
 
+  private enqueue(actions: MCPAction[], atomic: boolean): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ actions, atomic, resolve, reject });
+      void this.processQueue();
+    });
+  }
+
+  // Runs queued batches one at a time, in the order they were queued.
+  // Middleware must not await a dispatch of its own, since that action
+  // waits behind the one the middleware is running for.
+  private async processQueue(): Promise<void> {
+    if (this.isProcessing) return;
     this.isProcessing = true;
+
+    try {
+      let batch: QueuedBatch | undefined;
+      while ((batch = this.queue.shift())) {
+        try {
+          if (batch.atomic) {
+            await this.runTransaction(batch.actions);
+            batch.resolve();
+          } else {
+            batch.resolve(await this.execute(batch.actions[0]));
+          }
+        } catch (error) {
+          batch.reject(error);
+        }
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async runTransaction(actions: MCPAction[]): Promise<void> {
+    if (actions.length === 0) return;
+
+    const transactionId = `tx-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const modules = new Map<string, MCPModule>();
+    actions.forEach(action => {
+      const module = this.findTargetModule(action.type);
+      if (module) modules.set(module.name, module);
+    });
+
+    this.errorRecovery.createTransactionSnapshot(
+      transactionId,
+      Array.from(modules.values()).map(module => [module.name, module.state])
+    );
+    const transaction: TransactionContext = { touched: new Set(), applied: [] };
+
+    try {
+      for (const action of actions) {
+        await this.execute(action, transaction);
+      }
+    } catch (error) {
+      const snapshot = this.errorRecovery.rollbackTransaction(transactionId);
+      snapshot?.forEach((state, moduleName) => {
+        const module = this.modules.get(moduleName);
+        if (module) module.state = state;
+      });
+      console.warn(`[MCP Engine] Rolled back transaction of ${actions.length} actions`);
+
+      const cause = error as MCPError;
+      const transactionError: MCPError = {
+        type: 'action_failed',
+        message: `Transaction rolled back: ${cause?.message ?? 'Unknown error'}`,
+        action: cause?.action,
+        timestamp: new Date(),
+        recoverable: false
+      };
+      throw transactionError;
+    } finally {
+      this.errorRecovery.clearTransactionSnapshot(transactionId);
+    }
+
+    this.commit(Array.from(transaction.touched), transaction.applied);
+  }
+
+  // Publish applied actions: bump versions, notify subscribers and record history
+  private commit(moduleNames: string[], actions: MCPAction[]): void {
+    moduleNames.forEach(moduleName => this.bumpVersion(moduleName));
+    moduleNames.forEach(moduleName => {
+      const module = this.modules.get(moduleName);
+      if (module) this.notifySubscribers(moduleName, module.state);
+    });
+
+    this.actionHistory.push(...actions);
+    if (this.actionHistory.length > 100) {
+      this.actionHistory.splice(0, this.actionHistory.length - 100); // Keep only last 100 actions
+    }
+  }
+
+  private async execute(action: MCPAction, transaction?: TransactionContext): Promise<unknown> {
     const startTime = performance.now();
     let targetModule: MCPModule | undefined;
     let previousState: any = null;
@@ -97,7 +243,20 @@ export class KiroMCPEngine implements MCPEngine {
 
     try {
       if (this.config.enableLogging) {
-        console.log(`[MCP Engine] Dispatching action: ${action.type}`, action);
+        console.log(`[MCP Engine] Dispatching action: ${action?.type}`, action);
+      }
+
+      // Reject unknown and malformed actions before anything sees them
+      const invalid = this.actionRegistry.validate(action);
+      if (invalid) {
+        actionError = {
+          type: 'validation_error',
+          message: invalid,
+          action,
+          timestamp: new Date(),
+          recoverable: false
+        };
+        throw actionError;
       }
 
       // Execute middleware chain
@@ -116,11 +275,13 @@ export class KiroMCPEngine implements MCPEngine {
       }
 
       try {
-        // Log state transition (before)
-        const preActionState = JSON.parse(JSON.stringify(targetModule.state));
+        // Log state transition (before). Reducers return new state, so the
+        // current object stays as it is; the logger clones it with its dates
+        const preActionState = targetModule.state;
 
         // Execute the action through the module's reducer
-        const newState = targetModule.reducer(targetModule.state, action);
+        // The registry has checked the payload against the action type
+        const newState = targetModule.reducer(targetModule.state, action as TypedMCPAction);
         
         // Validate new state if enabled
         if (this.config.stateValidation) {
@@ -138,22 +299,22 @@ export class KiroMCPEngine implements MCPEngine {
           newState
         );
 
-        // Notify subscribers
-        this.notifySubscribers(targetModule.name, newState);
-
-        // Add to action history
-        this.actionHistory.push(action);
-        if (this.actionHistory.length > 100) {
-          this.actionHistory.shift(); // Keep only last 100 actions
+        if (transaction) {
+          // Held back until the whole transaction commits
+          transaction.touched.add(targetModule.name);
+          transaction.applied.push(action);
+        } else {
+          this.commit([targetModule.name], [action]);
         }
 
         actionSuccess = true;
+        return newState;
 
       } catch (error) {
         actionSuccess = false;
         
-        // Create MCP error
-        actionError = {
+        // Create MCP error, keeping the one a reducer rejected the action with
+        actionError = isMCPError(error) ? { ...error, action } : {
           type: 'action_failed',
           message: error instanceof Error ? error.message : 'Unknown error',
           action,
@@ -209,8 +370,6 @@ export class KiroMCPEngine implements MCPEngine {
         actionError,
         targetModule?.state
       );
-
-      this.isProcessing = false;
     }
   }
 
@@ -234,6 +393,38 @@ export class KiroMCPEngine implements MCPEngine {
     };
   }
 
+  /**
+   * Version of a module's state, which grows by one with every commit.
+   * Subscribers can compare it to tell fresh state from state they have
+   * already seen.
+   */
+  getStateVersion(moduleName: string): number {
+    return this.stateVersions.get(moduleName) ?? 0;
+  }
+
+  /**
+   * Replace a module's state outside of any action, e.g. to seed it from
+   * another store. Bumps the version but does not notify subscribers, since
+   * the caller is where the state came from. Given an action that describes
+   * the change, the replacement is logged as that action having run, so it
+   * shows up in the action log with the state before and after it.
+   */
+  replaceState<T>(moduleName: string, state: T, action?: TypedMCPAction): void {
+    const module = this.modules.get(moduleName);
+    if (!module) {
+      throw new Error(`Module ${moduleName} not found`);
+    }
+
+    const previousState = module.state;
+    module.state = state;
+    this.bumpVersion(moduleName);
+
+    if (action) {
+      this.debugLogger.logStateTransition(action.id, moduleName, previousState, state);
+      this.debugLogger.logActionExecution(action, 0, true, undefined, state);
+    }
+  }
+
   getState<T>(moduleName: string): T {
     const module = this.modules.get(moduleName);
     if (!module) {
@@ -356,35 +547,15 @@ export class KiroMCPEngine implements MCPEngine {
   }
 
   private findTargetModule(actionType: string): MCPModule | undefined {
-    // Map action types to modules
-    const actionModuleMap: Record<string, string> = {
-      // Altar actions
-      'placeElement': 'altar',
-      'removeElement': 'altar',
-      'clearAltar': 'altar',
-      'validateComposition': 'altar',
-      'restoreAltar': 'altar',
-      
-      // User actions
-      'updateSettings': 'user',
-      'unlockAchievement': 'user',
-      'saveProgress': 'user',
-      'resetSession': 'user',
-      
-      // Collaboration actions
-      'joinRoom': 'collaboration',
-      'leaveRoom': 'collaboration',
-      'syncState': 'collaboration',
-      'broadcastCursor': 'collaboration',
-      
-      // Steering actions
-      'spawnMariposa': 'steering',
-      'updateBehavior': 'steering',
-      'optimizePerformance': 'steering'
-    };
+    const definition = this.actionRegistry.get(actionType);
+    return definition ? this.modules.get(definition.module) : undefined;
+  }
 
-    const moduleName = actionModuleMap[actionType];
-    return moduleName ? this.modules.get(moduleName) : undefined;
+  private bumpVersion(moduleName: string): void {
+    const version = this.stateVersions.get(moduleName);
+    if (version !== undefined) {
+      this.stateVersions.set(moduleName, version + 1);
+    }
   }
 
   private notifySubscribers(moduleName: string, newState: any): void {
@@ -468,5 +639,12 @@ export class KiroMCPEngine implements MCPEngine {
   }
 }
 
+function isMCPError(error: unknown): error is MCPError {
+  return !!error && typeof error === 'object' &&
+    typeof (error as MCPError).type === 'string' &&
+    typeof (error as MCPError).message === 'string' &&
+    typeof (error as MCPError).recoverable === 'boolean';
+}
+
 // Default MCP Engine instance
 export const mcpEngine = new KiroMCPEngine();
\ No newline at end of file
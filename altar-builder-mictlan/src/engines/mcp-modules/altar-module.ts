@@ -4,17 +4,27 @@ import type {
   AltarMCPModule,
   AltarState,
   AltarActions,
-  MCPAction,
+  MCPActionOf,
+  MCPError,
+  TypedMCPAction,
   PlaceElementPayload,
-  RemoveElementPayload
+  RemoveElementPayload,
+  MoveElementPayload,
+  UpdateDimensionsPayload,
+  EmptyPayload
 } from '../../types/mcp';
-import type { PlacedElement, GridDimensions } from '../../types';
-import { validateElementPlacement } from '../../utils/element-validation';
+import type { PlacedElement, GridDimensions, OfrendarElement } from '../../types';
+import { defineModuleActions } from '../mcp-action-registry';
+import { schema, gridPositionSchema, placedElementSchema } from '../mcp-schema';
+import { validateElementPlacement, validateElementMove } from '../../utils/element-validation';
+import { getElementForPlaced } from '../../data/elements';
+import { evaluateAltar, isAltarComplete } from '../../utils/altar-scoring';
 import { getResponsiveGridDimensions } from '../../utils/grid-utils';
 
 // Initial altar state
 const initialAltarState: AltarState = {
-  dimensions: getResponsiveGridDimensions(window.innerWidth),
+  // Outside the browser, e.g. in the MCP server, use the full desktop grid
+  dimensions: getResponsiveGridDimensions(typeof window !== 'undefined' ? window.innerWidth : Infinity),
   placedElements: [],
   lastModified: new Date(),
   version: 1
@@ -22,7 +32,7 @@ const initialAltarState: AltarState = {
 
 // Altar actions implementation
 const altarActions: AltarActions = {
-  placeElement: (payload: PlaceElementPayload): MCPAction<PlaceElementPayload> => ({
+  placeElement: (payload: PlaceElementPayload): MCPActionOf<'placeElement'> => ({
     type: 'placeElement',
     payload,
     timestamp: new Date(),
@@ -30,7 +40,7 @@ const altarActions: AltarActions = {
     source: payload.userId ? 'remote' : 'local'
   }),
 
-  removeElement: (payload: RemoveElementPayload): MCPAction<RemoveElementPayload> => ({
+  removeElement: (payload: RemoveElementPayload): MCPActionOf<'removeElement'> => ({
     type: 'removeElement',
     payload,
     timestamp: new Date(),
@@ -38,7 +48,15 @@ const altarActions: AltarActions = {
     source: payload.userId ? 'remote' : 'local'
   }),
 
-  clearAltar: (): MCPAction<{}> => ({
+  moveElement: (payload: MoveElementPayload): MCPActionOf<'moveElement'> => ({
+    type: 'moveElement',
+    payload,
+    timestamp: new Date(),
+    id: `move-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    source: payload.userId ? 'remote' : 'local'
+  }),
+
+  clearAltar: (): MCPActionOf<'clearAltar'> => ({
     type: 'clearAltar',
     payload: {},
     timestamp: new Date(),
@@ -46,7 +64,7 @@ const altarActions: AltarActions = {
     source: 'local'
   }),
 
-  validateComposition: (elements: PlacedElement[]): MCPAction<{ elements: PlacedElement[] }> => ({
+  validateComposition: (elements: PlacedElement[]): MCPActionOf<'validateComposition'> => ({
     type: 'validateComposition',
     payload: { elements },
     timestamp: new Date(),
@@ -54,20 +72,37 @@ const altarActions: AltarActions = {
     source: 'local'
   }),
 
-  restoreAltar: (elements: PlacedElement[]): MCPAction<{ elements: PlacedElement[] }> => ({
+  restoreAltar: (elements: PlacedElement[]): MCPActionOf<'restoreAltar'> => ({
     type: 'restoreAltar',
     payload: { elements },
     timestamp: new Date(),
     id: `restore-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
     source: 'local'
+  }),
+
+  updateDimensions: (dimensions: GridDimensions): MCPActionOf<'updateDimensions'> => ({
+    type: 'updateDimensions',
+    payload: { dimensions },
+    timestamp: new Date(),
+    id: `dimensions-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    source: 'local'
   })
 };
 
+// Reducers reject an action by throwing, so its dispatch or transaction fails
+const rejectAction = (action: TypedMCPAction, message: string): MCPError => ({
+  type: 'validation_error',
+  message,
+  action,
+  timestamp: new Date(),
+  recoverable: false
+});
+
 // Altar state reducer
-const altarReducer = (state: AltarState, action: MCPAction): AltarState => {
+const altarReducer = (state: AltarState, action: TypedMCPAction): AltarState => {
   switch (action.type) {
     case 'placeElement': {
-      const { element, position, userId } = action.payload as PlaceElementPayload;
+      const { element, position, userId, id, placedAt } = action.payload;
       
       // Validate placement
       const validation = validateElementPlacement(
@@ -78,16 +113,16 @@ const altarReducer = (state: AltarState, action: MCPAction): AltarState => {
       );
 
       if (!validation.isValid) {
-        console.warn('[Altar Module] Invalid placement:', validation.reason);
-        return state; // Return unchanged state for invalid placements
+        throw rejectAction(action, validation.reason ?? `Cannot place ${element.name} there`);
       }
 
       // Create new placed element
       const placedElement: PlacedElement = {
-        id: `${element.id}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        id: id ?? `${element.id}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
         elementType: element.type,
+        ...(element.custom ? { customElementId: element.custom.id } : {}),
         position,
-        placedAt: new Date()
+        placedAt: placedAt ? new Date(placedAt) : new Date()
       };
 
       return {
@@ -99,7 +134,7 @@ const altarReducer = (state: AltarState, action: MCPAction): AltarState => {
     }
 
     case 'removeElement': {
-      const { elementId } = action.payload as RemoveElementPayload;
+      const { elementId } = action.payload;
       
       return {
         ...state,
@@ -109,6 +144,37 @@ const altarReducer = (state: AltarState, action: MCPAction): AltarState => {
       };
     }
 
+    case 'moveElement': {
+      const { elementId, position, element: movedElement } = action.payload;
+      const current = state.placedElements.find(el => el.id === elementId);
+      const element = current && (movedElement ?? getElementForPlaced(current));
+
+      if (!current || !element) {
+        throw rejectAction(action, `Cannot move unknown element ${elementId}`);
+      }
+
+      const validation = validateElementMove(
+        element,
+        elementId,
+        position,
+        state.placedElements,
+        state.dimensions
+      );
+
+      if (!validation.isValid) {
+        throw rejectAction(action, validation.reason ?? `Cannot move ${element.name} there`);
+      }
+
+      return {
+        ...state,
+        placedElements: state.placedElements.map(el =>
+          el.id === elementId ? { ...el, position } : el
+        ),
+        lastModified: new Date(),
+        version: state.version + 1
+      };
+    }
+
     case 'clearAltar': {
       return {
         ...state,
@@ -126,7 +192,7 @@ const altarReducer = (state: AltarState, action: MCPAction): AltarState => {
     }
 
     case 'restoreAltar': {
-      const { elements } = action.payload as { elements: PlacedElement[] };
+      const { elements } = action.payload;
       
       return {
         ...state,
@@ -136,18 +202,89 @@ const altarReducer = (state: AltarState, action: MCPAction): AltarState => {
       };
     }
 
+    case 'updateDimensions': {
+      return {
+        ...state,
+        dimensions: action.payload.dimensions,
+        lastModified: new Date(),
+        version: state.version + 1
+      };
+    }
+
     default:
       console.warn('[Altar Module] Unknown action type:', action.type);
       return state;
   }
 };
 
+// Actions this module handles, with their payload schemas
+const elementSchema = schema.objectWith<OfrendarElement>({
+  id: schema.string(),
+  type: schema.string()
+});
+
+const altarActionDefinitions = defineModuleActions('altar', {
+  placeElement: {
+    description: 'Place an element on a cell of the altar grid',
+    payload: schema.object<PlaceElementPayload>({
+      element: elementSchema,
+      position: gridPositionSchema,
+      userId: schema.optional(schema.string()),
+      id: schema.optional(schema.string()),
+      placedAt: schema.optional(schema.date())
+    })
+  },
+  removeElement: {
+    description: 'Remove a placed element from the altar',
+    payload: schema.object<RemoveElementPayload>({
+      elementId: schema.string(),
+      userId: schema.optional(schema.string())
+    })
+  },
+  moveElement: {
+    description: 'Move a placed element to another cell',
+    payload: schema.object<MoveElementPayload>({
+      elementId: schema.string(),
+      position: gridPositionSchema,
+      userId: schema.optional(schema.string()),
+      element: schema.optional(elementSchema)
+    })
+  },
+  clearAltar: {
+    description: 'Remove every element from the altar',
+    payload: schema.object<EmptyPayload>({})
+  },
+  validateComposition: {
+    description: 'Check the composition of a set of placed elements',
+    payload: schema.object<{ elements: PlacedElement[] }>({
+      elements: schema.array(placedElementSchema)
+    })
+  },
+  restoreAltar: {
+    description: 'Replace the whole altar with a set of placed elements',
+    payload: schema.object<{ elements: PlacedElement[] }>({
+      elements: schema.array(placedElementSchema)
+    })
+  },
+  updateDimensions: {
+    description: 'Resize the altar grid or change its template',
+    payload: schema.object<UpdateDimensionsPayload>({
+      dimensions: schema.objectWith<GridDimensions>({
+        rows: schema.number(),
+        cols: schema.number(),
+        template: schema.optional(schema.literal('two-level', 'three-level', 'seven-level'))
+      })
+    })
+  }
+});
+
 // Create and export the altar module
 export const altarModule: AltarMCPModule = {
   name: 'altar',
   state: initialAltarState,
   actions: altarActions,
   reducer: altarReducer,
+  actionDefinitions: altarActionDefinitions,
   middleware: []
 };
 
@@ -158,61 +295,18 @@ export const altarHelpers = {
     return state.placedElements.filter(el => el.elementType === elementType).length;
   },
 
-  // Check if altar is complete (has minimum required elements)
+  // Check if altar is complete (has the essential elements)
   isAltarComplete: (state: AltarState): boolean => {
-    const hasVela = state.placedElements.some(el => el.elementType === 'vela');
-    const hasFoto = state.placedElements.some(el => el.elementType === 'foto' || el.elementType === 'retrato_principal');
-    const hasOfrenda = state.placedElements.some(el => 
-      ['pan_de_muerto', 'comida', 'bebida'].includes(el.elementType)
-    );
-    
-    return hasVela && hasFoto && hasOfrenda;
+    return isAltarComplete(state.placedElements, state.dimensions);
   },
 
   // Calculate altar score based on composition
   calculateAltarScore: (state: AltarState): number => {
-    let score = 0;
-    
-    // Base score for having elements
-    score += state.placedElements.length * 10;
-    
-    // Bonus for complete altar
-    if (altarHelpers.isAltarComplete(state)) {
-      score += 100;
-    }
-    
-    // Bonus for traditional elements
-    const traditionalElements = ['vela', 'flor', 'foto', 'pan_de_muerto', 'agua'];
-    const traditionalCount = state.placedElements.filter(el => 
-      traditionalElements.includes(el.elementType)
-    ).length;
-    score += traditionalCount * 20;
-    
-    // Bonus for proper candle placement (top or bottom rows)
-    const properCandles = state.placedElements.filter(el => 
-      el.elementType === 'vela' && 
-      (el.position.row === 0 || el.position.row === state.dimensions.rows - 1)
-    ).length;
-    score += properCandles * 15;
-    
-    return Math.max(0, score);
+    return evaluateAltar(state.placedElements, state.dimensions).score;
   },
 
   // Get cultural authenticity rating
   getCulturalAuthenticity: (state: AltarState): number => {
-    const requiredElements = ['vela', 'foto', 'flor', 'agua'];
-    const presentElements = new Set(state.placedElements.map(el => el.elementType));
-    
-    const requiredPresent = requiredElements.filter(el => presentElements.has(el)).length;
-    const authenticity = (requiredPresent / requiredElements.length) * 100;
-    
-    // Bonus for having retrato principal in top center
-    const retratoInCenter = state.placedElements.some(el => 
-      el.elementType === 'retrato_principal' && 
-      el.position.row === 0 && 
-      el.position.col === Math.floor(state.dimensions.cols / 2)
-    );
-    
-    return Math.min(100, authenticity + (retratoInCenter ? 10 : 0));
+    return evaluateAltar(state.placedElements, state.dimensions).culturalAuthenticity;
   }
-};
\ No newline at end of file
+};
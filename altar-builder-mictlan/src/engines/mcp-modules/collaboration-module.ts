@@ -4,13 +4,19 @@ import type {
   CollaborationMCPModule,
   CollaborationState,
   CollaborationActions,
-  MCPAction,
+  MCPActionOf,
+  TypedMCPAction,
   JoinRoomPayload,
   SyncStatePayload,
   BroadcastCursorPayload,
   CollaborationPeer,
-  CursorPosition
+  CursorPosition,
+  AltarState,
+  UserState
 } from '../../types/mcp';
+import type { GridDimensions } from '../../types';
+import { defineModuleActions } from '../mcp-action-registry';
+import { schema, gridPositionSchema, placedElementSchema } from '../mcp-schema';
 
 // Initial collaboration state
 const initialCollaborationState: CollaborationState = {
@@ -23,7 +29,7 @@ const initialCollaborationState: CollaborationState = {
 
 // Collaboration actions implementation
 const collaborationActions: CollaborationActions = {
-  joinRoom: (payload: JoinRoomPayload): MCPAction<JoinRoomPayload> => ({
+  joinRoom: (payload: JoinRoomPayload): MCPActionOf<'joinRoom'> => ({
     type: 'joinRoom',
     payload,
     timestamp: new Date(),
@@ -31,7 +37,7 @@ const collaborationActions: CollaborationActions = {
     source: 'local'
   }),
 
-  leaveRoom: (roomId: string): MCPAction<{ roomId: string }> => ({
+  leaveRoom: (roomId: string): MCPActionOf<'leaveRoom'> => ({
     type: 'leaveRoom',
     payload: { roomId },
     timestamp: new Date(),
@@ -39,7 +45,7 @@ const collaborationActions: CollaborationActions = {
     source: 'local'
   }),
 
-  syncState: (payload: SyncStatePayload): MCPAction<SyncStatePayload> => ({
+  syncState: (payload: SyncStatePayload): MCPActionOf<'syncState'> => ({
     type: 'syncState',
     payload,
     timestamp: new Date(),
@@ -47,7 +53,7 @@ const collaborationActions: CollaborationActions = {
     source: 'remote'
   }),
 
-  broadcastCursor: (payload: BroadcastCursorPayload): MCPAction<BroadcastCursorPayload> => ({
+  broadcastCursor: (payload: BroadcastCursorPayload): MCPActionOf<'broadcastCursor'> => ({
     type: 'broadcastCursor',
     payload,
     timestamp: new Date(),
@@ -57,10 +63,10 @@ const collaborationActions: CollaborationActions = {
 };
 
 // Collaboration state reducer
-const collaborationReducer = (state: CollaborationState, action: MCPAction): CollaborationState => {
+const collaborationReducer = (state: CollaborationState, action: TypedMCPAction): CollaborationState => {
   switch (action.type) {
     case 'joinRoom': {
-      const { roomId, userId, userName } = action.payload as JoinRoomPayload;
+      const { roomId, userId, userName } = action.payload;
       
       // Check if this is the first user (host)
       const isHost = state.peers.length === 0;
@@ -97,7 +103,7 @@ const collaborationReducer = (state: CollaborationState, action: MCPAction): Col
     }
 
     case 'leaveRoom': {
-      const { roomId } = action.payload as { roomId: string };
+      const { roomId } = action.payload;
       
       if (state.roomId !== roomId) {
         console.warn('[Collaboration Module] Leave room called for different room');
@@ -111,7 +117,7 @@ const collaborationReducer = (state: CollaborationState, action: MCPAction): Col
     }
 
     case 'syncState': {
-      const { altarState, userState, timestamp } = action.payload as SyncStatePayload;
+      const { altarState, userState, timestamp } = action.payload;
       
       console.log('[Collaboration Module] Received state sync:', { altarState, userState, timestamp });
       
@@ -121,7 +127,7 @@ const collaborationReducer = (state: CollaborationState, action: MCPAction): Col
     }
 
     case 'broadcastCursor': {
-      const { userId, position, action: cursorAction } = action.payload as BroadcastCursorPayload;
+      const { userId, position, action: cursorAction, cell, elementId } = action.payload;
       
       const newCursors = new Map(state.cursors);
       const cursorPosition: CursorPosition = {
@@ -129,6 +135,8 @@ const collaborationReducer = (state: CollaborationState, action: MCPAction): Col
         y: position.y,
         userId,
         action: cursorAction,
+        // Drag targets only mean something while dragging
+        ...(cursorAction === 'drag' ? { cell, elementId } : {}),
         timestamp: new Date()
       };
       
@@ -146,12 +154,58 @@ const collaborationReducer = (state: CollaborationState, action: MCPAction): Col
   }
 };
 
+// Actions this module handles, with their payload schemas
+const collaborationActionDefinitions = defineModuleActions('collaboration', {
+  joinRoom: {
+    description: 'Join a collaboration room',
+    payload: schema.object<JoinRoomPayload>({
+      roomId: schema.string(),
+      userId: schema.string(),
+      userName: schema.optional(schema.string())
+    })
+  },
+  leaveRoom: {
+    description: 'Leave the current collaboration room',
+    payload: schema.object<{ roomId: string }>({
+      roomId: schema.string()
+    })
+  },
+  syncState: {
+    description: 'Note that state was synced from a peer',
+    payload: schema.object<SyncStatePayload>({
+      altarState: schema.objectWith<AltarState>({
+        dimensions: schema.objectWith<GridDimensions>({
+          rows: schema.number(),
+          cols: schema.number()
+        }),
+        placedElements: schema.array(placedElementSchema)
+      }),
+      userState: schema.objectWith<Partial<UserState>>({}),
+      timestamp: schema.date()
+    })
+  },
+  broadcastCursor: {
+    description: "Update a peer's cursor",
+    payload: schema.object<BroadcastCursorPayload>({
+      userId: schema.string(),
+      position: schema.object<{ x: number; y: number }>({
+        x: schema.number(),
+        y: schema.number()
+      }),
+      action: schema.optional(schema.literal('drag', 'hover', 'click')),
+      cell: schema.optional(gridPositionSchema),
+      elementId: schema.optional(schema.string())
+    })
+  }
+});
+
 // Create and export the collaboration module
 export const collaborationModule: CollaborationMCPModule = {
   name: 'collaboration',
   state: initialCollaborationState,
   actions: collaborationActions,
   reducer: collaborationReducer,
+  actionDefinitions: collaborationActionDefinitions,
   middleware: []
 };
 
@@ -4,9 +4,12 @@ import type {
   SteeringMCPModule,
   SteeringState,
   SteeringActions,
-  MCPAction,
+  MCPActionOf,
+  TypedMCPAction,
   Mariposa
 } from '../../types/mcp';
+import { defineModuleActions } from '../mcp-action-registry';
+import { schema } from '../mcp-schema';
 
 // Initial steering state
 const initialSteeringState: SteeringState = {
@@ -26,7 +29,7 @@ const initialSteeringState: SteeringState = {
 
 // Steering actions implementation
 const steeringActions: SteeringActions = {
-  spawnMariposa: (count: number): MCPAction<{ count: number }> => ({
+  spawnMariposa: (count: number): MCPActionOf<'spawnMariposa'> => ({
     type: 'spawnMariposa',
     payload: { count },
     timestamp: new Date(),
@@ -34,7 +37,7 @@ const steeringActions: SteeringActions = {
     source: 'local'
   }),
 
-  updateBehavior: (settings: Partial<SteeringState['behaviorSettings']>): MCPAction<{ settings: Partial<SteeringState['behaviorSettings']> }> => ({
+  updateBehavior: (settings: Partial<SteeringState['behaviorSettings']>): MCPActionOf<'updateBehavior'> => ({
     type: 'updateBehavior',
     payload: { settings },
     timestamp: new Date(),
@@ -42,7 +45,7 @@ const steeringActions: SteeringActions = {
     source: 'local'
   }),
 
-  optimizePerformance: (metrics: SteeringState['performanceMetrics']): MCPAction<{ metrics: SteeringState['performanceMetrics'] }> => ({
+  optimizePerformance: (metrics: SteeringState['performanceMetrics']): MCPActionOf<'optimizePerformance'> => ({
     type: 'optimizePerformance',
     payload: { metrics },
     timestamp: new Date(),
@@ -52,10 +55,10 @@ const steeringActions: SteeringActions = {
 };
 
 // Steering state reducer
-const steeringReducer = (state: SteeringState, action: MCPAction): SteeringState => {
+const steeringReducer = (state: SteeringState, action: TypedMCPAction): SteeringState => {
   switch (action.type) {
     case 'spawnMariposa': {
-      const { count } = action.payload as { count: number };
+      const { count } = action.payload;
       
       // Don't exceed max count
       const currentCount = state.mariposas.length;
@@ -96,7 +99,7 @@ const steeringReducer = (state: SteeringState, action: MCPAction): SteeringState
     }
 
     case 'updateBehavior': {
-      const { settings } = action.payload as { settings: Partial<SteeringState['behaviorSettings']> };
+      const { settings } = action.payload;
       
       return {
         ...state,
@@ -108,7 +111,7 @@ const steeringReducer = (state: SteeringState, action: MCPAction): SteeringState
     }
 
     case 'optimizePerformance': {
-      const { metrics } = action.payload as { metrics: SteeringState['performanceMetrics'] };
+      const { metrics } = action.payload;
       
       let newState = {
         ...state,
@@ -134,12 +137,44 @@ const steeringReducer = (state: SteeringState, action: MCPAction): SteeringState
   }
 };
 
+// Actions this module handles, with their payload schemas
+const steeringActionDefinitions = defineModuleActions('steering', {
+  spawnMariposa: {
+    description: 'Spawn a number of mariposas',
+    payload: schema.object<{ count: number }>({
+      count: schema.number()
+    })
+  },
+  updateBehavior: {
+    description: 'Tune the steering behavior of the mariposas',
+    payload: schema.object<{ settings: Partial<SteeringState['behaviorSettings']> }>({
+      settings: schema.objectWith<Partial<SteeringState['behaviorSettings']>>({
+        wanderStrength: schema.optional(schema.number()),
+        fleeDistance: schema.optional(schema.number()),
+        separationDistance: schema.optional(schema.number()),
+        maxSpeed: schema.optional(schema.number())
+      })
+    })
+  },
+  optimizePerformance: {
+    description: 'Thin out mariposas based on rendering performance',
+    payload: schema.object<{ metrics: SteeringState['performanceMetrics'] }>({
+      metrics: schema.object<SteeringState['performanceMetrics']>({
+        fps: schema.number(),
+        activeCount: schema.number(),
+        maxCount: schema.number()
+      })
+    })
+  }
+});
+
 // Create and export the steering module
 export const steeringModule: SteeringMCPModule = {
   name: 'steering',
   state: initialSteeringState,
   actions: steeringActions,
   reducer: steeringReducer,
+  actionDefinitions: steeringActionDefinitions,
   middleware: []
 };
 
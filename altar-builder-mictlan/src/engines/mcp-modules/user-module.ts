@@ -4,12 +4,16 @@ import type {
   UserMCPModule,
   UserState,
   UserActions,
-  MCPAction,
+  MCPActionOf,
+  TypedMCPAction,
   UpdateSettingsPayload,
-  UnlockAchievementPayload
+  UnlockAchievementPayload,
+  EmptyPayload
 } from '../../types/mcp';
 import type { UserSettings, Achievement } from '../../types';
 import { ACHIEVEMENTS } from '../../data/achievements';
+import { defineModuleActions } from '../mcp-action-registry';
+import { schema } from '../mcp-schema';
 
 // Initial user state
 const initialUserState: UserState = {
@@ -32,7 +36,7 @@ const initialUserState: UserState = {
 
 // User actions implementation
 const userActions: UserActions = {
-  updateSettings: (payload: UpdateSettingsPayload): MCPAction<UpdateSettingsPayload> => ({
+  updateSettings: (payload: UpdateSettingsPayload): MCPActionOf<'updateSettings'> => ({
     type: 'updateSettings',
     payload,
     timestamp: new Date(),
@@ -40,7 +44,7 @@ const userActions: UserActions = {
     source: payload.userId ? 'remote' : 'local'
   }),
 
-  unlockAchievement: (payload: UnlockAchievementPayload): MCPAction<UnlockAchievementPayload> => ({
+  unlockAchievement: (payload: UnlockAchievementPayload): MCPActionOf<'unlockAchievement'> => ({
     type: 'unlockAchievement',
     payload,
     timestamp: new Date(),
@@ -48,7 +52,7 @@ const userActions: UserActions = {
     source: 'local'
   }),
 
-  saveProgress: (progress: Map<string, number>): MCPAction<{ progress: Map<string, number> }> => ({
+  saveProgress: (progress: Map<string, number>): MCPActionOf<'saveProgress'> => ({
     type: 'saveProgress',
     payload: { progress },
     timestamp: new Date(),
@@ -56,7 +60,7 @@ const userActions: UserActions = {
     source: 'local'
   }),
 
-  resetSession: (): MCPAction<{}> => ({
+  resetSession: (): MCPActionOf<'resetSession'> => ({
     type: 'resetSession',
     payload: {},
     timestamp: new Date(),
@@ -66,10 +70,10 @@ const userActions: UserActions = {
 };
 
 // User state reducer
-const userReducer = (state: UserState, action: MCPAction): UserState => {
+const userReducer = (state: UserState, action: TypedMCPAction): UserState => {
   switch (action.type) {
     case 'updateSettings': {
-      const { settings } = action.payload as UpdateSettingsPayload;
+      const { settings } = action.payload;
       
       return {
         ...state,
@@ -81,7 +85,7 @@ const userReducer = (state: UserState, action: MCPAction): UserState => {
     }
 
     case 'unlockAchievement': {
-      const { achievementId, timestamp } = action.payload as UnlockAchievementPayload;
+      const { achievementId, timestamp } = action.payload;
       
       const updatedAchievements = state.achievements.map(achievement => 
         achievement.id === achievementId && !achievement.unlocked
@@ -102,7 +106,7 @@ const userReducer = (state: UserState, action: MCPAction): UserState => {
     }
 
     case 'saveProgress': {
-      const { progress } = action.payload as { progress: Map<string, number> };
+      const { progress } = action.payload;
       
       return {
         ...state,
@@ -127,12 +131,48 @@ const userReducer = (state: UserState, action: MCPAction): UserState => {
   }
 };
 
+// Actions this module handles, with their payload schemas
+const userActionDefinitions = defineModuleActions('user', {
+  updateSettings: {
+    description: 'Change some of the user settings',
+    payload: schema.object<UpdateSettingsPayload>({
+      settings: schema.objectWith<Partial<UserSettings>>({
+        animationsEnabled: schema.optional(schema.boolean()),
+        audioEnabled: schema.optional(schema.boolean()),
+        volume: schema.optional(schema.number()),
+        theme: schema.optional(schema.literal('light', 'dark', 'auto')),
+        language: schema.optional(schema.string()),
+        reducedMotion: schema.optional(schema.boolean())
+      }),
+      userId: schema.optional(schema.string())
+    })
+  },
+  unlockAchievement: {
+    description: 'Unlock an achievement',
+    payload: schema.object<UnlockAchievementPayload>({
+      achievementId: schema.string(),
+      timestamp: schema.date()
+    })
+  },
+  saveProgress: {
+    description: 'Store progress towards achievements',
+    payload: schema.object<{ progress: Map<string, number> }>({
+      progress: schema.map(schema.number())
+    })
+  },
+  resetSession: {
+    description: 'Start a new building session',
+    payload: schema.object<EmptyPayload>({})
+  }
+});
+
 // Create and export the user module
 export const userModule: UserMCPModule = {
   name: 'user',
   state: initialUserState,
   actions: userActions,
   reducer: userReducer,
+  actionDefinitions: userActionDefinitions,
   middleware: []
 };
 
@@ -0,0 +1,117 @@
+// Payload Schemas for MCP Actions
+//
+// Small runtime checks that mirror the payload types in types/mcp.ts. They
+// only need to catch what a reducer would choke on, so unknown extra keys
+// are allowed and nested domain objects can be checked by their key fields.
+
+import type { MCPSchema } from '../types/mcp';
+import type { GridPosition, PlacedElement } from '../types';
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (value instanceof Date) return 'Date';
+  if (value instanceof Map) return 'Map';
+  return typeof value;
+}
+
+function mismatch(path: string, expected: string, value: unknown): string[] {
+  return [`${path}: expected ${expected}, got ${describe(value)}`];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    !(value instanceof Date) && !(value instanceof Map);
+}
+
+function primitive<T>(expected: string, test: (value: unknown) => boolean): MCPSchema<T> {
+  return {
+    expected,
+    check: (value, path) => (test(value) ? [] : mismatch(path, expected, value))
+  };
+}
+
+function checkFields(
+  value: Record<string, unknown>,
+  shape: Record<string, MCPSchema<unknown> | undefined>,
+  path: string
+): string[] {
+  return Object.entries(shape).flatMap(([key, fieldSchema]) =>
+    fieldSchema ? fieldSchema.check(value[key], `${path}.${key}`) : []
+  );
+}
+
+export const schema = {
+  string: (): MCPSchema<string> =>
+    primitive('string', value => typeof value === 'string'),
+
+  number: (): MCPSchema<number> =>
+    primitive('number', value => typeof value === 'number' && Number.isFinite(value)),
+
+  boolean: (): MCPSchema<boolean> =>
+    primitive('boolean', value => typeof value === 'boolean'),
+
+  // Dates that went through JSON arrive as strings, which are accepted
+  date: (): MCPSchema<Date> =>
+    primitive('date', value =>
+      (value instanceof Date && !isNaN(value.getTime())) ||
+      (typeof value === 'string' && !isNaN(Date.parse(value)))
+    ),
+
+  literal: <T extends string>(...values: T[]): MCPSchema<T> =>
+    primitive(values.map(value => `'${value}'`).join(' | '), value => values.includes(value as T)),
+
+  optional: <T>(inner: MCPSchema<T>): MCPSchema<T | undefined> => ({
+    expected: `${inner.expected} or undefined`,
+    check: (value, path) => (value === undefined ? [] : inner.check(value, path))
+  }),
+
+  array: <T>(item: MCPSchema<T>): MCPSchema<T[]> => ({
+    expected: `${item.expected}[]`,
+    check: (value, path) => Array.isArray(value)
+      ? value.flatMap((entry, index) => item.check(entry, `${path}[${index}]`))
+      : mismatch(path, `${item.expected}[]`, value)
+  }),
+
+  map: <T>(entry: MCPSchema<T>): MCPSchema<Map<string, T>> => ({
+    expected: `Map<string, ${entry.expected}>`,
+    check: (value, path) => value instanceof Map
+      ? Array.from(value).flatMap(([key, entryValue]) => entry.check(entryValue, `${path}.${String(key)}`))
+      : mismatch(path, `Map<string, ${entry.expected}>`, value)
+  }),
+
+  /**
+   * An object with a schema for every key of T, so a payload type and its
+   * schema cannot drift apart without a type error
+   */
+  object: <T>(shape: { [K in keyof T]-?: MCPSchema<T[K]> }): MCPSchema<T> => ({
+    expected: 'object',
+    check: (value, path) => isPlainObject(value)
+      ? checkFields(value, shape, path)
+      : mismatch(path, 'object', value)
+  }),
+
+  /**
+   * An object checked only on the listed keys, for domain objects where a
+   * few key fields identify a valid value
+   */
+  objectWith: <T>(shape: Partial<Record<keyof T, MCPSchema<unknown>>>): MCPSchema<T> => ({
+    expected: 'object',
+    check: (value, path) => isPlainObject(value)
+      ? checkFields(value, shape, path)
+      : mismatch(path, 'object', value)
+  })
+};
+
+// Schemas shared by several modules
+
+export const gridPositionSchema = schema.object<GridPosition>({
+  row: schema.number(),
+  col: schema.number()
+});
+
+export const placedElementSchema = schema.objectWith<PlacedElement>({
+  id: schema.string(),
+  elementType: schema.string(),
+  position: gridPositionSchema
+});
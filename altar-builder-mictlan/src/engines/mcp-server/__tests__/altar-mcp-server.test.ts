@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createAltarMCPServer, MCP_PROTOCOL_VERSIONS, type AltarMCPServer } from '../altar-mcp-server';
+import { JSON_RPC_ERRORS, type JsonRpcResponse } from '../json-rpc';
+import type { AltarState, MCPAction } from '../../../types/mcp';
+
+interface Placed {
+  placed: string;
+}
+
+interface CompositionReport {
+  score: number;
+  complete: boolean;
+  rules: { message: string; culturalSignificance: string }[];
+  recommendations: string[];
+}
+
+let nextId = 1;
+
+const request = (method: string, params?: Record<string, unknown>) =>
+  JSON.stringify({ jsonrpc: '2.0', id: nextId++, method, ...(params ? { params } : {}) });
+
+const callTool = (name: string, args: Record<string, unknown> = {}) =>
+  request('tools/call', { name, arguments: args });
+
+// The JSON a tool call answered with, and whether it failed
+function toolOutput<T>(response: JsonRpcResponse | null): { data: T; isError: boolean } {
+  if (!response || !('result' in response)) {
+    throw new Error(`Expected a tool result, got ${JSON.stringify(response)}`);
+  }
+  const result = response.result as { content: { text: string }[]; isError: boolean };
+  return { data: JSON.parse(result.content[0].text), isError: result.isError };
+}
+
+describe('createAltarMCPServer', () => {
+  let server: AltarMCPServer;
+
+  const altar = () => server.engine.getState<AltarState>('altar');
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    server = createAltarMCPServer();
+  });
+
+  describe('protocol', () => {
+    it('negotiates a supported protocol version and advertises tools', async () => {
+      const response = await server.handle(request('initialize', {
+        protocolVersion: '2024-11-05',
+        capabilities: {},
+        clientInfo: { name: 'test', version: '1.0.0' }
+      }));
+
+      expect(response).toMatchObject({
+        result: {
+          protocolVersion: '2024-11-05',
+          capabilities: { tools: {} },
+          serverInfo: { name: 'altar-builder-mictlan' }
+        }
+      });
+    });
+
+    it('offers its newest version to clients asking for an unknown one', async () => {
+      const response = await server.handle(request('initialize', { protocolVersion: '1999-01-01' }));
+
+      expect(response).toMatchObject({ result: { protocolVersion: MCP_PROTOCOL_VERSIONS[0] } });
+    });
+
+    it('does not answer notifications', async () => {
+      expect(await server.handle(JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }))).toBeNull();
+    });
+
+    it('answers malformed messages and unknown methods with JSON-RPC errors', async () => {
+      expect(await server.handle('{not json')).toMatchObject({
+        id: null,
+        error: { code: JSON_RPC_ERRORS.PARSE_ERROR }
+      });
+      expect(await server.handle(JSON.stringify({ jsonrpc: '1.0', id: 7, method: 'ping' }))).toMatchObject({
+        id: 7,
+        error: { code: JSON_RPC_ERRORS.INVALID_REQUEST }
+      });
+      expect(await server.handle(request('resources/list'))).toMatchObject({
+        error: { code: JSON_RPC_ERRORS.METHOD_NOT_FOUND }
+      });
+    });
+
+    it('lists the altar tools with their input schemas', async () => {
+      const response = await server.handle(request('tools/list'));
+      const { tools } = (response as { result: { tools: { name: string; inputSchema: { type: string } }[] } }).result;
+
+      expect(tools.map(tool => tool.name)).toEqual([
+        'list_elements',
+        'get_altar_state',
+        'place_element',
+        'remove_element',
+        'validate_composition'
+      ]);
+      tools.forEach(tool => expect(tool.inputSchema.type).toBe('object'));
+    });
+
+    it('rejects unknown tools and malformed arguments as invalid params', async () => {
+      expect(await server.handle(callTool('light_candles'))).toMatchObject({
+        error: { code: JSON_RPC_ERRORS.INVALID_PARAMS, message: 'Unknown tool: light_candles' }
+      });
+      expect(await server.handle(callTool('place_element', { elementId: 'vela-1', row: 'top' }))).toMatchObject({
+        error: {
+          code: JSON_RPC_ERRORS.INVALID_PARAMS,
+          message: 'Invalid arguments for place_element: arguments.row: expected number, got string; ' +
+            'arguments.col: expected number, got undefined'
+        }
+      });
+    });
+
+    it('handles pipelined messages in the order they arrive', async () => {
+      const [placed, state] = await Promise.all([
+        server.handle(callTool('place_element', { elementId: 'vela-1', row: 0, col: 0 })),
+        server.handle(callTool('get_altar_state'))
+      ]);
+
+      expect(toolOutput<{ elements: unknown[] }>(state).data.elements).toEqual([
+        expect.objectContaining({ id: toolOutput<Placed>(placed).data.placed, name: 'Vela', row: 0, col: 0 })
+      ]);
+    });
+  });
+
+  describe('tools', () => {
+    it('places catalog elements through the engine middleware', async () => {
+      const seen: MCPAction[] = [];
+      server.engine.addMiddleware({
+        name: 'spy',
+        execute: async (action, next) => {
+          seen.push(action);
+          await next(action);
+        }
+      });
+
+      const { data, isError } = toolOutput<Placed>(await server.handle(callTool('place_element', { elementId: 'vela-1', row: 0, col: 0 })));
+
+      expect(isError).toBe(false);
+      expect(server.engine.getDebugInfo().middleware).toEqual(['validation', 'spy']);
+      expect(seen.map(action => action.type)).toEqual(['placeElement']);
+      expect(altar().placedElements).toEqual([expect.objectContaining({ id: data.placed, elementType: 'vela' })]);
+    });
+
+    it('explains why a placement breaks a cultural rule', async () => {
+      const { data, isError } = toolOutput<{ error: string }>(await server.handle(callTool('place_element', { elementId: 'vela-1', row: 5, col: 0 })));
+
+      expect(isError).toBe(true);
+      expect(data.error).toBe(
+        'Cannot place Vela at row 5, column 0: Candles should be placed on the top or bottom level of the altar'
+      );
+      expect(altar().placedElements).toEqual([]);
+    });
+
+    it('reports unknown elements and placed ids as failed calls', async () => {
+      const unknownElement = toolOutput(await server.handle(callTool('place_element', { elementId: 'piñata-1', row: 0, col: 0 })));
+      const unknownPlaced = toolOutput(await server.handle(callTool('remove_element', { id: 'vela-1-missing' })));
+
+      expect(unknownElement).toEqual({ isError: true, data: { error: 'Unknown element piñata-1; see list_elements for valid ids' } });
+      expect(unknownPlaced).toEqual({ isError: true, data: { error: 'No placed element with id vela-1-missing' } });
+    });
+
+    it('removes a placed element', async () => {
+      const { data } = toolOutput<Placed>(await server.handle(callTool('place_element', { elementId: 'vela-1', row: 0, col: 0 })));
+
+      const removed = toolOutput(await server.handle(callTool('remove_element', { id: data.placed })));
+
+      expect(removed).toEqual({ isError: false, data: { removed: data.placed } });
+      expect(altar().placedElements).toEqual([]);
+    });
+
+    it('lists elements of a category with how many are placed', async () => {
+      await server.handle(callTool('place_element', { elementId: 'vela-1', row: 0, col: 0 }));
+
+      const { data } = toolOutput<{ id: string; category: string }[]>(
+        await server.handle(callTool('list_elements', { category: 'esenciales' }))
+      );
+
+      expect(data.length).toBeGreaterThan(0);
+      data.forEach(element => expect(element.category).toBe('esenciales'));
+      expect(data.find(element => element.id === 'vela-1')).toMatchObject({ maxQuantity: 4, placed: 1 });
+    });
+
+    it('scores the composition with a message for every rule', async () => {
+      await server.handle(callTool('place_element', { elementId: 'vela-1', row: 0, col: 0 }));
+
+      const { data } = toolOutput<CompositionReport>(await server.handle(callTool('validate_composition', { language: 'en' })));
+
+      expect(data.score).toBeGreaterThan(0);
+      expect(data.complete).toBe(false);
+      expect(data.rules.length).toBeGreaterThan(0);
+      data.rules.forEach(rule => {
+        expect(rule.message).toEqual(expect.any(String));
+        expect(rule.culturalSignificance).toEqual(expect.any(String));
+      });
+      expect(data.recommendations.length).toBeGreaterThan(0);
+    });
+  });
+});
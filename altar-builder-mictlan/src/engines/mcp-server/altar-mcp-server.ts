@@ -0,0 +1,152 @@
+import { KiroMCPEngine } from '../mcp-engine';
+import { altarModule } from '../mcp-modules/altar-module';
+import { createValidationMiddleware } from '../mcp-validation-middleware';
+import { ALTAR_TOOLS, type AltarTool } from './altar-tools';
+import {
+  JSON_RPC_ERRORS,
+  JsonRpcError,
+  errorResponse,
+  isJsonRpcResponse,
+  parseJsonRpcRequest,
+  resultResponse,
+  type JsonRpcRequest,
+  type JsonRpcResponse
+} from './json-rpc';
+
+/**
+ * Model Context Protocol server for the altar, so an assistant can list the
+ * ofrenda elements, build an altar with the user and explain its cultural
+ * rules. It owns an engine of its own with the app's altar module and
+ * validation middleware; transports feed it one JSON-RPC message at a time.
+ */
+
+// Newest first; the first one is offered to clients asking for another
+export const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+export const MCP_SERVER_INFO = {
+  name: 'altar-builder-mictlan',
+  version: '1.0.0'
+};
+
+export interface AltarMCPServerOptions {
+  // Engine to build on; by default a fresh one holding an empty altar
+  engine?: KiroMCPEngine;
+  tools?: AltarTool[];
+}
+
+export interface AltarMCPServer {
+  engine: KiroMCPEngine;
+  /**
+   * Handle one incoming message; resolves with the response to send back,
+   * or null for notifications
+   */
+  handle(message: string): Promise<JsonRpcResponse | null>;
+}
+
+export function createAltarEngine(): KiroMCPEngine {
+  const engine = new KiroMCPEngine({
+    enableLogging: false,
+    enablePerformanceMonitoring: false,
+    stateValidation: true
+  });
+
+  engine.addMiddleware(createValidationMiddleware({ stateValidation: true }));
+  // A copy, so the server's altar never shares state with the app's engine
+  engine.registerModule({ ...altarModule });
+
+  return engine;
+}
+
+export function createAltarMCPServer(options: AltarMCPServerOptions = {}): AltarMCPServer {
+  const engine = options.engine ?? createAltarEngine();
+  const tools = new Map((options.tools ?? ALTAR_TOOLS).map(tool => [tool.name, tool]));
+
+  const methods: Record<string, (params: Record<string, unknown>) => Promise<unknown> | unknown> = {
+    initialize: params => {
+      const requested = params.protocolVersion;
+      return {
+        protocolVersion: typeof requested === 'string' && MCP_PROTOCOL_VERSIONS.includes(requested)
+          ? requested
+          : MCP_PROTOCOL_VERSIONS[0],
+        capabilities: { tools: { listChanged: false } },
+        serverInfo: MCP_SERVER_INFO,
+        instructions: 'Tools for building a Día de Muertos ofrenda. Call list_elements and get_altar_state ' +
+          'before placing elements, and validate_composition to explain what the altar still needs.'
+      };
+    },
+
+    ping: () => ({}),
+
+    'tools/list': () => ({
+      tools: Array.from(tools.values(), ({ name, description, inputSchema }) => ({ name, description, inputSchema }))
+    }),
+
+    'tools/call': async params => {
+      const tool = typeof params.name === 'string' ? tools.get(params.name) : undefined;
+      if (!tool) {
+        throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, `Unknown tool: ${String(params.name)}`);
+      }
+
+      const args = params.arguments ?? {};
+      const issues = tool.arguments.check(args, 'arguments');
+      if (issues.length > 0) {
+        throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, `Invalid arguments for ${tool.name}: ${issues.join('; ')}`);
+      }
+
+      try {
+        const { data, isError } = await tool.run(args, engine);
+        return {
+          content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+          isError: isError ?? false
+        };
+      } catch (error) {
+        // Rejected actions go back to the assistant as a failed tool call.
+        // Engine failures are MCPError objects, not Error instances.
+        const message = (error as { message?: string } | null)?.message ?? String(error);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ error: message }, null, 2) }],
+          isError: true
+        };
+      }
+    }
+  };
+
+  const respond = async (request: JsonRpcRequest): Promise<JsonRpcResponse | null> => {
+    // Notifications such as notifications/initialized need no handling
+    if (request.id === undefined) {
+      return null;
+    }
+
+    const method = Object.prototype.hasOwnProperty.call(methods, request.method)
+      ? methods[request.method]
+      : undefined;
+    if (!method) {
+      return errorResponse(request.id, JSON_RPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${request.method}`);
+    }
+
+    try {
+      return resultResponse(request.id, await method(request.params ?? {}));
+    } catch (error) {
+      if (error instanceof JsonRpcError) {
+        return errorResponse(request.id, error.code, error.message, error.data);
+      }
+      console.error('[MCP Server] Error handling', request.method, error);
+      return errorResponse(request.id, JSON_RPC_ERRORS.INTERNAL_ERROR, 'Internal error');
+    }
+  };
+
+  // Messages are handled one at a time, so a read sent after an edit sees it
+  let previous: Promise<unknown> = Promise.resolve();
+
+  return {
+    engine,
+    handle: message => {
+      const handled = previous.then(() => {
+        const request = parseJsonRpcRequest(message);
+        return isJsonRpcResponse(request) ? request : respond(request);
+      });
+      previous = handled.catch(() => {});
+      return handled;
+    }
+  };
+}
@@ -0,0 +1,245 @@
+import type { KiroMCPEngine } from '../mcp-engine';
+import { altarModule, altarHelpers } from '../mcp-modules/altar-module';
+import { schema } from '../mcp-schema';
+import { OFRENDA_ELEMENTS, getElementById, getElementForPlaced } from '../../data/elements';
+import { evaluateAltar } from '../../utils/altar-scoring';
+import { countPlacedInstances, validateElementPlacement } from '../../utils/element-validation';
+import { getTierBands } from '../../utils/grid-utils';
+import { ElementCategory } from '../../types';
+import type { GridPosition, Language } from '../../types';
+import type { AltarState, MCPSchema } from '../../types/mcp';
+
+/**
+ * Tools the MCP server offers assistants. Every edit is dispatched to the
+ * server's engine as a regular altar action, so it is checked by the action
+ * registry, the validation middleware and the altar module's placement
+ * rules exactly like an edit made in the app.
+ */
+
+// The subset of JSON Schema used to describe tool arguments to clients
+export interface ToolInputSchema {
+  type: 'object';
+  properties: Record<string, Record<string, unknown>>;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+export interface AltarToolResult {
+  // Serialized as JSON into the text content of the tool result
+  data: unknown;
+  // The call was understood but could not be carried out
+  isError?: boolean;
+}
+
+export interface AltarTool<A = unknown> {
+  name: string;
+  description: string;
+  inputSchema: ToolInputSchema;
+  // Runtime check of the arguments, matching inputSchema
+  arguments: MCPSchema<A>;
+  run(args: A, engine: KiroMCPEngine): Promise<AltarToolResult>;
+}
+
+// Keeps each tool's arguments typed while the list stays homogeneous
+function defineTool<A>(tool: AltarTool<A>): AltarTool {
+  return tool as AltarTool;
+}
+
+const languageProperty = {
+  type: 'string',
+  enum: ['es', 'en'],
+  description: 'Language of rule messages, Spanish by default'
+};
+
+const languageSchema = schema.optional(schema.literal<Language>('es', 'en'));
+
+function getAltar(engine: KiroMCPEngine): AltarState {
+  return engine.getState<AltarState>('altar');
+}
+
+function describePosition({ row, col }: GridPosition): string {
+  return `row ${row}, column ${col}`;
+}
+
+const listElements = defineTool<{ category?: ElementCategory }>({
+  name: 'list_elements',
+  description: 'List the traditional ofrenda elements that can be placed, with their meaning and placement rules.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      category: {
+        type: 'string',
+        enum: Object.values(ElementCategory),
+        description: 'Only list elements of this category'
+      }
+    },
+    additionalProperties: false
+  },
+  arguments: schema.object({
+    category: schema.optional(schema.literal(...Object.values(ElementCategory)))
+  }),
+  run: async ({ category }, engine) => {
+    const placed = getAltar(engine).placedElements;
+
+    return {
+      data: OFRENDA_ELEMENTS
+        .filter(element => !category || element.category === category)
+        .map(element => ({
+          id: element.id,
+          name: element.name,
+          type: element.type,
+          category: element.category,
+          description: element.description,
+          maxQuantity: element.maxQuantity,
+          placed: countPlacedInstances(element, placed),
+          rules: element.placementRules.map(rule => rule.message)
+        }))
+    };
+  }
+});
+
+const getAltarState = defineTool<Record<string, never>>({
+  name: 'get_altar_state',
+  description: 'Describe the altar being built: its grid, its tiers from top to bottom and every placed element.',
+  inputSchema: { type: 'object', properties: {}, additionalProperties: false },
+  arguments: schema.object({}),
+  run: async (_args, engine) => {
+    const altar = getAltar(engine);
+
+    return {
+      data: {
+        version: altar.version,
+        template: altar.dimensions.template,
+        rows: altar.dimensions.rows,
+        cols: altar.dimensions.cols,
+        tiers: getTierBands(altar.dimensions).map(band => ({
+          id: band.tier.id,
+          name: band.tier.name,
+          meaning: band.tier.meaning,
+          startRow: band.startRow,
+          endRow: band.endRow
+        })),
+        elements: altar.placedElements.map(placed => ({
+          id: placed.id,
+          name: getElementForPlaced(placed)?.name ?? placed.elementType,
+          type: placed.elementType,
+          row: placed.position.row,
+          col: placed.position.col,
+          ...(placed.note ? { note: placed.note } : {})
+        })),
+        complete: altarHelpers.isAltarComplete(altar)
+      }
+    };
+  }
+});
+
+const placeElement = defineTool<{ elementId: string; row: number; col: number }>({
+  name: 'place_element',
+  description: 'Place an element from list_elements on a cell of the altar. Fails with the reason and nearby valid cells when a placement rule forbids the cell.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      elementId: { type: 'string', description: 'Element id from list_elements, e.g. "vela-1"' },
+      row: { type: 'integer', minimum: 0, description: 'Row, counted from the top of the altar' },
+      col: { type: 'integer', minimum: 0, description: 'Column, counted from the left' }
+    },
+    required: ['elementId', 'row', 'col'],
+    additionalProperties: false
+  },
+  arguments: schema.object({
+    elementId: schema.string(),
+    row: schema.number(),
+    col: schema.number()
+  }),
+  run: async ({ elementId, row, col }, engine) => {
+    const element = getElementById(elementId);
+    if (!element) {
+      return { isError: true, data: { error: `Unknown element ${elementId}; see list_elements for valid ids` } };
+    }
+
+    const position = { row, col };
+    const id = `${element.id}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    try {
+      await engine.dispatch(altarModule.actions.placeElement({ element, position, id }));
+      return { data: { placed: id, message: `Placed ${element.name} at ${describePosition(position)}` } };
+    } catch (error) {
+      // The altar module rejects placements its rules forbid; explain why
+      // and where the element could go instead
+      const altar = getAltar(engine);
+      const validation = validateElementPlacement(element, position, altar.placedElements, altar.dimensions);
+      if (validation.isValid) throw error;
+
+      return {
+        isError: true,
+        data: {
+          error: `Cannot place ${element.name} at ${describePosition(position)}: ${validation.reason ?? 'placement rejected'}`,
+          ...(validation.suggestions?.length ? { suggestions: validation.suggestions } : {})
+        }
+      };
+    }
+  }
+});
+
+const removeElement = defineTool<{ id: string }>({
+  name: 'remove_element',
+  description: 'Remove a placed element from the altar, by the id get_altar_state reports for it.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', description: 'Id of the placed element' }
+    },
+    required: ['id'],
+    additionalProperties: false
+  },
+  arguments: schema.object({ id: schema.string() }),
+  run: async ({ id }, engine) => {
+    if (!getAltar(engine).placedElements.some(placed => placed.id === id)) {
+      return { isError: true, data: { error: `No placed element with id ${id}` } };
+    }
+
+    await engine.dispatch(altarModule.actions.removeElement({ elementId: id }));
+    return { data: { removed: id } };
+  }
+});
+
+const validateComposition = defineTool<{ language?: Language }>({
+  name: 'validate_composition',
+  description: 'Score the altar against the cultural composition rules and explain which are met, what each means and what is missing.',
+  inputSchema: {
+    type: 'object',
+    properties: { language: languageProperty },
+    additionalProperties: false
+  },
+  arguments: schema.object({ language: languageSchema }),
+  run: async ({ language }, engine) => {
+    const altar = getAltar(engine);
+    const report = evaluateAltar(altar.placedElements, altar.dimensions, language);
+
+    return {
+      data: {
+        complete: report.isValid,
+        score: report.score,
+        maxScore: report.maxScore,
+        percentage: report.percentage,
+        culturalAuthenticity: report.culturalAuthenticity,
+        rules: report.rules.map(rule => ({
+          name: rule.name,
+          passed: rule.passed,
+          essential: rule.essential,
+          message: rule.message,
+          culturalSignificance: rule.culturalSignificance
+        })),
+        warnings: report.warnings,
+        recommendations: report.recommendations
+      }
+    };
+  }
+});
+
+export const ALTAR_TOOLS: AltarTool[] = [
+  listElements,
+  getAltarState,
+  placeElement,
+  removeElement,
+  validateComposition
+];
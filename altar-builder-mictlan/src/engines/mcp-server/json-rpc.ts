@@ -0,0 +1,97 @@
+/**
+ * JSON-RPC 2.0 messages as used by the Model Context Protocol. Kept free of
+ * DOM and Node types so any transport can carry them.
+ */
+
+export type JsonRpcId = string | number;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  // Absent for notifications, which get no response
+  id?: JsonRpcId;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcErrorObject {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export type JsonRpcResponse =
+  | { jsonrpc: '2.0'; id: JsonRpcId; result: unknown }
+  // The id is null when the request was too broken to read one from
+  | { jsonrpc: '2.0'; id: JsonRpcId | null; error: JsonRpcErrorObject };
+
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603
+} as const;
+
+/**
+ * Error thrown by method handlers to answer with a specific JSON-RPC error
+ */
+export class JsonRpcError extends Error {
+  readonly code: number;
+  readonly data?: unknown;
+
+  constructor(code: number, message: string, data?: unknown) {
+    super(message);
+    this.name = 'JsonRpcError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+/**
+ * Parse one incoming message into a request, or into the error response
+ * to send back when it is not a valid request
+ */
+export function parseJsonRpcRequest(text: string): JsonRpcRequest | JsonRpcResponse {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return errorResponse(null, JSON_RPC_ERRORS.PARSE_ERROR, 'Parse error');
+  }
+
+  const message = data as Partial<JsonRpcRequest> | null;
+  const id = isValidId(message?.id) ? message.id : null;
+  if (
+    !message ||
+    typeof message !== 'object' ||
+    Array.isArray(message) ||
+    message.jsonrpc !== '2.0' ||
+    typeof message.method !== 'string' ||
+    (message.id !== undefined && !isValidId(message.id)) ||
+    (message.params !== undefined && (typeof message.params !== 'object' || message.params === null || Array.isArray(message.params)))
+  ) {
+    return errorResponse(id, JSON_RPC_ERRORS.INVALID_REQUEST, 'Invalid request');
+  }
+
+  return message as JsonRpcRequest;
+}
+
+export function isJsonRpcResponse(message: JsonRpcRequest | JsonRpcResponse): message is JsonRpcResponse {
+  return !('method' in message);
+}
+
+export function resultResponse(id: JsonRpcId, result: unknown): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, result };
+}
+
+export function errorResponse(id: JsonRpcId | null, code: number, message: string, data?: unknown): JsonRpcResponse {
+  return {
+    jsonrpc: '2.0',
+    id,
+    error: data === undefined ? { code, message } : { code, message, data }
+  };
+}
+
+function isValidId(id: unknown): id is JsonRpcId {
+  return typeof id === 'string' || (typeof id === 'number' && Number.isFinite(id));
+}
@@ -0,0 +1,38 @@
+/**
+ * Runs the altar MCP server over stdio, the transport local assistants use:
+ * one JSON-RPC message per line on stdin, responses on stdout.
+ *
+ *   npx tsx src/engines/mcp-server/stdio.ts
+ *
+ * To use it from an MCP client, register that command (with this project
+ * as the working directory) as a stdio server. Prefer it over `npm run mcp`
+ * there, since npm prints its own banner on stdout.
+ */
+
+import { createInterface } from 'node:readline';
+
+// Stdout carries protocol messages only, so every log goes to stderr
+const toStderr = (...args: unknown[]) => console.error(...args);
+console.log = toStderr;
+console.info = toStderr;
+console.debug = toStderr;
+console.warn = toStderr;
+console.group = toStderr;
+console.groupEnd = () => {};
+
+// Imported after the redirect, since the engine module logs as it loads
+const { createAltarMCPServer } = await import('./altar-mcp-server');
+
+const server = createAltarMCPServer();
+const lines = createInterface({ input: process.stdin });
+
+lines.on('line', async line => {
+  if (!line.trim()) return;
+
+  const response = await server.handle(line);
+  if (response) {
+    process.stdout.write(`${JSON.stringify(response)}\n`);
+  }
+});
+
+lines.on('close', () => process.exit(0));
@@ -0,0 +1,28 @@
+// Action Validation Middleware for MCP
+//
+// Shared by the app's engine and the MCP server, so actions from the UI and
+// from assistant tool calls pass the same checks.
+
+import type { MCPAction, MCPConfig, MCPMiddleware } from '../types/mcp';
+
+export function createValidationMiddleware(config: Pick<MCPConfig, 'stateValidation'>): MCPMiddleware {
+  return {
+    name: 'validation',
+    execute: async <T>(action: MCPAction<T>, next: (action: MCPAction<T>) => Promise<void>) => {
+      if (!config.stateValidation) {
+        await next(action);
+        return;
+      }
+
+      // Pre-action validation
+      if (!action.type || !action.id || !action.timestamp) {
+        throw new Error(`Invalid action structure: ${JSON.stringify(action)}`);
+      }
+
+      // Payloads are checked against the action registry by the engine
+      // before the middleware chain runs
+
+      await next(action);
+    }
+  };
+}
@@ -1,97 +1,212 @@
 // MCP-Zustand Bridge for Altar Builder Mictlán
 // This bridge synchronizes state between Kiro MCP and Zustand store
 
-import { useAltarStore } from '../store/useAltarStore';
+import { useMemo } from 'react';
+import { useAltarStore, setMCPDispatch } from '../store/useAltarStore';
 import { mcpEngine } from './mcp-engine';
+import { altarModule } from './mcp-modules/altar-module';
+import { userModule } from './mcp-modules/user-module';
 import type {
   MCPZustandBridge,
   AltarState,
   UserState,
   CollaborationState,
   SteeringState,
-  MCPAction
+  TypedMCPAction,
+  MCPBridgeMode
 } from '../types/mcp';
-import type { PlacedElement, UserSettings, Achievement } from '../types';
+import type { PlacedElement, UserSettings, Achievement, AltarTemplateId } from '../types';
 
 class MCPZustandBridgeImpl implements MCPZustandBridge {
   private unsubscribeFunctions: (() => void)[] = [];
   private isInitialized = false;
   private isSyncing = false;
+  private currentMode: MCPBridgeMode = 'mirror';
+  // MCP state version last written into the store, per module
+  private appliedVersions = new Map<string, number>();
+  // Store slices last mirrored into MCP, to tell real changes from echoes
+  private mirrored: { grid?: unknown; settings?: unknown; achievements?: unknown; session?: unknown } = {};
+  // Set while store edits are collected into one transaction, with the
+  // promise of that transaction committing
+  private collected: { actions: TypedMCPAction[]; committed: Promise<void> } | null = null;
 
   get isConnected(): boolean {
     return this.isInitialized;
   }
 
-  // Initialize the bridge and set up bidirectional sync
-  initialize(): void {
+  get mode(): MCPBridgeMode {
+    return this.currentMode;
+  }
+
+  // Initialize the bridge in the given mode
+  initialize(mode: MCPBridgeMode = 'mirror'): void {
     if (this.isInitialized) {
       console.warn('[MCP Bridge] Already initialized');
       return;
     }
 
     try {
-      // Subscribe to MCP state changes
-      const mcpUnsubscribe = mcpEngine.subscribe(
-        ['altar', 'user', 'collaboration', 'steering'],
-        this.handleMCPStateChange.bind(this)
-      );
-      this.unsubscribeFunctions.push(mcpUnsubscribe);
-
-      // Subscribe to Zustand store changes
-      const zustandUnsubscribe = useAltarStore.subscribe(
-        this.handleZustandStateChange.bind(this)
-      );
-      this.unsubscribeFunctions.push(zustandUnsubscribe);
-
-      // Initial sync from Zustand to MCP
-      this.syncToMCP(useAltarStore.getState());
+      this.currentMode = mode;
+      if (mode === 'source-of-truth') {
+        this.connectSourceOfTruth();
+      } else {
+        this.connectMirror();
+      }
 
       this.isInitialized = true;
-      console.log('[MCP Bridge] Initialized successfully');
+      console.log(`[MCP Bridge] Initialized successfully (${mode})`);
 
     } catch (error) {
       console.error('[MCP Bridge] Initialization failed:', error);
+      this.disconnect();
       throw error;
     }
   }
 
-  // Sync Zustand state to MCP
-  syncToMCP(storeState: any): void {
+  // Mirror mode: the store leads and MCP follows every store change
+  private connectMirror(): void {
+    // Subscribe to MCP state changes
+    const mcpUnsubscribe = mcpEngine.subscribe(
+      ['altar', 'user', 'collaboration', 'steering'],
+      this.handleMCPStateChange.bind(this)
+    );
+    this.unsubscribeFunctions.push(mcpUnsubscribe);
+
+    // Subscribe to Zustand store changes
+    const zustandUnsubscribe = useAltarStore.subscribe(
+      this.handleZustandStateChange.bind(this)
+    );
+    this.unsubscribeFunctions.push(zustandUnsubscribe);
+
+    // Initial sync from Zustand to MCP
+    this.syncToMCP(useAltarStore.getState(), false);
+  }
+
+  // Source-of-truth mode: store edits become MCP actions, and the store is
+  // written only from committed MCP state. The bridge never listens to the
+  // store here, so there is no path for an edit to echo back into MCP.
+  private connectSourceOfTruth(): void {
+    // Seed MCP with what the store holds now; from here on MCP leads
+    this.syncToMCP(useAltarStore.getState(), false);
+    ['altar', 'user'].forEach(moduleName => {
+      this.appliedVersions.set(moduleName, mcpEngine.getStateVersion(moduleName));
+      this.unsubscribeFunctions.push(
+        mcpEngine.subscribe([moduleName], () => this.applyToStore(moduleName))
+      );
+    });
+
+    setMCPDispatch(action => {
+      if (this.collected) {
+        this.collected.actions.push(action);
+        return this.collected.committed;
+      }
+      return mcpEngine.dispatch(action);
+    });
+    this.unsubscribeFunctions.push(() => setMCPDispatch(null));
+  }
+
+  // Write committed MCP state into the store, once per state version
+  private applyToStore(moduleName: string): void {
+    const version = mcpEngine.getStateVersion(moduleName);
+    if (version <= (this.appliedVersions.get(moduleName) ?? 0)) return;
+    this.appliedVersions.set(moduleName, version);
+
+    if (moduleName === 'altar') {
+      const { dimensions, placedElements } = mcpEngine.getState<AltarState>('altar');
+      useAltarStore.setState(state => ({
+        grid: { ...state.grid, dimensions, placedElements }
+      }));
+    } else if (moduleName === 'user') {
+      useAltarStore.setState({ settings: mcpEngine.getState<UserState>('user').settings });
+    }
+  }
+
+  /**
+   * Put MCP modules back to recorded states and show them in the store
+   * without dispatching anything, e.g. to time-travel while debugging
+   */
+  restoreSnapshot(states: Record<string, unknown>): void {
+    this.isSyncing = true;
+
+    try {
+      Object.entries(states).forEach(([moduleName, state]) => {
+        if (mcpEngine.modules.has(moduleName)) {
+          mcpEngine.replaceState(moduleName, state);
+        }
+      });
+      ['altar', 'user']
+        .filter(moduleName => moduleName in states && mcpEngine.modules.has(moduleName))
+        .forEach(moduleName => this.applyToStore(moduleName));
+
+      // The store now shows MCP state, so there is nothing to mirror back
+      const { grid, settings } = useAltarStore.getState();
+      this.mirrored.grid = grid;
+      this.mirrored.settings = settings;
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  // Sync Zustand state to MCP. Modules are only replaced when the store
+  // slices they mirror have changed, so each real change is one new version.
+  // Unless seeding MCP, grid and settings changes are logged as the action
+  // that would have made them, so mirrored edits show up in the action log.
+  syncToMCP(storeState: any, logChanges = true): void {
     if (this.isSyncing) return;
     
     this.isSyncing = true;
     
     try {
-      // Sync altar state
-      const altarState: AltarState = {
-        dimensions: storeState.grid.dimensions,
-        placedElements: storeState.grid.placedElements,
-        lastModified: new Date(),
-        version: 1
-      };
-
-      // Sync user state
-      const userState: UserState = {
-        settings: storeState.settings,
-        achievements: storeState.achievements.unlocked,
-        progress: storeState.achievements.progress,
-        sessionData: {
-          startTime: storeState.session.startTime,
-          altarCount: storeState.session.altarCount,
-          uniqueElementsUsed: storeState.session.uniqueElementsUsed
-        }
-      };
+      const altarMCP = mcpEngine.modules.get('altar');
+      const userMCP = mcpEngine.modules.get('user');
 
-      // Update MCP modules directly (bypass actions for initial sync)
-      const altarModule = mcpEngine.modules.get('altar');
-      const userModule = mcpEngine.modules.get('user');
-
-      if (altarModule) {
-        altarModule.state = altarState;
+      // Sync altar state
+      if (altarMCP && storeState.grid !== this.mirrored.grid) {
+        const previous = altarMCP.state as AltarState | undefined;
+        const altarState: AltarState = {
+          dimensions: storeState.grid.dimensions,
+          placedElements: storeState.grid.placedElements,
+          lastModified: new Date(),
+          version: (previous?.version ?? 0) + 1
+        };
+
+        const change = previous?.placedElements === altarState.placedElements
+          ? altarModule.actions.updateDimensions(altarState.dimensions)
+          : altarModule.actions.restoreAltar(altarState.placedElements);
+
+        mcpEngine.replaceState('altar', altarState, logChanges ? change : undefined);
+        this.mirrored.grid = storeState.grid;
       }
 
-      if (userModule) {
-        userModule.state = userState;
+      // Sync user state
+      if (
+        userMCP && (
+          storeState.settings !== this.mirrored.settings ||
+          storeState.achievements !== this.mirrored.achievements ||
+          storeState.session !== this.mirrored.session
+        )
+      ) {
+        const userState: UserState = {
+          settings: storeState.settings,
+          achievements: storeState.achievements.unlocked,
+          progress: storeState.achievements.progress,
+          sessionData: {
+            startTime: storeState.session.startTime,
+            altarCount: storeState.session.altarCount,
+            uniqueElementsUsed: storeState.session.uniqueElementsUsed
+          }
+        };
+
+        mcpEngine.replaceState(
+          'user',
+          userState,
+          logChanges && storeState.settings !== this.mirrored.settings
+            ? userModule.actions.updateSettings({ settings: userState.settings })
+            : undefined
+        );
+        this.mirrored.settings = storeState.settings;
+        this.mirrored.achievements = storeState.achievements;
+        this.mirrored.session = storeState.session;
       }
 
     } catch (error) {
@@ -168,6 +283,8 @@ class MCPZustandBridgeImpl implements MCPZustandBridge {
   disconnect(): void {
     this.unsubscribeFunctions.forEach(unsubscribe => unsubscribe());
     this.unsubscribeFunctions = [];
+    this.appliedVersions.clear();
+    this.mirrored = {};
     this.isInitialized = false;
     console.log('[MCP Bridge] Disconnected');
   }
@@ -189,7 +306,7 @@ class MCPZustandBridgeImpl implements MCPZustandBridge {
   }
 
   // Dispatch MCP action from Zustand
-  async dispatchMCPAction(action: MCPAction): Promise<void> {
+  async dispatchMCPAction(action: TypedMCPAction): Promise<void> {
     try {
       await mcpEngine.dispatch(action);
     } catch (error) {
@@ -198,6 +315,34 @@ class MCPZustandBridgeImpl implements MCPZustandBridge {
     }
   }
 
+  // Dispatch a batch of MCP actions atomically
+  async dispatchMCPTransaction(actions: TypedMCPAction[]): Promise<void> {
+    try {
+      await mcpEngine.transaction(actions);
+    } catch (error) {
+      console.error('[MCP Bridge] Error dispatching MCP transaction:', error);
+      throw error;
+    }
+  }
+
+  // Run store edits and commit the actions they dispatch all together
+  private async transactStoreEdits(edit: () => void): Promise<void> {
+    const actions: TypedMCPAction[] = [];
+    let start!: () => void;
+    const committed = new Promise<void>(resolve => {
+      start = resolve;
+    }).then(() => this.dispatchMCPTransaction(actions));
+
+    this.collected = { actions, committed };
+    try {
+      edit();
+    } finally {
+      this.collected = null;
+    }
+    start();
+    await committed;
+  }
+
   // Get MCP state for a specific module
   getMCPState<T>(moduleName: string): T {
     return mcpEngine.getState<T>(moduleName);
@@ -206,15 +351,50 @@ class MCPZustandBridgeImpl implements MCPZustandBridge {
   // Enhanced Zustand actions that work with MCP
   createMCPEnhancedActions() {
     const store = useAltarStore.getState();
+    // With MCP as the source of truth the store actions dispatch themselves.
+    // Checked on every call, since the bridge may connect after this is made.
+    const storeDispatches = () => this.currentMode === 'source-of-truth';
 
     return {
+      // Enhanced altar restore, used for template and saved altar loads. The
+      // template and elements commit to MCP as one transaction, and in
+      // mirror mode the local store is only touched once they have.
+      restoreAltar: async (elements: PlacedElement[], template?: AltarTemplateId) => {
+        const load = () => {
+          if (template) {
+            store.setAltarTemplate(template);
+          }
+          store.restoreAltar(elements);
+        };
+
+        try {
+          if (storeDispatches()) {
+            await this.transactStoreEdits(load);
+            return true;
+          }
+
+          const { dimensions } = useAltarStore.getState().grid;
+          await this.dispatchMCPTransaction([
+            ...(template ? [altarModule.actions.updateDimensions({ ...dimensions, template })] : []),
+            altarModule.actions.clearAltar(),
+            altarModule.actions.restoreAltar(elements)
+          ]);
+
+          load();
+          return true;
+        } catch (error) {
+          console.error('[MCP Bridge] Enhanced restoreAltar failed:', error);
+          return false;
+        }
+      },
+
       // Enhanced place element action
       placeElement: async (element: any, position: any) => {
         try {
           // First try local placement
-          const success = store.placeElement(element, position);
+          const success = await store.placeElement(element, position);
           
-          if (success) {
+          if (success && !storeDispatches()) {
             // Dispatch to MCP for collaboration sync
             await this.dispatchMCPAction({
               type: 'placeElement',
@@ -237,6 +417,7 @@ class MCPZustandBridgeImpl implements MCPZustandBridge {
         try {
           // First remove locally
           store.removeElement(elementId);
+          if (storeDispatches()) return;
           
           // Dispatch to MCP for collaboration sync
           await this.dispatchMCPAction({
@@ -256,6 +437,7 @@ class MCPZustandBridgeImpl implements MCPZustandBridge {
         try {
           // First update locally
           store.updateSettings(settings);
+          if (storeDispatches()) return;
           
           // Dispatch to MCP
           await this.dispatchMCPAction({
@@ -297,14 +479,15 @@ export const mcpZustandBridge = new MCPZustandBridgeImpl();
 
 // Hook for using MCP-enhanced actions in React components
 export const useMCPActions = () => {
-  return mcpZustandBridge.createMCPEnhancedActions();
+  return useMemo(() => mcpZustandBridge.createMCPEnhancedActions(), []);
 };
 
 // Hook for MCP connection status
 export const useMCPConnection = () => {
   return {
     isConnected: mcpZustandBridge.isConnected,
-    connect: () => mcpZustandBridge.initialize(),
+    mode: mcpZustandBridge.mode,
+    connect: (mode?: MCPBridgeMode) => mcpZustandBridge.initialize(mode),
     disconnect: () => mcpZustandBridge.disconnect()
   };
 };
\ No newline at end of file
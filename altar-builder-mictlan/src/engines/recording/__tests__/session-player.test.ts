@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SessionPlayer } from '../session-player';
+import { ElementType } from '../../../types';
+import type { PlacedElement, SessionRecording } from '../../../types';
+
+const placed = (id: string, row: number, col: number): PlacedElement => ({
+  id,
+  elementType: ElementType.VELA,
+  position: { row, col },
+  placedAt: new Date()
+});
+
+const vela = placed('vela-1', 0, 0);
+const flor = placed('flor-1', 1, 1);
+const movedVela = { ...vela, position: { row: 2, col: 2 } };
+
+const recording: SessionRecording = {
+  id: 'recording-1',
+  name: 'Ofrenda de la abuela',
+  startedAt: new Date(),
+  duration: 4000,
+  dimensions: { rows: 4, cols: 4 },
+  initialElements: [vela],
+  events: [
+    { at: 1000, kind: 'altar', data: { added: [flor], removed: [] } },
+    { at: 1500, kind: 'collaboration', direction: 'in', data: { type: 'element_move', peerId: 'peer-1', timestamp: 1500, data: {} } },
+    { at: 2000, kind: 'altar', data: { added: [movedVela], removed: [vela] } },
+    { at: 3000, kind: 'altar', data: { added: [], removed: [flor] } }
+  ]
+};
+
+const ids = (elements: PlacedElement[]) => elements.map(element => `${element.id}@${element.position.row}`);
+
+describe('SessionPlayer', () => {
+  let player: SessionPlayer;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    player = new SessionPlayer(recording);
+  });
+
+  afterEach(() => {
+    player.destroy();
+    vi.useRealTimers();
+  });
+
+  it('should rebuild the altar as of any point of the recording', () => {
+    expect(ids(player.elementsAt(0))).toEqual(['vela-1@0']);
+    expect(ids(player.elementsAt(1000))).toEqual(['vela-1@0', 'flor-1@1']);
+    expect(ids(player.elementsAt(2500))).toEqual(['flor-1@1', 'vela-1@2']);
+    expect(ids(player.elementsAt(4000))).toEqual(['vela-1@2']);
+    expect(player.eventsUntil(1500)).toHaveLength(2);
+  });
+
+  it('should play, pause and stop at the end', () => {
+    const states: number[] = [];
+    player.onChange(state => states.push(state.time));
+
+    player.play();
+    vi.advanceTimersByTime(1200);
+    expect(player.currentTime).toBe(1200);
+    expect(ids(player.getState().elements)).toEqual(['vela-1@0', 'flor-1@1']);
+
+    player.pause();
+    vi.advanceTimersByTime(1000);
+    expect(player.currentTime).toBe(1200);
+
+    player.play();
+    vi.advanceTimersByTime(5000);
+    expect(player.isPlaying).toBe(false);
+    expect(player.currentTime).toBe(4000);
+    expect(states[states.length - 1]).toBe(4000);
+  });
+
+  it('should scale playback by its speed and seek anywhere', () => {
+    player.setSpeed(4);
+    player.play();
+    vi.advanceTimersByTime(500);
+    expect(player.currentTime).toBe(2000);
+
+    player.seek(500);
+    expect(ids(player.getState().elements)).toEqual(['vela-1@0']);
+    vi.advanceTimersByTime(100);
+    expect(player.currentTime).toBe(900);
+
+    player.seek(99999);
+    expect(player.currentTime).toBe(4000);
+    expect(() => player.setSpeed(0)).toThrow();
+  });
+
+  it('should start over when played from the end', () => {
+    player.seek(4000);
+    player.play();
+    expect(player.currentTime).toBe(0);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SessionRecorder, diffElements, type RecordingSource } from '../session-recorder';
+import { ElementType } from '../../../types';
+import type { CollaborationAction, MCPAction, PlacedElement, SessionRecording } from '../../../types';
+
+const placed = (id: string, row: number, col: number): PlacedElement => ({
+  id,
+  elementType: ElementType.VELA,
+  position: { row, col },
+  placedAt: new Date()
+});
+
+/**
+ * Stand-in for the altar store: `set` replaces the grid and notifies
+ */
+class FakeAltar implements RecordingSource {
+  elements: PlacedElement[] = [];
+  private listeners = new Set<(elements: PlacedElement[], previous: PlacedElement[]) => void>();
+
+  getAltar() {
+    return { dimensions: { rows: 4, cols: 4 }, elements: this.elements };
+  }
+
+  subscribe(listener: (elements: PlacedElement[], previous: PlacedElement[]) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  set(elements: PlacedElement[]) {
+    const previous = this.elements;
+    this.elements = elements;
+    this.listeners.forEach(listener => listener(elements, previous));
+  }
+}
+
+describe('SessionRecorder', () => {
+  let altar: FakeAltar;
+  let saved: SessionRecording[];
+  let recorder: SessionRecorder;
+
+  const action = (type: CollaborationAction['type']): CollaborationAction =>
+    ({ type, peerId: 'peer-1', timestamp: Date.now(), data: {} });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    altar = new FakeAltar();
+    saved = [];
+    recorder = new SessionRecorder({
+      source: altar,
+      save: async recording => {
+        saved.push(recording);
+      }
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should record grid changes with their time since the start', async () => {
+    const vela = placed('vela-1', 0, 0);
+    altar.elements = [vela];
+    recorder.start('Ofrenda de la abuela');
+
+    vi.advanceTimersByTime(1500);
+    const flor = placed('flor-1', 1, 1);
+    altar.set([vela, flor]);
+
+    vi.advanceTimersByTime(500);
+    const moved = { ...vela, position: { row: 2, col: 2 } };
+    altar.set([moved, flor]);
+
+    const recording = await recorder.stop();
+
+    expect(recording?.initialElements).toEqual([vela]);
+    expect(recording?.duration).toBe(2000);
+    expect(recording?.events).toEqual([
+      { at: 1500, kind: 'altar', data: { added: [flor], removed: [] } },
+      { at: 2000, kind: 'altar', data: { added: [moved], removed: [vela] } }
+    ]);
+    expect(saved).toEqual([recording]);
+
+    // Nothing is recorded once stopped
+    altar.set([]);
+    expect(recorder.isRecording).toBe(false);
+  });
+
+  it('should keep collaboration and MCP actions in order, without cursor moves', async () => {
+    recorder.start('Sesión');
+
+    recorder.recordCollaboration(action('element_place'), 'out');
+    recorder.recordCollaboration(action('cursor_move'), 'in');
+    await recorder.middleware.execute(
+      { type: 'placeElement', id: 'mcp-1', source: 'local', timestamp: new Date(), payload: { n: 1 } } as MCPAction,
+      async () => {}
+    );
+    recorder.recordCollaboration(action('chat_message'), 'in');
+
+    const { events } = (await recorder.stop())!;
+    expect(events).toHaveLength(3);
+    expect(events).toMatchObject([
+      { kind: 'collaboration', direction: 'out', data: { type: 'element_place' } },
+      { kind: 'mcp', data: { type: 'placeElement', id: 'mcp-1', payload: { n: 1 } } },
+      { kind: 'collaboration', direction: 'in', data: { type: 'chat_message' } }
+    ]);
+  });
+
+  it('should autosave a recording in progress only when it changed', () => {
+    recorder.start('Sesión');
+
+    vi.advanceTimersByTime(10000);
+    expect(saved).toHaveLength(1);
+
+    vi.advanceTimersByTime(10000);
+    expect(saved).toHaveLength(1);
+
+    altar.set([placed('vela-1', 0, 0)]);
+    vi.advanceTimersByTime(10000);
+    expect(saved).toHaveLength(2);
+    expect(saved[1].events).toHaveLength(1);
+  });
+
+  it('should store the room it records in and refuse a second recording', () => {
+    recorder.setRoomId('sala-1');
+    recorder.start('Sesión');
+
+    expect(recorder.current?.roomId).toBe('sala-1');
+    expect(() => recorder.start('Otra')).toThrow('already being recorded');
+  });
+
+  it('should diff placed elements by id and identity', () => {
+    const a = placed('a', 0, 0);
+    const b = placed('b', 1, 1);
+    const movedB = { ...b, position: { row: 3, col: 3 } };
+
+    expect(diffElements([a, b], [a, movedB])).toEqual({ added: [movedB], removed: [b] });
+    expect(diffElements([a], [a])).toEqual({ added: [], removed: [] });
+  });
+});
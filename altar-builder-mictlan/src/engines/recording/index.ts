@@ -0,0 +1,33 @@
+import { useAltarStore } from '../../store/useAltarStore';
+import { getDBManager } from '../../utils/indexeddb';
+import { SessionRecorder } from './session-recorder';
+
+export {
+  SessionRecorder,
+  diffElements,
+  applyAltarChange,
+  type RecordingSource,
+  type SessionRecorderOptions
+} from './session-recorder';
+export {
+  SessionPlayer,
+  PLAYBACK_SPEEDS,
+  type PlaybackState,
+  type SessionPlayerOptions
+} from './session-player';
+
+/**
+ * Recorder for the altar in the app store, saving into IndexedDB
+ */
+export const sessionRecorder = new SessionRecorder({
+  source: {
+    getAltar: () => {
+      const { dimensions, placedElements } = useAltarStore.getState().grid;
+      return { dimensions, elements: placedElements };
+    },
+    subscribe: listener => useAltarStore.subscribe((state, previous) => {
+      listener(state.grid.placedElements, previous.grid.placedElements);
+    })
+  },
+  save: recording => getDBManager().saveRecording(recording)
+});
@@ -0,0 +1,181 @@
+import type { PlacedElement, RecordedEvent, SessionRecording } from '../../types';
+import { applyAltarChange } from './session-recorder';
+
+/**
+ * Plays a session recording back on a clock of its own.
+ *
+ * The altar at every altar event is computed once up front, so seeking is a
+ * lookup rather than a replay from the start. While playing, the player ticks
+ * at a fixed rate and reports the time and the altar as of that time;
+ * playback speed only scales how fast recording time passes.
+ */
+
+export interface PlaybackState {
+  time: number;
+  duration: number;
+  speed: number;
+  isPlaying: boolean;
+  elements: PlacedElement[];
+}
+
+export interface SessionPlayerOptions {
+  // Wall-clock time between reports while playing
+  tickInterval?: number;
+}
+
+export const PLAYBACK_SPEEDS = [0.5, 1, 2, 4, 8];
+
+interface Frame {
+  at: number;
+  elements: PlacedElement[];
+}
+
+export class SessionPlayer {
+  private recording: SessionRecording;
+  private options: Required<SessionPlayerOptions>;
+  private frames: Frame[];
+  private position = 0;
+  private speed = 1;
+  private playing = false;
+  // Wall-clock time at which playback last resumed from `position`
+  private resumedAt = 0;
+  private timer?: ReturnType<typeof setInterval>;
+  private changeCallbacks: ((state: PlaybackState) => void)[] = [];
+
+  constructor(recording: SessionRecording, options: SessionPlayerOptions = {}) {
+    this.recording = recording;
+    this.options = { tickInterval: 100, ...options };
+
+    this.frames = [{ at: 0, elements: recording.initialElements }];
+    recording.events.forEach(event => {
+      if (event.kind !== 'altar') return;
+      const previous = this.frames[this.frames.length - 1].elements;
+      this.frames.push({ at: event.at, elements: applyAltarChange(previous, event.data) });
+    });
+  }
+
+  get duration(): number {
+    const lastEvent = this.recording.events[this.recording.events.length - 1];
+    return Math.max(this.recording.duration, lastEvent?.at ?? 0);
+  }
+
+  get currentTime(): number {
+    if (!this.playing) return this.position;
+    return Math.min(this.duration, this.position + (Date.now() - this.resumedAt) * this.speed);
+  }
+
+  get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /**
+   * The altar as it was at a point of the recording
+   */
+  elementsAt(time: number): PlacedElement[] {
+    // Last frame at or before `time`
+    let low = 0;
+    let high = this.frames.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.frames[middle].at <= time) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return this.frames[low].elements;
+  }
+
+  /**
+   * Events recorded up to a point of the recording, oldest first
+   */
+  eventsUntil(time: number): RecordedEvent[] {
+    return this.recording.events.filter(event => event.at <= time);
+  }
+
+  getState(): PlaybackState {
+    const time = this.currentTime;
+    return {
+      time,
+      duration: this.duration,
+      speed: this.speed,
+      isPlaying: this.playing,
+      elements: this.elementsAt(time)
+    };
+  }
+
+  play(): void {
+    if (this.playing) return;
+    if (this.position >= this.duration) {
+      this.position = 0;
+    }
+
+    this.playing = true;
+    this.resumedAt = Date.now();
+    this.timer = setInterval(() => this.tick(), this.options.tickInterval);
+    this.notify();
+  }
+
+  pause(): void {
+    if (!this.playing) return;
+
+    this.position = this.currentTime;
+    this.playing = false;
+    clearInterval(this.timer);
+    this.timer = undefined;
+    this.notify();
+  }
+
+  seek(time: number): void {
+    this.position = Math.min(Math.max(time, 0), this.duration);
+    this.resumedAt = Date.now();
+    this.notify();
+  }
+
+  setSpeed(speed: number): void {
+    if (!(speed > 0)) {
+      throw new Error(`Invalid playback speed ${speed}`);
+    }
+
+    // Re-anchor so the time already played keeps its old speed
+    this.position = this.currentTime;
+    this.resumedAt = Date.now();
+    this.speed = speed;
+    this.notify();
+  }
+
+  onChange(callback: (state: PlaybackState) => void): void {
+    this.changeCallbacks.push(callback);
+  }
+
+  /**
+   * Stop the clock and drop listeners
+   */
+  destroy(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    this.playing = false;
+    this.changeCallbacks = [];
+  }
+
+  private tick(): void {
+    if (this.currentTime >= this.duration) {
+      this.position = this.duration;
+      this.playing = false;
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.changeCallbacks.forEach(callback => {
+      try {
+        callback(state);
+      } catch (error) {
+        console.error('Error in playback callback:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,259 @@
+import type {
+  CollaborationAction,
+  GridDimensions,
+  MCPAction,
+  MCPMiddleware,
+  PlacedElement,
+  RecordedAltarChange,
+  RecordedEvent,
+  SessionRecording
+} from '../../types';
+
+/**
+ * Records a building session as one ordered, timed event stream.
+ *
+ * The altar is captured as element diffs of the grid, whatever path an edit
+ * took to get there: a local drop, an undo or an operation from a peer.
+ * That is all a replay needs. The collaboration actions this peer sends and
+ * receives and the MCP actions dispatched meanwhile are stored alongside, so
+ * a recording also shows what went over the wire when chasing a sync bug.
+ */
+
+/**
+ * The altar being recorded
+ */
+export interface RecordingSource {
+  getAltar(): { dimensions: GridDimensions; elements: PlacedElement[] };
+  subscribe(listener: (elements: PlacedElement[], previous: PlacedElement[]) => void): () => void;
+}
+
+export interface SessionRecorderOptions {
+  source: RecordingSource;
+  // Persists recordings on autosave and when they stop
+  save: (recording: SessionRecording) => Promise<void>;
+  // How often a recording in progress is saved; 0 disables autosave
+  autosaveInterval?: number;
+  // Collaboration action types left out of recordings
+  ignoredActions?: CollaborationAction['type'][];
+  // Recordings stop by themselves once they hold this many events
+  maxEvents?: number;
+}
+
+export class SessionRecorder {
+  private options: Required<SessionRecorderOptions>;
+  private recording: SessionRecording | null = null;
+  private startTime = 0;
+  private roomId?: string;
+  private dirty = false;
+  private unsubscribe?: () => void;
+  private autosaveTimer?: ReturnType<typeof setInterval>;
+  private changeCallbacks: ((recording: SessionRecording | null) => void)[] = [];
+
+  /**
+   * Records MCP actions in dispatch order; register it with the MCP engine
+   */
+  readonly middleware: MCPMiddleware = {
+    name: 'recording',
+    execute: async (action, next) => {
+      this.recordMCP(action);
+      await next(action);
+    }
+  };
+
+  constructor(options: SessionRecorderOptions) {
+    this.options = {
+      autosaveInterval: 10000,
+      ignoredActions: ['cursor_move', 'presence_ping', 'presence_pong'],
+      maxEvents: 20000,
+      ...options
+    };
+  }
+
+  get isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  /**
+   * The recording in progress, if any
+   */
+  get current(): SessionRecording | null {
+    return this.recording && this.snapshot();
+  }
+
+  /**
+   * Start recording from the altar as it is now
+   */
+  start(name: string): SessionRecording {
+    if (this.recording) {
+      throw new Error('A session is already being recorded');
+    }
+
+    const { dimensions, elements } = this.options.source.getAltar();
+    this.startTime = Date.now();
+    this.recording = {
+      id: `recording-${this.startTime}-${Math.random().toString(36).substr(2, 9)}`,
+      name,
+      startedAt: new Date(this.startTime),
+      duration: 0,
+      ...(this.roomId ? { roomId: this.roomId } : {}),
+      dimensions: { ...dimensions },
+      initialElements: [...elements],
+      events: []
+    };
+    this.dirty = true;
+
+    this.unsubscribe = this.options.source.subscribe((next, previous) => {
+      if (next !== previous) {
+        this.recordAltarChange(diffElements(previous, next));
+      }
+    });
+    if (this.options.autosaveInterval > 0) {
+      this.autosaveTimer = setInterval(() => this.autosave(), this.options.autosaveInterval);
+    }
+
+    this.notify();
+    return this.snapshot();
+  }
+
+  /**
+   * Stop and save the recording in progress
+   */
+  async stop(): Promise<SessionRecording | null> {
+    if (!this.recording) return null;
+
+    const recording = this.snapshot();
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    clearInterval(this.autosaveTimer);
+    this.autosaveTimer = undefined;
+    this.recording = null;
+    this.notify();
+
+    await this.options.save(recording);
+    return recording;
+  }
+
+  /**
+   * Note the collaboration room this peer is in; it is stored with
+   * recordings started or running while in the room
+   */
+  setRoomId(roomId?: string): void {
+    this.roomId = roomId;
+    if (this.recording && roomId && !this.recording.roomId) {
+      this.recording.roomId = roomId;
+      this.dirty = true;
+    }
+  }
+
+  recordAltarChange(change: RecordedAltarChange): void {
+    if (!this.recording || (change.added.length === 0 && change.removed.length === 0)) return;
+    this.record({ at: this.elapsed(), kind: 'altar', data: change });
+  }
+
+  recordCollaboration(action: CollaborationAction, direction: 'in' | 'out'): void {
+    if (!this.recording || this.options.ignoredActions.includes(action.type)) return;
+    const data = detach(action);
+    if (data) {
+      this.record({ at: this.elapsed(), kind: 'collaboration', direction, data });
+    }
+  }
+
+  recordMCP(action: MCPAction): void {
+    if (!this.recording) return;
+    const { id, type, source, payload } = action;
+    const data = detach({ id, type, source, payload });
+    if (data) {
+      this.record({ at: this.elapsed(), kind: 'mcp', data });
+    }
+  }
+
+  /**
+   * Called when recording starts or stops; returns an unsubscribe function
+   */
+  onChange(callback: (recording: SessionRecording | null) => void): () => void {
+    this.changeCallbacks.push(callback);
+    return () => {
+      this.changeCallbacks = this.changeCallbacks.filter(other => other !== callback);
+    };
+  }
+
+  private elapsed(): number {
+    return Date.now() - this.startTime;
+  }
+
+  private record(event: RecordedEvent): void {
+    if (!this.recording) return;
+
+    this.recording.events.push(event);
+    this.dirty = true;
+
+    if (this.recording.events.length >= this.options.maxEvents) {
+      console.warn(`Session recording reached ${this.options.maxEvents} events and was stopped`);
+      this.stop().catch(error => console.error('Failed to save session recording:', error));
+    }
+  }
+
+  private autosave(): void {
+    if (!this.recording || !this.dirty) return;
+
+    this.dirty = false;
+    this.options.save(this.snapshot()).catch(error => {
+      this.dirty = true;
+      console.error('Failed to autosave session recording:', error);
+    });
+  }
+
+  private snapshot(): SessionRecording {
+    const recording = this.recording!;
+    return {
+      ...recording,
+      duration: this.elapsed(),
+      events: [...recording.events]
+    };
+  }
+
+  private notify(): void {
+    const current = this.current;
+    this.changeCallbacks.forEach(callback => {
+      try {
+        callback(current);
+      } catch (error) {
+        console.error('Error in recording change callback:', error);
+      }
+    });
+  }
+}
+
+/**
+ * Copy of an action's data that later changes to live objects cannot reach
+ */
+function detach<T>(value: T): T | null {
+  try {
+    return JSON.parse(JSON.stringify(value));
+  } catch (error) {
+    console.error('Failed to record session event:', error);
+    return null;
+  }
+}
+
+/**
+ * Grid change between two lists of placed elements. Elements are matched by
+ * id; one that was replaced, e.g. moved, shows up as removed and added.
+ */
+export function diffElements(previous: PlacedElement[], next: PlacedElement[]): RecordedAltarChange {
+  const before = new Map(previous.map(element => [element.id, element]));
+  const after = new Map(next.map(element => [element.id, element]));
+
+  return {
+    added: next.filter(element => before.get(element.id) !== element),
+    removed: previous.filter(element => after.get(element.id) !== element)
+  };
+}
+
+/**
+ * Apply a recorded grid change to a list of placed elements
+ */
+export function applyAltarChange(elements: PlacedElement[], change: RecordedAltarChange): PlacedElement[] {
+  const replaced = new Set([...change.removed, ...change.added].map(element => element.id));
+  return [...elements.filter(element => !replaced.has(element.id)), ...change.added];
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DebugSessionAutosave } from '../debug-session-autosave';
+import { MCPDebugLogger, type MCPDebugSession } from '../../mcp-debug';
+import type { MCPAction } from '../../../types/mcp';
+
+const action = (id: string): MCPAction => ({
+  type: 'updateSettings',
+  payload: { settings: {} },
+  timestamp: new Date(),
+  id,
+  source: 'local'
+});
+
+describe('DebugSessionAutosave', () => {
+  let logger: MCPDebugLogger;
+  let saved: MCPDebugSession[];
+  let autosave: DebugSessionAutosave;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    logger = new MCPDebugLogger({
+      enableLogging: true,
+      enablePerformanceMonitoring: true,
+      stateValidation: false,
+      rollbackOnError: true,
+      maxRetries: 3,
+      retryDelay: 100
+    });
+    saved = [];
+    autosave = new DebugSessionAutosave({
+      logger,
+      save: async session => {
+        saved.push(session);
+      },
+      delay: 500
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('saves the action log once logging settles', async () => {
+    autosave.start();
+    logger.logActionExecution(action('a1'), 1, true);
+    await vi.advanceTimersByTimeAsync(300);
+    logger.logActionExecution(action('a2'), 1, true);
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(saved).toHaveLength(1);
+    expect(saved[0].id).toBe(autosave.id);
+    expect(saved[0].entries.map(entry => entry.action.id)).toEqual(['a1', 'a2']);
+  });
+
+  it('writes out pending actions when stopped and then stops listening', async () => {
+    autosave.start();
+    logger.logActionExecution(action('a1'), 1, true);
+
+    await autosave.stop();
+    logger.logActionExecution(action('a2'), 1, true);
+    await vi.runAllTimersAsync();
+
+    expect(saved.map(session => session.entries.length)).toEqual([1]);
+    expect(autosave.isRunning).toBe(false);
+  });
+
+  it('does not save a session without actions', async () => {
+    autosave.start();
+    logger.clearHistory();
+    await vi.runAllTimersAsync();
+
+    expect(saved).toEqual([]);
+  });
+});
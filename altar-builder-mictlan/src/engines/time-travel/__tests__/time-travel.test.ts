@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MCPTimeTravel, snapshotAt } from '../time-travel';
+import type { MCPActionLogEntry } from '../../mcp-debug';
+import type { TypedMCPAction } from '../../../types/mcp';
+
+const entry = (
+  id: string,
+  moduleName: string | undefined,
+  previousState: unknown,
+  newState: unknown,
+  success = true
+): MCPActionLogEntry => ({
+  action: { type: 'placeElement', payload: { id }, timestamp: new Date(), id, source: 'local' },
+  timestamp: new Date(),
+  duration: 1,
+  success,
+  ...(moduleName ? { moduleName, previousState, newState } : {})
+});
+
+// altar: 0 → 1 → 2, user changes once in between, one action fails
+const entries: MCPActionLogEntry[] = [
+  entry('a1', 'altar', { n: 0 }, { n: 1 }),
+  entry('u1', 'user', { sound: true }, { sound: false }),
+  entry('bad', undefined, undefined, undefined, false),
+  entry('a2', 'altar', { n: 1 }, { n: 2 })
+];
+
+describe('snapshotAt', () => {
+  it('takes every module from before the first action at -1', () => {
+    expect(snapshotAt(entries, -1)).toEqual({ altar: { n: 0 }, user: { sound: true } });
+  });
+
+  it('takes each module from the last action that changed it', () => {
+    expect(snapshotAt(entries, 0)).toEqual({ altar: { n: 1 }, user: { sound: true } });
+    expect(snapshotAt(entries, 2)).toEqual({ altar: { n: 1 }, user: { sound: false } });
+    expect(snapshotAt(entries, 3)).toEqual({ altar: { n: 2 }, user: { sound: false } });
+  });
+});
+
+describe('MCPTimeTravel', () => {
+  let applied: Record<string, unknown>[];
+  let dispatched: TypedMCPAction[];
+  let timeTravel: MCPTimeTravel;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    applied = [];
+    dispatched = [];
+    timeTravel = new MCPTimeTravel({
+      applyStates: states => applied.push(states),
+      dispatch: async action => {
+        dispatched.push(action);
+        if ((action.payload as { id: string }).id === 'bad') {
+          throw { type: 'action_failed', message: 'Cell is taken' };
+        }
+        return { replayed: (action.payload as { id: string }).id };
+      },
+      replayDelay: 100
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('jumps the app to the state after an entry', () => {
+    const states: number[] = [];
+    timeTravel.onChange(state => states.push(state.position ?? NaN));
+
+    timeTravel.jumpTo(entries, 1);
+
+    expect(applied).toEqual([{ altar: { n: 1 }, user: { sound: false } }]);
+    expect(timeTravel.getState()).toEqual({ position: 1, isReplaying: false, failures: [] });
+    expect(states).toEqual([1]);
+  });
+
+  it('replays later actions in order with fresh ids and reports failures', async () => {
+    const replay = timeTravel.replayFrom(entries, 0);
+    await vi.runAllTimersAsync();
+    const failures = await replay;
+
+    expect(dispatched.map(action => (action.payload as { id: string }).id)).toEqual(['u1', 'bad', 'a2']);
+    dispatched.forEach(action => expect(action.id).toMatch(/^replay-/));
+    expect(failures).toEqual([{ index: 2, type: 'placeElement', error: 'Cell is taken' }]);
+    expect(applied).toEqual([
+      { altar: { n: 1 }, user: { sound: true } },
+      { user: { replayed: 'u1' } },
+      { altar: { replayed: 'a2' } }
+    ]);
+    expect(timeTravel.getState()).toEqual({ position: 3, isReplaying: false, failures });
+  });
+
+  it('stops replaying where it got to', async () => {
+    const replay = timeTravel.replayFrom(entries, -1);
+    await vi.advanceTimersByTimeAsync(150);
+
+    timeTravel.stop();
+    await vi.runAllTimersAsync();
+    await replay;
+
+    expect(dispatched).toHaveLength(1);
+    expect(timeTravel.getState()).toMatchObject({ position: 0, isReplaying: false });
+  });
+});
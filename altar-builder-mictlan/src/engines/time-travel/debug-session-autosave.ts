@@ -0,0 +1,85 @@
+import type { MCPDebugLogger, MCPDebugSession } from '../mcp-debug';
+
+/**
+ * Keeps this page load's MCP action log saved as a debug session, so the
+ * actions that led to a bug can still be looked at after a reload.
+ */
+
+export interface DebugSessionAutosaveOptions {
+  logger: MCPDebugLogger;
+  save: (session: MCPDebugSession) => Promise<void>;
+  // Wait after the last logged action before saving
+  delay?: number;
+}
+
+export class DebugSessionAutosave {
+  readonly id: string;
+  readonly startedAt: Date;
+  private options: Required<DebugSessionAutosaveOptions>;
+  private unsubscribe?: () => void;
+  private saveTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: DebugSessionAutosaveOptions) {
+    this.options = { delay: 1000, ...options };
+    this.startedAt = new Date();
+    this.id = `mcp-debug-${this.startedAt.getTime()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  get isRunning(): boolean {
+    return this.unsubscribe !== undefined;
+  }
+
+  /**
+   * The session as logged so far
+   */
+  get current(): MCPDebugSession {
+    const { logger } = this.options;
+    return {
+      id: this.id,
+      startedAt: this.startedAt,
+      updatedAt: new Date(),
+      entries: logger.getActionLog(),
+      alerts: logger.getPerformanceAlerts()
+    };
+  }
+
+  start(): void {
+    if (this.unsubscribe) return;
+    this.unsubscribe = this.options.logger.onChange(() => this.schedule());
+  }
+
+  /**
+   * Stop saving, writing out anything logged since the last save
+   */
+  async stop(): Promise<void> {
+    if (!this.unsubscribe) return;
+
+    this.unsubscribe();
+    this.unsubscribe = undefined;
+    if (this.saveTimer !== undefined) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+      await this.save();
+    }
+  }
+
+  private schedule(): void {
+    clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.save();
+    }, this.options.delay);
+  }
+
+  private async save(): Promise<void> {
+    const session = this.current;
+    // Nothing worth keeping until an action has been logged
+    if (session.entries.length === 0) return;
+
+    try {
+      await this.options.save(session);
+    } catch (error) {
+      console.error('[MCP Debug] Failed to save debug session:', error);
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { mcpEngine } from '../mcp-engine';
+import { mcpZustandBridge } from '../mcp-zustand-bridge';
+import { getDBManager } from '../../utils/indexeddb';
+import { DebugSessionAutosave } from './debug-session-autosave';
+import { MCPTimeTravel } from './time-travel';
+
+export {
+  MCPTimeTravel,
+  snapshotAt,
+  type ReplayFailure,
+  type TimeTravelOptions,
+  type TimeTravelState
+} from './time-travel';
+export { DebugSessionAutosave, type DebugSessionAutosaveOptions } from './debug-session-autosave';
+
+// Debug sessions kept from earlier page loads
+export const DEBUG_SESSION_RETENTION = 5;
+
+/**
+ * Time travel over the app's MCP engine, shown through the store bridge
+ */
+export const mcpTimeTravel = new MCPTimeTravel({
+  applyStates: states => mcpZustandBridge.restoreSnapshot(states),
+  dispatch: action => mcpEngine.dispatch(action)
+});
+
+/**
+ * This page load's action log, saved into IndexedDB
+ */
+export const debugSessionAutosave = new DebugSessionAutosave({
+  logger: mcpEngine.getDebugLogger(),
+  save: session => getDBManager().saveDebugSession(session)
+});
+
+/**
+ * Drop all but the newest saved sessions, then keep this one saved
+ */
+export async function startDebugSessionAutosave(): Promise<void> {
+  try {
+    const db = getDBManager();
+    const stale = (await db.getAllDebugSessions()).slice(DEBUG_SESSION_RETENTION);
+    await Promise.all(stale.map(session => db.deleteDebugSession(session.id)));
+  } catch (error) {
+    console.error('[MCP Debug] Failed to prune debug sessions:', error);
+  }
+
+  debugSessionAutosave.start();
+}
@@ -0,0 +1,169 @@
+import type { MCPActionLogEntry } from '../mcp-debug';
+import type { TypedMCPAction } from '../../types/mcp';
+
+/**
+ * Moves the app through the states an MCP action log went through.
+ *
+ * Every logged action that changed a module carries that module's state
+ * before and after it, so the state at any point of the log is a lookup per
+ * module rather than a replay from the start. Replaying dispatches the
+ * logged actions again from such a point, through the middleware and
+ * reducers as they are now, which is what makes a bug report reproducible.
+ */
+
+export interface TimeTravelOptions {
+  // Shows module states in the app without dispatching anything
+  applyStates: (states: Record<string, unknown>) => void;
+  // Dispatches a replayed action and resolves with the module's new state
+  dispatch: (action: TypedMCPAction) => Promise<unknown>;
+  // Wall-clock time between replayed actions
+  replayDelay?: number;
+}
+
+export interface ReplayFailure {
+  index: number;
+  type: string;
+  error: string;
+}
+
+export interface TimeTravelState {
+  // Log entry the app was last put at; -1 is before the first action
+  position: number | null;
+  isReplaying: boolean;
+  // Actions that failed while replaying the current run
+  failures: ReplayFailure[];
+}
+
+/**
+ * Module states right after the log entry at `index`, or before the first
+ * entry for -1. Modules no entry up to there changed take the state they
+ * had before the first entry that did.
+ */
+export function snapshotAt(entries: MCPActionLogEntry[], index: number): Record<string, unknown> {
+  const states: Record<string, unknown> = {};
+
+  entries.forEach((entry, at) => {
+    if (!entry.moduleName || !entry.success || entry.newState === undefined) return;
+
+    if (at <= index) {
+      states[entry.moduleName] = entry.newState;
+    } else if (!(entry.moduleName in states)) {
+      states[entry.moduleName] = entry.previousState;
+    }
+  });
+
+  return states;
+}
+
+export class MCPTimeTravel {
+  private options: Required<TimeTravelOptions>;
+  private state: TimeTravelState = { position: null, isReplaying: false, failures: [] };
+  // Bumped to cancel the replay in progress
+  private replayRun = 0;
+  private changeCallbacks: ((state: TimeTravelState) => void)[] = [];
+
+  constructor(options: TimeTravelOptions) {
+    this.options = { replayDelay: 300, ...options };
+  }
+
+  getState(): TimeTravelState {
+    return { ...this.state, failures: [...this.state.failures] };
+  }
+
+  /**
+   * Put the app in the state it was in right after the entry at `index`
+   */
+  jumpTo(entries: MCPActionLogEntry[], index: number): void {
+    this.stop();
+    this.options.applyStates(snapshotAt(entries, this.clamp(entries, index)));
+    this.update({ position: this.clamp(entries, index), failures: [] });
+  }
+
+  /**
+   * Jump to the entry at `index`, then dispatch every later action again in
+   * order. Actions that fail are reported and the replay carries on.
+   */
+  async replayFrom(entries: MCPActionLogEntry[], index: number): Promise<ReplayFailure[]> {
+    this.jumpTo(entries, index);
+
+    const run = ++this.replayRun;
+    const failures: ReplayFailure[] = [];
+    this.update({ isReplaying: true });
+
+    for (let at = this.clamp(entries, index) + 1; at < entries.length; at++) {
+      await this.wait(this.options.replayDelay);
+      if (run !== this.replayRun) return failures;
+
+      const entry = entries[at];
+      try {
+        const state = await this.options.dispatch(this.copyForReplay(entry));
+        // The bridge may not mirror MCP edits into the store on its own
+        if (entry.moduleName && state !== undefined) {
+          this.options.applyStates({ [entry.moduleName]: state });
+        }
+      } catch (error) {
+        failures.push({
+          index: at,
+          type: entry.action.type,
+          error: (error as { message?: string } | null)?.message ?? String(error)
+        });
+      }
+
+      if (run !== this.replayRun) return failures;
+      this.update({ position: at, failures: [...failures] });
+    }
+
+    this.update({ isReplaying: false });
+    return failures;
+  }
+
+  /**
+   * Stop the replay in progress, leaving the app where it got to
+   */
+  stop(): void {
+    this.replayRun++;
+    if (this.state.isReplaying) {
+      this.update({ isReplaying: false });
+    }
+  }
+
+  /**
+   * Called whenever the position or replay changes; returns an unsubscribe function
+   */
+  onChange(callback: (state: TimeTravelState) => void): () => void {
+    this.changeCallbacks.push(callback);
+    return () => {
+      this.changeCallbacks = this.changeCallbacks.filter(other => other !== callback);
+    };
+  }
+
+  private clamp(entries: MCPActionLogEntry[], index: number): number {
+    return Math.min(Math.max(index, -1), entries.length - 1);
+  }
+
+  // A fresh id and time, so the replay shows up in the log as new actions
+  private copyForReplay(entry: MCPActionLogEntry): TypedMCPAction {
+    return {
+      ...entry.action,
+      id: `replay-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: new Date()
+    } as TypedMCPAction;
+  }
+
+  private wait(delay: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, delay));
+  }
+
+  private update(changes: Partial<TimeTravelState>): void {
+    this.state = { ...this.state, ...changes };
+
+    const state = this.getState();
+    this.changeCallbacks.forEach(callback => {
+      try {
+        callback(state);
+      } catch (error) {
+        console.error('Error in time travel callback:', error);
+      }
+    });
+  }
+}
@@ -1,7 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { useCollaboration } from '../useCollaboration';
-import type { OfrendarElement } from '../../types';
+import { MainCollaborationEngine } from '../../engines/collaboration/collaboration-engine';
+import { useAltarStore } from '../../store/useAltarStore';
+import type { CollaborationAction, OfrendarElement } from '../../types';
 
 // Mock the collaboration engines
 vi.mock('../../engines/collaboration/collaboration-engine', () => ({
@@ -15,7 +17,13 @@ vi.mock('../../engines/collaboration/collaboration-engine', () => ({
     parseShareableLink: vi.fn(() => 'test-room-123'),
     onStateChange: vi.fn(),
     onAction: vi.fn(),
+    onActionSent: vi.fn(),
     onError: vi.fn(),
+    onPeerConnect: vi.fn(),
+    onPeerDisconnect: vi.fn(),
+    onRelayGap: vi.fn(),
+    localPeerId: 'local-peer',
+    hostPeerId: 'host-peer',
     destroy: vi.fn()
   }))
 }));
@@ -29,31 +37,6 @@ vi.mock('../../engines/collaboration/room-manager', () => ({
   }))
 }));
 
-vi.mock('../../engines/collaboration/operational-transform', () => ({
-  OperationalTransform: vi.fn(() => ({
-    actionToOperation: vi.fn(() => ({
-      id: 'test-op',
-      type: 'place',
-      elementType: 'vela',
-      position: { row: 0, col: 0 },
-      timestamp: Date.now(),
-      peerId: 'peer1'
-    })),
-    transform: vi.fn(() => ({
-      shouldApply: true,
-      operation: {
-        id: 'test-op',
-        type: 'place',
-        elementType: 'vela',
-        position: { row: 0, col: 0 },
-        timestamp: Date.now(),
-        peerId: 'peer1'
-      },
-      conflicts: []
-    }))
-  }))
-}));
-
 // Mock crypto.getRandomValues
 Object.defineProperty(global, 'crypto', {
   value: {
@@ -419,6 +402,124 @@ describe('useCollaboration', () => {
     });
   });
 
+  describe('Roles', () => {
+    const latestEngineActionHandler = () => {
+      const engine = vi.mocked(MainCollaborationEngine).mock.results.at(-1)!.value;
+      return engine.onAction.mock.calls[0][0] as (action: CollaborationAction) => void;
+    };
+
+    const placeFrom = (peerId: string, elementId: string): CollaborationAction => ({
+      type: 'element_place',
+      peerId,
+      timestamp: Date.now(),
+      data: {
+        elementId,
+        elementType: 'vela',
+        position: { row: 0, col: 0 },
+        stamp: { counter: 1, replicaId: peerId }
+      }
+    });
+
+    it('should enforce roles announced by the host on incoming actions', async () => {
+      const onElementPlace = vi.fn();
+      const { result } = renderHook(() => useCollaboration({ onElementPlace }));
+      const receive = latestEngineActionHandler();
+      await act(() => result.current.joinRoom('test-room-123'));
+
+      act(() => {
+        receive({
+          type: 'room_roles',
+          peerId: 'host-peer',
+          timestamp: Date.now(),
+          data: { hostId: 'host-peer', roles: { 'host-peer': 'host', viewer: 'viewer' }, locked: false, kicked: [] }
+        });
+        receive(placeFrom('viewer', 'vela-1'));
+      });
+      expect(onElementPlace).not.toHaveBeenCalled();
+
+      act(() => {
+        receive(placeFrom('host-peer', 'vela-2'));
+      });
+      expect(onElementPlace).toHaveBeenCalledWith('vela', { row: 0, col: 0 }, 'host-peer', undefined, 'vela-2');
+    });
+
+    it('should ignore role changes from peers other than the host', async () => {
+      const { result } = renderHook(() => useCollaboration());
+      const receive = latestEngineActionHandler();
+      await act(() => result.current.joinRoom('test-room-123'));
+
+      act(() => {
+        receive({
+          type: 'room_roles',
+          peerId: 'host-peer',
+          timestamp: Date.now(),
+          data: { hostId: 'host-peer', roles: { 'host-peer': 'host' }, locked: false, kicked: [] }
+        });
+        receive({
+          type: 'role_change',
+          peerId: 'other-peer',
+          timestamp: Date.now(),
+          data: { peerId: 'local-peer', role: 'viewer' }
+        });
+      });
+
+      expect(result.current.localRole).toBe('editor');
+      expect(result.current.roster.hostId).toBe('host-peer');
+    });
+
+    it('should keep chat from viewers but drop it from kicked peers', async () => {
+      const { result } = renderHook(() => useCollaboration());
+      const receive = latestEngineActionHandler();
+      await act(() => result.current.joinRoom('test-room-123'));
+      const chatFrom = (peerId: string, id: string): CollaborationAction => ({
+        type: 'chat_message',
+        peerId,
+        timestamp: Date.now(),
+        data: { id, text: 'hola' }
+      });
+
+      act(() => {
+        receive({
+          type: 'room_roles',
+          peerId: 'host-peer',
+          timestamp: Date.now(),
+          data: { hostId: 'host-peer', roles: { 'host-peer': 'host', viewer: 'viewer' }, locked: false, kicked: ['kicked'] }
+        });
+        receive(chatFrom('viewer', 'msg-1'));
+        receive(chatFrom('kicked', 'msg-2'));
+      });
+
+      expect(result.current.messages).toEqual([expect.objectContaining({ id: 'msg-1', peerId: 'viewer' })]);
+    });
+
+    it('should refuse moderation when the local peer is not the host', () => {
+      const { result } = renderHook(() => useCollaboration());
+
+      act(() => {
+        result.current.kickPeer('other-peer');
+      });
+
+      expect(result.current.error).toBe('Only the host can kick peers');
+    });
+  });
+
+  describe('Relay gaps', () => {
+    it('should ask peers for the whole altar when relayed actions were lost', async () => {
+      const { result } = renderHook(() => useCollaboration());
+      const engine = vi.mocked(MainCollaborationEngine).mock.results.at(-1)!.value;
+      await act(() => result.current.joinRoom('test-room-123'));
+
+      act(() => {
+        engine.onRelayGap.mock.calls[0][0](['ana']);
+      });
+
+      expect(engine.sendAction).toHaveBeenCalledWith({
+        type: 'sync_request',
+        data: expect.objectContaining({ to: 'ana', full: true })
+      });
+    });
+  });
+
   describe('Cleanup', () => {
     it('should cleanup on unmount', () => {
       const { result, unmount } = renderHook(() => useCollaboration());
@@ -433,4 +534,51 @@ describe('useCollaboration', () => {
       }
     });
   });
-});
\ No newline at end of file
+
+  describe('Soft locks', () => {
+    const latestEngine = () => vi.mocked(MainCollaborationEngine).mock.results.at(-1)!.value;
+
+    afterEach(() => {
+      useAltarStore.getState().setDragging(false);
+    });
+
+    it('should announce the local drag target while connected', () => {
+      renderHook(() => useCollaboration());
+      const engine = latestEngine();
+      const setState = engine.onStateChange.mock.calls[0][0];
+
+      act(() => {
+        setState({ isHost: false, peers: new Map(), cursors: new Map(), isConnected: true, connectionType: 'webrtc' });
+      });
+      act(() => {
+        useAltarStore.getState().setDragging(true);
+        useAltarStore.getState().setDragTarget({ cell: { row: 1, col: 2 } });
+      });
+      expect(engine.sendAction).toHaveBeenCalledWith({ type: 'drag_lock', data: { cell: { row: 1, col: 2 }, ttl: 5000 } });
+
+      act(() => {
+        useAltarStore.getState().setDragging(false);
+      });
+      expect(engine.sendAction).toHaveBeenLastCalledWith({ type: 'drag_release', data: {} });
+    });
+
+    it('should put locks from peers in the store with their color', () => {
+      renderHook(() => useCollaboration());
+      const engine = latestEngine();
+      const setState = engine.onStateChange.mock.calls[0][0];
+      const receive = engine.onAction.mock.calls[0][0] as (action: CollaborationAction) => void;
+      const peer = { id: 'ana', name: 'Ana', color: '#ff0000', isConnected: true, lastSeen: new Date() };
+
+      act(() => {
+        setState({ isHost: false, peers: new Map([['ana', peer]]), cursors: new Map(), isConnected: true, connectionType: 'webrtc' });
+      });
+      act(() => {
+        receive({ type: 'drag_lock', peerId: 'ana', timestamp: Date.now(), data: { cell: { row: 0, col: 0 } } });
+      });
+
+      expect(useAltarStore.getState().ui.softLocks).toEqual([
+        expect.objectContaining({ peerId: 'ana', cell: { row: 0, col: 0 }, name: 'Ana', color: '#ff0000' })
+      ]);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useDragAndDrop } from '../useDragAndDrop';
+import { useAltarStore } from '../../store/useAltarStore';
+import { getElementById } from '../../data/elements';
+import { DRAG_DATA } from '../../utils/constants';
+import type { OfrendarElement } from '../../types';
+
+const vela = getElementById('vela-1') as OfrendarElement;
+
+const placed = () => useAltarStore.getState().grid.placedElements;
+
+// Enough of a drag event for the hook, keeping what it writes
+function dragEvent() {
+  const data = new Map<string, string>();
+  const event = {
+    clientX: 0,
+    clientY: 0,
+    preventDefault: vi.fn(),
+    dataTransfer: {
+      effectAllowed: 'none',
+      setData: (type: string, value: string) => data.set(type, value),
+      getData: (type: string) => data.get(type) ?? ''
+    }
+  };
+  return { event: event as unknown as React.DragEvent, data };
+}
+
+describe('useDragAndDrop', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    useAltarStore.setState(state => ({
+      grid: { ...state.grid, dimensions: { rows: 12, cols: 9 }, placedElements: [] },
+      ui: { ...state.ui, softLocks: [] }
+    }));
+    useAltarStore.getState().clearHistory();
+    [0, 1, 2, 3].forEach(col => useAltarStore.getState().placeElement(vela, { row: 0, col }));
+  });
+
+  it('drags a placed element with its id and catalog element', () => {
+    const { result } = renderHook(() => useDragAndDrop());
+    const { event, data } = dragEvent();
+
+    act(() => result.current.handlePlacedDragStart(event, placed()[0]));
+
+    expect(data.get(DRAG_DATA.PLACED_ELEMENT_ID)).toBe(placed()[0].id);
+    expect(JSON.parse(data.get(DRAG_DATA.ELEMENT) ?? '{}')).toMatchObject({ id: vela.id });
+  });
+
+  it('lets a placed element move without counting against its own quantity', () => {
+    const { result } = renderHook(() => useDragAndDrop());
+    const target = { row: 0, col: 5 };
+
+    expect(result.current.validateDrop(vela, target).isValid).toBe(false);
+    expect(result.current.validateDrop(vela, target, placed()[0].id).isValid).toBe(true);
+  });
+
+  it('moves a placed element to the dropped cell, keeping its id', async () => {
+    const { result } = renderHook(() => useDragAndDrop());
+    const { id } = placed()[0];
+
+    let moved = false;
+    await act(async () => {
+      moved = await result.current.handleMove(vela, id, { row: 0, col: 5 });
+    });
+
+    expect(moved).toBe(true);
+    expect(placed()).toHaveLength(4);
+    expect(placed().find(element => element.id === id)?.position).toEqual({ row: 0, col: 5 });
+  });
+
+  it('refuses to move onto an occupied cell', async () => {
+    const { result } = renderHook(() => useDragAndDrop());
+
+    let moved = true;
+    await act(async () => {
+      moved = await result.current.handleMove(vela, placed()[0].id, { row: 0, col: 1 });
+    });
+
+    expect(moved).toBe(false);
+    expect(placed()[0].position).toEqual({ row: 0, col: 0 });
+  });
+});
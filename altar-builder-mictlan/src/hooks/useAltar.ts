@@ -6,8 +6,10 @@
  */
 
 import { useCallback } from 'react';
-import { useAltarStore, usePlacedElements, useGridDimensions } from '../store/useAltarStore';
-import type { OfrendarElement, GridPosition, PlacedElement } from '../types';
+import { useAltarStore, usePlacedElements, useGridDimensions, useSettings } from '../store/useAltarStore';
+import { useMCPActions } from '../engines/mcp-zustand-bridge';
+import { evaluateAltar } from '../utils/altar-scoring';
+import type { OfrendarElement, GridPosition, PlacedElement, AltarScoreReport, EditResult } from '../types';
 
 /**
  * Main altar management hook
@@ -16,9 +18,10 @@ export function useAltar() {
   const store = useAltarStore();
   const placedElements = usePlacedElements();
   const gridDimensions = useGridDimensions();
+  const mcpActions = useMCPActions();
 
   // Place element on grid
-  const placeElement = useCallback((element: OfrendarElement, position: GridPosition): boolean => {
+  const placeElement = useCallback((element: OfrendarElement, position: GridPosition): EditResult => {
     return store.placeElement(element, position);
   }, [store]);
 
@@ -32,10 +35,10 @@ export function useAltar() {
     store.clearAltar();
   }, [store]);
 
-  // Restore altar from saved state
-  const restoreAltar = useCallback((elements: PlacedElement[]): void => {
-    store.restoreAltar(elements);
-  }, [store]);
+  // Restore altar from saved state; resolves with whether MCP committed it
+  const restoreAltar = useCallback((elements: PlacedElement[]): Promise<boolean> => {
+    return mcpActions.restoreAltar(elements);
+  }, [mcpActions]);
 
   // Get element at position
   const getElementAt = useCallback((position: GridPosition): PlacedElement | undefined => {
@@ -105,46 +108,25 @@ export function useAltar() {
  */
 export function useAltarValidation() {
   const placedElements = usePlacedElements();
+  const gridDimensions = useGridDimensions();
+  const { language } = useSettings();
 
   // Validate cultural authenticity
   const validateCulturalAuthenticity = useCallback((): {
     isValid: boolean;
     score: number;
     suggestions: string[];
+    report: AltarScoreReport;
   } => {
-    const suggestions: string[] = [];
-    let score = 100;
-
-    // Check for essential elements
-    const hasPhotos = placedElements.some(el => el.elementType === 'foto');
-    const hasCandles = placedElements.some(el => el.elementType === 'vela');
-    const hasFlowers = placedElements.some(el => el.elementType === 'flor');
-
-    if (!hasPhotos) {
-      suggestions.push('Agrega fotos de tus seres queridos');
-      score -= 20;
-    }
-    if (!hasCandles) {
-      suggestions.push('Las velas guían el camino de los difuntos');
-      score -= 15;
-    }
-    if (!hasFlowers) {
-      suggestions.push('Las flores de cempasúchil son tradicionales');
-      score -= 15;
-    }
-
-    // Check for minimum elements
-    if (placedElements.length < 5) {
-      suggestions.push('Agrega más elementos a tu altar');
-      score -= 10;
-    }
+    const report = evaluateAltar(placedElements, gridDimensions, language);
 
     return {
-      isValid: score >= 60,
-      score: Math.max(0, score),
-      suggestions
+      isValid: report.isValid,
+      score: report.culturalAuthenticity,
+      suggestions: report.recommendations,
+      report
     };
-  }, [placedElements]);
+  }, [placedElements, gridDimensions, language]);
 
   // Validate grid placement
   const validatePlacement = useCallback((
@@ -189,24 +171,25 @@ export function useAltarValidation() {
  */
 export function useAltarMetadata() {
   const placedElements = usePlacedElements();
+  const gridDimensions = useGridDimensions();
   const { getStatistics } = useAltar();
 
   const generateMetadata = useCallback(() => {
     const stats = getStatistics();
-    const validation = useAltarValidation().validateCulturalAuthenticity();
+    const report = evaluateAltar(placedElements, gridDimensions);
 
     return {
       version: '1.0.0',
       createdAt: new Date().toISOString(),
       statistics: stats,
-      culturalScore: validation.score,
+      culturalScore: report.culturalAuthenticity,
       elements: placedElements.map(el => ({
         type: el.elementType,
         position: el.position,
         placedAt: el.placedAt
       }))
     };
-  }, [placedElements, getStatistics]);
+  }, [placedElements, gridDimensions, getStatistics]);
 
   return {
     generateMetadata
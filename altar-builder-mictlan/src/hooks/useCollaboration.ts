@@ -1,19 +1,38 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { MainCollaborationEngine } from '../engines/collaboration/collaboration-engine';
 import { CollaborationRoomManager, type RoomInfo } from '../engines/collaboration/room-manager';
-import { OperationalTransform } from '../engines/collaboration/operational-transform';
+import { diffResolvedAltars, type ResolvedAltar } from '../engines/collaboration/altar-crdt';
+import { AltarSync } from '../engines/collaboration/altar-sync';
+import { RoomRoles } from '../engines/collaboration/room-roles';
+import { RoomChat } from '../engines/collaboration/room-chat';
+import { SoftLocks } from '../engines/collaboration/soft-locks';
+import { sessionRecorder } from '../engines/recording';
+import { useAltarStore, useGridDimensions } from '../store/useAltarStore';
 import type { 
   CollaborationState, 
   CollaborationAction, 
   CollaborationPeer,
+  CollaborationRole,
+  CellReaction,
+  ChatMessage,
   CursorPosition,
+  ReactionEmoji,
+  RoomRoster,
   GridPosition,
-  OfrendarElement
+  OfrendarElement,
+  CustomElement
 } from '../types';
 
 export interface UseCollaborationOptions {
-  onElementPlace?: (elementType: string, position: GridPosition, peerId: string) => void;
+  onElementPlace?: (
+    elementType: string,
+    position: GridPosition,
+    peerId: string,
+    customElement?: CustomElement,
+    elementId?: string
+  ) => void;
   onElementRemove?: (elementId: string, peerId: string) => void;
+  onElementMove?: (elementId: string, position: GridPosition, peerId: string) => void;
   onPeerJoin?: (peer: CollaborationPeer) => void;
   onPeerLeave?: (peerId: string) => void;
   onError?: (error: Error) => void;
@@ -25,17 +44,33 @@ export interface UseCollaborationReturn {
   isLoading: boolean;
   error: string | null;
   recentRooms: RoomInfo[];
+  roster: RoomRoster;
+  localRole: CollaborationRole;
+  canEdit: boolean;
+  messages: ChatMessage[];
+  reactions: CellReaction[];
+  localPeerId?: string;
   
   // Actions
-  createRoom: (name: string) => Promise<void>;
-  joinRoom: (roomId: string) => Promise<void>;
+  createRoom: (name: string, passphrase?: string) => Promise<void>;
+  joinRoom: (roomId: string, passphrase?: string) => Promise<void>;
   leaveRoom: () => void;
   shareRoom: () => void;
+
+  // Host moderation
+  setPeerRole: (peerId: string, role: CollaborationRole) => void;
+  kickPeer: (peerId: string) => void;
+  setAltarLocked: (locked: boolean) => void;
+
+  // Chat
+  sendChatMessage: (text: string) => void;
+  sendReaction: (emoji: ReactionEmoji, position: GridPosition) => void;
   
   // Real-time features
   updateCursor: (x: number, y: number, gridPosition?: GridPosition) => void;
-  sendElementPlace: (element: OfrendarElement, position: GridPosition) => void;
+  sendElementPlace: (element: OfrendarElement, position: GridPosition, elementId?: string) => void;
   sendElementRemove: (elementId: string, position: GridPosition) => void;
+  sendElementMove: (elementId: string, position: GridPosition, previousPosition: GridPosition) => void;
   
   // Utilities
   parseInviteLink: (url: string) => string | null;
@@ -55,34 +90,126 @@ export function useCollaboration(options: UseCollaborationOptions = {}): UseColl
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [recentRooms, setRecentRooms] = useState<RoomInfo[]>([]);
+  const [roster, setRoster] = useState<RoomRoster>({ roles: {}, locked: false, kicked: [] });
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [reactions, setReactions] = useState<CellReaction[]>([]);
   
   const engineRef = useRef<MainCollaborationEngine | null>(null);
   const roomManagerRef = useRef<CollaborationRoomManager | null>(null);
-  const operationalTransformRef = useRef<OperationalTransform | null>(null);
-  const localOperationsRef = useRef<any[]>([]);
+  // Shared altar replica and the layout last reported to the callbacks
+  const syncRef = useRef<AltarSync | null>(null);
+  const rolesRef = useRef<RoomRoles | null>(null);
+  const chatRef = useRef<RoomChat | null>(null);
+  const locksRef = useRef<SoftLocks | null>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const syncedRoomRef = useRef<string | undefined>(undefined);
+  const viewRef = useRef<ResolvedAltar>({ elements: [], unplaced: [] });
+
+  const dimensions = useGridDimensions();
+  const dimensionsRef = useRef(dimensions);
+  dimensionsRef.current = dimensions;
 
   // Initialize engines
   useEffect(() => {
     engineRef.current = new MainCollaborationEngine({
       maxPeers: 4,
       reconnectAttempts: 3,
-      heartbeatInterval: 30000
+      heartbeatInterval: 5000
     });
 
     roomManagerRef.current = new CollaborationRoomManager();
-    operationalTransformRef.current = new OperationalTransform();
 
     // Set up event listeners
     const engine = engineRef.current;
+
+    const sync = new AltarSync({
+      peerId: engine.localPeerId,
+      send: action => engine.sendAction(action)
+    });
+    syncRef.current = sync;
+
+    const roles = new RoomRoles({
+      peerId: engine.localPeerId,
+      send: action => engine.sendAction(action)
+    });
+    rolesRef.current = roles;
+
+    roles.onChange(setRoster);
+
+    const chat = new RoomChat({
+      peerId: engine.localPeerId,
+      send: action => engine.sendAction(action)
+    });
+    chatRef.current = chat;
+
+    chat.onChange(() => {
+      setMessages(chat.getMessages());
+      setReactions(chat.getReactions());
+    });
+
+    // Soft locks live in the altar store, where drops are validated and
+    // cells drawn; the local drag target comes from there too
+    const locks = new SoftLocks({
+      peerId: engine.localPeerId,
+      send: action => engine.sendAction(action)
+    });
+    locksRef.current = locks;
+
+    locks.onChange(current => {
+      const peers = stateRef.current.peers;
+      useAltarStore.getState().setSoftLocks(current.map(lock => ({
+        ...lock,
+        name: peers.get(lock.peerId)?.name,
+        color: peers.get(lock.peerId)?.color
+      })));
+    });
+
+    const unsubscribeDragTarget = useAltarStore.subscribe((current, previous) => {
+      const target = current.ui.dragTarget;
+      if (target === previous.ui.dragTarget) return;
+
+      if (target && stateRef.current.isConnected && roles.canEditLocally) {
+        locks.acquire(target);
+      } else {
+        locks.release();
+      }
+    });
+
+    roles.onKicked(() => {
+      leaveRoom();
+      setError('El anfitrión te retiró de la sala');
+    });
     
     engine.onStateChange((newState) => {
       setState(newState);
+      sessionRecorder.setRoomId(newState.roomId);
     });
 
     engine.onAction((action) => {
+      sessionRecorder.recordCollaboration(action, 'in');
       handleIncomingAction(action);
     });
 
+    engine.onActionSent((action) => {
+      sessionRecorder.recordCollaboration(action, 'out');
+    });
+
+    engine.onPeerConnect((peer) => {
+      roles.peerConnected(peer.id);
+      sync.peerConnected(peer.id);
+    });
+
+    engine.onPeerDisconnect((peerId) => {
+      sync.peerDisconnected(peerId);
+      locks.peerDisconnected(peerId);
+    });
+
+    // Edits relayed while we were away are gone; take the whole altar again
+    engine.onRelayGap((peerIds) => {
+      peerIds.forEach(peerId => sync.requestSync(peerId, true));
+    });
+
     engine.onError((err) => {
       setError(err.message);
       options.onError?.(err);
@@ -96,6 +223,9 @@ export function useCollaboration(options: UseCollaborationOptions = {}): UseColl
 
     // Cleanup on unmount
     return () => {
+      sync.stop();
+      unsubscribeDragTarget();
+      locks.reset();
       engine.destroy();
     };
   }, []);
@@ -114,46 +244,82 @@ export function useCollaboration(options: UseCollaborationOptions = {}): UseColl
     const urlParams = new URLSearchParams(window.location.search);
     const roomId = urlParams.get('room');
     const shouldJoin = urlParams.get('join') === 'true';
+    // Protected rooms need the passphrase first; the modal asks for it
+    const isProtected = urlParams.get('secure') === 'true';
     
-    if (roomId && shouldJoin && roomManagerRef.current?.isValidRoomId(roomId)) {
+    if (roomId && shouldJoin && !isProtected && roomManagerRef.current?.isValidRoomId(roomId)) {
       // Auto-join if valid invite link
       joinRoom(roomId).catch(console.error);
     }
   }, []);
 
+  // Keep the document when rejoining the same room so only missed
+  // operations have to be caught up
+  const startSync = useCallback((roomId: string, isHost: boolean) => {
+    const sync = syncRef.current;
+    const roles = rolesRef.current;
+    if (!sync || !roles) return;
+
+    if (syncedRoomRef.current !== roomId) {
+      sync.reset();
+      roles.reset();
+      chatRef.current?.reset();
+      locksRef.current?.reset();
+      viewRef.current = { elements: [], unplaced: [] };
+      syncedRoomRef.current = roomId;
+    }
+    const hostId = engineRef.current?.hostPeerId;
+    if (isHost) {
+      roles.becomeHost();
+    } else if (hostId) {
+      roles.followHost(hostId);
+    }
+    sync.start();
+  }, []);
+
   const handleIncomingAction = useCallback((action: CollaborationAction) => {
-    const ot = operationalTransformRef.current;
-    if (!ot) return;
+    const sync = syncRef.current;
+    const roles = rolesRef.current;
 
-    // Convert action to operation
-    const operation = ot.actionToOperation(action);
-    if (!operation) return;
+    // Moderation comes first, so a kick or demotion applies to whatever the
+    // peer sends next. Kicked peers are not heard at all.
+    if (roles?.handleAction(action) || roles?.isKicked(action.peerId)) return;
 
-    // Transform against local operations
-    const result = ot.transform(operation, localOperationsRef.current);
-    
-    if (result.shouldApply) {
-      // Apply the transformed operation
-      switch (result.operation.type) {
-        case 'place':
-          if (result.operation.elementType && result.operation.position) {
-            options.onElementPlace?.(
-              result.operation.elementType,
-              result.operation.position,
-              action.peerId
-            );
-          }
-          break;
-          
-        case 'remove':
-          if (result.operation.elementId) {
-            options.onElementRemove?.(
-              result.operation.elementId,
-              action.peerId
-            );
-          }
-          break;
-      }
+    // Viewers can still talk; only the altar is off limits to them
+    if (chatRef.current?.handleAction(action)) return;
+
+    if (
+      (action.type.startsWith('element_') || action.type === 'drag_lock') &&
+      roles && !roles.canEdit(action.peerId)
+    ) {
+      console.warn(`Ignoring ${action.type} from peer ${action.peerId} without edit permission`);
+      return;
+    }
+
+    if (locksRef.current?.handleAction(action)) return;
+
+    // Report how the resolved layout changed, including elements displaced
+    // from a cell that an earlier claim won
+    if (sync?.handleAction(action)) {
+      const next = sync.document.resolve(dimensionsRef.current);
+      const diff = diffResolvedAltars(viewRef.current, next);
+      viewRef.current = next;
+
+      diff.removed.forEach(element => {
+        options.onElementRemove?.(element.elementId, action.peerId);
+      });
+      diff.added.forEach(element => {
+        options.onElementPlace?.(
+          element.elementType,
+          element.position,
+          action.peerId,
+          element.customElement,
+          element.elementId
+        );
+      });
+      diff.moved.forEach(element => {
+        options.onElementMove?.(element.elementId, element.position, action.peerId);
+      });
     }
 
     // Handle cursor updates
@@ -175,14 +341,15 @@ export function useCollaboration(options: UseCollaborationOptions = {}): UseColl
     }
   }, [options]);
 
-  const createRoom = useCallback(async (name: string) => {
+  const createRoom = useCallback(async (name: string, passphrase?: string) => {
     if (!engineRef.current) return;
     
     setIsLoading(true);
     setError(null);
     
     try {
-      const roomId = await engineRef.current.createRoom(name);
+      const roomId = await engineRef.current.createRoom(name, { passphrase });
+      startSync(roomId, true);
       loadRecentRooms();
       
       // Update URL without page reload
@@ -198,16 +365,17 @@ export function useCollaboration(options: UseCollaborationOptions = {}): UseColl
     } finally {
       setIsLoading(false);
     }
-  }, [loadRecentRooms]);
+  }, [loadRecentRooms, startSync]);
 
-  const joinRoom = useCallback(async (roomId: string) => {
+  const joinRoom = useCallback(async (roomId: string, passphrase?: string) => {
     if (!engineRef.current) return;
     
     setIsLoading(true);
     setError(null);
     
     try {
-      await engineRef.current.joinRoom(roomId);
+      await engineRef.current.joinRoom(roomId, passphrase);
+      startSync(roomId, false);
       loadRecentRooms();
       
       // Update URL without page reload
@@ -215,6 +383,7 @@ export function useCollaboration(options: UseCollaborationOptions = {}): UseColl
       url.searchParams.set('room', roomId);
       url.searchParams.delete('join');
       url.searchParams.delete('host');
+      url.searchParams.delete('secure');
       window.history.replaceState({}, '', url.toString());
       
     } catch (err) {
@@ -224,18 +393,21 @@ export function useCollaboration(options: UseCollaborationOptions = {}): UseColl
     } finally {
       setIsLoading(false);
     }
-  }, [loadRecentRooms]);
+  }, [loadRecentRooms, startSync]);
 
   const leaveRoom = useCallback(() => {
     if (!engineRef.current) return;
     
     engineRef.current.leaveRoom();
+    syncRef.current?.stop();
+    locksRef.current?.reset();
     
     // Clear URL parameters
     const url = new URL(window.location.href);
     url.searchParams.delete('room');
     url.searchParams.delete('join');
     url.searchParams.delete('host');
+    url.searchParams.delete('secure');
     window.history.replaceState({}, '', url.toString());
     
     setError(null);
@@ -262,76 +434,84 @@ export function useCollaboration(options: UseCollaborationOptions = {}): UseColl
     }
   }, []);
 
+  // Role checks live in RoomRoles; a refused change surfaces as an error
+  const moderate = useCallback((change: (roles: RoomRoles) => void) => {
+    if (!rolesRef.current) return;
+
+    try {
+      change(rolesRef.current);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Acción no permitida');
+    }
+  }, []);
+
+  const setPeerRole = useCallback((peerId: string, role: CollaborationRole) => {
+    moderate(roles => roles.setRole(peerId, role));
+  }, [moderate]);
+
+  const kickPeer = useCallback((peerId: string) => {
+    moderate(roles => roles.kick(peerId));
+  }, [moderate]);
+
+  const setAltarLocked = useCallback((locked: boolean) => {
+    moderate(roles => roles.setLocked(locked));
+  }, [moderate]);
+
+  const chatWith = useCallback((send: (chat: RoomChat) => void) => {
+    if (!chatRef.current || !state.isConnected) return;
+
+    try {
+      send(chatRef.current);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudo enviar');
+    }
+  }, [state.isConnected]);
+
+  const sendChatMessage = useCallback((text: string) => {
+    chatWith(chat => chat.sendMessage(text));
+  }, [chatWith]);
+
+  const sendReaction = useCallback((emoji: ReactionEmoji, position: GridPosition) => {
+    chatWith(chat => chat.react(emoji, position));
+  }, [chatWith]);
+
   const updateCursor = useCallback((x: number, y: number, gridPosition?: GridPosition) => {
     if (!engineRef.current || !state.isConnected) return;
     
     engineRef.current.updateCursor(x, y, gridPosition);
   }, [state.isConnected]);
 
-  const sendElementPlace = useCallback((element: OfrendarElement, position: GridPosition) => {
-    if (!engineRef.current || !state.isConnected) return;
-    
-    const action = {
-      type: 'element_place' as const,
-      data: {
-        elementId: `${element.id}-${Date.now()}`,
-        elementType: element.type,
-        position
-      }
-    };
-    
-    engineRef.current.sendAction(action);
-    
-    // Add to local operations for conflict resolution
-    const ot = operationalTransformRef.current;
-    if (ot) {
-      const operation = ot.actionToOperation({
-        ...action,
-        peerId: 'local',
-        timestamp: Date.now()
-      });
-      
-      if (operation) {
-        localOperationsRef.current.push(operation);
-        // Keep only recent operations
-        if (localOperationsRef.current.length > 100) {
-          localOperationsRef.current = localOperationsRef.current.slice(-50);
-        }
-      }
+  const refreshView = useCallback(() => {
+    if (syncRef.current) {
+      viewRef.current = syncRef.current.document.resolve(dimensionsRef.current);
     }
-  }, [state.isConnected]);
+  }, []);
 
-  const sendElementRemove = useCallback((elementId: string, position: GridPosition) => {
-    if (!engineRef.current || !state.isConnected) return;
-    
-    const action = {
-      type: 'element_remove' as const,
-      data: {
-        elementId,
-        position
-      }
-    };
-    
-    engineRef.current.sendAction(action);
-    
-    // Add to local operations for conflict resolution
-    const ot = operationalTransformRef.current;
-    if (ot) {
-      const operation = ot.actionToOperation({
-        ...action,
-        peerId: 'local',
-        timestamp: Date.now()
-      });
-      
-      if (operation) {
-        localOperationsRef.current.push(operation);
-        // Keep only recent operations
-        if (localOperationsRef.current.length > 100) {
-          localOperationsRef.current = localOperationsRef.current.slice(-50);
-        }
-      }
-    }
-  }, [state.isConnected]);
+  const sendElementPlace = useCallback((
+    element: OfrendarElement,
+    position: GridPosition,
+    elementId: string = `${element.id}-${Date.now()}`
+  ) => {
+    if (!syncRef.current || !state.isConnected || !rolesRef.current?.canEditLocally) return;
+
+    // Peers may not have this personal photo yet, so it travels with the operation
+    syncRef.current.place(elementId, element.type, position, element.custom);
+    refreshView();
+  }, [state.isConnected, refreshView]);
+
+  const sendElementRemove = useCallback((elementId: string) => {
+    if (!syncRef.current || !state.isConnected || !rolesRef.current?.canEditLocally) return;
+
+    syncRef.current.remove(elementId);
+    refreshView();
+  }, [state.isConnected, refreshView]);
+
+  const sendElementMove = useCallback((elementId: string, position: GridPosition) => {
+    if (!syncRef.current || !state.isConnected || !rolesRef.current?.canEditLocally) return;
+
+    syncRef.current.move(elementId, position);
+    refreshView();
+  }, [state.isConnected, refreshView]);
 
   const parseInviteLink = useCallback((url: string) => {
     return roomManagerRef.current?.parseShareableLink(url) || null;
@@ -347,17 +527,33 @@ export function useCollaboration(options: UseCollaborationOptions = {}): UseColl
     isLoading,
     error,
     recentRooms,
+    roster,
+    localRole: rolesRef.current?.localRole ?? 'editor',
+    canEdit: rolesRef.current?.canEditLocally ?? true,
+    messages,
+    reactions,
+    localPeerId: engineRef.current?.localPeerId,
     
     // Actions
     createRoom,
     joinRoom,
     leaveRoom,
     shareRoom,
+
+    // Host moderation
+    setPeerRole,
+    kickPeer,
+    setAltarLocked,
+
+    // Chat
+    sendChatMessage,
+    sendReaction,
     
     // Real-time features
     updateCursor,
     sendElementPlace,
     sendElementRemove,
+    sendElementMove,
     
     // Utilities
     parseInviteLink,
@@ -0,0 +1,106 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getDBManager, generateCustomElementId, isIndexedDBSupported } from '../utils/indexeddb';
+import { resizeImageFile } from '../utils/image-utils';
+import { useAltarStore, useCustomElements as useCustomElementsState } from '../store/useAltarStore';
+import type { CustomElement } from '../types';
+
+/**
+ * Hook for managing user-created elements.
+ * Definitions live in IndexedDB and are mirrored into the altar store so
+ * they show up in the element panel.
+ */
+export function useCustomElements() {
+  const customElements = useCustomElementsState();
+  const addCustomElements = useAltarStore(state => state.addCustomElements);
+  const removeCustomElement = useAltarStore(state => state.removeCustomElement);
+  const [error, setError] = useState<string | null>(null);
+  const [isSupported] = useState(() => isIndexedDBSupported());
+
+  // Load saved custom elements into the store
+  useEffect(() => {
+    if (!isSupported) return;
+
+    let cancelled = false;
+    getDBManager()
+      .getAllCustomElements()
+      .then(saved => {
+        if (!cancelled && saved.length > 0) {
+          addCustomElements(saved);
+        }
+      })
+      .catch(err => console.error('Failed to load custom elements:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isSupported, addCustomElements]);
+
+  // Create a custom element from an uploaded photo
+  const createCustomElement = useCallback(async (
+    file: File,
+    name: string,
+    dedication: string
+  ): Promise<CustomElement | null> => {
+    try {
+      setError(null);
+
+      const customElement: CustomElement = {
+        id: generateCustomElementId(),
+        name: name.trim(),
+        dedication: dedication.trim(),
+        imageDataUrl: await resizeImageFile(file),
+        createdAt: new Date()
+      };
+
+      if (isSupported) {
+        await getDBManager().saveCustomElement(customElement);
+      }
+      addCustomElements([customElement]);
+
+      return customElement;
+    } catch (err) {
+      setError('No se pudo crear el elemento personal');
+      console.error('Failed to create custom element:', err);
+      return null;
+    }
+  }, [isSupported, addCustomElements]);
+
+  // Store custom elements that arrived with a loaded or imported altar
+  const importCustomElements = useCallback(async (incoming: CustomElement[]) => {
+    if (incoming.length === 0) return;
+
+    addCustomElements(incoming);
+
+    if (!isSupported) return;
+    try {
+      const db = getDBManager();
+      await Promise.all(incoming.map(element => db.saveCustomElement(element)));
+    } catch (err) {
+      console.error('Failed to store imported custom elements:', err);
+    }
+  }, [isSupported, addCustomElements]);
+
+  // Delete a custom element
+  const deleteCustomElement = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      setError(null);
+      if (isSupported) {
+        await getDBManager().deleteCustomElement(id);
+      }
+      removeCustomElement(id);
+      return true;
+    } catch (err) {
+      setError('No se pudo eliminar el elemento personal');
+      console.error('Failed to delete custom element:', err);
+      return false;
+    }
+  }, [isSupported, removeCustomElement]);
+
+  return {
+    customElements,
+    error,
+    createCustomElement,
+    importCustomElements,
+    deleteCustomElement
+  };
+}
@@ -1,7 +1,10 @@
 import { useCallback, useEffect } from 'react';
-import type { OfrendarElement, GridPosition, ValidationResult } from '../types';
+import type { OfrendarElement, GridPosition, PlacedElement, ValidationResult } from '../types';
 import { useAltarStore } from '../store/useAltarStore';
-import { validateElementPlacement } from '../utils/element-validation';
+import { getElementForPlaced } from '../data/elements';
+import { validateElementPlacement, validateElementMove } from '../utils/element-validation';
+import { getCellLock } from '../utils/grid-utils';
+import { DRAG_DATA } from '../utils/constants';
 
 /**
  * Hook for managing drag and drop functionality
@@ -9,10 +12,13 @@ import { validateElementPlacement } from '../utils/element-validation';
 export function useDragAndDrop() {
   const {
     placeElement,
+    moveElement,
     setDragPreview,
     setDragging,
     grid,
-    settings
+    settings,
+    elements: { available },
+    ui: { softLocks }
   } = useAltarStore();
 
   /**
@@ -24,7 +30,7 @@ export function useDragAndDrop() {
   ) => {
     // Set drag data
     event.dataTransfer.effectAllowed = 'move';
-    event.dataTransfer.setData('application/json', JSON.stringify(element));
+    event.dataTransfer.setData(DRAG_DATA.ELEMENT, JSON.stringify(element));
     event.dataTransfer.setData('text/plain', element.name);
 
     // Create custom drag image (optional)
@@ -42,6 +48,23 @@ export function useDragAndDrop() {
     });
   }, [setDragging, setDragPreview]);
 
+  /**
+   * Handle drag start from an element already on the grid, to move it
+   */
+  const handlePlacedDragStart = useCallback((
+    event: React.DragEvent,
+    placed: PlacedElement
+  ) => {
+    const element = getElementForPlaced(placed, available);
+    if (!element) {
+      event.preventDefault();
+      return;
+    }
+
+    handleDragStart(event, element);
+    event.dataTransfer.setData(DRAG_DATA.PLACED_ELEMENT_ID, placed.id);
+  }, [available, handleDragStart]);
+
   /**
    * Handle drag end
    */
@@ -55,23 +78,46 @@ export function useDragAndDrop() {
    */
   const validateDrop = useCallback((
     element: OfrendarElement,
-    position: GridPosition
+    position: GridPosition,
+    movingElementId?: string
   ): ValidationResult => {
+    // Another peer is about to drop here or is moving what sits here
+    const occupant = grid.placedElements.find(placed =>
+      placed.position.row === position.row && placed.position.col === position.col
+    );
+    const lock = getCellLock(softLocks, position, occupant);
+    if (lock) {
+      return {
+        isValid: false,
+        reason: `${lock.name ?? 'Otra persona'} está usando esta celda`
+      };
+    }
+
+    if (movingElementId) {
+      return validateElementMove(
+        element,
+        movingElementId,
+        position,
+        grid.placedElements,
+        grid.dimensions
+      );
+    }
+
     return validateElementPlacement(
       element,
       position,
       grid.placedElements,
       grid.dimensions
     );
-  }, [grid]);
+  }, [grid, softLocks]);
 
   /**
-   * Handle drop on grid
+   * Handle drop on grid; resolves once the placement has taken effect
    */
-  const handleDrop = useCallback((
+  const handleDrop = useCallback(async (
     element: OfrendarElement,
     position: GridPosition
-  ): boolean => {
+  ): Promise<boolean> => {
     const validation = validateDrop(element, position);
 
     if (!validation.isValid) {
@@ -83,7 +129,7 @@ export function useDragAndDrop() {
     }
 
     // Place element
-    const success = placeElement(element, position);
+    const success = await placeElement(element, position);
 
     if (success && settings.audioEnabled && element.soundEffect) {
       playPlacementSound(element.soundEffect);
@@ -92,6 +138,32 @@ export function useDragAndDrop() {
     return success;
   }, [validateDrop, placeElement, settings]);
 
+  /**
+   * Handle dropping a placed element on another cell
+   */
+  const handleMove = useCallback(async (
+    element: OfrendarElement,
+    elementId: string,
+    position: GridPosition
+  ): Promise<boolean> => {
+    const validation = validateDrop(element, position, elementId);
+
+    if (!validation.isValid) {
+      if (settings.audioEnabled) {
+        playErrorSound();
+      }
+      return false;
+    }
+
+    const success = await moveElement(elementId, position);
+
+    if (success && settings.audioEnabled && element.soundEffect) {
+      playPlacementSound(element.soundEffect);
+    }
+
+    return success;
+  }, [validateDrop, moveElement, settings]);
+
   /**
    * Clean up on unmount
    */
@@ -104,9 +176,11 @@ export function useDragAndDrop() {
 
   return {
     handleDragStart,
+    handlePlacedDragStart,
     handleDragEnd,
     validateDrop,
-    handleDrop
+    handleDrop,
+    handleMove
   };
 }
 
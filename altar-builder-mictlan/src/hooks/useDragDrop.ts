@@ -7,7 +7,7 @@
 
 import { useCallback, useRef } from 'react';
 import { useAltarStore } from '../store/useAltarStore';
-import type { OfrendarElement, GridPosition } from '../types';
+import type { OfrendarElement, GridPosition, EditResult } from '../types';
 
 /**
  * Drag state information
@@ -35,7 +35,7 @@ export interface DragDropHandlers {
   onDragStart: (element: OfrendarElement, sourceType: 'panel' | 'grid', sourcePosition?: GridPosition) => void;
   onDragEnd: () => void;
   onDragOver: (position: GridPosition) => void;
-  onDrop: (position: GridPosition) => boolean;
+  onDrop: (position: GridPosition) => EditResult;
 }
 
 /**
@@ -154,7 +154,7 @@ export function useDragDrop() {
   }, [store, validateDrop]);
 
   // Handle drop at position
-  const drop = useCallback((position: GridPosition): boolean => {
+  const drop = useCallback((position: GridPosition): EditResult => {
     const { draggedElement, dragSourceType, dragSourcePosition } = dragStateRef.current;
 
     if (!draggedElement) {
@@ -191,10 +191,7 @@ export function useDragDrop() {
       );
 
       if (sourceElement) {
-        // Remove from source
-        store.removeElement(sourceElement.id);
-        // Place at target
-        const success = store.placeElement(draggedElement, position);
+        const success = store.moveElement(sourceElement.id, position);
         endDrag();
         return success;
       }
@@ -317,7 +314,7 @@ export function useDragDropAccessibility() {
   const handleKeyboardDrop = useCallback((
     event: React.KeyboardEvent,
     position: GridPosition
-  ): boolean => {
+  ): EditResult => {
     // Space or Enter to drop
     if (event.key === ' ' || event.key === 'Enter') {
       event.preventDefault();
@@ -1,6 +1,14 @@
 import { useState, useEffect, useCallback } from 'react';
 import { getDBManager, generateAltarId, isIndexedDBSupported } from '../utils/indexeddb';
-import type { SavedAltar, PlacedElement } from '../types';
+import type { StoreUsage } from '../utils/indexeddb';
+import { migrateLocalStorageAltars } from '../utils/persistence';
+import { createRevision } from '../utils/revisions';
+import { dataUrlToBlob } from '../utils/image-utils';
+import { createAltarMetadata } from '../utils/altar-scoring';
+import { getResponsiveGridDimensions } from '../utils/grid-utils';
+import { useAltarStore } from '../store/useAltarStore';
+import { getReferencedCustomElements } from '../data/elements';
+import type { SavedAltar, PlacedElement, AltarRevision } from '../types';
 
 /**
  * Hook for managing altars in IndexedDB
@@ -24,6 +32,7 @@ export function useIndexedDB() {
       setError(null);
       const db = getDBManager();
       await db.init();
+      await migrateLocalStorageAltars();
       const loadedAltars = await db.getAllAltars();
       setAltars(loadedAltars);
     } catch (err) {
@@ -38,7 +47,7 @@ export function useIndexedDB() {
   const saveAltar = useCallback(async (
     name: string,
     elements: PlacedElement[],
-    thumbnail?: string
+    thumbnail?: Blob
   ): Promise<string | null> => {
     if (!isSupported) {
       setError('IndexedDB no está soportado en este navegador');
@@ -51,19 +60,19 @@ export function useIndexedDB() {
 
       const altarId = generateAltarId();
       const now = new Date();
+      const { grid: { dimensions }, elements: { custom }, honorees } = useAltarStore.getState();
 
       const altar: SavedAltar = {
         id: altarId,
         name,
         elements,
+        customElements: getReferencedCustomElements(elements, custom),
+        honorees,
+        template: dimensions.template,
         createdAt: now,
         updatedAt: now,
-        thumbnail: thumbnail || '',
-        metadata: {
-          score: 0,
-          completionLevel: Math.round((elements.length / 20) * 100),
-          culturalAuthenticity: 80
-        },
+        thumbnail: '', // Stored as a Blob in the thumbnails store
+        metadata: createAltarMetadata(elements, dimensions),
         version: '1.0.0'
       };
 
@@ -72,6 +81,8 @@ export function useIndexedDB() {
       if (thumbnail) {
         await db.saveThumbnail(altarId, thumbnail);
       }
+      await db.addRevision(createRevision(altar, 'save', thumbnail));
+      useAltarStore.getState().setCurrentAltar(altarId);
 
       await loadAltars();
       return altarId;
@@ -87,7 +98,7 @@ export function useIndexedDB() {
     id: string,
     name: string,
     elements: PlacedElement[],
-    thumbnail?: string
+    thumbnail?: Blob
   ): Promise<boolean> => {
     if (!isSupported) {
       setError('IndexedDB no está soportado en este navegador');
@@ -104,14 +115,19 @@ export function useIndexedDB() {
         return false;
       }
 
+      const { grid: { dimensions }, elements: { custom }, honorees } = useAltarStore.getState();
+
       const updatedAltar: SavedAltar = {
         ...existingAltar,
         name,
         elements,
+        customElements: getReferencedCustomElements(elements, custom),
+        honorees,
+        template: dimensions.template,
         updatedAt: new Date(),
         metadata: {
           ...existingAltar.metadata,
-          completionLevel: Math.round((elements.length / 20) * 100)
+          ...createAltarMetadata(elements, dimensions)
         }
       };
 
@@ -120,6 +136,7 @@ export function useIndexedDB() {
       if (thumbnail) {
         await db.saveThumbnail(id, thumbnail);
       }
+      await db.addRevision(createRevision(updatedAltar, 'save', thumbnail));
 
       await loadAltars();
       return true;
@@ -130,6 +147,122 @@ export function useIndexedDB() {
     }
   }, [isSupported, loadAltars]);
 
+  // Store an altar read from an exported file under a fresh id
+  const importAltar = useCallback(async (altar: SavedAltar): Promise<string | null> => {
+    if (!isSupported) {
+      setError('IndexedDB no está soportado en este navegador');
+      return null;
+    }
+
+    try {
+      const db = getDBManager();
+      await db.init();
+
+      const altarId = generateAltarId();
+      const imported: SavedAltar = { ...altar, id: altarId, updatedAt: new Date(), thumbnail: '' };
+      await db.saveAltar(imported);
+
+      const thumbnail = altar.thumbnail ? dataUrlToBlob(altar.thumbnail) : undefined;
+      if (thumbnail) {
+        await db.saveThumbnail(altarId, thumbnail);
+      }
+      await db.addRevision(createRevision(imported, 'save', thumbnail));
+
+      await loadAltars();
+      return altarId;
+    } catch (err) {
+      setError('Error al importar el altar');
+      console.error('Failed to import altar:', err);
+      return null;
+    }
+  }, [isSupported, loadAltars]);
+
+  // Get the revision history of an altar, newest first
+  const getRevisions = useCallback(async (altarId: string): Promise<AltarRevision[]> => {
+    if (!isSupported) return [];
+
+    try {
+      const db = getDBManager();
+      await db.init();
+      return await db.getRevisions(altarId);
+    } catch (err) {
+      setError('Error al cargar el historial');
+      console.error('Failed to get revisions:', err);
+      return [];
+    }
+  }, [isSupported]);
+
+  // Roll a saved altar back to a revision; the restore becomes the newest revision
+  const restoreRevision = useCallback(async (revision: AltarRevision): Promise<SavedAltar | null> => {
+    if (!isSupported) return null;
+
+    try {
+      const db = getDBManager();
+      await db.init();
+
+      const existingAltar = await db.getAltar(revision.altarId);
+      if (!existingAltar) {
+        setError('Altar no encontrado');
+        return null;
+      }
+
+      const restored = applyRevision(existingAltar, revision);
+      await db.saveAltar(restored);
+      if (revision.thumbnail) {
+        await db.saveThumbnail(restored.id, revision.thumbnail);
+      }
+      await db.addRevision(createRevision(restored, 'save', revision.thumbnail));
+
+      await loadAltars();
+      return restored;
+    } catch (err) {
+      setError('Error al restaurar la versión');
+      console.error('Failed to restore revision:', err);
+      return null;
+    }
+  }, [isSupported, loadAltars]);
+
+  // Save a revision as a brand-new altar, leaving the original untouched
+  const forkRevision = useCallback(async (
+    revision: AltarRevision,
+    name: string
+  ): Promise<SavedAltar | null> => {
+    if (!isSupported) return null;
+
+    try {
+      const db = getDBManager();
+      await db.init();
+
+      const existingAltar = await db.getAltar(revision.altarId);
+      if (!existingAltar) {
+        setError('Altar no encontrado');
+        return null;
+      }
+
+      const now = new Date();
+      const fork: SavedAltar = {
+        ...applyRevision(existingAltar, revision),
+        id: generateAltarId(),
+        name,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      await db.saveAltar(fork);
+      if (revision.thumbnail) {
+        await db.saveThumbnail(fork.id, revision.thumbnail);
+      }
+      await db.addRevision(createRevision(fork, 'save', revision.thumbnail));
+
+      await loadAltars();
+      return fork;
+    } catch (err) {
+      setError('Error al crear el altar');
+      console.error('Failed to fork revision:', err);
+      return null;
+    }
+  }, [isSupported, loadAltars]);
+
   // Delete altar
   const deleteAltar = useCallback(async (id: string): Promise<boolean> => {
     if (!isSupported) {
@@ -169,7 +302,7 @@ export function useIndexedDB() {
   }, [isSupported]);
 
   // Get thumbnail
-  const getThumbnail = useCallback(async (altarId: string): Promise<string | null> => {
+  const getThumbnail = useCallback(async (altarId: string): Promise<Blob | null> => {
     if (!isSupported) return null;
 
     try {
@@ -229,6 +362,20 @@ export function useIndexedDB() {
     }
   }, [isSupported]);
 
+  // Per-store record counts and sizes
+  const getStoreUsage = useCallback(async (): Promise<StoreUsage[]> => {
+    if (!isSupported) return [];
+
+    try {
+      const db = getDBManager();
+      await db.init();
+      return await db.getStoreUsage();
+    } catch (err) {
+      console.error('Failed to measure stores:', err);
+      return [];
+    }
+  }, [isSupported]);
+
   // Load altars on mount
   useEffect(() => {
     loadAltars();
@@ -241,16 +388,42 @@ export function useIndexedDB() {
     isSupported,
     saveAltar,
     updateAltar,
+    importAltar,
+    getRevisions,
+    restoreRevision,
+    forkRevision,
     deleteAltar,
     getAltar,
     getThumbnail,
     getStorageEstimate,
+    getStoreUsage,
     clearAll,
     countAltars,
     reload: loadAltars
   };
 }
 
+/**
+ * Replace an altar's contents with those of a revision
+ */
+function applyRevision(altar: SavedAltar, revision: AltarRevision): SavedAltar {
+  const dimensions = getResponsiveGridDimensions(window.innerWidth, revision.template);
+
+  return {
+    ...altar,
+    name: revision.name,
+    elements: revision.elements,
+    customElements: revision.customElements,
+    honorees: revision.honorees,
+    template: revision.template,
+    updatedAt: new Date(),
+    metadata: {
+      ...altar.metadata,
+      ...createAltarMetadata(revision.elements, dimensions)
+    }
+  };
+}
+
 /**
  * Hook for thumbnail generation from canvas
  */
@@ -259,7 +432,7 @@ export function useThumbnailGenerator() {
     canvasElement: HTMLCanvasElement,
     width = 400,
     height = 300
-  ): Promise<string> => {
+  ): Promise<Blob> => {
     return new Promise((resolve, reject) => {
       try {
         // Create temporary canvas for resizing
@@ -276,9 +449,14 @@ export function useThumbnailGenerator() {
         // Draw scaled version
         ctx.drawImage(canvasElement, 0, 0, width, height);
 
-        // Convert to data URL
-        const thumbnail = tempCanvas.toDataURL('image/jpeg', 0.8);
-        resolve(thumbnail);
+        // Encode as a JPEG Blob for the thumbnails store
+        tempCanvas.toBlob(blob => {
+          if (blob) {
+            resolve(blob);
+          } else {
+            reject(new Error('Failed to encode thumbnail'));
+          }
+        }, 'image/jpeg', 0.8);
       } catch (err) {
         reject(err);
       }
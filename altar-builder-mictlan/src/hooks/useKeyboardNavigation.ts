@@ -191,8 +191,7 @@ export function useAltarKeyboardShortcuts() {
       ctrlKey: true,
       description: 'Deshacer',
       action: () => {
-        // Undo functionality (would need to implement undo/redo system)
-        console.log('Undo action');
+        store.undo();
       }
     },
     redo: {
@@ -200,8 +199,7 @@ export function useAltarKeyboardShortcuts() {
       ctrlKey: true,
       description: 'Rehacer',
       action: () => {
-        // Redo functionality
-        console.log('Redo action');
+        store.redo();
       }
     },
     help: {
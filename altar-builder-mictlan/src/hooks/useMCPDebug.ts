@@ -0,0 +1,93 @@
+import { useState, useEffect, useCallback } from 'react';
+import { mcpEngine } from '../engines/mcp-engine';
+import { debugSessionAutosave, mcpTimeTravel, type TimeTravelState } from '../engines/time-travel';
+import { getDBManager } from '../utils/indexeddb';
+import { exportDebugSessionAsJSON, parseDebugSessionFile } from '../utils/mcp-debug-session';
+import type { MCPDebugSession } from '../engines/mcp-debug';
+
+/**
+ * Hook for the MCP debug panel: the live action log, sessions saved from
+ * earlier page loads or imported from files, and time travel over them
+ */
+export function useMCPDebug() {
+  const [live, setLive] = useState<MCPDebugSession>(() => debugSessionAutosave.current);
+  const [sessions, setSessions] = useState<MCPDebugSession[]>([]);
+  const [timeTravel, setTimeTravel] = useState<TimeTravelState>(() => mcpTimeTravel.getState());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => mcpEngine.getDebugLogger().onChange(() => setLive(debugSessionAutosave.current)), []);
+  useEffect(() => mcpTimeTravel.onChange(setTimeTravel), []);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const saved = await getDBManager().getAllDebugSessions();
+      // The live session is saved too, but listed on its own
+      setSessions(saved.filter(session => session.id !== debugSessionAutosave.id));
+    } catch (err) {
+      setError('Error al cargar las sesiones de depuración');
+      console.error('Failed to load debug sessions:', err);
+    }
+  }, []);
+
+  const deleteSession = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      await getDBManager().deleteDebugSession(id);
+      setSessions(prev => prev.filter(session => session.id !== id));
+      return true;
+    } catch (err) {
+      setError('Error al eliminar la sesión de depuración');
+      console.error('Failed to delete debug session:', err);
+      return false;
+    }
+  }, []);
+
+  const importSession = useCallback(async (file: File): Promise<MCPDebugSession | null> => {
+    try {
+      setError(null);
+      const session = parseDebugSessionFile(await file.text());
+      await getDBManager().saveDebugSession(session);
+      await loadSessions();
+      return session;
+    } catch (err) {
+      setError('El archivo no es una sesión de depuración válida');
+      console.error('Failed to import debug session:', err);
+      return null;
+    }
+  }, [loadSessions]);
+
+  const jumpTo = useCallback((session: MCPDebugSession, index: number) => {
+    try {
+      setError(null);
+      mcpTimeTravel.jumpTo(session.entries, index);
+    } catch (err) {
+      setError('No se pudo restaurar ese estado');
+      console.error('Failed to jump to debug state:', err);
+    }
+  }, []);
+
+  const replayFrom = useCallback(async (session: MCPDebugSession, index: number) => {
+    try {
+      setError(null);
+      await mcpTimeTravel.replayFrom(session.entries, index);
+    } catch (err) {
+      setError('No se pudo reproducir la sesión');
+      console.error('Failed to replay debug session:', err);
+    }
+  }, []);
+
+  const stopReplay = useCallback(() => mcpTimeTravel.stop(), []);
+
+  return {
+    live,
+    sessions,
+    timeTravel,
+    error,
+    loadSessions,
+    deleteSession,
+    importSession,
+    exportSession: exportDebugSessionAsJSON,
+    jumpTo,
+    replayFrom,
+    stopReplay
+  };
+}
@@ -6,13 +6,22 @@ import {
   saveCurrentAltar,
   loadCurrentAltar,
   clearCurrentAltar,
-  saveAltar as savePersistentAltar,
-  getSavedAltars,
-  deleteSavedAltar,
   createDebouncedAutoSave,
+  recordAutosaveRevision,
   getStorageInfo,
   isStorageNearlyFull
 } from '../utils/persistence';
+import {
+  parseAltarFile,
+  serializeAltarFile,
+  migrateAltarFile,
+  validateAltar,
+  describeAltarImportError
+} from '../utils/altar-schema';
+import { getDBManager, isIndexedDBSupported } from '../utils/indexeddb';
+import { createAltarMetadata } from '../utils/altar-scoring';
+import { getReferencedCustomElements } from '../data/elements';
+import { useMCPActions } from '../engines/mcp-zustand-bridge';
 
 /**
  * Persistence status
@@ -43,6 +52,7 @@ export function usePersistence() {
   const store = useAltarStore();
   const placedElements = usePlacedElements();
   const indexedDB = useIndexedDB();
+  const mcpActions = useMCPActions();
   const debouncedSaveRef = useRef<((elements: typeof placedElements) => void) | null>(null);
 
   const [status, setStatus] = useState<PersistenceStatus>({
@@ -58,6 +68,18 @@ export function usePersistence() {
       try {
         setStatus(prev => ({ ...prev, isAutoSaving: true, error: null }));
         const success = saveCurrentAltar(elements);
+
+        // Snapshot into the history of the gallery altar being edited
+        const { session, grid, elements: { custom }, honorees } = useAltarStore.getState();
+        if (session.currentAltarId && isIndexedDBSupported()) {
+          recordAutosaveRevision(session.currentAltarId, {
+            elements,
+            customElements: getReferencedCustomElements(elements, custom),
+            honorees,
+            template: grid.dimensions.template
+          }).catch(error => console.error('Failed to record autosave revision:', error));
+        }
+
         if (success) {
           setStatus(prev => ({
             ...prev,
@@ -92,16 +114,18 @@ export function usePersistence() {
 
   // Load saved altar on mount
   useEffect(() => {
-    const restoreAltar = useAltarStore.getState().restoreAltar;
     const savedAltar = loadCurrentAltar();
     if (savedAltar && savedAltar.length > 0) {
-      restoreAltar(savedAltar);
-      console.log('Restored altar with', savedAltar.length, 'elements');
+      mcpActions.restoreAltar(savedAltar).then(restored => {
+        if (restored) {
+          console.log('Restored altar with', savedAltar.length, 'elements');
+        }
+      });
     }
-  }, []);
+  }, [mcpActions]);
 
   // Save to IndexedDB
-  const saveToIndexedDB = useCallback(async (name: string, thumbnail?: string): Promise<string> => {
+  const saveToIndexedDB = useCallback(async (name: string, thumbnail?: Blob): Promise<string> => {
     try {
       setStatus(prev => ({ ...prev, isAutoSaving: true, error: null }));
       const altarId = await indexedDB.saveAltar(name, placedElements, thumbnail);
@@ -127,7 +151,10 @@ export function usePersistence() {
     try {
       const altar = await indexedDB.getAltar(id);
       if (altar) {
-        store.restoreAltar(altar.elements);
+        if (!(await mcpActions.restoreAltar(altar.elements, altar.template))) {
+          throw new Error(`Altar ${id} could not be restored`);
+        }
+        store.setCurrentAltar(altar.id);
         setStatus(prev => ({
           ...prev,
           lastSaved: new Date(altar.updatedAt),
@@ -142,14 +169,13 @@ export function usePersistence() {
       }));
       throw error;
     }
-  }, [indexedDB, store]);
+  }, [indexedDB, store, mcpActions]);
 
   // Load from LocalStorage
-  const loadFromLocalStorage = useCallback((): boolean => {
+  const loadFromLocalStorage = useCallback(async (): Promise<boolean> => {
     try {
       const savedAltar = loadCurrentAltar();
-      if (savedAltar && savedAltar.length > 0) {
-        store.restoreAltar(savedAltar);
+      if (savedAltar && savedAltar.length > 0 && await mcpActions.restoreAltar(savedAltar)) {
         setStatus(prev => ({
           ...prev,
           isDirty: false,
@@ -165,11 +191,12 @@ export function usePersistence() {
       }));
       return false;
     }
-  }, [store]);
+  }, [mcpActions]);
 
   // Clear current altar
   const clearCurrent = useCallback((): void => {
     store.clearAltar();
+    store.setCurrentAltar(null);
     clearCurrentAltar();
     setStatus({
       isAutoSaving: false,
@@ -181,14 +208,23 @@ export function usePersistence() {
 
   // Export as JSON
   const exportAsJSON = useCallback((name: string = 'mi-altar'): void => {
-    const data = {
-      version: '1.0.0',
+    const { grid: { dimensions }, elements: { custom }, honorees } = useAltarStore.getState();
+    const now = new Date();
+    const altar: SavedAltar = {
+      id: `altar-${now.getTime()}`,
       name,
-      createdAt: new Date().toISOString(),
-      elements: placedElements
+      createdAt: now,
+      updatedAt: now,
+      thumbnail: '',
+      elements: placedElements,
+      customElements: getReferencedCustomElements(placedElements, custom),
+      honorees,
+      template: dimensions.template,
+      metadata: createAltarMetadata(placedElements, dimensions),
+      version: '1.0.0'
     };
 
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const blob = new Blob([serializeAltarFile(altar)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
@@ -202,14 +238,15 @@ export function usePersistence() {
   // Import from JSON
   const importFromJSON = useCallback(async (file: File): Promise<void> => {
     try {
-      const text = await file.text();
-      const data = JSON.parse(text);
+      const altar = parseAltarFile(await file.text());
 
-      if (!data.elements || !Array.isArray(data.elements)) {
-        throw new Error('Formato de archivo inválido');
+      if (altar.customElements) {
+        store.addCustomElements(altar.customElements);
+      }
+      store.setHonorees(altar.honorees ?? []);
+      if (!(await mcpActions.restoreAltar(altar.elements, altar.template))) {
+        throw new Error('Imported altar could not be restored');
       }
-
-      store.restoreAltar(data.elements);
       setStatus(prev => ({
         ...prev,
         isDirty: false,
@@ -218,11 +255,11 @@ export function usePersistence() {
     } catch (error) {
       setStatus(prev => ({
         ...prev,
-        error: 'Error al importar archivo JSON'
+        error: describeAltarImportError(error)
       }));
       throw error;
     }
-  }, [store]);
+  }, [store, mcpActions]);
 
   // Get storage stats
   const getStorageStats = useCallback(async (): Promise<StorageStats> => {
@@ -299,37 +336,34 @@ export function usePersistence() {
     // Statistics
     getStorageInfo,
     isStorageNearlyFull,
-    getStorageStats,
-
-    // Legacy API
-    getSavedAltars,
-    deleteSavedAltar
+    getStorageStats
   };
 }
 
 /**
- * Hook for saving named altars
+ * Hook for saving named altars to the IndexedDB gallery
  */
 export function useSaveAltar() {
   const placedElements = useAltarStore(state => state.grid.placedElements);
   const incrementAltarCount = useAltarStore(state => state.incrementAltarCount);
+  const { saveAltar: saveToGallery } = useIndexedDB();
 
-  const saveAltar = useCallback((name: string) => {
+  const saveAltar = useCallback(async (name: string, thumbnail?: Blob): Promise<string | null> => {
     if (placedElements.length === 0) {
       alert('No hay elementos en el altar para guardar');
       return null;
     }
 
-    const savedAltar = savePersistentAltar(name, placedElements);
+    const altarId = await saveToGallery(name, placedElements, thumbnail);
 
-    if (savedAltar) {
+    if (altarId) {
       incrementAltarCount();
-      console.log('Altar saved:', savedAltar.name);
-      return savedAltar;
+      console.log('Altar saved:', name);
+      return altarId;
     }
 
     return null;
-  }, [placedElements, incrementAltarCount]);
+  }, [placedElements, incrementAltarCount, saveToGallery]);
 
   return { saveAltar };
 }
@@ -369,6 +403,7 @@ export function useStorageWarnings() {
 export function useBackupRecovery() {
   const placedElements = usePlacedElements();
   const { exportAsJSON, importFromJSON } = usePersistence();
+  const mcpActions = useMCPActions();
 
   const [backupHistory, setBackupHistory] = useState<Array<{
     timestamp: Date;
@@ -391,15 +426,12 @@ export function useBackupRecovery() {
   }, [placedElements]);
 
   // Restore from backup
-  const restoreBackup = useCallback((index: number): boolean => {
+  const restoreBackup = useCallback(async (index: number): Promise<boolean> => {
     if (index >= 0 && index < backupHistory.length) {
-      const backup = backupHistory[index];
-      const store = useAltarStore.getState();
-      store.restoreAltar(backup.data);
-      return true;
+      return mcpActions.restoreAltar(backupHistory[index].data);
     }
     return false;
-  }, [backupHistory]);
+  }, [backupHistory, mcpActions]);
 
   // Clear backup history
   const clearBackups = useCallback((): void => {
@@ -457,8 +489,32 @@ export function useDataMigration() {
     return hasLocalStorage;
   }, []);
 
+  // Run every IndexedDB altar through the schema migrations, rewriting the
+  // ones that upgrade cleanly and reporting the ones that fail validation
+  const upgradeSavedAltars = useCallback(async (): Promise<{ upgraded: number; failed: string[] }> => {
+    const db = getDBManager();
+    await db.init();
+
+    let upgraded = 0;
+    const failed: string[] = [];
+
+    for (const record of await db.getAllAltars()) {
+      try {
+        const altar = validateAltar(migrateAltarFile(record).altar);
+        await db.saveAltar(altar);
+        upgraded++;
+      } catch (error) {
+        console.error(`Could not upgrade altar ${record.id}:`, error);
+        failed.push(record.id);
+      }
+    }
+
+    return { upgraded, failed };
+  }, []);
+
   return {
     migrateToIndexedDB,
-    needsMigration
+    needsMigration,
+    upgradeSavedAltars
   };
 }
@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback } from 'react';
+import { sessionRecorder } from '../engines/recording';
+import { getDBManager } from '../utils/indexeddb';
+import { exportRecordingAsJSON, parseRecordingFile } from '../utils/session-recording';
+import type { SessionRecording } from '../types';
+
+/**
+ * Hook for recording building sessions and managing saved recordings
+ */
+export function useSessionRecording() {
+  const [current, setCurrent] = useState<SessionRecording | null>(() => sessionRecorder.current);
+  const [recordings, setRecordings] = useState<SessionRecording[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => sessionRecorder.onChange(setCurrent), []);
+
+  const loadRecordings = useCallback(async () => {
+    try {
+      setRecordings(await getDBManager().getAllRecordings());
+    } catch (err) {
+      setError('Error al cargar las grabaciones');
+      console.error('Failed to load recordings:', err);
+    }
+  }, []);
+
+  const startRecording = useCallback((name: string) => {
+    try {
+      setError(null);
+      sessionRecorder.start(name.trim() || 'Sesión sin nombre');
+    } catch (err) {
+      setError('Ya hay una grabación en curso');
+      console.error('Failed to start recording:', err);
+    }
+  }, []);
+
+  const stopRecording = useCallback(async (): Promise<SessionRecording | null> => {
+    try {
+      const recording = await sessionRecorder.stop();
+      await loadRecordings();
+      return recording;
+    } catch (err) {
+      setError('No se pudo guardar la grabación');
+      console.error('Failed to stop recording:', err);
+      return null;
+    }
+  }, [loadRecordings]);
+
+  const deleteRecording = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      await getDBManager().deleteRecording(id);
+      setRecordings(prev => prev.filter(recording => recording.id !== id));
+      return true;
+    } catch (err) {
+      setError('Error al eliminar la grabación');
+      console.error('Failed to delete recording:', err);
+      return false;
+    }
+  }, []);
+
+  const importRecording = useCallback(async (file: File): Promise<SessionRecording | null> => {
+    try {
+      setError(null);
+      const recording = parseRecordingFile(await file.text());
+      await getDBManager().saveRecording(recording);
+      await loadRecordings();
+      return recording;
+    } catch (err) {
+      setError('El archivo no es una grabación válida');
+      console.error('Failed to import recording:', err);
+      return null;
+    }
+  }, [loadRecordings]);
+
+  return {
+    current,
+    isRecording: current !== null,
+    recordings,
+    error,
+    loadRecordings,
+    startRecording,
+    stopRecording,
+    deleteRecording,
+    importRecording,
+    exportRecording: exportRecordingAsJSON
+  };
+}
@@ -0,0 +1,253 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useAltarStore } from '../useAltarStore';
+import { getElementById, createCustomOfrendaElement } from '../../data/elements';
+import type { OfrendarElement, CustomElement } from '../../types';
+
+const vela = getElementById('vela-1') as OfrendarElement;
+const flor = getElementById('flor-cempasuchil-1') as OfrendarElement;
+const calavera = getElementById('calavera-1') as OfrendarElement;
+
+describe('useAltarStore history', () => {
+  beforeEach(() => {
+    useAltarStore.setState(state => ({
+      grid: { ...state.grid, dimensions: { rows: 12, cols: 9 }, placedElements: [] }
+    }));
+    useAltarStore.getState().clearHistory();
+  });
+
+  const placed = () => useAltarStore.getState().grid.placedElements;
+
+  it('should start with nothing to undo or redo', () => {
+    const state = useAltarStore.getState();
+
+    expect(state.canUndo).toBe(false);
+    expect(state.canRedo).toBe(false);
+    expect(state.undo()).toBe(false);
+    expect(state.redo()).toBe(false);
+  });
+
+  it('should undo and redo an element placement', () => {
+    const store = useAltarStore.getState();
+    store.placeElement(vela, { row: 0, col: 0 });
+    const placedId = placed()[0].id;
+
+    expect(useAltarStore.getState().canUndo).toBe(true);
+
+    expect(store.undo()).toBe(true);
+    expect(placed()).toHaveLength(0);
+    expect(useAltarStore.getState().canRedo).toBe(true);
+
+    expect(store.redo()).toBe(true);
+    expect(placed()).toHaveLength(1);
+    expect(placed()[0].id).toBe(placedId);
+  });
+
+  it('should restore a removed element at its original position', () => {
+    const store = useAltarStore.getState();
+    store.placeElement(flor, { row: 3, col: 4 });
+    const [element] = placed();
+
+    store.removeElement(element.id);
+    expect(placed()).toHaveLength(0);
+
+    store.undo();
+    expect(placed()).toEqual([element]);
+  });
+
+  it('should undo clearAltar and restoreAltar as a single step', () => {
+    const store = useAltarStore.getState();
+    store.placeElement(vela, { row: 0, col: 0 });
+    store.placeElement(flor, { row: 2, col: 2 });
+    const before = placed();
+
+    store.clearAltar();
+    expect(placed()).toHaveLength(0);
+    store.undo();
+    expect(placed()).toHaveLength(2);
+
+    store.restoreAltar([]);
+    store.undo();
+    expect(placed()).toEqual(before);
+  });
+
+  it('should clear the redo stack after a new edit', () => {
+    const store = useAltarStore.getState();
+    store.placeElement(vela, { row: 0, col: 0 });
+    store.undo();
+
+    store.placeElement(flor, { row: 1, col: 1 });
+
+    expect(useAltarStore.getState().canRedo).toBe(false);
+    expect(store.redo()).toBe(false);
+  });
+
+  it('should bound the number of history entries', () => {
+    const store = useAltarStore.getState();
+    store.placeElement(flor, { row: 5, col: 5 });
+    const id = placed()[0].id;
+
+    for (let i = 0; i < 60; i++) {
+      store.removeElement(id);
+      store.undo();
+      store.redo();
+      store.undo();
+    }
+
+    expect(useAltarStore.getState().history.past.length).toBeLessThanOrEqual(50);
+  });
+
+  describe('moveElement', () => {
+    it('should keep the element id and placedAt when moving', () => {
+      const store = useAltarStore.getState();
+      store.placeElement(flor, { row: 3, col: 3 });
+      const [element] = placed();
+
+      expect(store.moveElement(element.id, { row: 5, col: 6 })).toBe(true);
+
+      expect(placed()).toEqual([{ ...element, position: { row: 5, col: 6 } }]);
+    });
+
+    it('should ignore the element\'s own cell and quantity when validating', () => {
+      const store = useAltarStore.getState();
+      for (let col = 0; col < 4; col++) {
+        store.placeElement(vela, { row: 0, col });
+      }
+      const [first] = placed();
+
+      expect(store.moveElement(first.id, { row: 11, col: 0 })).toBe(true);
+      expect(placed()).toHaveLength(4);
+    });
+
+    it('should reject moves that break placement rules', () => {
+      const store = useAltarStore.getState();
+      store.placeElement(vela, { row: 0, col: 0 });
+      store.placeElement(flor, { row: 1, col: 1 });
+      const [candle] = placed();
+
+      expect(store.moveElement(candle.id, { row: 5, col: 0 })).toBe(false);
+      expect(store.moveElement(candle.id, { row: 1, col: 1 })).toBe(false);
+      expect(placed()[0].position).toEqual({ row: 0, col: 0 });
+    });
+
+    it('should undo and redo a move', () => {
+      const store = useAltarStore.getState();
+      store.placeElement(flor, { row: 3, col: 3 });
+      const [element] = placed();
+      store.moveElement(element.id, { row: 4, col: 4 });
+
+      store.undo();
+      expect(placed()).toEqual([element]);
+
+      store.redo();
+      expect(placed()[0].position).toEqual({ row: 4, col: 4 });
+    });
+  });
+
+  describe('collaborative edits', () => {
+    it('should not record remote edits', () => {
+      const store = useAltarStore.getState();
+      store.placeElement(vela, { row: 0, col: 0 }, 'remote');
+
+      expect(useAltarStore.getState().canUndo).toBe(false);
+      expect(placed()).toHaveLength(1);
+    });
+
+    it('should only revert local operations and keep remote ones', () => {
+      const store = useAltarStore.getState();
+      store.placeElement(vela, { row: 0, col: 0 });
+      store.placeElement(flor, { row: 4, col: 4 }, 'remote');
+
+      store.undo();
+
+      expect(placed()).toHaveLength(1);
+      expect(placed()[0].elementType).toBe(flor.type);
+    });
+
+    it('should not restore an element onto a cell a peer has taken', () => {
+      const store = useAltarStore.getState();
+      store.placeElement(flor, { row: 4, col: 4 });
+      const [element] = placed();
+      store.removeElement(element.id);
+
+      store.placeElement(calavera, { row: 4, col: 4 }, 'remote');
+      store.undo();
+
+      expect(placed()).toHaveLength(1);
+      expect(placed()[0].elementType).toBe(calavera.type);
+    });
+  });
+
+  describe('custom elements', () => {
+    const abuela: CustomElement = {
+      id: 'custom-abuela',
+      name: 'Abuela Carmen',
+      dedication: 'Siempre en nuestro corazón',
+      imageDataUrl: 'data:image/jpeg;base64,AAAA',
+      createdAt: new Date()
+    };
+
+    beforeEach(() => {
+      useAltarStore.getState().removeCustomElement(abuela.id);
+    });
+
+    it('should list custom elements with the available elements', () => {
+      useAltarStore.getState().addCustomElements([abuela]);
+
+      const available = useAltarStore.getState().elements.available;
+      expect(available.find(el => el.custom?.id === abuela.id)?.name).toBe('Abuela Carmen');
+    });
+
+    it('should place a custom element once without using up the photo quota', () => {
+      const store = useAltarStore.getState();
+      store.addCustomElements([abuela]);
+      const element = createCustomOfrendaElement(abuela);
+
+      expect(store.placeElement(element, { row: 2, col: 2 })).toBe(true);
+      expect(placed()[0].customElementId).toBe(abuela.id);
+      expect(store.placeElement(element, { row: 2, col: 3 })).toBe(false);
+
+      expect(store.getElementUsageCount(element.type, abuela.id)).toBe(1);
+      expect(store.getElementUsageCount(element.type)).toBe(0);
+    });
+
+    it('should move a placed custom element', () => {
+      const store = useAltarStore.getState();
+      store.addCustomElements([abuela]);
+      store.placeElement(createCustomOfrendaElement(abuela), { row: 2, col: 2 });
+
+      expect(store.moveElement(placed()[0].id, { row: 3, col: 3 })).toBe(true);
+      expect(placed()[0].customElementId).toBe(abuela.id);
+    });
+  });
+
+  describe('dedications', () => {
+    beforeEach(() => {
+      useAltarStore.getState().setHonorees([]);
+    });
+
+    it('should trim element notes and clear empty ones', () => {
+      const store = useAltarStore.getState();
+      store.placeElement(vela, { row: 0, col: 0 });
+      const id = placed()[0].id;
+
+      store.setElementNote(id, '  Su mezcal favorito  ');
+      expect(placed()[0].note).toBe('Su mezcal favorito');
+
+      store.setElementNote(id, '   ');
+      expect(placed()[0]).not.toHaveProperty('note');
+    });
+
+    it('should add, update and remove honorees', () => {
+      const store = useAltarStore.getState();
+      const id = store.addHonoree({ name: 'Abuelo Juan', deathDate: '2019-11-02' });
+
+      store.updateHonoree(id, { favoriteFood: 'Mole' });
+      expect(useAltarStore.getState().honorees).toEqual([
+        { id, name: 'Abuelo Juan', deathDate: '2019-11-02', favoriteFood: 'Mole' }
+      ]);
+
+      store.removeHonoree(id);
+      expect(useAltarStore.getState().honorees).toHaveLength(0);
+    });
+  });
+});
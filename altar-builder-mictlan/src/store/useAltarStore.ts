@@ -1,4 +1,4 @@
-import { create } from 'zustand';
+import { create, type StoreApi } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
 import type {
   OfrendarElement,
@@ -8,12 +8,32 @@ import type {
   UserSettings,
   Achievement,
   DragPreview,
-  ElementCategory
+  ElementCategory,
+  AltarHistoryEntry,
+  AltarTemplateId,
+  CustomElement,
+  Honoree,
+  EditSource,
+  EditResult,
+  DragTarget,
+  SoftLock
 } from '../types';
-import { OFRENDA_ELEMENTS, getAllCategories } from '../data/elements';
+import {
+  OFRENDA_ELEMENTS,
+  getAllCategories,
+  getElementForPlaced,
+  createCustomOfrendaElement
+} from '../data/elements';
 import { ACHIEVEMENTS } from '../data/achievements';
 import { getResponsiveGridDimensions } from '../utils/grid-utils';
-import { validateElementPlacement } from '../utils/element-validation';
+import {
+  validateElementPlacement,
+  validateElementMove,
+  countPlacedInstances
+} from '../utils/element-validation';
+import { altarModule } from '../engines/mcp-modules/altar-module';
+import { userModule } from '../engines/mcp-modules/user-module';
+import type { TypedMCPAction } from '../types/mcp';
 
 interface AltarBuilderStore {
   // Grid State
@@ -25,6 +45,7 @@ interface AltarBuilderStore {
   // Available Elements
   elements: {
     available: OfrendarElement[];
+    custom: CustomElement[];
     categories: ElementCategory[];
     selectedCategory?: ElementCategory;
   };
@@ -33,6 +54,10 @@ interface AltarBuilderStore {
   ui: {
     isDragging: boolean;
     dragPreview?: DragPreview;
+    // Where the local drag currently points, shared with collaborators
+    dragTarget?: DragTarget;
+    // Cells and elements other peers are dragging
+    softLocks: SoftLock[];
     selectedElementId?: string;
     showAchievements: boolean;
     isOffline: boolean;
@@ -53,23 +78,54 @@ interface AltarBuilderStore {
     startTime: Date;
     altarCount: number;
     uniqueElementsUsed: Set<string>;
+    // Saved altar being edited, if the workspace was loaded from or saved to the gallery
+    currentAltarId?: string;
   };
 
+  // People the current altar is dedicated to
+  honorees: Honoree[];
+
+  // Edit history (local edits only)
+  history: {
+    past: AltarHistoryEntry[];
+    future: AltarHistoryEntry[];
+  };
+  canUndo: boolean;
+  canRedo: boolean;
+
   // Grid Actions
-  placeElement: (element: OfrendarElement, position: GridPosition) => boolean;
-  removeElement: (elementId: string) => void;
-  clearAltar: () => void;
+  placeElement: (element: OfrendarElement, position: GridPosition, source?: EditSource) => EditResult;
+  removeElement: (elementId: string, source?: EditSource) => void;
+  moveElement: (elementId: string, position: GridPosition, source?: EditSource) => EditResult;
+  clearAltar: (source?: EditSource) => void;
   updateGridDimensions: (dimensions: GridDimensions) => void;
-  restoreAltar: (elements: PlacedElement[]) => void;
+  setAltarTemplate: (template: AltarTemplateId) => void;
+  restoreAltar: (elements: PlacedElement[], source?: EditSource) => void;
+  setElementNote: (elementId: string, note: string) => void;
+
+  // Dedication Actions
+  addHonoree: (honoree: Omit<Honoree, 'id'>) => string;
+  updateHonoree: (id: string, changes: Partial<Omit<Honoree, 'id'>>) => void;
+  removeHonoree: (id: string) => void;
+  setHonorees: (honorees: Honoree[]) => void;
+
+  // History Actions
+  undo: () => EditResult;
+  redo: () => EditResult;
+  clearHistory: () => void;
 
   // Element Actions
   selectCategory: (category: ElementCategory | undefined) => void;
   getAvailableElements: () => OfrendarElement[];
-  getElementUsageCount: (elementType: string) => number;
+  getElementUsageCount: (elementType: string, customElementId?: string) => number;
+  addCustomElements: (customElements: CustomElement[]) => void;
+  removeCustomElement: (customElementId: string) => void;
 
   // UI Actions
   setDragPreview: (preview?: DragPreview) => void;
   setDragging: (isDragging: boolean) => void;
+  setDragTarget: (target?: DragTarget) => void;
+  setSoftLocks: (locks: SoftLock[]) => void;
   setLoading: (loading: boolean) => void;
   toggleAchievements: () => void;
   setOfflineStatus: (isOffline: boolean) => void;
@@ -83,6 +139,7 @@ interface AltarBuilderStore {
 
   // Session Actions
   incrementAltarCount: () => void;
+  setCurrentAltar: (altarId: string | null) => void;
   resetSession: () => void;
 }
 
@@ -95,6 +152,162 @@ const initialSettings: UserSettings = {
   reducedMotion: false
 };
 
+const MAX_HISTORY_ENTRIES = 50;
+
+/**
+ * Push a local edit onto the undo stack. A new edit invalidates the redo stack.
+ */
+function recordEdit(
+  history: AltarBuilderStore['history'],
+  entry: Omit<AltarHistoryEntry, 'timestamp'>
+): Pick<AltarBuilderStore, 'history' | 'canUndo' | 'canRedo'> {
+  const past = [...history.past, { ...entry, timestamp: Date.now() }].slice(-MAX_HISTORY_ENTRIES);
+  return {
+    history: { past, future: [] },
+    canUndo: true,
+    canRedo: false
+  };
+}
+
+/**
+ * Apply (redo) or revert (undo) a history entry against the current grid.
+ * Only the elements the entry touched are changed, so edits made by other
+ * peers in the meantime are preserved. Elements whose cell has since been
+ * taken are not restored.
+ */
+function applyHistoryEntry(
+  placedElements: PlacedElement[],
+  entry: AltarHistoryEntry,
+  direction: 'undo' | 'redo'
+): PlacedElement[] {
+  const toRemove = direction === 'undo' ? entry.added : entry.removed;
+  const toAdd = direction === 'undo' ? entry.removed : entry.added;
+
+  const removeIds = new Set(toRemove.map(el => el.id));
+  const next = placedElements.filter(el => !removeIds.has(el.id));
+
+  for (const element of toAdd) {
+    const isTaken = next.some(el =>
+      el.id === element.id ||
+      (el.position.row === element.position.row && el.position.col === element.position.col)
+    );
+    if (!isTaken) {
+      next.push(element);
+    }
+  }
+
+  return next;
+}
+
+type MCPDispatch = (action: TypedMCPAction) => Promise<unknown>;
+
+// Set while MCP is the source of truth for the grid and settings
+let mcpDispatch: MCPDispatch | null = null;
+
+/**
+ * Route grid and settings edits through MCP. While a dispatcher is set,
+ * actions still validate their input and keep the undo history, but
+ * instead of writing `grid` or `settings` themselves they dispatch an MCP
+ * action, and the MCP bridge writes the committed result back. The
+ * dispatcher resolves once MCP commits the action and rejects if MCP turns
+ * it down. Pass null to go back to writing the store directly.
+ */
+export function setMCPDispatch(dispatch: MCPDispatch | null): void {
+  mcpDispatch = dispatch;
+}
+
+// The grid part of an update, left out while MCP owns the grid
+function gridWrite(grid: AltarBuilderStore['grid']): Partial<Pick<AltarBuilderStore, 'grid'>> {
+  return mcpDispatch ? {} : { grid };
+}
+
+// Resolves with whether MCP committed the action; null without a dispatcher
+function dispatchToMCP(action: TypedMCPAction, source: EditSource = 'local'): Promise<boolean> | null {
+  return mcpDispatch?.({ ...action, source }).then(
+    () => true,
+    error => {
+      console.warn('Edit rejected by MCP:', (error as { message?: string })?.message ?? error);
+      return false;
+    }
+  ) ?? null;
+}
+
+// Edits dispatched to MCP that it has not committed or rejected yet
+const pendingEdits = new Set<Promise<boolean>>();
+
+function trackPending(edit: Promise<boolean>): Promise<boolean> {
+  pendingEdits.add(edit);
+  void edit.then(() => pendingEdits.delete(edit));
+  return edit;
+}
+
+/**
+ * Apply a grid edit along with what follows from it, like its undo entry.
+ * Without MCP both are written at once; while MCP owns the grid the edit is
+ * dispatched and the rest only applied after MCP commits, so an edit MCP
+ * rejects leaves nothing behind and reports false.
+ */
+function applyEdit(
+  set: StoreApi<AltarBuilderStore>['setState'],
+  action: TypedMCPAction,
+  source: EditSource,
+  placedElements: (current: PlacedElement[]) => PlacedElement[],
+  effects: (state: AltarBuilderStore) => Partial<AltarBuilderStore>
+): EditResult {
+  const committed = dispatchToMCP(action, source);
+  if (!committed) {
+    set(state => ({
+      grid: { ...state.grid, placedElements: placedElements(state.grid.placedElements) },
+      ...effects(state)
+    }));
+    return true;
+  }
+
+  return trackPending(committed.then(ok => {
+    if (ok) set(effects);
+    return ok;
+  }));
+}
+
+/**
+ * Undo or redo the latest history entry. While MCP owns the grid, edits
+ * still on their way to MCP are waited for first, so the entry and the grid
+ * it is applied to are ones MCP has committed; the entry changes stacks only
+ * once MCP commits the step as well.
+ */
+function stepHistory(
+  set: StoreApi<AltarBuilderStore>['setState'],
+  get: StoreApi<AltarBuilderStore>['getState'],
+  direction: 'undo' | 'redo'
+): EditResult {
+  const step = (): EditResult => {
+    const { history, grid } = get();
+    const stack = direction === 'undo' ? history.past : history.future;
+    const entry = stack[stack.length - 1];
+    if (!entry) return false;
+    const placedElements = applyHistoryEntry(grid.placedElements, entry, direction);
+
+    return applyEdit(
+      set,
+      altarModule.actions.restoreAltar(placedElements),
+      'local',
+      () => placedElements,
+      state => {
+        const past = direction === 'undo'
+          ? state.history.past.filter(e => e !== entry)
+          : [...state.history.past, entry];
+        const future = direction === 'undo'
+          ? [...state.history.future, entry]
+          : state.history.future.filter(e => e !== entry);
+        return { history: { past, future }, canUndo: past.length > 0, canRedo: future.length > 0 };
+      }
+    );
+  };
+
+  if (!mcpDispatch || pendingEdits.size === 0) return step();
+  return trackPending(Promise.all(pendingEdits).then(step));
+}
+
 export const useAltarStore = create<AltarBuilderStore>()(
   devtools(
     persist(
@@ -107,6 +320,7 @@ export const useAltarStore = create<AltarBuilderStore>()(
 
         elements: {
           available: OFRENDA_ELEMENTS,
+          custom: [],
           categories: getAllCategories(),
           selectedCategory: undefined
         },
@@ -114,6 +328,8 @@ export const useAltarStore = create<AltarBuilderStore>()(
         ui: {
           isDragging: false,
           dragPreview: undefined,
+          dragTarget: undefined,
+          softLocks: [],
           selectedElementId: undefined,
           showAchievements: false,
           isOffline: false,
@@ -133,8 +349,17 @@ export const useAltarStore = create<AltarBuilderStore>()(
           uniqueElementsUsed: new Set()
         },
 
+        honorees: [],
+
+        history: {
+          past: [],
+          future: []
+        },
+        canUndo: false,
+        canRedo: false,
+
         // Grid Actions
-        placeElement: (element, position) => {
+        placeElement: (element, position, source = 'local') => {
           const { grid, session } = get();
 
           // Validate placement
@@ -152,65 +377,200 @@ export const useAltarStore = create<AltarBuilderStore>()(
 
           // Create placed element
           const placedElement: PlacedElement = {
-            id: `${element.id}-${Date.now()}`,
+            id: `${element.id}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
             elementType: element.type,
+            ...(element.custom ? { customElementId: element.custom.id } : {}),
             position,
             placedAt: new Date()
           };
 
-          set(state => ({
-            grid: {
-              ...state.grid,
-              placedElements: [...state.grid.placedElements, placedElement]
-            },
-            session: {
-              ...state.session,
-              uniqueElementsUsed: new Set([...session.uniqueElementsUsed, element.type])
-            }
-          }));
+          const result = applyEdit(
+            set,
+            altarModule.actions.placeElement({
+              element,
+              position,
+              id: placedElement.id,
+              placedAt: placedElement.placedAt
+            }),
+            source,
+            current => [...current, placedElement],
+            state => ({
+              session: {
+                ...state.session,
+                uniqueElementsUsed: new Set([...session.uniqueElementsUsed, element.type])
+              },
+              ...(source === 'local'
+                ? recordEdit(state.history, { type: 'place', added: [placedElement], removed: [] })
+                : {})
+            })
+          );
 
           // Check for achievements
           setTimeout(() => get().checkAchievements(), 100);
 
-          return true;
+          return result;
         },
 
-        removeElement: (elementId) => {
-          set(state => ({
-            grid: {
-              ...state.grid,
-              placedElements: state.grid.placedElements.filter(el => el.id !== elementId)
-            }
+        removeElement: (elementId, source = 'local') => {
+          const removed = get().grid.placedElements.find(el => el.id === elementId);
+          if (!removed) return;
+
+          applyEdit(
+            set,
+            altarModule.actions.removeElement({ elementId }),
+            source,
+            current => current.filter(el => el.id !== elementId),
+            state => source === 'local'
+              ? recordEdit(state.history, { type: 'remove', added: [], removed: [removed] })
+              : {}
+          );
+        },
+
+        moveElement: (elementId, position, source = 'local') => {
+          const { grid } = get();
+          const current = grid.placedElements.find(el => el.id === elementId);
+          if (!current) return false;
+
+          if (current.position.row === position.row && current.position.col === position.col) {
+            return true;
+          }
+
+          const element = getElementForPlaced(current, get().elements.available);
+          if (!element) {
+            console.warn('Invalid move: unknown element type', current.elementType);
+            return false;
+          }
+
+          const validation = validateElementMove(
+            element,
+            elementId,
+            position,
+            grid.placedElements,
+            grid.dimensions
+          );
+
+          if (!validation.isValid) {
+            console.warn('Invalid move:', validation.reason);
+            return false;
+          }
+
+          // Keep id, placedAt and animations; only the position changes
+          const moved: PlacedElement = { ...current, position };
+
+          return applyEdit(
+            set,
+            altarModule.actions.moveElement({ elementId, position, element }),
+            source,
+            placed => placed.map(el => el.id === elementId ? moved : el),
+            state => source === 'local'
+              ? recordEdit(state.history, { type: 'move', added: [moved], removed: [current] })
+              : {}
+          );
+        },
+
+        clearAltar: (source = 'local') => {
+          const removed = get().grid.placedElements;
+
+          applyEdit(
+            set,
+            altarModule.actions.clearAltar(),
+            source,
+            () => [],
+            state => source === 'local' && removed.length > 0
+              ? recordEdit(state.history, { type: 'clear', added: [], removed })
+              : {}
+          );
+        },
+
+        updateGridDimensions: (dimensions) => {
+          set(state => gridWrite({
+            ...state.grid,
+            dimensions
+          }));
+          dispatchToMCP(altarModule.actions.updateDimensions(dimensions));
+        },
+
+        setAltarTemplate: (template) => {
+          const dimensions = { ...get().grid.dimensions, template };
+          set(state => gridWrite({
+            ...state.grid,
+            dimensions
+          }));
+          dispatchToMCP(altarModule.actions.updateDimensions(dimensions));
+        },
+
+        restoreAltar: (elements, source = 'local') => {
+          const removed = get().grid.placedElements;
+
+          applyEdit(
+            set,
+            altarModule.actions.restoreAltar(elements),
+            source,
+            () => elements,
+            state => source === 'local'
+              ? recordEdit(state.history, { type: 'restore', added: elements, removed })
+              : {}
+          );
+        },
+
+        setElementNote: (elementId, note) => {
+          const trimmed = note.trim();
+          const placedElements = get().grid.placedElements.map(el => {
+            if (el.id !== elementId) return el;
+            if (trimmed) return { ...el, note: trimmed };
+            const rest = { ...el };
+            delete rest.note;
+            return rest;
+          });
+
+          set(state => gridWrite({
+            ...state.grid,
+            placedElements
           }));
+          // Notes have no action of their own
+          dispatchToMCP(altarModule.actions.restoreAltar(placedElements));
         },
 
-        clearAltar: () => {
+        // Dedication Actions
+        addHonoree: (honoree) => {
+          const id = `honoree-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
           set(state => ({
-            grid: {
-              ...state.grid,
-              placedElements: []
-            }
+            honorees: [...state.honorees, { ...honoree, id }]
           }));
+          return id;
         },
 
-        updateGridDimensions: (dimensions) => {
+        updateHonoree: (id, changes) => {
           set(state => ({
-            grid: {
-              ...state.grid,
-              dimensions
-            }
+            honorees: state.honorees.map(honoree =>
+              honoree.id === id ? { ...honoree, ...changes } : honoree
+            )
           }));
         },
 
-        restoreAltar: (elements) => {
+        removeHonoree: (id) => {
           set(state => ({
-            grid: {
-              ...state.grid,
-              placedElements: elements
-            }
+            honorees: state.honorees.filter(honoree => honoree.id !== id)
           }));
         },
 
+        setHonorees: (honorees) => {
+          set({ honorees });
+        },
+
+        // History Actions
+        undo: () => stepHistory(set, get, 'undo'),
+
+        redo: () => stepHistory(set, get, 'redo'),
+
+        clearHistory: () => {
+          set({
+            history: { past: [], future: [] },
+            canUndo: false,
+            canRedo: false
+          });
+        },
+
         // Element Actions
         selectCategory: (category) => {
           set(state => ({
@@ -227,23 +587,56 @@ export const useAltarStore = create<AltarBuilderStore>()(
 
           // Filter by category if selected
           let available = selectedCategory
-            ? OFRENDA_ELEMENTS.filter(el => el.category === selectedCategory)
-            : OFRENDA_ELEMENTS;
+            ? elements.available.filter(el => el.category === selectedCategory)
+            : elements.available;
 
           // Filter out elements that have reached max quantity
-          available = available.filter(element => {
-            const usageCount = grid.placedElements.filter(
-              el => el.elementType === element.type
-            ).length;
-            return usageCount < element.maxQuantity;
-          });
+          available = available.filter(element =>
+            countPlacedInstances(element, grid.placedElements) < element.maxQuantity
+          );
 
           return available;
         },
 
-        getElementUsageCount: (elementType) => {
+        getElementUsageCount: (elementType, customElementId) => {
           const { grid } = get();
-          return grid.placedElements.filter(el => el.elementType === elementType).length;
+          return grid.placedElements.filter(el =>
+            customElementId
+              ? el.customElementId === customElementId
+              : el.elementType === elementType && !el.customElementId
+          ).length;
+        },
+
+        addCustomElements: (customElements) => {
+          set(state => {
+            const incomingIds = new Set(customElements.map(custom => custom.id));
+            const custom = [
+              ...state.elements.custom.filter(existing => !incomingIds.has(existing.id)),
+              ...customElements
+            ];
+
+            return {
+              elements: {
+                ...state.elements,
+                custom,
+                available: [...OFRENDA_ELEMENTS, ...custom.map(createCustomOfrendaElement)]
+              }
+            };
+          });
+        },
+
+        removeCustomElement: (customElementId) => {
+          set(state => {
+            const custom = state.elements.custom.filter(existing => existing.id !== customElementId);
+
+            return {
+              elements: {
+                ...state.elements,
+                custom,
+                available: [...OFRENDA_ELEMENTS, ...custom.map(createCustomOfrendaElement)]
+              }
+            };
+          });
         },
 
         // UI Actions
@@ -252,7 +645,8 @@ export const useAltarStore = create<AltarBuilderStore>()(
             ui: {
               ...state.ui,
               dragPreview: preview,
-              isDragging: !!preview
+              isDragging: !!preview,
+              dragTarget: preview ? state.ui.dragTarget : undefined
             }
           }));
         },
@@ -261,7 +655,27 @@ export const useAltarStore = create<AltarBuilderStore>()(
           set(state => ({
             ui: {
               ...state.ui,
-              isDragging
+              isDragging,
+              dragTarget: isDragging ? state.ui.dragTarget : undefined
+            }
+          }));
+        },
+
+        setDragTarget: (target) => {
+          set(state => {
+            const current = state.ui.dragTarget;
+            const unchanged = current?.elementId === target?.elementId &&
+              current?.cell?.row === target?.cell?.row &&
+              current?.cell?.col === target?.cell?.col;
+            return unchanged ? state : { ui: { ...state.ui, dragTarget: target } };
+          });
+        },
+
+        setSoftLocks: (softLocks) => {
+          set(state => ({
+            ui: {
+              ...state.ui,
+              softLocks
             }
           }));
         },
@@ -295,6 +709,11 @@ export const useAltarStore = create<AltarBuilderStore>()(
 
         // Settings Actions
         updateSettings: (newSettings) => {
+          if (mcpDispatch) {
+            dispatchToMCP(userModule.actions.updateSettings({ settings: newSettings }));
+            return;
+          }
+
           set(state => ({
             settings: {
               ...state.settings,
@@ -383,6 +802,15 @@ export const useAltarStore = create<AltarBuilderStore>()(
           }
         },
 
+        setCurrentAltar: (altarId) => {
+          set(state => ({
+            session: {
+              ...state.session,
+              currentAltarId: altarId ?? undefined
+            }
+          }));
+        },
+
         resetSession: () => {
           set({
             session: {
@@ -397,6 +825,7 @@ export const useAltarStore = create<AltarBuilderStore>()(
         name: 'altar-builder-storage',
         partialize: (state) => ({
           settings: state.settings,
+          honorees: state.honorees,
           achievements: {
             unlocked: state.achievements.unlocked,
             progress: Array.from(state.achievements.progress.entries())
@@ -415,8 +844,14 @@ export const useAltarStore = create<AltarBuilderStore>()(
 // Selectors for better performance
 export const useGridDimensions = () => useAltarStore(state => state.grid.dimensions);
 export const usePlacedElements = () => useAltarStore(state => state.grid.placedElements);
+export const useHonorees = () => useAltarStore(state => state.honorees);
+export const useCustomElements = () => useAltarStore(state => state.elements.custom);
 export const useAvailableElements = () => useAltarStore(state => state.getAvailableElements());
 export const useSettings = () => useAltarStore(state => state.settings);
 export const useAchievements = () => useAltarStore(state => state.achievements.unlocked);
 export const useIsDragging = () => useAltarStore(state => state.ui.isDragging);
 export const useDragPreview = () => useAltarStore(state => state.ui.dragPreview);
+export const useSoftLocks = () => useAltarStore(state => state.ui.softLocks);
+export const useCanUndo = () => useAltarStore(state => state.canUndo);
+export const useCanRedo = () => useAltarStore(state => state.canRedo);
+export const useCurrentAltarId = () => useAltarStore(state => state.session.currentAltarId);
@@ -1,5 +1,7 @@
 // Core Types for Altar Builder Mictlán
 
+import type { MCPAction } from './mcp';
+
 export enum ElementType {
   VELA = 'vela',
   FLOR = 'flor',
@@ -48,14 +50,64 @@ export interface GridPosition {
 export interface GridDimensions {
   rows: number;
   cols: number;
+  template?: AltarTemplateId;
+}
+
+export type AltarTemplateId = 'two-level' | 'three-level' | 'seven-level';
+
+/**
+ * A named level of the altar. `span` is the tier's share of the grid
+ * rows; tiers are listed from the top of the altar down.
+ */
+export interface AltarTier {
+  id: string;
+  name: LocalizedText;
+  meaning: LocalizedText;
+  span: number;
+}
+
+export interface AltarTemplate {
+  id: AltarTemplateId;
+  name: LocalizedText;
+  description: LocalizedText;
+  tiers: AltarTier[];
+}
+
+/**
+ * A tier resolved against concrete grid dimensions (rows are inclusive)
+ */
+export interface TierBand {
+  tier: AltarTier;
+  index: number;
+  startRow: number;
+  endRow: number;
 }
 
 export interface PlacementRule {
   type: 'maxQuantity' | 'rowRestriction' | 'columnRestriction' | 'proximity' | 'stacking';
-  value: number | string | GridPosition[];
+  value: number | string | GridPosition[] | ProximityRuleValue | StackingRuleValue;
   message: string;
 }
 
+/**
+ * Proximity rule: the element must be within `distance` cells of one of
+ * `elementTypes` ('within'), or must not touch any of them ('notAdjacent').
+ * Distances count diagonal steps as one cell.
+ */
+export interface ProximityRuleValue {
+  relation: 'within' | 'notAdjacent';
+  elementTypes: ElementType[];
+  distance?: number;
+}
+
+/**
+ * Stacking rule: the element must sit directly above one of `elementTypes`
+ */
+export interface StackingRuleValue {
+  relation: 'above';
+  elementTypes: ElementType[];
+}
+
 export interface AnimationDefinition {
   type: AnimationType;
   duration: number;
@@ -78,17 +130,67 @@ export interface OfrendarElement {
   animations?: AnimationDefinition[];
   soundEffect?: string;
   description: string;
+  custom?: CustomElement;
+}
+
+/**
+ * A user-created element: an uploaded photo with a dedication for the
+ * person honored. The image is a resized JPEG data URL so it can travel
+ * with saved altars, JSON exports and collaboration messages.
+ */
+export interface CustomElement {
+  id: string;
+  name: string;
+  dedication: string;
+  imageDataUrl: string;
+  createdAt: Date;
+}
+
+/**
+ * A person the ofrenda is dedicated to.
+ * Dates are calendar dates in ISO format (YYYY-MM-DD).
+ */
+export interface Honoree {
+  id: string;
+  name: string;
+  birthDate?: string;
+  deathDate?: string;
+  favoriteFood?: string;
+  biography?: string;
 }
 
 export interface PlacedElement {
   id: string;
   elementType: ElementType;
+  customElementId?: string;
   position: GridPosition;
+  note?: string;
   layer?: number;
   animations?: AnimationConfig[];
   placedAt: Date;
 }
 
+/**
+ * A reversible edit to the altar grid. Every edit is expressed as the
+ * elements it removed and the elements it added, so undo/redo can be
+ * applied on top of edits made by other collaborators.
+ */
+export interface AltarHistoryEntry {
+  type: 'place' | 'remove' | 'move' | 'clear' | 'restore';
+  added: PlacedElement[];
+  removed: PlacedElement[];
+  timestamp: number;
+}
+
+/** Where a grid edit originated; only local edits are undoable */
+export type EditSource = 'local' | 'remote';
+
+/**
+ * Whether a grid edit took effect: known at once when the store writes the
+ * grid itself, and once MCP has committed it when MCP owns the grid
+ */
+export type EditResult = boolean | Promise<boolean>;
+
 export interface DragPreview {
   element: OfrendarElement;
   position: { x: number; y: number };
@@ -99,6 +201,8 @@ export interface ValidationResult {
   isValid: boolean;
   reason?: string;
   suggestions?: GridPosition[];
+  // Allowed, but a rule is not met yet, e.g. salt placed before the water
+  warning?: string;
 }
 
 export interface Achievement {
@@ -128,8 +232,11 @@ export interface SavedAltar {
   name: string;
   createdAt: Date;
   updatedAt: Date;
-  thumbnail: string; // Base64 encoded image
+  thumbnail: string; // Base64 image in export files; IndexedDB keeps it as a Blob in the thumbnails store
   elements: PlacedElement[];
+  customElements?: CustomElement[];
+  honorees?: Honoree[];
+  template?: AltarTemplateId;
   metadata: {
     score: number;
     completionLevel: number;
@@ -139,12 +246,71 @@ export interface SavedAltar {
   version: string;
 }
 
+export type AltarRevisionKind = 'autosave' | 'save';
+
+/**
+ * Snapshot of a saved altar at one point in its history
+ */
+export interface AltarRevision {
+  id: string;
+  altarId: string;
+  kind: AltarRevisionKind;
+  createdAt: Date;
+  name: string;
+  elements: PlacedElement[];
+  customElements?: CustomElement[];
+  honorees?: Honoree[];
+  template?: AltarTemplateId;
+  thumbnail?: Blob;
+}
+
+/**
+ * Element changes between two revisions, matched by placed element id
+ */
+export interface RevisionDiff {
+  added: PlacedElement[];
+  removed: PlacedElement[];
+  moved: Array<{ element: PlacedElement; from: GridPosition }>;
+}
+
+/**
+ * Result of evaluating one composition rule against an altar
+ */
+export interface AltarRuleResult {
+  id: string;
+  name: string;
+  passed: boolean;
+  points: number;
+  maxPoints: number;
+  essential: boolean;
+  message: string;
+  culturalSignificance: string;
+}
+
+/**
+ * Structured cultural scoring report for an altar
+ */
+export interface AltarScoreReport {
+  rules: AltarRuleResult[];
+  score: number;
+  maxScore: number;
+  percentage: number;
+  culturalAuthenticity: number;
+  isValid: boolean;
+  warnings: string[];
+  recommendations: string[];
+}
+
+export type Language = 'es' | 'en';
+
+export type LocalizedText = Record<Language, string>;
+
 export interface UserSettings {
   animationsEnabled: boolean;
   audioEnabled: boolean;
   volume: number;
   theme: 'light' | 'dark' | 'auto';
-  language: 'es' | 'en';
+  language: Language;
   reducedMotion: boolean;
 }
 
@@ -254,6 +420,12 @@ export interface ErrorHandler {
 }
 
 // Collaboration Types (Level 3)
+
+/** Whether a peer has been heard from lately */
+export type PeerPresenceStatus = 'active' | 'idle';
+
+export type ConnectionQuality = 'good' | 'fair' | 'poor';
+
 export interface CollaborationPeer {
   id: string;
   name: string;
@@ -261,6 +433,71 @@ export interface CollaborationPeer {
   cursor?: CursorPosition;
   isConnected: boolean;
   lastSeen: Date;
+  status?: PeerPresenceStatus;
+  // Smoothed round-trip time in milliseconds, once measured
+  latency?: number;
+}
+
+/**
+ * What a peer may do in a room. The host moderates, editors change the
+ * altar and viewers only follow along.
+ */
+export type CollaborationRole = 'host' | 'editor' | 'viewer';
+
+/**
+ * Roles and moderation state of a room, as announced by its host
+ */
+export interface RoomRoster {
+  hostId?: string;
+  // Peers without an entry are editors
+  roles: Record<string, CollaborationRole>;
+  locked: boolean;
+  kicked: string[];
+}
+
+/**
+ * A chat line sent to everyone in the room
+ */
+export interface ChatMessage {
+  id: string;
+  peerId: string;
+  text: string;
+  timestamp: number;
+}
+
+export type ReactionEmoji = '🕯️' | '🌼' | '💀';
+
+/**
+ * A quick emoji reaction pinned to a cell of the altar grid
+ */
+export interface CellReaction {
+  id: string;
+  peerId: string;
+  emoji: ReactionEmoji;
+  position: GridPosition;
+  timestamp: number;
+}
+
+/**
+ * What a peer is holding while it drags: the cell it is about to drop on
+ * and, when moving, the element it picked up
+ */
+export interface DragTarget {
+  cell?: GridPosition;
+  elementId?: string;
+}
+
+/**
+ * A short-lived claim another peer holds on a cell or element while it
+ * drags. Locks are advisory: they steer drops elsewhere but do not block
+ * operations that arrive anyway.
+ */
+export interface SoftLock extends DragTarget {
+  peerId: string;
+  expiresAt: number;
+  // Display details of the peer, when known
+  name?: string;
+  color?: string;
 }
 
 export interface CursorPosition {
@@ -280,7 +517,29 @@ export interface CollaborationState {
 }
 
 export interface CollaborationAction {
-  type: 'element_place' | 'element_remove' | 'cursor_move' | 'peer_join' | 'peer_leave';
+  type:
+    | 'element_place'
+    | 'element_remove'
+    | 'element_move'
+    | 'cursor_move'
+    | 'peer_join'
+    | 'peer_leave'
+    | 'sync_request'
+    | 'sync_response'
+    | 'sync_check'
+    | 'room_roles'
+    | 'role_change'
+    | 'altar_lock'
+    | 'peer_kick'
+    | 'encrypted'
+    | 'key_challenge'
+    | 'key_proof'
+    | 'chat_message'
+    | 'reaction'
+    | 'drag_lock'
+    | 'drag_release'
+    | 'presence_ping'
+    | 'presence_pong';
   peerId: string;
   timestamp: number;
   data: any;
@@ -290,10 +549,13 @@ export interface WebRTCConfig {
   iceServers: RTCIceServer[];
   maxRetries: number;
   connectionTimeout: number;
+  signalingUrl: string;
+  // Overrides the global WebSocket, e.g. with the `ws` package under Node
+  WebSocketImpl?: typeof WebSocket;
 }
 
 export interface CollaborationEngine {
-  createRoom(): Promise<string>;
+  createRoom(roomId?: string): Promise<string>;
   joinRoom(roomId: string): Promise<void>;
   leaveRoom(): void;
   sendAction(action: CollaborationAction): void;
@@ -302,5 +564,43 @@ export interface CollaborationEngine {
   onPeerDisconnect(callback: (peerId: string) => void): void;
 }
 
+// Session Recording Types
+
+export interface RecordedAltarChange {
+  added: PlacedElement[];
+  removed: PlacedElement[];
+}
+
+/**
+ * The parts of an MCP action kept in a recording
+ */
+export type RecordedMCPAction = Pick<MCPAction, 'id' | 'type' | 'source' | 'payload'>;
+
+/**
+ * One entry of a session recording. `at` is the time since the recording
+ * started in milliseconds. Altar events carry the grid change and are what
+ * replay rebuilds the altar from; collaboration and MCP events keep the
+ * action stream around them, with `direction` telling whether this peer
+ * sent or received a collaboration action.
+ */
+export type RecordedEvent =
+  | { at: number; kind: 'altar'; data: RecordedAltarChange }
+  | { at: number; kind: 'collaboration'; direction: 'in' | 'out'; data: CollaborationAction }
+  | { at: number; kind: 'mcp'; data: RecordedMCPAction };
+
+/**
+ * A recorded building session, replayable from its initial altar
+ */
+export interface SessionRecording {
+  id: string;
+  name: string;
+  startedAt: Date;
+  duration: number;
+  roomId?: string;
+  dimensions: GridDimensions;
+  initialElements: PlacedElement[];
+  events: RecordedEvent[];
+}
+
 // Re-export MCP types
 export * from './mcp';
\ No newline at end of file
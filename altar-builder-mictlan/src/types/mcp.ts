@@ -10,29 +10,6 @@ import type {
   GridDimensions
 } from './index';
 
-// MCP Action Types
-export type MCPActionType = 
-  // Altar Actions
-  | 'placeElement'
-  | 'removeElement'
-  | 'clearAltar'
-  | 'validateComposition'
-  | 'restoreAltar'
-  // User Actions
-  | 'updateSettings'
-  | 'unlockAchievement'
-  | 'saveProgress'
-  | 'resetSession'
-  // Collaboration Actions
-  | 'joinRoom'
-  | 'leaveRoom'
-  | 'syncState'
-  | 'broadcastCursor'
-  // Steering Actions
-  | 'spawnMariposa'
-  | 'updateBehavior'
-  | 'optimizePerformance';
-
 // MCP State Interfaces
 export interface AltarState {
   dimensions: GridDimensions;
@@ -84,10 +61,15 @@ export interface MCPAction<T = any> {
   source: 'local' | 'remote';
 }
 
+export type EmptyPayload = Record<string, never>;
+
 export interface PlaceElementPayload {
   element: OfrendarElement;
   position: GridPosition;
   userId?: string;
+  // Id and time for the placed element, when the caller already refers to it
+  id?: string;
+  placedAt?: Date;
 }
 
 export interface RemoveElementPayload {
@@ -95,6 +77,18 @@ export interface RemoveElementPayload {
   userId?: string;
 }
 
+export interface MoveElementPayload {
+  elementId: string;
+  position: GridPosition;
+  userId?: string;
+  // Definition of the moved element, needed for custom elements
+  element?: OfrendarElement;
+}
+
+export interface UpdateDimensionsPayload {
+  dimensions: GridDimensions;
+}
+
 export interface UpdateSettingsPayload {
   settings: Partial<UserSettings>;
   userId?: string;
@@ -121,14 +115,107 @@ export interface BroadcastCursorPayload {
   userId: string;
   position: { x: number; y: number };
   action?: 'drag' | 'hover' | 'click';
+  // While dragging: the cell targeted and the element being moved
+  cell?: GridPosition;
+  elementId?: string;
+}
+
+// MCP Action Registry Types
+
+// Payload of every action, grouped by the module that owns the action
+export interface MCPModuleActionPayloads {
+  altar: {
+    placeElement: PlaceElementPayload;
+    removeElement: RemoveElementPayload;
+    moveElement: MoveElementPayload;
+    clearAltar: EmptyPayload;
+    validateComposition: { elements: PlacedElement[] };
+    restoreAltar: { elements: PlacedElement[] };
+    updateDimensions: UpdateDimensionsPayload;
+  };
+  user: {
+    updateSettings: UpdateSettingsPayload;
+    unlockAchievement: UnlockAchievementPayload;
+    saveProgress: { progress: Map<string, number> };
+    resetSession: EmptyPayload;
+  };
+  collaboration: {
+    joinRoom: JoinRoomPayload;
+    leaveRoom: { roomId: string };
+    syncState: SyncStatePayload;
+    broadcastCursor: BroadcastCursorPayload;
+  };
+  steering: {
+    spawnMariposa: { count: number };
+    updateBehavior: { settings: Partial<SteeringState['behaviorSettings']> };
+    optimizePerformance: { metrics: SteeringState['performanceMetrics'] };
+  };
+}
+
+// State of each module, which is also the result of its actions
+export interface MCPModuleStates {
+  altar: AltarState;
+  user: UserState;
+  collaboration: CollaborationState;
+  steering: SteeringState;
 }
 
+export type MCPModuleName = keyof MCPModuleActionPayloads;
+
+export type MCPActionPayloads =
+  MCPModuleActionPayloads['altar'] &
+  MCPModuleActionPayloads['user'] &
+  MCPModuleActionPayloads['collaboration'] &
+  MCPModuleActionPayloads['steering'];
+
+export type MCPActionType = keyof MCPActionPayloads;
+
+// Module that owns an action type
+export type MCPActionModule<K extends MCPActionType> = {
+  [M in MCPModuleName]: K extends keyof MCPModuleActionPayloads[M] ? M : never
+}[MCPModuleName];
+
+// What a dispatched action resolves to: the new state of its module
+export type MCPActionResult<K extends MCPActionType> = MCPModuleStates[MCPActionModule<K>];
+
+// An action whose payload type follows from its type
+export type MCPActionOf<K extends MCPActionType> = MCPAction<MCPActionPayloads[K]> & { type: K };
+
+// Any well-formed action; switching on `type` narrows the payload
+export type TypedMCPAction = { [K in MCPActionType]: MCPActionOf<K> }[MCPActionType];
+
+/**
+ * Runtime check for values of type T. `check` returns a description of
+ * every mismatch, prefixed with where in the value it was found.
+ */
+export interface MCPSchema<T> {
+  // What the schema accepts, for error messages
+  readonly expected: string;
+  check: (value: unknown, path: string) => string[];
+  // Only carries T for type inference; never set
+  readonly __type?: T;
+}
+
+export interface MCPActionDefinition<K extends MCPActionType = MCPActionType> {
+  type: K;
+  module: MCPActionModule<K>;
+  description: string;
+  payload: MCPSchema<MCPActionPayloads[K]>;
+}
+
+// Definitions a module declares for its actions, keyed by action type
+export type MCPModuleActionDefinitions<M extends MCPModuleName> = {
+  [K in keyof MCPModuleActionPayloads[M] & MCPActionType]: Omit<MCPActionDefinition<K>, 'type' | 'module'>
+};
+
 // MCP Module Interfaces
 export interface MCPModule<TState = any, TActions = any> {
   name: string;
   state: TState;
   actions: TActions;
-  reducer: (state: TState, action: MCPAction) => TState;
+  reducer: (state: TState, action: TypedMCPAction) => TState;
+  // Actions the module handles; the engine routes and validates with these
+  actionDefinitions?: MCPActionDefinition[];
   middleware?: MCPMiddleware[];
 }
 
@@ -150,37 +237,40 @@ export interface SteeringMCPModule extends MCPModule<SteeringState, SteeringActi
 
 // MCP Action Interfaces
 export interface AltarActions {
-  placeElement: (payload: PlaceElementPayload) => MCPAction<PlaceElementPayload>;
-  removeElement: (payload: RemoveElementPayload) => MCPAction<RemoveElementPayload>;
-  clearAltar: () => MCPAction<{}>;
-  validateComposition: (elements: PlacedElement[]) => MCPAction<{ elements: PlacedElement[] }>;
-  restoreAltar: (elements: PlacedElement[]) => MCPAction<{ elements: PlacedElement[] }>;
+  placeElement: (payload: PlaceElementPayload) => MCPActionOf<'placeElement'>;
+  removeElement: (payload: RemoveElementPayload) => MCPActionOf<'removeElement'>;
+  moveElement: (payload: MoveElementPayload) => MCPActionOf<'moveElement'>;
+  clearAltar: () => MCPActionOf<'clearAltar'>;
+  validateComposition: (elements: PlacedElement[]) => MCPActionOf<'validateComposition'>;
+  restoreAltar: (elements: PlacedElement[]) => MCPActionOf<'restoreAltar'>;
+  updateDimensions: (dimensions: GridDimensions) => MCPActionOf<'updateDimensions'>;
 }
 
 export interface UserActions {
-  updateSettings: (payload: UpdateSettingsPayload) => MCPAction<UpdateSettingsPayload>;
-  unlockAchievement: (payload: UnlockAchievementPayload) => MCPAction<UnlockAchievementPayload>;
-  saveProgress: (progress: Map<string, number>) => MCPAction<{ progress: Map<string, number> }>;
-  resetSession: () => MCPAction<{}>;
+  updateSettings: (payload: UpdateSettingsPayload) => MCPActionOf<'updateSettings'>;
+  unlockAchievement: (payload: UnlockAchievementPayload) => MCPActionOf<'unlockAchievement'>;
+  saveProgress: (progress: Map<string, number>) => MCPActionOf<'saveProgress'>;
+  resetSession: () => MCPActionOf<'resetSession'>;
 }
 
 export interface CollaborationActions {
-  joinRoom: (payload: JoinRoomPayload) => MCPAction<JoinRoomPayload>;
-  leaveRoom: (roomId: string) => MCPAction<{ roomId: string }>;
-  syncState: (payload: SyncStatePayload) => MCPAction<SyncStatePayload>;
-  broadcastCursor: (payload: BroadcastCursorPayload) => MCPAction<BroadcastCursorPayload>;
+  joinRoom: (payload: JoinRoomPayload) => MCPActionOf<'joinRoom'>;
+  leaveRoom: (roomId: string) => MCPActionOf<'leaveRoom'>;
+  syncState: (payload: SyncStatePayload) => MCPActionOf<'syncState'>;
+  broadcastCursor: (payload: BroadcastCursorPayload) => MCPActionOf<'broadcastCursor'>;
 }
 
 export interface SteeringActions {
-  spawnMariposa: (count: number) => MCPAction<{ count: number }>;
-  updateBehavior: (settings: Partial<SteeringState['behaviorSettings']>) => MCPAction<{ settings: Partial<SteeringState['behaviorSettings']> }>;
-  optimizePerformance: (metrics: SteeringState['performanceMetrics']) => MCPAction<{ metrics: SteeringState['performanceMetrics'] }>;
+  spawnMariposa: (count: number) => MCPActionOf<'spawnMariposa'>;
+  updateBehavior: (settings: Partial<SteeringState['behaviorSettings']>) => MCPActionOf<'updateBehavior'>;
+  optimizePerformance: (metrics: SteeringState['performanceMetrics']) => MCPActionOf<'optimizePerformance'>;
 }
 
 // MCP Core Interfaces
 export interface MCPEngine {
   modules: Map<string, MCPModule>;
-  dispatch: <T>(action: MCPAction<T>) => Promise<void>;
+  dispatch: <K extends MCPActionType>(action: MCPActionOf<K>) => Promise<MCPActionResult<K>>;
+  transaction: (actions: TypedMCPAction[]) => Promise<void>;
   subscribe: (moduleNames: string[], callback: (state: any) => void) => () => void;
   getState: <T>(moduleName: string) => T;
   registerModule: <T extends MCPModule>(module: T) => void;
@@ -193,11 +283,19 @@ export interface MCPMiddleware {
 }
 
 // MCP Bridge Interface for Zustand Integration
+
+// How the bridge keeps MCP and the Zustand store together:
+// - 'mirror': the store owns its state and MCP mirrors it
+// - 'source-of-truth': the store's edits are dispatched as MCP actions and
+//   the store is a read model of committed MCP state
+export type MCPBridgeMode = 'mirror' | 'source-of-truth';
+
 export interface MCPZustandBridge {
-  syncToMCP: (storeState: any) => void;
+  syncToMCP: (storeState: any, logChanges?: boolean) => void;
   syncFromMCP: (mcpState: any) => void;
   subscribe: () => () => void;
   isConnected: boolean;
+  mode: MCPBridgeMode;
 }
 
 // Collaboration Types
@@ -214,6 +312,8 @@ export interface CursorPosition {
   y: number;
   userId: string;
   action?: 'drag' | 'hover' | 'click';
+  cell?: GridPosition;
+  elementId?: string;
   timestamp: Date;
 }
 
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseAltarFile,
+  serializeAltarFile,
+  migrateAltarFile,
+  AltarImportError,
+  ALTAR_SCHEMA_VERSION
+} from '../altar-schema';
+import { ElementType } from '../../types';
+import type { SavedAltar } from '../../types';
+
+const savedAltar: SavedAltar = {
+  id: 'altar-1',
+  name: 'Ofrenda de la abuela',
+  createdAt: new Date('2024-10-30T10:00:00Z'),
+  updatedAt: new Date('2024-11-01T12:00:00Z'),
+  thumbnail: '',
+  elements: [
+    {
+      id: 'vela-1-123',
+      elementType: ElementType.VELA,
+      position: { row: 0, col: 1 },
+      placedAt: new Date('2024-10-30T10:05:00Z'),
+      note: 'Para guiar su camino'
+    }
+  ],
+  customElements: [],
+  honorees: [{ id: 'honoree-1', name: 'Carmen', deathDate: '2018-10-30' }],
+  template: 'seven-level',
+  metadata: { score: 40, completionLevel: 30, culturalAuthenticity: 50 },
+  version: '1.0.0'
+};
+
+const expectImportError = (text: string, code: AltarImportError['code']) => {
+  try {
+    parseAltarFile(text);
+  } catch (error) {
+    expect(error).toBeInstanceOf(AltarImportError);
+    expect((error as AltarImportError).code).toBe(code);
+    return error as AltarImportError;
+  }
+  throw new Error('Expected parseAltarFile to throw');
+};
+
+describe('altar-schema', () => {
+  it('should round-trip an altar and revive its dates', () => {
+    const altar = parseAltarFile(serializeAltarFile(savedAltar));
+
+    expect(altar).toEqual(savedAltar);
+    expect(altar.elements[0].placedAt).toBeInstanceOf(Date);
+  });
+
+  it('should migrate legacy exports through every schema version', () => {
+    const legacy = {
+      version: '1.0.0',
+      name: 'mi-altar',
+      createdAt: '2023-11-01T00:00:00.000Z',
+      elements: [
+        { id: 'p1', elementType: 'veladora', position: { row: 2, col: 3 }, placedAt: '2023-11-01T00:00:00.000Z' }
+      ]
+    };
+
+    const file = migrateAltarFile(legacy);
+    expect(file.schemaVersion).toBe(ALTAR_SCHEMA_VERSION);
+
+    const altar = parseAltarFile(JSON.stringify(legacy));
+    expect(altar.template).toBe('three-level');
+    expect(altar.honorees).toEqual([]);
+    expect(altar.updatedAt).toEqual(new Date('2023-11-01T00:00:00.000Z'));
+    expect(altar.elements[0].elementType).toBe(ElementType.VELA);
+  });
+
+  it('should report malformed files', () => {
+    expectImportError('{ not json', 'malformed');
+    expectImportError('[]', 'malformed');
+    expectImportError(JSON.stringify({ name: 'sin elementos' }), 'malformed');
+  });
+
+  it('should reject files from a newer schema version', () => {
+    const file = JSON.parse(serializeAltarFile(savedAltar));
+    file.schemaVersion = ALTAR_SCHEMA_VERSION + 1;
+
+    expectImportError(JSON.stringify(file), 'newer-version');
+  });
+
+  it('should list every invalid field', () => {
+    const file = JSON.parse(serializeAltarFile(savedAltar));
+    file.altar.elements.push({
+      id: 'x',
+      elementType: 'dragon',
+      position: { row: -1, col: 0 },
+      placedAt: 'ayer'
+    });
+
+    const error = expectImportError(JSON.stringify(file), 'invalid');
+    expect(error.issues).toEqual([
+      'altar.elements[1].elementType: unknown element type "dragon"',
+      'altar.elements[1].position: expected non-negative integer row and col',
+      'altar.elements[1].placedAt: invalid date'
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateAltar, isAltarComplete, createAltarMetadata } from '../altar-scoring';
+import { validateAltarAuthenticity } from '../element-validation';
+import { altarHelpers } from '../../engines/mcp-modules/altar-module';
+import { ElementType } from '../../types';
+import type { PlacedElement, GridPosition } from '../../types';
+import type { AltarState } from '../../types/mcp';
+
+const dimensions = { rows: 12, cols: 9 };
+
+function placed(elementType: ElementType, position: GridPosition): PlacedElement {
+  return {
+    id: `${elementType}-${position.row}-${position.col}`,
+    elementType,
+    position,
+    placedAt: new Date()
+  };
+}
+
+const essentialAltar = [
+  placed(ElementType.VELA, { row: 0, col: 1 }),
+  placed(ElementType.FOTO, { row: 0, col: 4 }),
+  placed(ElementType.PAN_DE_MUERTO, { row: 5, col: 4 })
+];
+
+describe('altar-scoring', () => {
+  it('should score an empty altar as zero and incomplete', () => {
+    const report = evaluateAltar([], dimensions);
+
+    expect(report.score).toBe(0);
+    expect(report.isValid).toBe(false);
+    expect(report.warnings).toHaveLength(3);
+  });
+
+  it('should mark an altar with every essential rule as complete', () => {
+    const report = evaluateAltar(essentialAltar, dimensions);
+
+    expect(report.isValid).toBe(true);
+    expect(report.warnings).toEqual([]);
+    expect(report.rules.filter(rule => rule.essential).every(rule => rule.passed)).toBe(true);
+  });
+
+  it('should report elements left away from what they accompany as an unmet rule', () => {
+    // Next to the photo of the essential altar
+    const water = placed(ElementType.AGUA, { row: 1, col: 4 });
+    const salt = placed(ElementType.SAL, { row: 1, col: 5 });
+    const rule = (altar: PlacedElement[]) =>
+      evaluateAltar([...essentialAltar, ...altar], dimensions, 'en').rules.find(r => r.id === 'elementos-en-su-lugar');
+
+    expect(rule([water, salt])?.passed).toBe(true);
+    expect(rule([salt])).toMatchObject({
+      passed: false,
+      points: 0,
+      message: 'Some elements are away from what they accompany, such as salt beside the water'
+    });
+  });
+
+  it('should localize rule messages', () => {
+    const spanish = evaluateAltar([], dimensions, 'es');
+    const english = evaluateAltar([], dimensions, 'en');
+
+    expect(spanish.recommendations).toContain('Agrega al menos una vela para guiar a las almas');
+    expect(english.recommendations).toContain('Add at least one candle to guide the spirits');
+  });
+
+  it('should give the same verdict through every validator', () => {
+    const incomplete = [placed(ElementType.FLOR, { row: 3, col: 3 })];
+    const state = { placedElements: essentialAltar, dimensions } as AltarState;
+    const report = evaluateAltar(essentialAltar, dimensions);
+
+    expect(isAltarComplete(essentialAltar, dimensions)).toBe(true);
+    expect(isAltarComplete(incomplete, dimensions)).toBe(false);
+    expect(validateAltarAuthenticity(incomplete, dimensions).isValid).toBe(false);
+    expect(altarHelpers.isAltarComplete(state)).toBe(report.isValid);
+    expect(altarHelpers.calculateAltarScore(state)).toBe(report.score);
+    expect(altarHelpers.getCulturalAuthenticity(state)).toBe(report.culturalAuthenticity);
+    expect(createAltarMetadata(essentialAltar, dimensions)).toEqual({
+      score: report.score,
+      completionLevel: report.percentage,
+      culturalAuthenticity: report.culturalAuthenticity
+    });
+  });
+});
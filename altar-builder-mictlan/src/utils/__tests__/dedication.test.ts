@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { buildDedicationCaption, formatLifespan } from '../dedication';
+import { ElementType } from '../../types';
+import type { PlacedElement } from '../../types';
+
+describe('dedication', () => {
+  describe('formatLifespan', () => {
+    it('should format birth and death years', () => {
+      expect(formatLifespan({ id: 'h', name: 'A', birthDate: '1940-03-01', deathDate: '2020-11-02' }))
+        .toBe('1940 – 2020');
+      expect(formatLifespan({ id: 'h', name: 'A', deathDate: '2020-11-02' })).toBe('† 2020');
+      expect(formatLifespan({ id: 'h', name: 'A' })).toBe('');
+    });
+  });
+
+  describe('buildDedicationCaption', () => {
+    it('should list honorees followed by element notes', () => {
+      const placed: PlacedElement[] = [
+        { id: 'p1', elementType: ElementType.VELA, position: { row: 0, col: 0 }, placedAt: new Date(), note: 'Para guiar su camino' },
+        { id: 'p2', elementType: ElementType.VELA, position: { row: 0, col: 1 }, placedAt: new Date() }
+      ];
+
+      const lines = buildDedicationCaption(
+        [
+          { id: 'h1', name: ' Abuela Carmen ', birthDate: '1935-05-10', deathDate: '2018-10-30', favoriteFood: 'Tamales' },
+          { id: 'h2', name: '   ' }
+        ],
+        placed
+      );
+
+      expect(lines).toEqual([
+        'En memoria de Abuela Carmen (1935 – 2018)',
+        'Su comida favorita: Tamales',
+        'Vela: Para guiar su camino'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { canRemoveElement, validateElementPlacement, validatePlacementRule } from '../element-validation';
+import { findUnmetPlacementRules } from '../placement-rules';
+import { getElementById } from '../../data/elements';
+import { ElementType } from '../../types';
+import type { OfrendarElement, PlacedElement, GridPosition, PlacementRule } from '../../types';
+
+const dimensions = { rows: 12, cols: 9 };
+
+function placed(elementType: ElementType, position: GridPosition): PlacedElement {
+  return {
+    id: `${elementType}-${position.row}-${position.col}`,
+    elementType,
+    position,
+    placedAt: new Date()
+  };
+}
+
+describe('element-validation', () => {
+  describe('proximity rules', () => {
+    const sal = getElementById('sal-1') as OfrendarElement;
+    const incienso = getElementById('incienso-1') as OfrendarElement;
+
+    it('should accept salt placed next to the water', () => {
+      const altar = [placed(ElementType.AGUA, { row: 4, col: 4 })];
+
+      const result = validateElementPlacement(sal, { row: 5, col: 5 }, altar, dimensions);
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject salt far from the water and suggest nearby cells', () => {
+      const altar = [placed(ElementType.AGUA, { row: 4, col: 4 })];
+
+      const result = validateElementPlacement(sal, { row: 9, col: 1 }, altar, dimensions);
+
+      expect(result.isValid).toBe(false);
+      expect(result.reason).toBe('Salt is placed next to the water');
+      expect(result.suggestions).toHaveLength(3);
+      for (const suggestion of result.suggestions!) {
+        expect(Math.abs(suggestion.row - 4)).toBeLessThanOrEqual(1);
+        expect(Math.abs(suggestion.col - 4)).toBeLessThanOrEqual(1);
+      }
+    });
+
+    it('should allow a within rule with a warning when no reference element is placed', () => {
+      const result = validateElementPlacement(sal, { row: 3, col: 3 }, [], dimensions);
+
+      expect(result).toEqual({ isValid: true, warning: 'Salt is placed next to the water' });
+    });
+
+    it('should name the elements that lose their reference when it is removed', () => {
+      const altar = [placed(ElementType.AGUA, { row: 4, col: 4 }), placed(ElementType.SAL, { row: 4, col: 5 })];
+
+      expect(canRemoveElement('sal-4-5', altar)).toEqual({ isValid: true });
+      expect(canRemoveElement('agua-4-4', altar)).toEqual({
+        isValid: true,
+        warning: 'Salt is placed next to the water'
+      });
+    });
+
+    it('should reject incense adjacent to papel picado, including diagonally', () => {
+      const altar = [placed(ElementType.PAPEL_PICADO, { row: 0, col: 4 })];
+
+      const result = validateElementPlacement(incienso, { row: 1, col: 5 }, altar, dimensions);
+
+      expect(result.isValid).toBe(false);
+      expect(result.suggestions?.length).toBeGreaterThan(0);
+      expect(result.suggestions).not.toContainEqual({ row: 1, col: 3 });
+    });
+
+    it('should accept incense two cells away from papel picado', () => {
+      const altar = [placed(ElementType.PAPEL_PICADO, { row: 0, col: 4 })];
+
+      const result = validateElementPlacement(incienso, { row: 2, col: 4 }, altar, dimensions);
+
+      expect(result.isValid).toBe(true);
+    });
+  });
+
+  describe('placed element re-checks', () => {
+    it('should report salt again once its water is gone', () => {
+      const photo = placed(ElementType.FOTO, { row: 3, col: 4 });
+      const water = placed(ElementType.AGUA, { row: 4, col: 4 });
+      const salt = placed(ElementType.SAL, { row: 4, col: 5 });
+
+      expect(findUnmetPlacementRules([photo, water, salt])).toEqual([]);
+      expect(findUnmetPlacementRules([photo, salt])).toEqual([
+        { element: salt, rule: expect.objectContaining({ message: 'Salt is placed next to the water' }) }
+      ]);
+    });
+  });
+
+  describe('tier row restrictions', () => {
+    const vela = getElementById('vela-1') as OfrendarElement;
+    const retrato = getElementById('retrato-principal') as OfrendarElement;
+
+    it('should accept candles on the bottom tier of a mobile grid', () => {
+      const mobile = { rows: 8, cols: 6 };
+
+      expect(validateElementPlacement(vela, { row: 7, col: 1 }, [], mobile).isValid).toBe(true);
+      expect(validateElementPlacement(vela, { row: 11, col: 1 }, [], mobile).isValid).toBe(false);
+    });
+
+    it('should evaluate row restrictions against the selected template', () => {
+      const threeLevel = { ...dimensions, template: 'three-level' as const };
+      const sevenLevel = { ...dimensions, template: 'seven-level' as const };
+
+      expect(validateElementPlacement(retrato, { row: 3, col: 4 }, [], threeLevel).isValid).toBe(true);
+      expect(validateElementPlacement(retrato, { row: 3, col: 4 }, [], sevenLevel).isValid).toBe(false);
+      expect(validateElementPlacement(vela, { row: 6, col: 1 }, [], threeLevel).isValid).toBe(false);
+    });
+  });
+
+  describe('stacking rules', () => {
+    const element = getElementById('pan-de-muerto-1') as OfrendarElement;
+    const rule: PlacementRule = {
+      type: 'stacking',
+      value: { relation: 'above', elementTypes: [ElementType.CRUZ] },
+      message: 'Must sit on the cross'
+    };
+
+    it('should accept a cell directly above a supporting element', () => {
+      const altar = [placed(ElementType.CRUZ, { row: 6, col: 2 })];
+
+      const result = validatePlacementRule(rule, { row: 5, col: 2 }, element, altar, dimensions);
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject unsupported cells and suggest the cell above the support', () => {
+      const altar = [placed(ElementType.CRUZ, { row: 6, col: 2 })];
+
+      const result = validatePlacementRule(rule, { row: 7, col: 2 }, element, altar, dimensions);
+
+      expect(result.isValid).toBe(false);
+      expect(result.reason).toBe('Must sit on the cross');
+      expect(result.suggestions).toEqual([{ row: 5, col: 2 }]);
+    });
+
+    it('should not suggest occupied cells', () => {
+      const altar = [
+        placed(ElementType.CRUZ, { row: 6, col: 2 }),
+        placed(ElementType.FLOR, { row: 5, col: 2 })
+      ];
+
+      const result = validatePlacementRule(rule, { row: 0, col: 0 }, element, altar, dimensions);
+
+      expect(result.isValid).toBe(false);
+      expect(result.suggestions).toEqual([]);
+    });
+  });
+});
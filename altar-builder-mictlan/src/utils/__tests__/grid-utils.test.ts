@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { getTierBands, getTierBandForRow, getCellLock } from '../grid-utils';
+import type { SoftLock } from '../../types';
+import { ALTAR_TEMPLATES } from '../../data/altar-templates';
+
+describe('grid-utils', () => {
+  describe('getTierBands', () => {
+    it('should split a 12-row grid into the three traditional levels', () => {
+      const bands = getTierBands({ rows: 12, cols: 9, template: 'three-level' });
+
+      expect(bands.map(band => band.tier.id)).toEqual(['cielo', 'purgatorio', 'tierra']);
+      expect(bands.map(band => [band.startRow, band.endRow])).toEqual([[0, 3], [4, 7], [8, 11]]);
+    });
+
+    it('should default to the three-level template', () => {
+      expect(getTierBands({ rows: 12, cols: 9 })).toHaveLength(3);
+    });
+
+    it.each([8, 10, 12])('should cover every row of a %i-row grid exactly once', (rows) => {
+      for (const template of ALTAR_TEMPLATES) {
+        const bands = getTierBands({ rows, cols: 6, template: template.id });
+
+        expect(bands).toHaveLength(template.tiers.length);
+        expect(bands[0].startRow).toBe(0);
+        expect(bands[bands.length - 1].endRow).toBe(rows - 1);
+        bands.forEach((band, index) => {
+          expect(band.endRow).toBeGreaterThanOrEqual(band.startRow);
+          if (index > 0) {
+            expect(band.startRow).toBe(bands[index - 1].endRow + 1);
+          }
+        });
+      }
+    });
+  });
+
+  describe('getTierBandForRow', () => {
+    it('should find the tier containing a row', () => {
+      const dimensions = { rows: 8, cols: 6, template: 'two-level' as const };
+
+      expect(getTierBandForRow(3, dimensions)?.tier.id).toBe('cielo');
+      expect(getTierBandForRow(4, dimensions)?.tier.id).toBe('tierra');
+      expect(getTierBandForRow(8, dimensions)).toBeUndefined();
+    });
+  });
+
+  describe('getCellLock', () => {
+    const now = 1000;
+    const locks: SoftLock[] = [
+      { peerId: 'ana', cell: { row: 1, col: 1 }, expiresAt: now + 500 },
+      { peerId: 'luis', elementId: 'vela-1', expiresAt: now + 500 },
+      { peerId: 'eva', cell: { row: 2, col: 2 }, expiresAt: now }
+    ];
+
+    it('should find locks on the cell or on the element placed there', () => {
+      expect(getCellLock(locks, { row: 1, col: 1 }, undefined, now)?.peerId).toBe('ana');
+      expect(getCellLock(locks, { row: 4, col: 0 }, { id: 'vela-1' }, now)?.peerId).toBe('luis');
+      expect(getCellLock(locks, { row: 4, col: 0 }, { id: 'flor-1' }, now)).toBeUndefined();
+    });
+
+    it('should ignore expired locks', () => {
+      expect(getCellLock(locks, { row: 2, col: 2 }, undefined, now)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseDebugSessionFile,
+  serializeDebugSessionFile,
+  DEBUG_SESSION_FILE_FORMAT,
+  DEBUG_SESSION_SCHEMA_VERSION
+} from '../mcp-debug-session';
+import type { MCPDebugSession } from '../../engines/mcp-debug';
+
+const session: MCPDebugSession = {
+  id: 'mcp-debug-1',
+  startedAt: new Date(Date.UTC(2024, 10, 1, 18)),
+  updatedAt: new Date(Date.UTC(2024, 10, 1, 18, 5)),
+  entries: [
+    {
+      action: { type: 'updateSettings', payload: { settings: {} }, timestamp: new Date(Date.UTC(2024, 10, 1, 18, 1)), id: 'a1', source: 'local' },
+      timestamp: new Date(Date.UTC(2024, 10, 1, 18, 1)),
+      duration: 3.5,
+      success: true,
+      moduleName: 'user',
+      previousState: { achievements: new Map([['first', { unlockedAt: new Date(Date.UTC(2024, 10, 1)) }]]), seen: new Set(['a']) },
+      newState: { achievements: new Map(), seen: new Set() }
+    }
+  ],
+  alerts: [
+    {
+      type: 'slow_action',
+      message: 'Slow action detected',
+      threshold: 100,
+      currentValue: 250,
+      timestamp: new Date(Date.UTC(2024, 10, 1, 18, 2)),
+      actionType: 'updateSettings'
+    }
+  ]
+};
+
+const file = (overrides: Record<string, unknown>) => JSON.stringify({
+  format: DEBUG_SESSION_FILE_FORMAT,
+  schemaVersion: DEBUG_SESSION_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  session: JSON.parse(serializeDebugSessionFile(session)).session,
+  ...overrides
+});
+
+describe('MCP debug session files', () => {
+  it('should round-trip a session with the dates, maps and sets in its states', () => {
+    const parsed = parseDebugSessionFile(serializeDebugSessionFile(session));
+
+    expect(parsed).toEqual(session);
+    expect(parsed.entries[0].timestamp).toBeInstanceOf(Date);
+    expect((parsed.entries[0].previousState as { achievements: Map<string, unknown> }).achievements).toBeInstanceOf(Map);
+  });
+
+  it('should reject files that are not debug sessions', () => {
+    expect(() => parseDebugSessionFile('{nope')).toThrow('Debug session file is not valid JSON');
+    expect(() => parseDebugSessionFile(file({ format: 'altar-mictlan-recording' }))).toThrow('File is not an MCP debug session');
+    expect(() => parseDebugSessionFile(file({ session: undefined }))).toThrow('Debug session file is missing session data');
+  });
+
+  it('should reject files from a newer version or with malformed entries', () => {
+    expect(() => parseDebugSessionFile(file({ schemaVersion: DEBUG_SESSION_SCHEMA_VERSION + 1 }))).toThrow(
+      `Debug session file version ${DEBUG_SESSION_SCHEMA_VERSION + 1} is newer than this app supports`
+    );
+
+    const tampered = JSON.parse(file({}));
+    tampered.session.entries[0].action = { payload: {} };
+    expect(() => parseDebugSessionFile(JSON.stringify(tampered))).toThrow('Debug session file contains malformed entries');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { dataUrlToBlob } from '../image-utils';
+
+const db = vi.hoisted(() => ({
+  init: vi.fn(() => Promise.resolve()),
+  saveAltar: vi.fn(() => Promise.resolve()),
+  saveThumbnail: vi.fn(() => Promise.resolve())
+}));
+
+vi.mock('../indexeddb', () => ({
+  getDBManager: () => db,
+  generateAltarId: () => 'altar-new'
+}));
+
+const SAVED_ALTARS_KEY = 'altar-builder-saved-altars';
+const MIGRATED_KEY = 'altar-builder-saved-altars-migrated';
+
+const legacyAltar = (id: string, elementType: string) => ({
+  id,
+  name: `Altar ${id}`,
+  createdAt: '2023-10-31T00:00:00.000Z',
+  updatedAt: '2023-11-01T00:00:00.000Z',
+  thumbnail: 'data:image/jpeg;base64,AAEC',
+  elements: [{ id: 'p1', elementType, position: { row: 0, col: 0 }, placedAt: '2023-10-31T00:00:00.000Z' }],
+  metadata: { score: 10, completionLevel: 5, culturalAuthenticity: 20 },
+  version: '1.0.0'
+});
+
+describe('persistence', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.clearAllMocks();
+    vi.resetModules();
+  });
+
+  it('should move localStorage altars into IndexedDB once', async () => {
+    localStorage.setItem(SAVED_ALTARS_KEY, JSON.stringify([
+      legacyAltar('altar-a', 'vela'),
+      legacyAltar('altar-b', 'dragon')
+    ]));
+    const { migrateLocalStorageAltars } = await import('../persistence');
+
+    expect(await migrateLocalStorageAltars()).toEqual({ migrated: 1, failed: 1 });
+    expect(db.saveAltar).toHaveBeenCalledTimes(1);
+    expect(db.saveAltar).toHaveBeenCalledWith(expect.objectContaining({ id: 'altar-a', thumbnail: '' }));
+    expect(db.saveThumbnail).toHaveBeenCalledWith('altar-a', 'data:image/jpeg;base64,AAEC');
+
+    // Only the altar that failed validation stays behind
+    const remaining = JSON.parse(localStorage.getItem(SAVED_ALTARS_KEY)!);
+    expect(remaining.map((altar: { id: string }) => altar.id)).toEqual(['altar-b']);
+    expect(localStorage.getItem(MIGRATED_KEY)).not.toBeNull();
+
+    vi.resetModules();
+    const reloaded = await import('../persistence');
+    expect(await reloaded.migrateLocalStorageAltars()).toEqual({ migrated: 0, failed: 0 });
+    expect(db.saveAltar).toHaveBeenCalledTimes(1);
+  });
+
+  it('should decode base64 thumbnails into Blobs', async () => {
+    const blob = dataUrlToBlob('data:image/jpeg;base64,AAEC');
+
+    expect(blob.type).toBe('image/jpeg');
+    expect(blob.size).toBe(3);
+  });
+});
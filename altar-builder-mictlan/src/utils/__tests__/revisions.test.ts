@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { diffRevisions, isEmptyDiff, selectRevisionsToPrune } from '../revisions';
+import { ElementType } from '../../types';
+import type { AltarRevision, AltarRevisionKind, PlacedElement } from '../../types';
+
+const placed = (id: string, row: number, col: number): PlacedElement => ({
+  id,
+  elementType: ElementType.VELA,
+  position: { row, col },
+  placedAt: new Date()
+});
+
+const revision = (id: string, kind: AltarRevisionKind, minutesAgo: number): AltarRevision => ({
+  id,
+  altarId: 'altar-1',
+  kind,
+  createdAt: new Date(Date.UTC(2024, 10, 2) - minutesAgo * 60 * 1000),
+  name: 'Altar',
+  elements: []
+});
+
+describe('revisions', () => {
+  describe('diffRevisions', () => {
+    it('should list added, removed and moved elements', () => {
+      const before = [placed('a', 0, 0), placed('b', 1, 1), placed('c', 2, 2)];
+      const after = [placed('a', 0, 0), placed('b', 3, 1), placed('d', 4, 4)];
+
+      const diff = diffRevisions(before, after);
+
+      expect(diff.added.map(el => el.id)).toEqual(['d']);
+      expect(diff.removed.map(el => el.id)).toEqual(['c']);
+      expect(diff.moved).toEqual([{ element: after[1], from: { row: 1, col: 1 } }]);
+      expect(isEmptyDiff(diffRevisions(before, before))).toBe(true);
+    });
+  });
+
+  describe('selectRevisionsToPrune', () => {
+    const now = new Date(Date.UTC(2024, 10, 2));
+    const retention = { maxAutosaves: 2, maxSaves: 1, maxAutosaveAgeMs: 60 * 60 * 1000 };
+
+    it('should keep the newest revisions of each kind', () => {
+      const revisions = [
+        revision('auto-1', 'autosave', 1),
+        revision('save-1', 'save', 2),
+        revision('auto-2', 'autosave', 3),
+        revision('auto-3', 'autosave', 4),
+        revision('save-2', 'save', 5)
+      ];
+
+      const pruned = selectRevisionsToPrune(revisions, retention, now);
+
+      expect(pruned.map(r => r.id)).toEqual(['auto-3', 'save-2']);
+    });
+
+    it('should drop old autosaves but never the newest revision', () => {
+      const revisions = [
+        revision('auto-old', 'autosave', 120),
+        revision('auto-older', 'autosave', 180)
+      ];
+
+      const pruned = selectRevisionsToPrune(revisions, retention, now);
+
+      expect(pruned.map(r => r.id)).toEqual(['auto-older']);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { parseRecordingFile, serializeRecordingFile, RECORDING_FILE_FORMAT } from '../session-recording';
+import { ElementType } from '../../types';
+import type { SessionRecording } from '../../types';
+
+const recording: SessionRecording = {
+  id: 'recording-1',
+  name: 'Ofrenda de la abuela',
+  startedAt: new Date(Date.UTC(2024, 10, 1, 18)),
+  duration: 3000,
+  roomId: 'sala-1',
+  dimensions: { rows: 4, cols: 6 },
+  initialElements: [],
+  events: [
+    {
+      at: 1200,
+      kind: 'altar',
+      data: {
+        added: [{ id: 'vela-1', elementType: ElementType.VELA, position: { row: 0, col: 0 }, placedAt: new Date(Date.UTC(2024, 10, 1, 18, 1)) }],
+        removed: []
+      }
+    },
+    { at: 1300, kind: 'collaboration', direction: 'out', data: { type: 'element_place', peerId: 'me', timestamp: 1, data: {} } }
+  ]
+};
+
+describe('session recording files', () => {
+  it('should round-trip a recording with its dates', () => {
+    const parsed = parseRecordingFile(serializeRecordingFile(recording));
+
+    expect(parsed).toEqual(recording);
+    expect(parsed.startedAt).toBeInstanceOf(Date);
+    expect(parsed.initialElements).toEqual([]);
+    const [placed] = parsed.events;
+    expect(placed.kind === 'altar' && placed.data.added[0].placedAt).toBeInstanceOf(Date);
+  });
+
+  it('should reject files that are not valid recordings', () => {
+    const file = JSON.parse(serializeRecordingFile(recording));
+
+    expect(() => parseRecordingFile('{')).toThrow('not valid JSON');
+    expect(() => parseRecordingFile(JSON.stringify({ ...file, format: 'altar-mictlan' }))).toThrow('not an altar session recording');
+    expect(() => parseRecordingFile(JSON.stringify({ ...file, schemaVersion: 99 }))).toThrow('newer');
+    expect(() => parseRecordingFile(JSON.stringify({
+      ...file,
+      recording: { ...file.recording, events: [{ at: -1, kind: 'altar' }] }
+    }))).toThrow('malformed events');
+    expect(RECORDING_FILE_FORMAT).toBe(file.format);
+  });
+});
@@ -0,0 +1,428 @@
+import { ElementType } from '../types';
+import type {
+  SavedAltar,
+  PlacedElement,
+  CustomElement,
+  Honoree,
+  AltarTemplateId
+} from '../types';
+import { ALTAR_TEMPLATES, DEFAULT_ALTAR_TEMPLATE } from '../data/altar-templates';
+
+/**
+ * Identifier written into every exported altar file
+ */
+export const ALTAR_FILE_FORMAT = 'altar-mictlan';
+
+/**
+ * Current version of the altar file schema.
+ *
+ * - 0: legacy exports, a bare SavedAltar (or `{ version, name, elements }`)
+ * - 1: versioned envelope around the altar
+ * - 2: tiered templates, personal elements and honorees
+ */
+export const ALTAR_SCHEMA_VERSION = 2;
+
+/**
+ * Versioned envelope written to exported altar files
+ */
+export interface AltarFile {
+  format: typeof ALTAR_FILE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  altar: Record<string, unknown>;
+}
+
+/**
+ * A single upgrade step between two consecutive schema versions
+ */
+export interface AltarMigration {
+  from: number;
+  to: number;
+  description: string;
+  migrate: (file: AltarFile) => AltarFile;
+}
+
+export type AltarImportErrorCode = 'malformed' | 'newer-version' | 'invalid';
+
+/**
+ * Raised when an altar file cannot be read, migrated or validated
+ */
+export class AltarImportError extends Error {
+  readonly code: AltarImportErrorCode;
+  readonly issues: string[];
+
+  constructor(code: AltarImportErrorCode, message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'AltarImportError';
+    this.code = code;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Element type names used by older builds, mapped to their current type
+ */
+const LEGACY_ELEMENT_TYPES: Record<string, ElementType> = {
+  veladora: ElementType.VELA,
+  candle: ElementType.VELA,
+  flor_cempasuchil: ElementType.FLOR,
+  cempasuchil: ElementType.FLOR,
+  fotografia: ElementType.FOTO,
+  retrato: ElementType.RETRATO_PRINCIPAL,
+  pan: ElementType.PAN_DE_MUERTO,
+  copal: ElementType.INCIENSO,
+  calavera_azucar: ElementType.CALAVERA
+};
+
+const ELEMENT_TYPES = new Set<string>(Object.values(ElementType));
+
+/**
+ * Ordered chain of upgrade steps; each one moves a file up by one version
+ */
+export const ALTAR_MIGRATIONS: AltarMigration[] = [
+  {
+    from: 0,
+    to: 1,
+    description: 'Wrap legacy altar exports in a versioned envelope',
+    migrate: (file) => {
+      const legacy = file.altar;
+      const createdAt = legacy.createdAt ?? file.exportedAt;
+
+      return {
+        ...file,
+        schemaVersion: 1,
+        altar: {
+          thumbnail: '',
+          metadata: { score: 0, completionLevel: 0, culturalAuthenticity: 0 },
+          ...legacy,
+          id: legacy.id ?? generateImportId(),
+          createdAt,
+          updatedAt: legacy.updatedAt ?? createdAt
+        }
+      };
+    }
+  },
+  {
+    from: 1,
+    to: 2,
+    description: 'Add altar template, personal elements and honorees',
+    migrate: (file) => ({
+      ...file,
+      schemaVersion: 2,
+      altar: {
+        template: DEFAULT_ALTAR_TEMPLATE,
+        customElements: [],
+        honorees: [],
+        ...file.altar
+      }
+    })
+  }
+];
+
+/**
+ * Serialize an altar into the current versioned file format
+ */
+export function serializeAltarFile(altar: SavedAltar): string {
+  const file: AltarFile = {
+    format: ALTAR_FILE_FORMAT,
+    schemaVersion: ALTAR_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    altar: { ...altar }
+  };
+
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parse, migrate and validate the contents of an altar file
+ * @throws AltarImportError when the file is malformed, newer than this build or invalid
+ */
+export function parseAltarFile(text: string): SavedAltar {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new AltarImportError('malformed', 'Altar file is not valid JSON');
+  }
+
+  return validateAltar(migrateAltarFile(data).altar);
+}
+
+/**
+ * Bring any supported altar file up to the current schema version
+ * @throws AltarImportError when the data is not an altar file or comes from a newer version
+ */
+export function migrateAltarFile(data: unknown): AltarFile {
+  if (!isRecord(data)) {
+    throw new AltarImportError('malformed', 'Altar file must contain a JSON object');
+  }
+
+  let file = toAltarFile(data);
+
+  if (file.schemaVersion > ALTAR_SCHEMA_VERSION) {
+    throw new AltarImportError(
+      'newer-version',
+      `Altar file uses schema version ${file.schemaVersion}, newest supported is ${ALTAR_SCHEMA_VERSION}`
+    );
+  }
+
+  while (file.schemaVersion < ALTAR_SCHEMA_VERSION) {
+    const migration = ALTAR_MIGRATIONS.find(step => step.from === file.schemaVersion);
+    if (!migration) {
+      throw new AltarImportError(
+        'invalid',
+        `No migration from altar schema version ${file.schemaVersion}`
+      );
+    }
+    file = migration.migrate(file);
+  }
+
+  return file;
+}
+
+/**
+ * Validate a current-schema altar and revive its dates
+ * @throws AltarImportError listing every problem found
+ */
+export function validateAltar(raw: Record<string, unknown>): SavedAltar {
+  const issues: string[] = [];
+
+  const id = readString(raw, 'id', 'altar', issues);
+  const name = readString(raw, 'name', 'altar', issues);
+  const createdAt = reviveDate(raw.createdAt, 'altar.createdAt', issues);
+  const updatedAt = reviveDate(raw.updatedAt, 'altar.updatedAt', issues);
+
+  const template = raw.template as AltarTemplateId | undefined;
+  if (template !== undefined && !ALTAR_TEMPLATES.some(t => t.id === template)) {
+    issues.push(`altar.template: unknown template "${String(template)}"`);
+  }
+
+  const customElements = readArray(raw, 'customElements', issues)
+    .map((item, index) => validateCustomElement(item, `altar.customElements[${index}]`, issues));
+  const customIds = new Set(customElements.map(custom => custom.id));
+
+  if (raw.elements === undefined) {
+    issues.push('altar.elements: expected an array');
+  }
+  const elements = readArray(raw, 'elements', issues)
+    .map((item, index) => validatePlacedElement(item, `altar.elements[${index}]`, customIds, issues));
+
+  const honorees = readArray(raw, 'honorees', issues)
+    .map((item, index) => validateHonoree(item, `altar.honorees[${index}]`, issues));
+
+  if (issues.length > 0) {
+    throw new AltarImportError('invalid', 'Altar file failed validation', issues);
+  }
+
+  const metadata = isRecord(raw.metadata) ? raw.metadata : {};
+
+  return {
+    id,
+    name,
+    createdAt,
+    updatedAt,
+    thumbnail: typeof raw.thumbnail === 'string' ? raw.thumbnail : '',
+    elements,
+    customElements,
+    honorees,
+    template,
+    metadata: {
+      score: Number(metadata.score) || 0,
+      completionLevel: Number(metadata.completionLevel) || 0,
+      culturalAuthenticity: Number(metadata.culturalAuthenticity) || 0,
+      collaborators: Array.isArray(metadata.collaborators)
+        ? metadata.collaborators.filter((c): c is string => typeof c === 'string')
+        : undefined
+    },
+    version: typeof raw.version === 'string' ? raw.version : '1.0.0'
+  };
+}
+
+/**
+ * Map an element type from any schema version to a current ElementType
+ */
+export function resolveElementType(type: unknown): ElementType | null {
+  if (typeof type !== 'string') return null;
+  if (ELEMENT_TYPES.has(type)) return type as ElementType;
+  return LEGACY_ELEMENT_TYPES[type.toLowerCase()] ?? null;
+}
+
+/**
+ * Spanish message for showing an import failure to the user
+ */
+export function describeAltarImportError(error: unknown): string {
+  if (!(error instanceof AltarImportError)) {
+    return 'No se pudo importar el archivo';
+  }
+
+  switch (error.code) {
+    case 'malformed':
+      return 'El archivo no es un altar válido o está dañado';
+    case 'newer-version':
+      return 'El archivo fue creado con una versión más reciente de la aplicación. Actualiza la página e inténtalo de nuevo';
+    case 'invalid':
+      return 'El archivo contiene datos inválidos';
+  }
+}
+
+function toAltarFile(data: Record<string, unknown>): AltarFile {
+  if (data.format === ALTAR_FILE_FORMAT) {
+    if (!Number.isInteger(data.schemaVersion) || (data.schemaVersion as number) < 1) {
+      throw new AltarImportError('malformed', 'Altar file has no valid schema version');
+    }
+    if (!isRecord(data.altar)) {
+      throw new AltarImportError('malformed', 'Altar file has no altar data');
+    }
+    return data as unknown as AltarFile;
+  }
+
+  // Legacy exports stored the altar itself at the top level
+  if (!Array.isArray(data.elements)) {
+    throw new AltarImportError('malformed', 'File does not contain altar elements');
+  }
+
+  return {
+    format: ALTAR_FILE_FORMAT,
+    schemaVersion: 0,
+    exportedAt: new Date().toISOString(),
+    altar: data
+  };
+}
+
+function validatePlacedElement(
+  item: unknown,
+  path: string,
+  customIds: Set<string>,
+  issues: string[]
+): PlacedElement {
+  if (!isRecord(item)) {
+    issues.push(`${path}: expected an object`);
+    return item as PlacedElement;
+  }
+
+  const elementType = resolveElementType(item.elementType);
+  if (!elementType) {
+    issues.push(`${path}.elementType: unknown element type "${String(item.elementType)}"`);
+  }
+
+  const position = item.position;
+  if (
+    !isRecord(position) ||
+    !isGridIndex(position.row) ||
+    !isGridIndex(position.col)
+  ) {
+    issues.push(`${path}.position: expected non-negative integer row and col`);
+  }
+
+  if (item.customElementId !== undefined && !customIds.has(item.customElementId as string)) {
+    issues.push(`${path}.customElementId: personal element "${String(item.customElementId)}" is missing`);
+  }
+
+  if (item.note !== undefined && typeof item.note !== 'string') {
+    issues.push(`${path}.note: expected a string`);
+  }
+
+  return {
+    ...(item as unknown as PlacedElement),
+    id: readString(item, 'id', path, issues),
+    elementType: elementType as ElementType,
+    placedAt: reviveDate(item.placedAt, `${path}.placedAt`, issues)
+  };
+}
+
+function validateCustomElement(item: unknown, path: string, issues: string[]): CustomElement {
+  if (!isRecord(item)) {
+    issues.push(`${path}: expected an object`);
+    return item as CustomElement;
+  }
+
+  const imageDataUrl = readString(item, 'imageDataUrl', path, issues);
+  if (imageDataUrl && !imageDataUrl.startsWith('data:image/')) {
+    issues.push(`${path}.imageDataUrl: expected an image data URL`);
+  }
+
+  return {
+    id: readString(item, 'id', path, issues),
+    name: readString(item, 'name', path, issues),
+    dedication: typeof item.dedication === 'string' ? item.dedication : '',
+    imageDataUrl,
+    createdAt: reviveDate(item.createdAt, `${path}.createdAt`, issues)
+  };
+}
+
+function validateHonoree(item: unknown, path: string, issues: string[]): Honoree {
+  if (!isRecord(item)) {
+    issues.push(`${path}: expected an object`);
+    return item as Honoree;
+  }
+
+  const honoree: Honoree = {
+    id: readString(item, 'id', path, issues),
+    name: typeof item.name === 'string' ? item.name : ''
+  };
+
+  for (const field of ['birthDate', 'deathDate', 'favoriteFood', 'biography'] as const) {
+    const value = item[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'string') {
+      issues.push(`${path}.${field}: expected a string`);
+    } else if ((field === 'birthDate' || field === 'deathDate') && isNaN(Date.parse(value))) {
+      issues.push(`${path}.${field}: invalid date "${value}"`);
+    } else {
+      honoree[field] = value;
+    }
+  }
+
+  return honoree;
+}
+
+function reviveDate(value: unknown, path: string, issues: string[]): Date {
+  const date = value instanceof Date
+    ? value
+    : typeof value === 'string' || typeof value === 'number'
+      ? new Date(value)
+      : null;
+
+  if (!date || isNaN(date.getTime())) {
+    issues.push(`${path}: invalid date`);
+    return new Date(NaN);
+  }
+
+  return date;
+}
+
+function readString(
+  source: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: string[]
+): string {
+  const value = source[key];
+  if (typeof value !== 'string' || value.length === 0) {
+    issues.push(`${path}.${key}: expected a non-empty string`);
+    return '';
+  }
+  return value;
+}
+
+function readArray(source: Record<string, unknown>, key: string, issues: string[]): unknown[] {
+  const value = source[key];
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push(`altar.${key}: expected an array`);
+    return [];
+  }
+  return value;
+}
+
+function isGridIndex(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function generateImportId(): string {
+  return `altar-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
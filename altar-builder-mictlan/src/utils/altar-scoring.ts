@@ -0,0 +1,94 @@
+import type {
+  PlacedElement,
+  GridDimensions,
+  AltarScoreReport,
+  AltarRuleResult,
+  Language,
+  SavedAltar
+} from '../types';
+import { COMPOSITION_RULES } from '../data/composition-rules';
+
+// Points awarded for having any element on the altar
+const BASE_SCORE = 10;
+
+/**
+ * Evaluate an altar against every composition rule.
+ * This is the single source for altar scores, completeness and
+ * cultural authenticity; all other validators read from this report.
+ */
+export function evaluateAltar(
+  altar: PlacedElement[],
+  gridDimensions: GridDimensions,
+  language: Language = 'es'
+): AltarScoreReport {
+  const rules: AltarRuleResult[] = COMPOSITION_RULES.map(rule => {
+    const passed = rule.validator(altar, gridDimensions);
+    return {
+      id: rule.id,
+      name: rule.name,
+      passed,
+      points: passed ? rule.points : 0,
+      maxPoints: rule.points,
+      essential: rule.essential,
+      message: passed ? rule.description[language] : rule.suggestion[language],
+      culturalSignificance: rule.culturalSignificance[language]
+    };
+  });
+
+  const maxScore = rules.reduce((sum, rule) => sum + rule.maxPoints, BASE_SCORE);
+  const score = rules.reduce(
+    (sum, rule) => sum + rule.points,
+    altar.length > 0 ? BASE_SCORE : 0
+  );
+  const percentage = (score / maxScore) * 100;
+
+  const essentialRules = rules.filter(rule => rule.essential);
+  const essentialPassed = essentialRules.filter(rule => rule.passed).length;
+
+  // Essentials weigh half of the authenticity, overall composition the other half
+  const essentialWeight = essentialRules.length > 0
+    ? (essentialPassed / essentialRules.length) * 50
+    : 50;
+  const culturalAuthenticity = Math.min(100, Math.round(essentialWeight + percentage * 0.5));
+
+  const failed = rules.filter(rule => !rule.passed);
+
+  return {
+    rules,
+    score,
+    maxScore,
+    percentage: Math.round(percentage),
+    culturalAuthenticity,
+    isValid: essentialPassed === essentialRules.length,
+    warnings: failed
+      .filter(rule => rule.essential)
+      .map(rule => `${rule.message} - ${rule.culturalSignificance}`),
+    recommendations: failed.map(rule => rule.message)
+  };
+}
+
+/**
+ * Check if altar meets the essential requirements for completion
+ */
+export function isAltarComplete(
+  altar: PlacedElement[],
+  gridDimensions: GridDimensions
+): boolean {
+  return evaluateAltar(altar, gridDimensions).isValid;
+}
+
+/**
+ * Build the score fields stored with a saved altar
+ */
+export function createAltarMetadata(
+  altar: PlacedElement[],
+  gridDimensions: GridDimensions
+): SavedAltar['metadata'] {
+  const report = evaluateAltar(altar, gridDimensions);
+
+  return {
+    score: report.score,
+    completionLevel: report.percentage,
+    culturalAuthenticity: report.culturalAuthenticity
+  };
+}
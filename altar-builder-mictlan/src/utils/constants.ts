@@ -11,6 +11,13 @@ export const GRID_CONFIG = {
   GAP: 4, // pixels
 } as const
 
+// Drag and Drop data types
+export const DRAG_DATA = {
+  ELEMENT: 'application/json',
+  // Id of a placed element being moved to another cell
+  PLACED_ELEMENT_ID: 'application/x-altar-placed-element',
+} as const
+
 // Breakpoints (matching Tailwind CSS)
 export const BREAKPOINTS = {
   SM: 640,
@@ -61,8 +68,8 @@ export const ELEMENT_LIMITS = {
 // Cultural Rules
 export const CULTURAL_RULES = {
   REQUIRED_ELEMENTS: ['vela', 'foto', 'ofrenda'],
-  VELA_ROWS: [0, 11], // Top and bottom rows only
-  RETRATO_POSITION: { row: 0, col: 4 }, // Center of top row
+  VELA_TIERS: 'top-bottom-only', // Top and bottom tiers of the altar template
+  RETRATO_TIER: 'top-only', // Centered on the top tier
   SYMMETRY_BONUS: 1.2,
   TRADITIONAL_LAYOUT_BONUS: 1.5,
 } as const
@@ -112,10 +119,10 @@ export const DEFAULT_SETTINGS = {
   reducedMotion: false,
 } as const
 
-// API Endpoints (for future use)
+// API Endpoints
 export const API_ENDPOINTS = {
-  COLLABORATION_SERVER: process.env.VITE_COLLABORATION_SERVER || 'ws://localhost:3001',
-  ANALYTICS_ENDPOINT: process.env.VITE_ANALYTICS_ENDPOINT || '',
+  COLLABORATION_SERVER: import.meta.env.VITE_COLLABORATION_SERVER || 'ws://localhost:3001',
+  ANALYTICS_ENDPOINT: import.meta.env.VITE_ANALYTICS_ENDPOINT || '',
 } as const
 
 // Feature Flags
@@ -0,0 +1,50 @@
+import type { Honoree, OfrendarElement, PlacedElement } from '../types';
+import { getElementForPlaced } from '../data/elements';
+
+/**
+ * Format an honoree's years as "1940 – 2020", "† 2020" or "1940 –"
+ */
+export function formatLifespan(honoree: Honoree): string {
+  const birthYear = honoree.birthDate?.slice(0, 4);
+  const deathYear = honoree.deathDate?.slice(0, 4);
+
+  if (birthYear && deathYear) return `${birthYear} – ${deathYear}`;
+  if (deathYear) return `† ${deathYear}`;
+  if (birthYear) return `${birthYear} –`;
+  return '';
+}
+
+/**
+ * Build the caption lines for an exported altar image: one line per
+ * honoree followed by the notes attached to placed elements.
+ */
+export function buildDedicationCaption(
+  honorees: Honoree[],
+  placedElements: PlacedElement[],
+  elements?: OfrendarElement[]
+): string[] {
+  const lines: string[] = [];
+
+  for (const honoree of honorees) {
+    if (!honoree.name.trim()) continue;
+
+    const lifespan = formatLifespan(honoree);
+    lines.push(`En memoria de ${honoree.name.trim()}${lifespan ? ` (${lifespan})` : ''}`);
+
+    if (honoree.favoriteFood?.trim()) {
+      lines.push(`Su comida favorita: ${honoree.favoriteFood.trim()}`);
+    }
+    if (honoree.biography?.trim()) {
+      lines.push(honoree.biography.trim());
+    }
+  }
+
+  for (const placed of placedElements) {
+    if (!placed.note) continue;
+
+    const name = getElementForPlaced(placed, elements)?.name ?? placed.elementType;
+    lines.push(`${name}: ${placed.note}`);
+  }
+
+  return lines;
+}
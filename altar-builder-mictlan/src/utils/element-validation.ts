@@ -3,9 +3,20 @@ import type {
   PlacedElement,
   GridPosition,
   GridDimensions,
-  ValidationResult
+  ValidationResult,
+  ProximityRuleValue,
+  StackingRuleValue,
+  Language
 } from '../types';
 import { ElementType } from '../types';
+import { getManhattanDistance, getTierBands, getTierBandForRow } from './grid-utils';
+import { evaluateAltar } from './altar-scoring';
+import {
+  findUnmetPlacementRules,
+  isProximitySatisfied,
+  isStackingSatisfied,
+  type UnmetPlacementRule
+} from './placement-rules';
 
 /**
  * Validate if an element can be placed at a specific position
@@ -39,16 +50,31 @@ export function validateElementPlacement(
   }
 
   // Check placement rules
+  let warning: string | undefined;
   for (const rule of element.placementRules) {
     const ruleCheck = validatePlacementRule(rule, position, element, currentAltar, gridDimensions);
     if (!ruleCheck.isValid) {
       return ruleCheck;
     }
+    warning = warning ?? ruleCheck.warning;
   }
 
-  return {
-    isValid: true
-  };
+  return warning ? { isValid: true, warning } : { isValid: true };
+}
+
+/**
+ * Validate moving an already placed element to a new position.
+ * The element's own current cell and its own quantity slot are ignored.
+ */
+export function validateElementMove(
+  element: OfrendarElement,
+  elementId: string,
+  position: GridPosition,
+  currentAltar: PlacedElement[],
+  gridDimensions: GridDimensions
+): ValidationResult {
+  const otherElements = currentAltar.filter(el => el.id !== elementId);
+  return validateElementPlacement(element, position, otherElements, gridDimensions);
 }
 
 /**
@@ -78,6 +104,24 @@ export function isPositionOccupied(
   );
 }
 
+/**
+ * Count the placed instances of an element definition.
+ * Custom elements are counted individually and do not use up the
+ * quantity of their base type.
+ */
+export function countPlacedInstances(
+  element: OfrendarElement,
+  currentAltar: PlacedElement[]
+): number {
+  if (element.custom) {
+    return currentAltar.filter(el => el.customElementId === element.custom!.id).length;
+  }
+
+  return currentAltar.filter(
+    el => el.elementType === element.type && !el.customElementId
+  ).length;
+}
+
 /**
  * Validate quantity restrictions for an element type
  */
@@ -85,9 +129,7 @@ export function validateQuantityRestriction(
   element: OfrendarElement,
   currentAltar: PlacedElement[]
 ): ValidationResult {
-  const sameTypeCount = currentAltar.filter(
-    el => el.elementType === element.type
-  ).length;
+  const sameTypeCount = countPlacedInstances(element, currentAltar);
 
   if (sameTypeCount >= element.maxQuantity) {
     const quantityRule = element.placementRules.find(r => r.type === 'maxQuantity');
@@ -118,10 +160,10 @@ export function validatePlacementRule(
       return validateColumnRestriction(rule.value as string, position, gridDimensions, rule.message);
 
     case 'proximity':
-      return validateProximityRule(rule.value, position, currentAltar, rule.message);
+      return validateProximityRule(rule.value as ProximityRuleValue, position, currentAltar, gridDimensions, rule.message);
 
     case 'stacking':
-      return validateStackingRule(rule.value, position, element, currentAltar, rule.message);
+      return validateStackingRule(rule.value as StackingRuleValue, position, currentAltar, gridDimensions, rule.message);
 
     default:
       return { isValid: true };
@@ -129,7 +171,7 @@ export function validatePlacementRule(
 }
 
 /**
- * Validate row restriction rules
+ * Validate row restriction rules against the altar template's tiers
  */
 function validateRowRestriction(
   restriction: string,
@@ -137,28 +179,36 @@ function validateRowRestriction(
   gridDimensions: GridDimensions,
   message: string
 ): ValidationResult {
+  const tierCount = getTierBands(gridDimensions).length;
+  const tierIndex = getTierBandForRow(position.row, gridDimensions)?.index ?? -1;
+  const isTopTier = tierIndex === 0;
+  const isBottomTier = tierIndex === tierCount - 1;
+
   switch (restriction) {
     case 'top-only':
-      if (position.row !== 0) {
+      if (!isTopTier) {
         return { isValid: false, reason: message };
       }
       break;
 
     case 'bottom-only':
-      if (position.row !== gridDimensions.rows - 1) {
+      if (!isBottomTier) {
         return { isValid: false, reason: message };
       }
       break;
 
     case 'top-bottom-only':
-      if (position.row !== 0 && position.row !== gridDimensions.rows - 1) {
+      if (!isTopTier && !isBottomTier) {
         return { isValid: false, reason: message };
       }
       break;
 
     case 'middle-only':
-      const middleRow = Math.floor(gridDimensions.rows / 2);
-      if (Math.abs(position.row - middleRow) > 1) {
+      // The central tier, or both central tiers for an even tier count
+      if (
+        tierIndex < Math.floor((tierCount - 1) / 2) ||
+        tierIndex > Math.ceil((tierCount - 1) / 2)
+      ) {
         return { isValid: false, reason: message };
       }
       break;
@@ -207,36 +257,82 @@ function validateColumnRestriction(
 }
 
 /**
- * Validate proximity rules (elements that should be near/far from others)
+ * Validate proximity rules (elements that should be near/far from others).
+ * Until a reference element of a 'within' rule is placed there is nothing
+ * to be near, so the element may go anywhere and the rule is left as a
+ * warning; scoring keeps reporting it until it is met.
  */
 function validateProximityRule(
-  ruleValue: any,
+  rule: ProximityRuleValue,
   position: GridPosition,
   currentAltar: PlacedElement[],
+  gridDimensions: GridDimensions,
   message: string
 ): ValidationResult {
-  // This can be extended to check for specific element types nearby
-  // For now, just a basic implementation
-  return { isValid: true };
+  const isSatisfied = (candidate: GridPosition) => isProximitySatisfied(rule, candidate, currentAltar);
+
+  if (isSatisfied(position)) {
+    return { isValid: true };
+  }
+
+  if (rule.relation === 'within' && !currentAltar.some(el => rule.elementTypes.includes(el.elementType))) {
+    return { isValid: true, warning: message };
+  }
+
+  return {
+    isValid: false,
+    reason: message,
+    suggestions: findNearestFreePositions(position, currentAltar, gridDimensions, isSatisfied)
+  };
 }
 
 /**
- * Validate stacking rules (elements that can/cannot stack)
+ * Validate stacking rules (elements that must rest on another element)
  */
 function validateStackingRule(
-  ruleValue: any,
+  rule: StackingRuleValue,
   position: GridPosition,
-  element: OfrendarElement,
   currentAltar: PlacedElement[],
+  gridDimensions: GridDimensions,
   message: string
 ): ValidationResult {
-  // Check if there's an element below this position
-  const elementBelow = currentAltar.find(
-    el => el.position.row === position.row + 1 && el.position.col === position.col
-  );
+  const isSupported = (candidate: GridPosition) => isStackingSatisfied(rule, candidate, currentAltar);
 
-  // Implement stacking logic if needed
-  return { isValid: true };
+  if (isSupported(position)) {
+    return { isValid: true };
+  }
+
+  return {
+    isValid: false,
+    reason: message,
+    suggestions: findNearestFreePositions(position, currentAltar, gridDimensions, isSupported)
+  };
+}
+
+/**
+ * Find free cells that satisfy a predicate, closest to the requested position first
+ */
+function findNearestFreePositions(
+  position: GridPosition,
+  currentAltar: PlacedElement[],
+  gridDimensions: GridDimensions,
+  predicate: (candidate: GridPosition) => boolean,
+  maxSuggestions: number = 3
+): GridPosition[] {
+  const candidates: GridPosition[] = [];
+
+  for (let row = 0; row < gridDimensions.rows; row++) {
+    for (let col = 0; col < gridDimensions.cols; col++) {
+      const candidate = { row, col };
+      if (!isPositionOccupied(candidate, currentAltar) && predicate(candidate)) {
+        candidates.push(candidate);
+      }
+    }
+  }
+
+  return candidates
+    .sort((a, b) => getManhattanDistance(a, position) - getManhattanDistance(b, position))
+    .slice(0, maxSuggestions);
 }
 
 /**
@@ -266,11 +362,13 @@ export function getSuggestedPositions(
 }
 
 /**
- * Check if element can be removed
+ * Check if element can be removed. Removal is always allowed; elements
+ * whose proximity or stacking rules depended on it are named in a warning.
  */
 export function canRemoveElement(
   elementId: string,
-  currentAltar: PlacedElement[]
+  currentAltar: PlacedElement[],
+  elements?: OfrendarElement[]
 ): ValidationResult {
   const element = currentAltar.find(el => el.id === elementId);
 
@@ -281,11 +379,18 @@ export function canRemoveElement(
     };
   }
 
-  // Check if removing this element would break any dependencies
-  // (e.g., if other elements depend on this one being present)
-  // For now, all elements can be removed
+  const unmetKey = (unmet: UnmetPlacementRule) => `${unmet.element.id}:${unmet.rule.message}`;
+  const unmetBefore = new Set(findUnmetPlacementRules(currentAltar, elements).map(unmetKey));
+  const broken = findUnmetPlacementRules(currentAltar.filter(el => el.id !== elementId), elements)
+    .filter(unmet => !unmetBefore.has(unmetKey(unmet)));
+
+  if (broken.length === 0) {
+    return { isValid: true };
+  }
+
   return {
-    isValid: true
+    isValid: true,
+    warning: broken.map(({ rule }) => rule.message).join('; ')
   };
 }
 
@@ -333,54 +438,14 @@ export function getAvailablePositionsCount(
  */
 export function validateAltarAuthenticity(
   currentAltar: PlacedElement[],
-  gridDimensions: GridDimensions
+  gridDimensions: GridDimensions,
+  language: Language = 'es'
 ): {
   isValid: boolean;
   warnings: string[];
   recommendations: string[];
 } {
-  const warnings: string[] = [];
-  const recommendations: string[] = [];
-
-  // Check for essential elements
-  const hasCandle = currentAltar.some(el => el.elementType === ElementType.VELA);
-  const hasPhoto = currentAltar.some(el =>
-    el.elementType === ElementType.FOTO || el.elementType === ElementType.RETRATO_PRINCIPAL
-  );
-  const hasOffering = currentAltar.some(el =>
-    el.elementType === ElementType.PAN_DE_MUERTO ||
-    el.elementType === ElementType.COMIDA ||
-    el.elementType === ElementType.BEBIDA
-  );
-
-  if (!hasCandle) {
-    warnings.push('Missing candles - they light the way for the souls');
-    recommendations.push('Add at least one candle to guide the spirits');
-  }
-
-  if (!hasPhoto) {
-    warnings.push('Missing photos - they represent those being honored');
-    recommendations.push('Add photographs of loved ones');
-  }
-
-  if (!hasOffering) {
-    warnings.push('Missing offerings - sustenance for the returning souls');
-    recommendations.push('Add food or drink offerings');
-  }
-
-  // Check for flowers
-  const hasFlowers = currentAltar.some(el => el.elementType === ElementType.FLOR);
-  if (!hasFlowers) {
-    recommendations.push('Consider adding marigolds to guide the spirits');
-  }
-
-  // Check for water
-  const hasWater = currentAltar.some(el => el.elementType === ElementType.AGUA);
-  if (!hasWater) {
-    recommendations.push('Add water to quench the thirst of traveling souls');
-  }
-
-  const isValid = hasCandle && hasPhoto && hasOffering;
+  const { isValid, warnings, recommendations } = evaluateAltar(currentAltar, gridDimensions, language);
 
   return {
     isValid,
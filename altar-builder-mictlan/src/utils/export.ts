@@ -33,6 +33,11 @@ export interface ExportOptions {
    * Scale factor for higher resolution
    */
   scale?: number;
+
+  /**
+   * Caption lines drawn below the altar (dedications and notes)
+   */
+  caption?: string[];
 }
 
 /**
@@ -68,14 +73,19 @@ export async function exportAltarToImage(
       removeContainer: true
     });
 
+    // Add caption band below the altar
+    const output = opts.caption && opts.caption.length > 0
+      ? addCaption(canvas, opts.caption, opts.backgroundColor)
+      : canvas;
+
     // Add watermark if enabled
     if (opts.watermark && opts.watermarkText) {
-      addWatermark(canvas, opts.watermarkText);
+      addWatermark(output, opts.watermarkText);
     }
 
     // Convert to blob
     return new Promise((resolve, reject) => {
-      canvas.toBlob(
+      output.toBlob(
         (blob) => {
           if (blob) {
             resolve(blob);
@@ -145,6 +155,69 @@ export async function exportToDataURL(
   });
 }
 
+/**
+ * Split text into lines that fit within maxWidth
+ */
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const words = text.split(/\s+/);
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+
+  return lines;
+}
+
+/**
+ * Return a new canvas with the caption drawn in a band below the image
+ */
+function addCaption(
+  canvas: HTMLCanvasElement,
+  caption: string[],
+  backgroundColor: string = '#111827'
+): HTMLCanvasElement {
+  const measure = document.createElement('canvas').getContext('2d');
+  if (!measure) return canvas;
+
+  const fontSize = Math.max(14, Math.floor(canvas.width / 45));
+  const lineHeight = Math.round(fontSize * 1.4);
+  const padding = fontSize;
+  measure.font = `${fontSize}px sans-serif`;
+
+  const lines = caption.flatMap(line => wrapText(measure, line, canvas.width - padding * 2));
+  const bandHeight = lines.length * lineHeight + padding * 2;
+
+  const output = document.createElement('canvas');
+  output.width = canvas.width;
+  output.height = canvas.height + bandHeight;
+
+  const ctx = output.getContext('2d');
+  if (!ctx) return canvas;
+
+  ctx.fillStyle = backgroundColor;
+  ctx.fillRect(0, 0, output.width, output.height);
+  ctx.drawImage(canvas, 0, 0);
+
+  ctx.font = `${fontSize}px sans-serif`;
+  ctx.fillStyle = '#fdba74'; // orange-300
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  lines.forEach((line, index) => {
+    ctx.fillText(line, output.width / 2, canvas.height + padding + index * lineHeight);
+  });
+
+  return output;
+}
+
 /**
  * Add watermark to canvas
  */
@@ -1,23 +1,67 @@
-import type { GridDimensions, GridPosition } from '../types';
+import type { AltarTemplateId, GridDimensions, GridPosition, PlacedElement, SoftLock, TierBand } from '../types';
+import { DEFAULT_ALTAR_TEMPLATE, getAltarTemplate } from '../data/altar-templates';
 
 /**
  * Get responsive grid dimensions based on viewport width
  */
-export function getResponsiveGridDimensions(viewportWidth: number): GridDimensions {
+export function getResponsiveGridDimensions(
+  viewportWidth: number,
+  template: AltarTemplateId = DEFAULT_ALTAR_TEMPLATE
+): GridDimensions {
   // Mobile: < 768px -> 6x8 grid
   if (viewportWidth < 768) {
-    return { rows: 8, cols: 6 };
+    return { rows: 8, cols: 6, template };
   }
   // Tablet: 768px - 1024px -> 9x10 grid
   else if (viewportWidth < 1024) {
-    return { rows: 10, cols: 9 };
+    return { rows: 10, cols: 9, template };
   }
   // Desktop: >= 1024px -> 12x9 grid (full size)
   else {
-    return { rows: 12, cols: 9 };
+    return { rows: 12, cols: 9, template };
   }
 }
 
+/**
+ * Resolve the altar template's tiers into row bands for the given grid.
+ * Spans are scaled to the row count; every tier keeps at least one row
+ * as long as the grid has at least as many rows as the template has tiers.
+ */
+export function getTierBands(gridDimensions: GridDimensions): TierBand[] {
+  const { tiers } = getAltarTemplate(gridDimensions.template);
+  const totalSpan = tiers.reduce((sum, tier) => sum + tier.span, 0);
+
+  // Boundaries between tiers, scaled to the grid rows
+  const boundaries = [0];
+  let cumulative = 0;
+  for (const tier of tiers) {
+    cumulative += tier.span;
+    boundaries.push(Math.round((cumulative / totalSpan) * gridDimensions.rows));
+  }
+  boundaries[tiers.length] = gridDimensions.rows;
+
+  for (let i = 1; i < tiers.length; i++) {
+    boundaries[i] = Math.max(boundaries[i], boundaries[i - 1] + 1);
+  }
+  for (let i = tiers.length - 1; i > 0; i--) {
+    boundaries[i] = Math.min(boundaries[i], boundaries[i + 1] - 1);
+  }
+
+  return tiers.map((tier, index) => ({
+    tier,
+    index,
+    startRow: boundaries[index],
+    endRow: boundaries[index + 1] - 1
+  }));
+}
+
+/**
+ * Get the tier band that contains a row
+ */
+export function getTierBandForRow(row: number, gridDimensions: GridDimensions): TierBand | undefined {
+  return getTierBands(gridDimensions).find(band => row >= band.startRow && row <= band.endRow);
+}
+
 /**
  * Calculate cell size based on grid dimensions and container size
  */
@@ -137,6 +181,13 @@ export function getManhattanDistance(pos1: GridPosition, pos2: GridPosition): nu
   return Math.abs(pos1.row - pos2.row) + Math.abs(pos1.col - pos2.col);
 }
 
+/**
+ * Calculate Chebyshev distance (diagonal steps count as one) between two positions
+ */
+export function getChebyshevDistance(pos1: GridPosition, pos2: GridPosition): number {
+  return Math.max(Math.abs(pos1.row - pos2.row), Math.abs(pos1.col - pos2.col));
+}
+
 /**
  * Calculate Euclidean distance between two positions
  */
@@ -305,3 +356,21 @@ export function getRandomEmptyPosition(
   const randomIndex = Math.floor(Math.random() * emptyPositions.length);
   return emptyPositions[randomIndex];
 }
+
+/**
+ * Find a peer's unexpired lock on a cell, either on the cell itself or on the
+ * element placed there
+ */
+export function getCellLock(
+  locks: SoftLock[],
+  position: GridPosition,
+  element?: Pick<PlacedElement, 'id'>,
+  now: number = Date.now()
+): SoftLock | undefined {
+  return locks.find(lock =>
+    lock.expiresAt > now && (
+      (lock.cell !== undefined && arePositionsEqual(lock.cell, position)) ||
+      (element !== undefined && lock.elementId === element.id)
+    )
+  );
+}
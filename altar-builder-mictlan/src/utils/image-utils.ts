@@ -0,0 +1,104 @@
+/**
+ * Image helpers for user-uploaded photos
+ */
+
+export const MAX_CUSTOM_IMAGE_SIZE = 256; // pixels on the longest side
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Scale dimensions down so the longest side fits within maxSize
+ */
+export function fitWithin(
+  width: number,
+  height: number,
+  maxSize: number
+): { width: number; height: number } {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  };
+}
+
+/**
+ * Load an image file into an HTMLImageElement
+ */
+function loadImage(file: File): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load image'));
+    };
+    image.src = url;
+  });
+}
+
+/**
+ * Resize an uploaded image and encode it as a JPEG data URL
+ */
+export async function resizeImageFile(
+  file: File,
+  maxSize: number = MAX_CUSTOM_IMAGE_SIZE,
+  quality: number = 0.85
+): Promise<string> {
+  if (!file.type.startsWith('image/')) {
+    throw new Error('File is not an image');
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new Error('Image is too large');
+  }
+
+  const image = await loadImage(file);
+  const { width, height } = fitWithin(image.naturalWidth, image.naturalHeight, maxSize);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas is not supported');
+  }
+
+  ctx.drawImage(image, 0, 0, width, height);
+  return canvas.toDataURL('image/jpeg', quality);
+}
+
+/**
+ * Decode a base64 data URL into a Blob without going through fetch,
+ * so it can run inside an IndexedDB upgrade transaction
+ */
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, data = ''] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] ?? 'application/octet-stream';
+
+  if (!header.endsWith(';base64')) {
+    return new Blob([decodeURIComponent(data)], { type: mimeType });
+  }
+
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
+/**
+ * Encode a Blob as a data URL, e.g. to embed a thumbnail in an export file
+ */
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to read blob'));
+    reader.readAsDataURL(blob);
+  });
+}
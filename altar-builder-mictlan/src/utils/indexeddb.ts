@@ -1,9 +1,44 @@
-import type { SavedAltar, PlacedElement } from '../types';
+import type { SavedAltar, PlacedElement, CustomElement, AltarRevision, SessionRecording } from '../types';
+import type { MCPDebugSession } from '../engines/mcp-debug';
+import { dataUrlToBlob } from './image-utils';
+import { reviveRecording } from './session-recording';
+import { selectRevisionsToPrune, REVISION_RETENTION } from './revisions';
+import type { RevisionRetention } from './revisions';
 
 const DB_NAME = 'altar-builder-db';
-const DB_VERSION = 1;
+const DB_VERSION = 6;
 const ALTARS_STORE = 'altars';
 const THUMBNAILS_STORE = 'thumbnails';
+const CUSTOM_ELEMENTS_STORE = 'customElements';
+const REVISIONS_STORE = 'revisions';
+const RECORDINGS_STORE = 'recordings';
+const MCP_DEBUG_STORE = 'mcpDebugSessions';
+
+export type StoreName =
+  | typeof ALTARS_STORE
+  | typeof THUMBNAILS_STORE
+  | typeof CUSTOM_ELEMENTS_STORE
+  | typeof REVISIONS_STORE
+  | typeof RECORDINGS_STORE
+  | typeof MCP_DEBUG_STORE;
+
+/**
+ * Record count and approximate size of one object store
+ */
+export interface StoreUsage {
+  store: StoreName;
+  count: number;
+  bytes: number;
+}
+
+/**
+ * Thumbnail record; versions before 3 stored a base64 `thumbnail` string
+ */
+interface ThumbnailRecord {
+  altarId: string;
+  blob?: Blob;
+  thumbnail?: string;
+}
 
 /**
  * IndexedDB Database Manager
@@ -41,6 +76,42 @@ class IndexedDBManager {
         // Create thumbnails store
         if (!db.objectStoreNames.contains(THUMBNAILS_STORE)) {
           db.createObjectStore(THUMBNAILS_STORE, { keyPath: 'altarId' });
+        } else if (event.oldVersion < 3) {
+          // Version 3 stores thumbnails as Blobs instead of base64 strings
+          const upgradeTransaction = (event.target as IDBOpenDBRequest).transaction!;
+          const cursorRequest = upgradeTransaction.objectStore(THUMBNAILS_STORE).openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            const record = cursor.value as ThumbnailRecord;
+            if (record.thumbnail) {
+              cursor.update({ altarId: record.altarId, blob: dataUrlToBlob(record.thumbnail) });
+            }
+            cursor.continue();
+          };
+        }
+
+        // Create custom elements store (added in version 2)
+        if (!db.objectStoreNames.contains(CUSTOM_ELEMENTS_STORE)) {
+          db.createObjectStore(CUSTOM_ELEMENTS_STORE, { keyPath: 'id' });
+        }
+
+        // Create revisions store (added in version 4)
+        if (!db.objectStoreNames.contains(REVISIONS_STORE)) {
+          const revisionsStore = db.createObjectStore(REVISIONS_STORE, { keyPath: 'id' });
+          revisionsStore.createIndex('altarId', 'altarId', { unique: false });
+        }
+
+        // Create session recordings store (added in version 5)
+        if (!db.objectStoreNames.contains(RECORDINGS_STORE)) {
+          const recordingsStore = db.createObjectStore(RECORDINGS_STORE, { keyPath: 'id' });
+          recordingsStore.createIndex('startedAt', 'startedAt', { unique: false });
+        }
+
+        // Create MCP debug sessions store (added in version 6)
+        if (!db.objectStoreNames.contains(MCP_DEBUG_STORE)) {
+          const debugStore = db.createObjectStore(MCP_DEBUG_STORE, { keyPath: 'id' });
+          debugStore.createIndex('startedAt', 'startedAt', { unique: false });
         }
       };
     });
@@ -94,6 +165,10 @@ class IndexedDBManager {
             ...el,
             placedAt: new Date(el.placedAt)
           }));
+          altar.customElements = altar.customElements?.map((el: CustomElement) => ({
+            ...el,
+            createdAt: new Date(el.createdAt)
+          }));
         }
         resolve(altar || null);
       };
@@ -119,6 +194,10 @@ class IndexedDBManager {
           elements: altar.elements.map((el: any) => ({
             ...el,
             placedAt: new Date(el.placedAt)
+          })),
+          customElements: altar.customElements?.map((el: CustomElement) => ({
+            ...el,
+            createdAt: new Date(el.createdAt)
           }))
         }));
         // Sort by most recent first
@@ -135,7 +214,10 @@ class IndexedDBManager {
   async deleteAltar(id: string): Promise<void> {
     const db = await this.ensureDb();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([ALTARS_STORE, THUMBNAILS_STORE], 'readwrite');
+      const transaction = db.transaction(
+        [ALTARS_STORE, THUMBNAILS_STORE, REVISIONS_STORE],
+        'readwrite'
+      );
 
       // Delete altar
       const altarsStore = transaction.objectStore(ALTARS_STORE);
@@ -145,20 +227,197 @@ class IndexedDBManager {
       const thumbnailsStore = transaction.objectStore(THUMBNAILS_STORE);
       thumbnailsStore.delete(id);
 
-      altarRequest.onsuccess = () => resolve();
+      // Delete revision history
+      const revisionsRequest = transaction
+        .objectStore(REVISIONS_STORE)
+        .index('altarId')
+        .openKeyCursor(IDBKeyRange.only(id));
+      revisionsRequest.onsuccess = () => {
+        const cursor = revisionsRequest.result;
+        if (!cursor) return;
+        transaction.objectStore(REVISIONS_STORE).delete(cursor.primaryKey);
+        cursor.continue();
+      };
+
+      transaction.oncomplete = () => resolve();
       altarRequest.onerror = () => reject(new Error('Failed to delete altar'));
     });
   }
 
   /**
-   * Save altar thumbnail
+   * Add a revision to an altar's history, then drop the revisions that
+   * fall outside the retention limits
+   */
+  async addRevision(
+    revision: AltarRevision,
+    retention: RevisionRetention = REVISION_RETENTION
+  ): Promise<void> {
+    const db = await this.ensureDb();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([REVISIONS_STORE], 'readwrite');
+      const request = transaction.objectStore(REVISIONS_STORE).put(revision);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to save revision'));
+    });
+
+    const expired = selectRevisionsToPrune(await this.getRevisions(revision.altarId), retention);
+    if (expired.length === 0) return;
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([REVISIONS_STORE], 'readwrite');
+      const store = transaction.objectStore(REVISIONS_STORE);
+      expired.forEach(old => store.delete(old.id));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(new Error('Failed to prune revisions'));
+    });
+  }
+
+  /**
+   * Get the revision history of an altar, newest first
+   */
+  async getRevisions(altarId: string): Promise<AltarRevision[]> {
+    const db = await this.ensureDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([REVISIONS_STORE], 'readonly');
+      const index = transaction.objectStore(REVISIONS_STORE).index('altarId');
+      const request = index.getAll(IDBKeyRange.only(altarId));
+
+      request.onsuccess = () => {
+        const revisions: AltarRevision[] = request.result.map((revision: AltarRevision) => ({
+          ...revision,
+          createdAt: new Date(revision.createdAt),
+          elements: revision.elements.map((el: PlacedElement) => ({
+            ...el,
+            placedAt: new Date(el.placedAt)
+          }))
+        }));
+        revisions.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+        resolve(revisions);
+      };
+      request.onerror = () => reject(new Error('Failed to get revisions'));
+    });
+  }
+
+  /**
+   * Save a session recording, replacing an earlier save of the same session
+   */
+  async saveRecording(recording: SessionRecording): Promise<void> {
+    const db = await this.ensureDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([RECORDINGS_STORE], 'readwrite');
+      const request = transaction.objectStore(RECORDINGS_STORE).put(recording);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to save recording'));
+    });
+  }
+
+  /**
+   * Get a session recording by ID
+   */
+  async getRecording(id: string): Promise<SessionRecording | null> {
+    const db = await this.ensureDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([RECORDINGS_STORE], 'readonly');
+      const request = transaction.objectStore(RECORDINGS_STORE).get(id);
+
+      request.onsuccess = () => {
+        resolve(request.result ? reviveRecording(request.result) : null);
+      };
+      request.onerror = () => reject(new Error('Failed to get recording'));
+    });
+  }
+
+  /**
+   * Get all session recordings, newest first
+   */
+  async getAllRecordings(): Promise<SessionRecording[]> {
+    const db = await this.ensureDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([RECORDINGS_STORE], 'readonly');
+      const request = transaction.objectStore(RECORDINGS_STORE).getAll();
+
+      request.onsuccess = () => {
+        const recordings: SessionRecording[] = request.result.map(reviveRecording);
+        recordings.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+        resolve(recordings);
+      };
+      request.onerror = () => reject(new Error('Failed to get recordings'));
+    });
+  }
+
+  /**
+   * Delete a session recording
+   */
+  async deleteRecording(id: string): Promise<void> {
+    const db = await this.ensureDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([RECORDINGS_STORE], 'readwrite');
+      const request = transaction.objectStore(RECORDINGS_STORE).delete(id);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to delete recording'));
+    });
+  }
+
+  /**
+   * Save an MCP debug session, replacing an earlier save of the same session
+   */
+  async saveDebugSession(session: MCPDebugSession): Promise<void> {
+    const db = await this.ensureDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([MCP_DEBUG_STORE], 'readwrite');
+      const request = transaction.objectStore(MCP_DEBUG_STORE).put(session);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to save debug session'));
+    });
+  }
+
+  /**
+   * Get all MCP debug sessions, newest first
+   */
+  async getAllDebugSessions(): Promise<MCPDebugSession[]> {
+    const db = await this.ensureDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([MCP_DEBUG_STORE], 'readonly');
+      const request = transaction.objectStore(MCP_DEBUG_STORE).getAll();
+
+      request.onsuccess = () => {
+        const sessions: MCPDebugSession[] = request.result;
+        sessions.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+        resolve(sessions);
+      };
+      request.onerror = () => reject(new Error('Failed to get debug sessions'));
+    });
+  }
+
+  /**
+   * Delete an MCP debug session
+   */
+  async deleteDebugSession(id: string): Promise<void> {
+    const db = await this.ensureDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([MCP_DEBUG_STORE], 'readwrite');
+      const request = transaction.objectStore(MCP_DEBUG_STORE).delete(id);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to delete debug session'));
+    });
+  }
+
+  /**
+   * Save altar thumbnail; data URLs are decoded and stored as Blobs
    */
-  async saveThumbnail(altarId: string, thumbnail: string): Promise<void> {
+  async saveThumbnail(altarId: string, thumbnail: Blob | string): Promise<void> {
     const db = await this.ensureDb();
+    const blob = typeof thumbnail === 'string' ? dataUrlToBlob(thumbnail) : thumbnail;
     return new Promise((resolve, reject) => {
       const transaction = db.transaction([THUMBNAILS_STORE], 'readwrite');
       const store = transaction.objectStore(THUMBNAILS_STORE);
-      const request = store.put({ altarId, thumbnail });
+      const request = store.put({ altarId, blob });
 
       request.onsuccess = () => resolve();
       request.onerror = () => reject(new Error('Failed to save thumbnail'));
@@ -168,7 +427,7 @@ class IndexedDBManager {
   /**
    * Get altar thumbnail
    */
-  async getThumbnail(altarId: string): Promise<string | null> {
+  async getThumbnail(altarId: string): Promise<Blob | null> {
     const db = await this.ensureDb();
     return new Promise((resolve, reject) => {
       const transaction = db.transaction([THUMBNAILS_STORE], 'readonly');
@@ -176,13 +435,104 @@ class IndexedDBManager {
       const request = store.get(altarId);
 
       request.onsuccess = () => {
-        const result = request.result;
-        resolve(result ? result.thumbnail : null);
+        const result = request.result as ThumbnailRecord | undefined;
+        if (result?.blob) {
+          resolve(result.blob);
+        } else {
+          resolve(result?.thumbnail ? dataUrlToBlob(result.thumbnail) : null);
+        }
       };
       request.onerror = () => reject(new Error('Failed to get thumbnail'));
     });
   }
 
+  /**
+   * Save a user-created element
+   */
+  async saveCustomElement(element: CustomElement): Promise<void> {
+    const db = await this.ensureDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([CUSTOM_ELEMENTS_STORE], 'readwrite');
+      const store = transaction.objectStore(CUSTOM_ELEMENTS_STORE);
+      const request = store.put(element);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to save custom element'));
+    });
+  }
+
+  /**
+   * Get all user-created elements, oldest first
+   */
+  async getAllCustomElements(): Promise<CustomElement[]> {
+    const db = await this.ensureDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([CUSTOM_ELEMENTS_STORE], 'readonly');
+      const store = transaction.objectStore(CUSTOM_ELEMENTS_STORE);
+      const request = store.getAll();
+
+      request.onsuccess = () => {
+        const elements: CustomElement[] = request.result.map((element: CustomElement) => ({
+          ...element,
+          createdAt: new Date(element.createdAt)
+        }));
+        elements.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+        resolve(elements);
+      };
+      request.onerror = () => reject(new Error('Failed to get custom elements'));
+    });
+  }
+
+  /**
+   * Delete a user-created element
+   */
+  async deleteCustomElement(id: string): Promise<void> {
+    const db = await this.ensureDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([CUSTOM_ELEMENTS_STORE], 'readwrite');
+      const store = transaction.objectStore(CUSTOM_ELEMENTS_STORE);
+      const request = store.delete(id);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to delete custom element'));
+    });
+  }
+
+  /**
+   * Count records and measure the approximate size of every object store.
+   * Blobs report their byte size; other records their serialized length.
+   */
+  async getStoreUsage(): Promise<StoreUsage[]> {
+    const db = await this.ensureDb();
+    const stores: StoreName[] = [
+      ALTARS_STORE,
+      THUMBNAILS_STORE,
+      CUSTOM_ELEMENTS_STORE,
+      REVISIONS_STORE,
+      RECORDINGS_STORE,
+      MCP_DEBUG_STORE
+    ];
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(stores, 'readonly');
+      const usage = stores.map(store => ({ store, count: 0, bytes: 0 }));
+
+      usage.forEach(entry => {
+        const request = transaction.objectStore(entry.store).openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) return;
+          entry.count++;
+          entry.bytes += measureRecord(cursor.value);
+          cursor.continue();
+        };
+      });
+
+      transaction.oncomplete = () => resolve(usage);
+      transaction.onerror = () => reject(new Error('Failed to measure stores'));
+    });
+  }
+
   /**
    * Get database size estimate
    */
@@ -203,13 +553,17 @@ class IndexedDBManager {
   async clearAll(): Promise<void> {
     const db = await this.ensureDb();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([ALTARS_STORE, THUMBNAILS_STORE], 'readwrite');
-
-      const altarsStore = transaction.objectStore(ALTARS_STORE);
-      const thumbnailsStore = transaction.objectStore(THUMBNAILS_STORE);
-
-      altarsStore.clear();
-      thumbnailsStore.clear();
+      const transaction = db.transaction(
+        [ALTARS_STORE, THUMBNAILS_STORE, CUSTOM_ELEMENTS_STORE, REVISIONS_STORE, RECORDINGS_STORE, MCP_DEBUG_STORE],
+        'readwrite'
+      );
+
+      transaction.objectStore(ALTARS_STORE).clear();
+      transaction.objectStore(THUMBNAILS_STORE).clear();
+      transaction.objectStore(CUSTOM_ELEMENTS_STORE).clear();
+      transaction.objectStore(REVISIONS_STORE).clear();
+      transaction.objectStore(RECORDINGS_STORE).clear();
+      transaction.objectStore(MCP_DEBUG_STORE).clear();
 
       transaction.oncomplete = () => resolve();
       transaction.onerror = () => reject(new Error('Failed to clear database'));
@@ -232,6 +586,20 @@ class IndexedDBManager {
   }
 }
 
+/**
+ * Approximate stored size of a record in bytes
+ */
+function measureRecord(record: unknown): number {
+  if (record instanceof Blob) return record.size;
+  if (record && typeof record === 'object') {
+    return Object.values(record).reduce<number>((sum, value) => {
+      if (value instanceof Blob) return sum + value.size;
+      return sum + (JSON.stringify(value)?.length ?? 0);
+    }, 0);
+  }
+  return JSON.stringify(record)?.length ?? 0;
+}
+
 // Singleton instance
 let dbManager: IndexedDBManager | null = null;
 
@@ -252,6 +620,13 @@ export function isIndexedDBSupported(): boolean {
   return 'indexedDB' in window;
 }
 
+/**
+ * Generate unique ID for custom elements
+ */
+export function generateCustomElementId(): string {
+  return `custom-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
 /**
  * Generate unique ID for altars
  */
@@ -0,0 +1,146 @@
+import type { MCPActionLogEntry, MCPDebugSession, MCPPerformanceAlert } from '../engines/mcp-debug';
+
+/**
+ * Identifier written into every exported MCP debug session
+ */
+export const DEBUG_SESSION_FILE_FORMAT = 'altar-mictlan-mcp-debug';
+
+/**
+ * Current version of the debug session file schema
+ */
+export const DEBUG_SESSION_SCHEMA_VERSION = 1;
+
+/**
+ * Versioned envelope written to exported debug session files
+ */
+export interface DebugSessionFile {
+  format: typeof DEBUG_SESSION_FILE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  session: MCPDebugSession;
+}
+
+// Module state holds dates, maps and sets, which plain JSON would flatten.
+// They are written as tagged objects and turned back on parse.
+type TaggedValue =
+  | { __type: 'Date'; value: string }
+  | { __type: 'Map'; entries: [unknown, unknown][] }
+  | { __type: 'Set'; values: unknown[] };
+
+function tagValue(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  // Dates have already gone through toJSON here, the holder has the original
+  const raw = this[key];
+  if (raw instanceof Date) return { __type: 'Date', value: raw.toISOString() };
+  if (raw instanceof Map) return { __type: 'Map', entries: Array.from(raw) };
+  if (raw instanceof Set) return { __type: 'Set', values: Array.from(raw) };
+  return value;
+}
+
+function untagValue(_key: string, value: unknown): unknown {
+  const tagged = value as Partial<TaggedValue> | null;
+  if (!tagged || typeof tagged !== 'object') return value;
+
+  switch (tagged.__type) {
+    case 'Date':
+      return new Date((tagged as { value: string }).value);
+    case 'Map':
+      return new Map((tagged as { entries: [unknown, unknown][] }).entries);
+    case 'Set':
+      return new Set((tagged as { values: unknown[] }).values);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Serialize a debug session into the current file format
+ */
+export function serializeDebugSessionFile(session: MCPDebugSession): string {
+  const file: DebugSessionFile = {
+    format: DEBUG_SESSION_FILE_FORMAT,
+    schemaVersion: DEBUG_SESSION_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    session
+  };
+
+  return JSON.stringify(file, tagValue);
+}
+
+/**
+ * Parse and validate the contents of a debug session file
+ * @throws Error when the file is malformed or from a newer version
+ */
+export function parseDebugSessionFile(text: string): MCPDebugSession {
+  let data: unknown;
+  try {
+    data = JSON.parse(text, untagValue);
+  } catch {
+    throw new Error('Debug session file is not valid JSON');
+  }
+
+  const file = data as Partial<DebugSessionFile> | null;
+  if (!file || file.format !== DEBUG_SESSION_FILE_FORMAT) {
+    throw new Error('File is not an MCP debug session');
+  }
+  if (!Number.isInteger(file.schemaVersion) || (file.schemaVersion as number) < 1) {
+    throw new Error('Debug session file has no valid schema version');
+  }
+  if ((file.schemaVersion as number) > DEBUG_SESSION_SCHEMA_VERSION) {
+    throw new Error(`Debug session file version ${file.schemaVersion} is newer than this app supports`);
+  }
+
+  const session = file.session as MCPDebugSession | undefined;
+  if (
+    !session ||
+    typeof session.id !== 'string' ||
+    !(session.startedAt instanceof Date) ||
+    !Array.isArray(session.entries) ||
+    !Array.isArray(session.alerts)
+  ) {
+    throw new Error('Debug session file is missing session data');
+  }
+
+  if (!session.entries.every(isLogEntry) || !session.alerts.every(isAlert)) {
+    throw new Error('Debug session file contains malformed entries');
+  }
+
+  return session;
+}
+
+/**
+ * Export a debug session and download it as a JSON file
+ */
+export function exportDebugSessionAsJSON(session: MCPDebugSession): void {
+  try {
+    const blob = new Blob([serializeDebugSessionFile(session)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `mcp-debug-${session.id}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    console.error('Error exporting debug session:', error);
+  }
+}
+
+function isLogEntry(value: unknown): value is MCPActionLogEntry {
+  const entry = value as MCPActionLogEntry | undefined;
+  return (
+    !!entry &&
+    !!entry.action &&
+    typeof entry.action.type === 'string' &&
+    typeof entry.action.id === 'string' &&
+    entry.timestamp instanceof Date &&
+    typeof entry.duration === 'number' &&
+    typeof entry.success === 'boolean'
+  );
+}
+
+function isAlert(value: unknown): value is MCPPerformanceAlert {
+  const alert = value as MCPPerformanceAlert | undefined;
+  return !!alert && typeof alert.type === 'string' && typeof alert.message === 'string';
+}
@@ -1,7 +1,17 @@
 import type { PlacedElement, SavedAltar } from '../types';
+import { parseAltarFile, serializeAltarFile, migrateAltarFile, validateAltar } from './altar-schema';
+import { getDBManager, generateAltarId } from './indexeddb';
+import {
+  createRevision,
+  diffRevisions,
+  isEmptyDiff,
+  AUTOSAVE_REVISION_INTERVAL_MS
+} from './revisions';
 
 const ALTAR_STORAGE_KEY = 'altar-builder-current-altar';
+// Saved altars were kept in localStorage before moving to IndexedDB
 const SAVED_ALTARS_KEY = 'altar-builder-saved-altars';
+const SAVED_ALTARS_MIGRATED_KEY = 'altar-builder-saved-altars-migrated';
 const AUTO_SAVE_DEBOUNCE_MS = 500;
 
 /**
@@ -88,87 +98,98 @@ export function createDebouncedAutoSave(
 }
 
 /**
- * Save altar to saved altars collection
+ * Record an autosave snapshot in a saved altar's revision history.
+ * Snapshots with no element changes are skipped, and autosaves that
+ * follow the previous one within the interval replace it.
  */
-export function saveAltar(name: string, elements: PlacedElement[]): SavedAltar | null {
-  try {
-    const savedAltars = getSavedAltars();
-
-    const newAltar: SavedAltar = {
-      id: generateUniqueId(),
-      name,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      thumbnail: '', // Will be generated later
-      elements,
-      metadata: {
-        score: 0,
-        completionLevel: 0,
-        culturalAuthenticity: 0
-      },
-      version: '1.0.0'
-    };
-
-    savedAltars.push(newAltar);
-    localStorage.setItem(SAVED_ALTARS_KEY, JSON.stringify(savedAltars));
+export async function recordAutosaveRevision(
+  altarId: string,
+  snapshot: Pick<SavedAltar, 'elements' | 'customElements' | 'honorees' | 'template'>
+): Promise<boolean> {
+  const db = getDBManager();
+  const altar = await db.getAltar(altarId);
+  if (!altar) return false;
+
+  const [latest] = await db.getRevisions(altarId);
+  if (latest && isEmptyDiff(diffRevisions(latest.elements, snapshot.elements))) {
+    return false;
+  }
 
-    return newAltar;
-  } catch (error) {
-    console.error('Error saving altar:', error);
-    if (error instanceof Error && error.name === 'QuotaExceededError') {
-      handleStorageQuotaExceeded();
-    }
-    return null;
+  const revision = createRevision({ ...altar, ...snapshot }, 'autosave');
+  if (
+    latest?.kind === 'autosave' &&
+    revision.createdAt.getTime() - latest.createdAt.getTime() < AUTOSAVE_REVISION_INTERVAL_MS
+  ) {
+    revision.id = latest.id;
   }
+
+  await db.addRevision(revision);
+  return true;
 }
 
 /**
- * Get all saved altars
+ * Result of moving localStorage altars into IndexedDB
  */
-export function getSavedAltars(): SavedAltar[] {
-  try {
-    const data = localStorage.getItem(SAVED_ALTARS_KEY);
-    if (!data) return [];
-
-    const altars = JSON.parse(data);
-
-    // Convert date strings back to Date objects
-    return altars.map((altar: any) => ({
-      ...altar,
-      createdAt: new Date(altar.createdAt),
-      updatedAt: new Date(altar.updatedAt),
-      elements: altar.elements.map((el: any) => ({
-        ...el,
-        placedAt: new Date(el.placedAt)
-      }))
-    }));
-  } catch (error) {
-    console.error('Error loading saved altars:', error);
-    return [];
-  }
+export interface SavedAltarsMigrationResult {
+  migrated: number;
+  failed: number;
 }
 
+let savedAltarsMigration: Promise<SavedAltarsMigrationResult> | null = null;
+
 /**
- * Delete a saved altar
+ * Move altars saved by older builds from localStorage into IndexedDB.
+ * Runs once per browser: the migrated altars are removed from localStorage
+ * and a marker is written so later page loads skip the work. Altars that
+ * fail validation stay in localStorage untouched.
  */
-export function deleteSavedAltar(altarId: string): boolean {
-  try {
-    const savedAltars = getSavedAltars();
-    const filteredAltars = savedAltars.filter(altar => altar.id !== altarId);
-    localStorage.setItem(SAVED_ALTARS_KEY, JSON.stringify(filteredAltars));
-    return true;
-  } catch (error) {
-    console.error('Error deleting altar:', error);
-    return false;
+export function migrateLocalStorageAltars(): Promise<SavedAltarsMigrationResult> {
+  if (!savedAltarsMigration) {
+    savedAltarsMigration = runSavedAltarsMigration().catch(error => {
+      savedAltarsMigration = null;
+      throw error;
+    });
   }
+  return savedAltarsMigration;
 }
 
-/**
- * Load a specific saved altar
- */
-export function loadSavedAltar(altarId: string): SavedAltar | null {
-  const savedAltars = getSavedAltars();
-  return savedAltars.find(altar => altar.id === altarId) || null;
+async function runSavedAltarsMigration(): Promise<SavedAltarsMigrationResult> {
+  if (localStorage.getItem(SAVED_ALTARS_MIGRATED_KEY)) {
+    return { migrated: 0, failed: 0 };
+  }
+
+  const data = localStorage.getItem(SAVED_ALTARS_KEY);
+  const records: unknown[] = data ? JSON.parse(data) : [];
+  const db = getDBManager();
+  await db.init();
+
+  const failedRecords: unknown[] = [];
+  let migrated = 0;
+
+  for (const record of Array.isArray(records) ? records : []) {
+    try {
+      const altar = validateAltar(migrateAltarFile(record).altar);
+      const { thumbnail } = altar;
+
+      await db.saveAltar({ ...altar, thumbnail: '' });
+      if (thumbnail) {
+        await db.saveThumbnail(altar.id, thumbnail);
+      }
+      migrated++;
+    } catch (error) {
+      console.error('Could not migrate saved altar:', error);
+      failedRecords.push(record);
+    }
+  }
+
+  if (failedRecords.length > 0) {
+    localStorage.setItem(SAVED_ALTARS_KEY, JSON.stringify(failedRecords));
+  } else {
+    localStorage.removeItem(SAVED_ALTARS_KEY);
+  }
+  localStorage.setItem(SAVED_ALTARS_MIGRATED_KEY, new Date().toISOString());
+
+  return { migrated, failed: failedRecords.length };
 }
 
 /**
@@ -213,25 +234,8 @@ export function isStorageNearlyFull(): boolean {
  * Handle storage quota exceeded error
  */
 function handleStorageQuotaExceeded(): void {
-  console.warn('LocalStorage quota exceeded');
-
-  // Try to free up space by removing oldest saved altars
-  const savedAltars = getSavedAltars();
-  if (savedAltars.length > 0) {
-    // Sort by creation date and remove oldest
-    savedAltars.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
-    const oldestAltar = savedAltars[0];
-    deleteSavedAltar(oldestAltar.id);
-
-    alert(`Storage full. Removed oldest altar: "${oldestAltar.name}"`);
-  }
-}
-
-/**
- * Generate a unique ID for altars
- */
-function generateUniqueId(): string {
-  return `altar-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  // Saved altars live in IndexedDB, so only the autosave is affected here
+  console.warn('LocalStorage quota exceeded; autosave of the current altar failed');
 }
 
 /**
@@ -239,7 +243,7 @@ function generateUniqueId(): string {
  */
 export function exportAltarAsJSON(altar: SavedAltar): void {
   try {
-    const dataStr = JSON.stringify(altar, null, 2);
+    const dataStr = serializeAltarFile(altar);
     const dataBlob = new Blob([dataStr], { type: 'application/json' });
     const url = URL.createObjectURL(dataBlob);
 
@@ -256,39 +260,23 @@ export function exportAltarAsJSON(altar: SavedAltar): void {
 }
 
 /**
- * Import altar data from JSON
+ * Import altar data from JSON into the IndexedDB gallery, migrating older file versions
+ * @throws AltarImportError when the file is malformed, invalid or from a newer version
  */
-export async function importAltarFromJSON(file: File): Promise<SavedAltar | null> {
-  try {
-    const text = await file.text();
-    const altar = JSON.parse(text);
-
-    // Validate the structure
-    if (!altar.id || !altar.name || !altar.elements) {
-      throw new Error('Invalid altar data structure');
-    }
-
-    // Generate new ID to avoid conflicts
-    altar.id = generateUniqueId();
-    altar.updatedAt = new Date();
+export async function importAltarFromJSON(file: File): Promise<SavedAltar> {
+  const parsed = parseAltarFile(await file.text());
+  const { thumbnail } = parsed;
 
-    // Convert date strings to Date objects
-    altar.createdAt = new Date(altar.createdAt);
-    altar.elements = altar.elements.map((el: any) => ({
-      ...el,
-      placedAt: new Date(el.placedAt)
-    }));
-
-    // Save to collection
-    const savedAltars = getSavedAltars();
-    savedAltars.push(altar);
-    localStorage.setItem(SAVED_ALTARS_KEY, JSON.stringify(savedAltars));
+  // Generate new ID to avoid conflicts
+  const altar: SavedAltar = { ...parsed, id: generateAltarId(), updatedAt: new Date(), thumbnail: '' };
 
-    return altar;
-  } catch (error) {
-    console.error('Error importing altar:', error);
-    return null;
+  const db = getDBManager();
+  await db.saveAltar(altar);
+  if (thumbnail) {
+    await db.saveThumbnail(altar.id, thumbnail);
   }
+
+  return altar;
 }
 
 /**
@@ -298,6 +286,7 @@ export function clearAllStorage(): boolean {
   try {
     localStorage.removeItem(ALTAR_STORAGE_KEY);
     localStorage.removeItem(SAVED_ALTARS_KEY);
+    localStorage.removeItem(SAVED_ALTARS_MIGRATED_KEY);
     return true;
   } catch (error) {
     console.error('Error clearing storage:', error);
@@ -0,0 +1,81 @@
+import type {
+  GridPosition,
+  OfrendarElement,
+  PlacedElement,
+  PlacementRule,
+  ProximityRuleValue,
+  StackingRuleValue
+} from '../types';
+import { OFRENDA_ELEMENTS, getElementForPlaced } from '../data/elements';
+import { getChebyshevDistance } from './grid-utils';
+
+/**
+ * Rules that relate an element to the elements around it. Unlike quantity
+ * and row rules they can stop holding after the element is placed, when
+ * what it relates to is moved or removed, so the whole altar is re-checked
+ * against them rather than only the element being dropped.
+ */
+
+export interface UnmetPlacementRule {
+  element: PlacedElement;
+  rule: PlacementRule;
+}
+
+/**
+ * Whether a cell is within reach of, or clear of, the rule's reference elements
+ */
+export function isProximitySatisfied(
+  rule: ProximityRuleValue,
+  position: GridPosition,
+  altar: PlacedElement[]
+): boolean {
+  const references = altar.filter(el => rule.elementTypes.includes(el.elementType));
+
+  return rule.relation === 'within'
+    ? references.some(el => getChebyshevDistance(el.position, position) <= (rule.distance ?? 1))
+    : !references.some(el => getChebyshevDistance(el.position, position) <= 1);
+}
+
+/**
+ * Whether a cell rests directly on one of the rule's supporting elements
+ */
+export function isStackingSatisfied(
+  rule: StackingRuleValue,
+  position: GridPosition,
+  altar: PlacedElement[]
+): boolean {
+  return altar.some(el =>
+    el.position.row === position.row + 1 &&
+    el.position.col === position.col &&
+    rule.elementTypes.includes(el.elementType)
+  );
+}
+
+/**
+ * Proximity and stacking rules of placed elements that the rest of the
+ * altar no longer meets, e.g. salt whose water was removed
+ */
+export function findUnmetPlacementRules(
+  altar: PlacedElement[],
+  elements: OfrendarElement[] = OFRENDA_ELEMENTS
+): UnmetPlacementRule[] {
+  return altar.flatMap(placed => {
+    const others = altar.filter(el => el.id !== placed.id);
+    const rules = getElementForPlaced(placed, elements)?.placementRules ?? [];
+
+    return rules
+      .filter(rule => !isRuleMet(rule, placed.position, others))
+      .map(rule => ({ element: placed, rule }));
+  });
+}
+
+function isRuleMet(rule: PlacementRule, position: GridPosition, others: PlacedElement[]): boolean {
+  switch (rule.type) {
+    case 'proximity':
+      return isProximitySatisfied(rule.value as ProximityRuleValue, position, others);
+    case 'stacking':
+      return isStackingSatisfied(rule.value as StackingRuleValue, position, others);
+    default:
+      return true;
+  }
+}
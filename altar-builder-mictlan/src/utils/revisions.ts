@@ -0,0 +1,111 @@
+import type {
+  AltarRevision,
+  AltarRevisionKind,
+  PlacedElement,
+  RevisionDiff,
+  SavedAltar
+} from '../types';
+
+/**
+ * How many revisions each altar keeps. Explicit saves are kept longer than
+ * autosaves, and the newest revision is never pruned.
+ */
+export const REVISION_RETENTION = {
+  maxAutosaves: 20,
+  maxSaves: 30,
+  maxAutosaveAgeMs: 30 * 24 * 60 * 60 * 1000
+};
+
+export type RevisionRetention = typeof REVISION_RETENTION;
+
+// Autosaves closer together than this collapse into the previous snapshot
+export const AUTOSAVE_REVISION_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Generate unique ID for revisions
+ */
+export function generateRevisionId(): string {
+  return `revision-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Snapshot the contents of a saved altar as a new revision
+ */
+export function createRevision(
+  altar: SavedAltar,
+  kind: AltarRevisionKind,
+  thumbnail?: Blob
+): AltarRevision {
+  return {
+    id: generateRevisionId(),
+    altarId: altar.id,
+    kind,
+    createdAt: new Date(),
+    name: altar.name,
+    elements: altar.elements,
+    customElements: altar.customElements,
+    honorees: altar.honorees,
+    template: altar.template,
+    thumbnail
+  };
+}
+
+/**
+ * List elements added, removed and moved going from `before` to `after`
+ */
+export function diffRevisions(before: PlacedElement[], after: PlacedElement[]): RevisionDiff {
+  const previous = new Map(before.map(el => [el.id, el]));
+  const current = new Set(after.map(el => el.id));
+  const diff: RevisionDiff = { added: [], removed: [], moved: [] };
+
+  for (const element of after) {
+    const old = previous.get(element.id);
+    if (!old) {
+      diff.added.push(element);
+    } else if (
+      old.position.row !== element.position.row ||
+      old.position.col !== element.position.col
+    ) {
+      diff.moved.push({ element, from: old.position });
+    }
+  }
+
+  diff.removed = before.filter(el => !current.has(el.id));
+  return diff;
+}
+
+/**
+ * Whether a diff contains no changes
+ */
+export function isEmptyDiff(diff: RevisionDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.moved.length === 0;
+}
+
+/**
+ * Pick the revisions of one altar that fall outside the retention limits
+ */
+export function selectRevisionsToPrune(
+  revisions: AltarRevision[],
+  retention: RevisionRetention = REVISION_RETENTION,
+  now: Date = new Date()
+): AltarRevision[] {
+  const newestFirst = [...revisions].sort(
+    (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+  );
+  const [newest, ...rest] = newestFirst;
+  if (!newest) return [];
+
+  let autosaves = newest.kind === 'autosave' ? 1 : 0;
+  let saves = newest.kind === 'save' ? 1 : 0;
+
+  return rest.filter(revision => {
+    if (revision.kind === 'save') {
+      saves++;
+      return saves > retention.maxSaves;
+    }
+
+    autosaves++;
+    const age = now.getTime() - revision.createdAt.getTime();
+    return autosaves > retention.maxAutosaves || age > retention.maxAutosaveAgeMs;
+  });
+}
@@ -0,0 +1,132 @@
+import type { PlacedElement, RecordedEvent, SessionRecording } from '../types';
+
+/**
+ * Identifier written into every exported session recording
+ */
+export const RECORDING_FILE_FORMAT = 'altar-mictlan-recording';
+
+/**
+ * Current version of the recording file schema
+ */
+export const RECORDING_SCHEMA_VERSION = 1;
+
+/**
+ * Versioned envelope written to exported recording files
+ */
+export interface RecordingFile {
+  format: typeof RECORDING_FILE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  recording: SessionRecording;
+}
+
+/**
+ * Serialize a recording into the current file format
+ */
+export function serializeRecordingFile(recording: SessionRecording): string {
+  const file: RecordingFile = {
+    format: RECORDING_FILE_FORMAT,
+    schemaVersion: RECORDING_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    recording
+  };
+
+  return JSON.stringify(file);
+}
+
+/**
+ * Parse and validate the contents of a recording file
+ * @throws Error when the file is malformed or from a newer version
+ */
+export function parseRecordingFile(text: string): SessionRecording {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Recording file is not valid JSON');
+  }
+
+  const file = data as Partial<RecordingFile> | null;
+  if (!file || file.format !== RECORDING_FILE_FORMAT) {
+    throw new Error('File is not an altar session recording');
+  }
+  if (!Number.isInteger(file.schemaVersion) || (file.schemaVersion as number) < 1) {
+    throw new Error('Recording file has no valid schema version');
+  }
+  if ((file.schemaVersion as number) > RECORDING_SCHEMA_VERSION) {
+    throw new Error(`Recording file version ${file.schemaVersion} is newer than this app supports`);
+  }
+
+  const recording = file.recording as SessionRecording | undefined;
+  if (
+    !recording ||
+    typeof recording.id !== 'string' ||
+    typeof recording.name !== 'string' ||
+    typeof recording.duration !== 'number' ||
+    !recording.dimensions ||
+    !Array.isArray(recording.initialElements) ||
+    !Array.isArray(recording.events)
+  ) {
+    throw new Error('Recording file is missing session data');
+  }
+
+  const events = recording.events.filter(isRecordedEvent);
+  if (events.length !== recording.events.length) {
+    throw new Error('Recording file contains malformed events');
+  }
+
+  return reviveRecording(recording);
+}
+
+/**
+ * Restore the dates a recording loses when it goes through JSON
+ */
+export function reviveRecording(recording: SessionRecording): SessionRecording {
+  return {
+    ...recording,
+    startedAt: new Date(recording.startedAt),
+    initialElements: recording.initialElements.map(revivePlaced),
+    events: recording.events.map(event => event.kind === 'altar'
+      ? {
+        ...event,
+        data: {
+          added: event.data.added.map(revivePlaced),
+          removed: event.data.removed.map(revivePlaced)
+        }
+      }
+      : event)
+  };
+}
+
+/**
+ * Export a recording and download it as a JSON file
+ */
+export function exportRecordingAsJSON(recording: SessionRecording): void {
+  try {
+    const blob = new Blob([serializeRecordingFile(recording)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${recording.name.replace(/\s+/g, '-')}-${recording.id}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    console.error('Error exporting recording:', error);
+  }
+}
+
+function revivePlaced(element: PlacedElement): PlacedElement {
+  return { ...element, placedAt: new Date(element.placedAt) };
+}
+
+function isRecordedEvent(value: unknown): value is RecordedEvent {
+  const event = value as RecordedEvent | undefined;
+  if (!event || typeof event.at !== 'number' || event.at < 0 || !event.data) return false;
+  if (event.kind === 'altar') {
+    return Array.isArray(event.data.added) && Array.isArray(event.data.removed);
+  }
+  return event.kind === 'collaboration' || event.kind === 'mcp';
+}
@@ -155,7 +155,7 @@ export default defineConfig({
             './src/components/collaboration/CollaborativeCursor.tsx',
             './src/engines/collaboration/collaboration-engine.ts',
             './src/engines/collaboration/webrtc-engine.ts',
-            './src/engines/collaboration/operational-transform.ts'
+            './src/engines/collaboration/altar-crdt.ts'
           ],
           'level3-mcp': [
             './src/engines/mcp-engine.ts',